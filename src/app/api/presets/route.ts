@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { historicalEarthquakes } from '../../../utils/earthquakePresets';
+
+// Historical earthquakes usable as seismicParams for a simulation
+export async function GET() {
+  return NextResponse.json(historicalEarthquakes);
+}
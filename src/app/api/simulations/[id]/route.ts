@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getSimulation } from '../../../../utils/simulationStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Status of a simulation run, with its results once it has completed
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const run = await getSimulation(params.id);
+  if (!run) {
+    return NextResponse.json({ error: `Simulation ${params.id} not found` }, { status: 404 });
+  }
+  return NextResponse.json(run);
+}
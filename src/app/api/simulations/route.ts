@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { parseSimulationConfig } from '../../../utils/simulationReport';
+import { createSimulation } from '../../../utils/simulationStore';
+
+export const runtime = 'nodejs';
+
+// Starts a simulation of the posted configuration and returns its run id
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  let scenario;
+  try {
+    scenario = parseSimulationConfig(body);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid configuration' },
+      { status: 400 }
+    );
+  }
+
+  const includeHistory = (body as { includeHistory?: unknown }).includeHistory === true;
+  const run = await createSimulation(scenario, includeHistory);
+  return NextResponse.json(
+    { id: run.id, status: run.status },
+    { status: 202, headers: { Location: `/api/simulations/${run.id}` } }
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import Link from 'next/link';
+import RunComparison from '../../components/RunComparison';
+
+export default function ComparePage() {
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto py-8 px-4">
+        <header className="mb-6 text-center">
+          <h1 className="text-4xl font-bold mb-3">Compare Scenarios</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
+            Play saved runs side by side and see how their inputs and responses differ
+          </p>
+          <Link href="/" className="mt-2 inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Back to the simulation
+          </Link>
+        </header>
+
+        <RunComparison />
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,34 @@
 
 import { useState, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import SeismicParameterForm, { SeismicParams } from '../components/SeismicParameterForm';
 import BuildingParameterForm, { BuildingParams } from '../components/BuildingParameterForm';
 import StructuralElementForm from '../components/StructuralElementForm';
 import StructuralMaterialsForm, { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
 import SeismicInfo from '../components/SeismicInfo';
 import BuildingAnalysisResults from '../components/BuildingAnalysisResults';
+import ResponseSpectrumChart from '../components/ResponseSpectrumChart';
+import CodeComplianceCheck from '../components/CodeComplianceCheck';
+import ModalAnalysisPanel from '../components/ModalAnalysisPanel';
+import FragilityAnalysisPanel from '../components/FragilityAnalysisPanel';
+import MonteCarloPanel from '../components/MonteCarloPanel';
+import LiquefactionPanel from '../components/LiquefactionPanel';
+import ProtectiveDevicesPanel from '../components/ProtectiveDevicesPanel';
+import SimulationPlaybackControls from '../components/SimulationPlaybackControls';
 // SimulationControls import removed to avoid duplication
-import SimulationProgressIndicator from '../components/SimulationProgressIndicator';
+import EnhancedSimulationProgressIndicator from '../components/EnhancedSimulationProgressIndicator';
 import EnhancedSimulationView from '../components/EnhancedSimulationView';
 import EnhancedSimulationCapabilities from '../components/EnhancedSimulationCapabilities';
-import { DetailedBuildingParams } from '../components/StructuralComponentAnalysis';
+import ProjectFileControls from '../components/ProjectFileControls';
+import ConfigurationManager from '../components/ConfigurationManager';
+import ShareLinkButton from '../components/ShareLinkButton';
+import InteractiveTimelineNavigator, { CustomAnnotation } from '../components/InteractiveTimelineNavigator';
+import StructuralComponentAnalysis, { DetailedBuildingParams, SelectedComponent } from '../components/StructuralComponentAnalysis';
+import { useSimulationRunner } from '../utils/useSimulationRunner';
+import { runAnalysisInWorker } from '../utils/structuralAnalysisClient';
+import { SeismicProject, createProject, getProjectSeismicParams } from '../utils/projectFile';
+import { SHARE_PARAM, SharedScenario, decodeScenario } from '../utils/shareLink';
 
 // Dynamically import the Safe 3D visualizer to avoid server-side rendering issues
 const SafeSimulator = dynamic(() => import('../components/SafeSimulator'), {
@@ -28,13 +45,26 @@ export default function Home() {
   const [seismicParams, setSeismicParams] = useState<SeismicParams | null>(null);
   const [buildingParams, setBuildingParams] = useState<BuildingParams | null>(null);
   const [materialsParams, setMaterialsParams] = useState<StructuralMaterialsParams | null>(null);
+  const [annotations, setAnnotations] = useState<CustomAnnotation[]>([]);
+  // Bumped when a project is opened so the forms start from its parameters
+  const [projectRevision, setProjectRevision] = useState(0);
   
-  // Timer state
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Simulation clock
+  const [runnerState, runner] = useSimulationRunner({ duration: seismicParams?.duration ?? 0 });
+  const elapsedTime = runnerState.time;
+  
+  // Structural analysis running in the worker before playback starts
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
   
   // Render mode state
   const [preferBasicMode, setPreferBasicMode] = useState(false);
+  // Mode shape animated in the 3D view (1-based), or null for the earthquake response
+  const [animatedMode, setAnimatedMode] = useState<number | null>(null);
+  // Frame element selected in the component analysis or the 3D view
+  const [selectedElement, setSelectedElement] = useState<SelectedComponent | null>(null);
 
   // Handle seismic parameter form submission
   const handleSeismicSubmit = (params: SeismicParams) => {
@@ -64,38 +94,78 @@ export default function Home() {
     setMaterialsParams(params);
   };
 
-  // Start the simulation
-  const startSimulation = () => {
-    // Reset timer if already running
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      setElapsedTime(0);
+  // Open a project file, ready to run from the materials step
+  const handleOpenProject = (project: SeismicProject) => {
+    handleStopSimulation();
+    setSeismicParams(getProjectSeismicParams(project));
+    setBuildingParams(project.buildingParams);
+    setMaterialsParams(project.materialsParams);
+    setAnnotations(project.annotations);
+    setProjectRevision(prev => prev + 1);
+    setSimulationStep('materials');
+  };
+
+  // Save the current scenario, with its results once it has been run
+  const handleCreateProject = seismicParams && buildingParams
+    ? (name: string) => createProject({
+        name,
+        seismicParams,
+        buildingParams,
+        materialsParams: materialsParams ?? undefined,
+        annotations,
+        includeResults: simulationStep === 'running'
+      })
+    : null;
+
+  // Start the simulation with the parameters set in the forms, or with a shared scenario
+  const startSimulation = async (scenario?: SharedScenario) => {
+    const seismic = scenario?.seismicParams ?? seismicParams;
+    const building = scenario?.buildingParams ?? buildingParams;
+    const materials = scenario?.materialsParams ?? materialsParams;
+    if (!seismic || !building) return;
+    
+    // Solve the time history in the worker first, cancelling any earlier run
+    analysisControllerRef.current?.abort();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    setAnalysisError(null);
+    setAnalysisProgress(0);
+    
+    try {
+      await runAnalysisInWorker(building, seismic, materials ?? undefined, {
+        signal: controller.signal,
+        onProgress: progress => setAnalysisProgress(progress.step / progress.steps)
+      });
+    } catch (error) {
+      // Cancellation is not an error
+      if (!controller.signal.aborted) {
+        setAnalysisError(error instanceof Error ? error.message : 'Structural analysis failed');
+      }
+      return;
+    } finally {
+      if (analysisControllerRef.current === controller) {
+        analysisControllerRef.current = null;
+        setAnalysisProgress(null);
+      }
     }
     
     // Activate simulation
     setSimulationStep('running');
     
-    // Start timer
-    timerRef.current = setInterval(() => {
-      setElapsedTime(prev => {
-        const newTime = prev + 0.1;
-        // Stop simulation when duration is reached
-        if (seismicParams && newTime >= seismicParams.duration) {
-          if (timerRef.current) clearInterval(timerRef.current);
-          return seismicParams.duration;
-        }
-        return newTime;
-      });
-    }, 100);
+    // Run the clock from the start of the record
+    runner.seek(0);
+    runner.play();
   };
 
   // Handle stopping the simulation
   const handleStopSimulation = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    // Just stop the timer without changing the step
+    // Cancel an analysis still in progress
+    analysisControllerRef.current?.abort();
+    analysisControllerRef.current = null;
+    setAnalysisProgress(null);
+    
+    // Just stop the clock without changing the step
+    runner.pause();
   };
   
   // Handle restarting the simulation with new parameters
@@ -104,6 +174,7 @@ export default function Home() {
     setSeismicParams(null);
     setBuildingParams(null);
     setMaterialsParams(null);
+    setAnnotations([]);
   };
   
   // Handle stopping the simulation and returning to setup
@@ -114,36 +185,31 @@ export default function Home() {
   
   // Handle replaying the simulation
   const handleReplaySimulation = () => {
-    // Stop current timer if running
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    
-    // Reset elapsed time
-    setElapsedTime(0);
-    
-    // Restart the timer
-    timerRef.current = setInterval(() => {
-      setElapsedTime(prev => {
-        const newTime = prev + 0.1;
-        // Stop simulation when duration is reached
-        if (seismicParams && newTime >= seismicParams.duration) {
-          if (timerRef.current) clearInterval(timerRef.current);
-          return seismicParams.duration;
-        }
-        return newTime;
-      });
-    }, 100);
+    runner.seek(0);
+    runner.play();
   };
 
-  // Clean up timer when component unmounts
+  // Open a scenario shared as a link straight into the simulation
   useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
+    const sharedScenario = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+    if (!sharedScenario) return;
+    
+    decodeScenario(sharedScenario)
+      .then(scenario => {
+        setSeismicParams(scenario.seismicParams);
+        setBuildingParams(scenario.buildingParams);
+        setMaterialsParams(scenario.materialsParams);
+        setShareLinkError(null);
+        // Analysis progress and errors show on the last setup step
+        setSimulationStep('materials');
+        return startSimulation(scenario);
+      })
+      .catch(error => setShareLinkError(error instanceof Error ? error.message : 'Could not open the shared scenario'));
+  }, []);
+
+  // Cancel an analysis still in progress when the page goes away
+  useEffect(() => {
+    return () => analysisControllerRef.current?.abort();
   }, []);
 
   return (
@@ -154,12 +220,24 @@ export default function Home() {
           <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
             Interactive 3D visualization of building response to seismic activity with real-time structural analysis
           </p>
+          <div className="mt-2 flex justify-center gap-4 text-sm">
+            <Link href="/compare" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Compare saved runs
+            </Link>
+            <Link href="/sweep" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Parametric sweep
+            </Link>
+          </div>
         </header>
         
         {/* Progress Indicator */}
-        <SimulationProgressIndicator 
+        <EnhancedSimulationProgressIndicator 
           currentStep={simulationStep} 
+          analysisProgress={analysisProgress}
+          onCancelAnalysis={handleStopSimulation}
           onStepClick={(step) => {
+            if (step === 'results') return;
+            
             // Only allow navigation to previous steps or current step
             const currentStepIndex = ['seismic', 'building', 'structural', 'materials', 'running'].indexOf(simulationStep);
             const targetStepIndex = ['seismic', 'building', 'structural', 'materials', 'running'].indexOf(step);
@@ -170,11 +248,23 @@ export default function Home() {
           }}
         />
 
+        {shareLinkError && (
+          <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-300" role="alert">
+            {shareLinkError}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left panel: Parameter forms or analysis results */}
           <div className="lg:col-span-1 space-y-6">
+            <ProjectFileControls createProject={handleCreateProject} onOpenProject={handleOpenProject} />
+            
             {simulationStep === 'seismic' && (
-              <SeismicParameterForm onSubmit={handleSeismicSubmit} />
+              <SeismicParameterForm
+                key={projectRevision}
+                onSubmit={handleSeismicSubmit}
+                initialParams={seismicParams ?? undefined}
+              />
             )}
             
             {simulationStep === 'building' && seismicParams && (
@@ -193,7 +283,11 @@ export default function Home() {
                   </button>
                 </div>
                 
-                <BuildingParameterForm onSubmit={handleBuildingSubmit} />
+                <BuildingParameterForm
+                  key={projectRevision}
+                  onSubmit={handleBuildingSubmit}
+                  initialParams={buildingParams ?? undefined}
+                />
               </>
             )}
             
@@ -228,6 +322,7 @@ export default function Home() {
                 </div>
                 
                 <StructuralElementForm 
+                  key={projectRevision}
                   onSubmit={handleStructuralElementSubmit} 
                   initialParams={buildingParams.structuralComponents}
                 />
@@ -279,13 +374,20 @@ export default function Home() {
                 </div>
                 
                 <StructuralMaterialsForm 
+                  key={projectRevision}
                   onSubmit={handleMaterialsSubmit} 
+                  initialParams={materialsParams ?? undefined}
                   activeMaterial={buildingParams.materialType}
+                  siteClass={seismicParams.site?.siteClass}
                 />
                 
                 <div className="mt-6">
+                  {analysisError && (
+                    <p className="mb-2 text-sm text-red-600 dark:text-red-400">{analysisError}</p>
+                  )}
                   <button
-                    onClick={startSimulation}
+                    onClick={() => startSimulation()}
+                    disabled={analysisProgress !== null}
                     className="w-full bg-primary hover:bg-primary-dark text-white font-medium py-3 px-4 rounded-md transition-colors flex items-center justify-center gap-2 shadow-md hover:shadow-lg transform hover:-translate-y-1 duration-300"
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -301,10 +403,80 @@ export default function Home() {
               <div className="space-y-6">
                 <SeismicInfo params={seismicParams} elapsedTime={elapsedTime} />
                 
+                <SimulationPlaybackControls state={runnerState} runner={runner} />
+                
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                  <InteractiveTimelineNavigator
+                    currentTime={elapsedTime}
+                    duration={seismicParams.duration}
+                    seismicParams={seismicParams}
+                    onTimeChange={runner.seek}
+                    onPlayPause={() => (runnerState.isPlaying ? runner.pause() : runner.play())}
+                    isPlaying={runnerState.isPlaying}
+                    annotations={annotations}
+                    onAnnotationsChange={setAnnotations}
+                  />
+                </div>
+                
                 <BuildingAnalysisResults
                   buildingParams={buildingParams}
                   seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                  elapsedTime={elapsedTime}
+                />
+                
+                <ProtectiveDevicesPanel
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                  elapsedTime={elapsedTime}
+                />
+                
+                <StructuralComponentAnalysis
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
                   elapsedTime={elapsedTime}
+                  selectedComponent={selectedElement ?? undefined}
+                  onSelectComponent={setSelectedElement}
+                />
+                
+                <LiquefactionPanel
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                  elapsedTime={elapsedTime}
+                />
+                
+                <ResponseSpectrumChart
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                />
+                
+                <CodeComplianceCheck
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                />
+                
+                <ModalAnalysisPanel
+                  buildingParams={buildingParams}
+                  materialsParams={materialsParams}
+                  animatedMode={animatedMode}
+                  onAnimateMode={setAnimatedMode}
+                />
+                
+                <FragilityAnalysisPanel
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
+                />
+                
+                <MonteCarloPanel
+                  buildingParams={buildingParams}
+                  seismicParams={seismicParams}
+                  materialsParams={materialsParams}
                 />
                 
                 {/* SimulationControls removed to avoid duplication with controls in SafeSimulator */}
@@ -332,6 +504,12 @@ export default function Home() {
                     Replay Simulation
                   </button>
                   
+                  <ShareLinkButton
+                    seismicParams={seismicParams}
+                    buildingParams={buildingParams}
+                    materialsParams={materialsParams}
+                  />
+                  
                   <button
                     onClick={handleReturnToSetup}
                     className="w-full bg-danger hover:bg-danger-dark text-white font-medium py-3 px-4 rounded-md transition-colors flex items-center justify-center gap-2 shadow-md"
@@ -354,6 +532,15 @@ export default function Home() {
                 </div>
               </div>
             )}
+            
+            <ConfigurationManager
+              currentBuildingParams={buildingParams}
+              currentSeismicParams={seismicParams}
+              currentMaterialParams={materialsParams}
+              currentAnnotations={annotations}
+              includeResults={simulationStep === 'running'}
+              onLoadConfiguration={(_config, project) => handleOpenProject(project)}
+            />
           </div>
 
           {/* Right panel: 3D visualization */}
@@ -401,6 +588,9 @@ export default function Home() {
                     seismicParams={seismicParams}
                     buildingParams={buildingParams}
                     elapsedTime={elapsedTime}
+                    animatedMode={simulationStep === 'running' ? animatedMode : null}
+                    selectedElement={simulationStep === 'running' ? selectedElement : null}
+                    onSelectElement={simulationStep === 'running' ? setSelectedElement : undefined}
                     preferBasicMode={preferBasicMode}
                     onStop={simulationStep === 'running' ? handleStopSimulation : undefined}
                     onRestart={simulationStep === 'running' ? handleReplaySimulation : undefined}
@@ -0,0 +1,123 @@
+/**
+ * Headless Simulation CLI
+ *
+ * Runs saved simulation configurations through the analysis engine without a
+ * browser and writes the results as JSON or CSV.
+ *
+ *   npm run simulate -- <config.json | -> [--format json|csv] [--history] [--output <file>]
+ *
+ * Exit codes: 0 when every scenario stands, 3 when any scenario collapses,
+ * 2 for invalid arguments or configurations and 1 for unexpected failures.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { runSimulation } from '../utils/simulationEngine';
+import {
+  createSimulationReport,
+  parseSimulationConfigs,
+  reportsToHistoryCsv,
+  reportsToSummaryCsv
+} from '../utils/simulationReport';
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_INVALID_INPUT = 2;
+const EXIT_COLLAPSE = 3;
+
+const usage = `Usage: npm run simulate -- <config.json | -> [options]
+
+Runs the configurations in a JSON file (one saved configuration or a list of
+them, with buildingParams, seismicParams and materialParams) and writes the
+results to stdout or a file.
+
+Options:
+  -f, --format <json|csv>  Output format (default: json)
+      --history            Include the time histories (CSV: one row per time step)
+  -o, --output <file>      Write to a file instead of stdout
+  -h, --help               Show this help
+
+Exit codes:
+  0  every scenario stands
+  1  unexpected failure
+  2  invalid arguments or configuration
+  3  at least one scenario collapsed`;
+
+// Input problems the user can fix, reported with the invalid input exit code
+class InputError extends Error {}
+
+const readInput = (path: string): string => {
+  try {
+    return readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch (error) {
+    throw new InputError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const parseCliArgs = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    format: { type: 'string', short: 'f' },
+    history: { type: 'boolean' },
+    output: { type: 'string', short: 'o' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
+
+const main = (argv: string[]): number => {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(usage);
+    return EXIT_INVALID_INPUT;
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(usage);
+    return EXIT_OK;
+  }
+
+  try {
+    const format = values.format ?? 'json';
+    if (format !== 'json' && format !== 'csv') throw new InputError(`Unknown format: ${format}`);
+    if (positionals.length !== 1) throw new InputError('Expected exactly one configuration file');
+
+    let scenarios;
+    try {
+      scenarios = parseSimulationConfigs(readInput(positionals[0]));
+    } catch (error) {
+      throw error instanceof InputError ? error : new InputError(error instanceof Error ? error.message : String(error));
+    }
+
+    const includeHistory = values.history ?? false;
+    const reports = scenarios.map(scenario => {
+      const run = runSimulation(scenario.buildingParams, scenario.seismicParams, scenario.materialParams);
+      return createSimulationReport(scenario, run, includeHistory);
+    });
+
+    const output = format === 'csv'
+      ? (includeHistory ? reportsToHistoryCsv(reports) : reportsToSummaryCsv(reports))
+      : JSON.stringify(reports, null, 2) + '\n';
+
+    if (values.output) {
+      writeFileSync(values.output, output);
+    } else {
+      process.stdout.write(output);
+    }
+
+    const collapsed = reports.filter(report => report.summary.hasCollapsed);
+    collapsed.forEach(report => {
+      console.error(`${report.name}: collapsed at ${report.summary.collapseTime?.toFixed(2)} s`);
+    });
+    return collapsed.length > 0 ? EXIT_COLLAPSE : EXIT_OK;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return error instanceof InputError ? EXIT_INVALID_INPUT : EXIT_FAILURE;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
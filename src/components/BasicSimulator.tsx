@@ -7,6 +7,19 @@ import { BuildingParams } from "./BuildingParameterForm";
 import { SeismicParams } from "./SeismicParameterForm";
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
 import { optimizeMesh, isInViewFrustum, applyDistanceBasedLOD } from "../utils/renderOptimization";
+import {
+  COLLAPSE_DURATION,
+  DISPLACEMENT_VISUAL_SCALE,
+  getSimulationState,
+  runSimulation
+} from "../utils/simulationEngine";
+import { useSimulationRunner } from "../utils/useSimulationRunner";
+
+// Slow-motion replay plays at a quarter of real time, from two seconds before
+// the collapse until it has run its course
+const SLOW_MOTION_SPEED = 0.25;
+const SLOW_MOTION_LEAD_TIME = 2;
+const SLOW_MOTION_WINDOW = SLOW_MOTION_LEAD_TIME + COLLAPSE_DURATION + 1;
 import { Vector3, Euler } from 'three';
 
 // Define types
@@ -84,20 +97,16 @@ function DetailedBuilding({
   depth = 10,
   floors = 5,
   materialType = 'concrete',
-  elapsedTime = 0,
-  magnitude = 5,
-  collapseThreshold = 7.5, // Collapse when magnitude exceeds this
-  showCollapse = false // Override to force collapse for testing
+  displacement = 0,
+  collapseProgress = 0
 }: {
   width?: number;
   height?: number;
   depth?: number;
   floors?: number;
   materialType?: string;
-  elapsedTime?: number;
-  magnitude?: number;
-  collapseThreshold?: number;
-  showCollapse?: boolean;
+  displacement?: number; // Roof sway in scene units
+  collapseProgress?: number; // 0 while standing, 1 once the collapse is complete
 }) {
   // Get building color based on material type
   let buildingColor = '#a0a0a0'; // default (concrete)
@@ -107,17 +116,6 @@ function DetailedBuilding({
     buildingColor = '#8d6e63';
   }
   
-  // Normal earthquake displacement
-  const displacement = Math.sin(elapsedTime * 2) * magnitude * 0.03;
-  
-  // Calculate if building should collapse
-  const shouldCollapse = showCollapse || magnitude > collapseThreshold;
-  
-  // If we're collapsing, calculate collapse progress (0 to 1)
-  // Use a slow-motion effect by making the collapse take 5 seconds
-  const collapseProgress = shouldCollapse ? 
-    Math.min(1, (elapsedTime - 1) / 5) : 0;
-  
   // If not collapsing, just show the regular building with displacement
   if (collapseProgress <= 0) {
     return (
@@ -239,7 +237,8 @@ function SimpleGround() {
 export default function BasicSimulator({
   buildingParams,
   seismicParams,
-  elapsedTime
+  elapsedTime,
+  materialsParams
 }: BasicSimulatorProps) {
   // Camera setup with proper typing
   const cameraPosition: [number, number, number] = [30, 20, 30];
@@ -254,9 +253,13 @@ export default function BasicSimulator({
   // Test collapse state
   const [showCollapse, setShowCollapse] = useState(false);
   
-  // Slow motion replay state
+  // Slow motion replay state, with its own clock
   const [slowMotion, setSlowMotion] = useState(false);
-  const [slowMotionTime, setSlowMotionTime] = useState(0);
+  const [replayState, replayRunner] = useSimulationRunner({
+    duration: seismicParams.duration,
+    speed: SLOW_MOTION_SPEED
+  });
+  const slowMotionTime = replayState.time;
   
   // Ref for the container element to make fullscreen
   const containerRef = useRef<HTMLDivElement>(null);
@@ -306,46 +309,54 @@ export default function BasicSimulator({
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
   
+  // Simulation run shared with the other simulators and the results panel
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const { collapseTime } = run.response;
+  
+  // Replay starts shortly before the collapse (or at the start when testing)
+  const replayStart = !showCollapse && collapseTime !== null
+    ? Math.max(0, collapseTime - SLOW_MOTION_LEAD_TIME)
+    : 0;
+  
   // Handle slow motion replay
   const startSlowMotionReplay = useCallback(() => {
+    replayRunner.seek(replayStart);
+    replayRunner.play();
     setSlowMotion(true);
-    setSlowMotionTime(0);
-  }, []);
+  }, [replayRunner, replayStart]);
   
-  // Update slow motion time
+  // End slow motion once the replay window has played out
   useEffect(() => {
     if (!slowMotion) return;
-    
-    const interval = setInterval(() => {
-      setSlowMotionTime(prev => {
-        const newTime = prev + 0.05; // Very slow increment for dramatic effect
-        if (newTime > 10) { // End slow motion after 10 seconds
-          setSlowMotion(false);
-          return 0;
-        }
-        return newTime;
-      });
-    }, 50); // Update every 50ms
-    
-    return () => clearInterval(interval);
-  }, [slowMotion]);
+    if (!replayState.isPlaying || replayState.time >= replayStart + SLOW_MOTION_WINDOW) {
+      replayRunner.pause();
+      setSlowMotion(false);
+    }
+  }, [slowMotion, replayState, replayStart, replayRunner]);
   
   // Calculate progress percentage
   const progressPercentage = Math.min(100, Math.floor((elapsedTime / seismicParams.duration) * 100));
   
-  // Calculate intensity based on elapsed time and magnitude
-  const currentIntensity = elapsedTime > 0 
-    ? Math.max(0, Math.sin(elapsedTime * 2) * seismicParams.magnitude / 10)
-    : 0;
-    
-  // Determine if building should collapse based on intensity
-  const shouldCollapse = seismicParams.magnitude > 7.5; // Collapse if magnitude > 7.5
-  
-  // Show collapse warning if intense
-  const showCollapseWarning = shouldCollapse && elapsedTime > 1.0;
-  
   // Determine which time to use for rendering
   const renderTime = slowMotion ? slowMotionTime : elapsedTime;
+  
+  // Damage and collapse state at the rendered time
+  const simulationState = useMemo(() => getSimulationState(run, renderTime), [run, renderTime]);
+  
+  // Whether the building collapses at some point in this record
+  const shouldCollapse = collapseTime !== null;
+  
+  // Test collapse forces a collapse starting one second in
+  const collapseProgress = showCollapse
+    ? Math.min(1, Math.max(0, (renderTime - 1) / COLLAPSE_DURATION))
+    : simulationState.collapseProgress;
+  const isCollapsing = showCollapse || simulationState.hasCollapsed;
+  
+  // Warn from one second before the collapse
+  const showCollapseWarning = shouldCollapse && elapsedTime >= (collapseTime ?? 0) - 1;
 
   return (
     <div ref={containerRef} className={`relative w-full h-full ${isFullscreen ? 'bg-black' : ''}`}>
@@ -421,7 +432,7 @@ export default function BasicSimulator({
           <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
           </svg>
-          Building Collapse Imminent
+          {simulationState.hasCollapsed ? 'Structural Collapse' : 'Building Collapse Imminent'}
         </div>
       )}
       
@@ -512,13 +523,13 @@ export default function BasicSimulator({
               </p>
               <p className="flex justify-between gap-4">
                 <span className="text-gray-400">Displacement:</span> 
-                <span className="font-medium">{(currentIntensity * 100).toFixed(1)}cm</span>
+                <span className="font-medium">{(Math.abs(simulationState.roofDisplacement) * 100).toFixed(1)}cm</span>
               </p>
               {/* Display structural integrity status */}
               <p className="flex justify-between gap-4">
                 <span className="text-gray-400">Status:</span> 
-                <span className={`font-medium ${shouldCollapse || showCollapse ? 'text-red-400' : 'text-green-400'}`}>
-                  {shouldCollapse || showCollapse ? 'Critical Failure' : 'Stable'}
+                <span className={`font-medium ${isCollapsing ? 'text-red-400' : simulationState.damageLevel === 'None to Slight' ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {isCollapsing ? 'Critical Failure' : simulationState.damageLevel === 'None to Slight' ? 'Stable' : `${simulationState.damageLevel} Damage`}
                 </span>
               </p>
             </div>
@@ -586,10 +597,8 @@ export default function BasicSimulator({
           depth={buildingParams.depth}
           floors={buildingParams.floors}
           materialType={buildingParams.materialType}
-          elapsedTime={renderTime}
-          magnitude={seismicParams.magnitude}
-          collapseThreshold={7.5}
-          showCollapse={showCollapse}
+          displacement={simulationState.roofDisplacement * DISPLACEMENT_VISUAL_SCALE / 2} // Block sways with mid-height
+          collapseProgress={collapseProgress}
         />
         
         {/* Camera controls */}
@@ -1,196 +1,34 @@
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
-import { useEffect, useState } from 'react';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { useMemo } from 'react';
+import { getFoundationPeaksUntil, sampleHistory } from '../utils/structuralSolver';
+import { getSimulationState, runSimulation } from '../utils/simulationEngine';
+import { GRAVITY, getOutcropMotion } from '../utils/groundMotion';
+import { getSitePeriod } from '../utils/siteResponse';
 
 type BuildingAnalysisResultsProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
   elapsedTime: number;
 };
 
-// Detailed damage assessment by component
-type ComponentDamage = {
-  structural: {
-    columns: { value: number; status: string };
-    beams: { value: number; status: string };
-    slabs: { value: number; status: string };
-    foundation: { value: number; status: string };
-  };
-  nonStructural: {
-    facades: { value: number; status: string };
-    interiorWalls: { value: number; status: string };
-    utilities: { value: number; status: string };
-  };
-};
-
-// Calculate if a building has collapsed based on damage values
-const hasBuildingCollapsed = (
-  magnitude: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string,
-  elapsedTime: number
-) => {
-  // Material vulnerability factor
-  const materialFactor = materialType === 'concrete' ? 0.7 : 
-                         materialType === 'steel' ? 0.8 : 1.3;
-  
-  // Structural integrity factor
-  const structuralFactor = (10 - stiffness) / 10 * (1 / (dampingRatio * 15));
-  
-  // Calculate collapse risk (0-1)
-  const collapseRisk = Math.min(1.0, (magnitude * 0.15 - 0.6) * materialFactor * structuralFactor);
-  
-  // Determine if building has collapsed based on risk and elapsed time
-  // Buildings with high risk collapse sooner in the simulation
-  const collapseThreshold = collapseRisk > 0 ? 4 + (1 - collapseRisk) * 15 : Infinity;
-  
-  return collapseRisk > 0.5 && elapsedTime > collapseThreshold;
-};
-
 export default function BuildingAnalysisResults({
   buildingParams,
   seismicParams,
+  materialsParams,
   elapsedTime
 }: BuildingAnalysisResultsProps) {
-  const {
-    height,
-    floors,
-    stiffness,
-    dampingRatio,
-    materialType
-  } = buildingParams;
-  
-  const { magnitude, depth: seismicDepth, waveVelocity } = seismicParams;
-  
-  const [results, setResults] = useState({
-    maxDisplacement: 0,
-    interStoryDrift: 0,
-    naturalPeriod: 0,
-    structuralResponseFactor: 0,
-    damageLevel: 'None',
-    damageColor: 'green',
-    safetyStatus: 'Safe',
-    recommendedActions: [] as string[],
-    componentDamage: {
-      structural: {
-        columns: { value: 0, status: 'Undamaged' },
-        beams: { value: 0, status: 'Undamaged' },
-        slabs: { value: 0, status: 'Undamaged' },
-        foundation: { value: 0, status: 'Undamaged' },
-      },
-      nonStructural: {
-        facades: { value: 0, status: 'Undamaged' },
-        interiorWalls: { value: 0, status: 'Undamaged' },
-        utilities: { value: 0, status: 'Undamaged' },
-      }
-    } as ComponentDamage,
-    hasCollapsed: false,
-    collapseTime: 0
-  });
+  // Simulation run shared with the simulators showing this scenario
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const { response } = run;
   
-  useEffect(() => {
-    // Check if building has collapsed
-    const hasCollapsed = hasBuildingCollapsed(
-      magnitude, 
-      stiffness, 
-      dampingRatio, 
-      materialType, 
-      elapsedTime
-    );
-    
-    // Record collapse time if building just collapsed
-    const collapseTime = hasCollapsed && !results.hasCollapsed ? elapsedTime : results.collapseTime;
-    
-    // Calculate natural period (seconds) - simplified equation
-    const naturalPeriod = 0.1 * floors;
-    
-    // Maximum displacement at top of building (m) - enhanced for visualization focus
-    const maxDisplacement = calculateMaxDisplacement(
-      height,
-      magnitude,
-      stiffness,
-      dampingRatio,
-      materialType
-    );
-    
-    // Inter-story drift ratio (%) - increases dramatically during collapse
-    const interStoryDrift = hasCollapsed 
-      ? Math.min(20, (maxDisplacement / height) * 100 * (1 + (elapsedTime - collapseTime) / 2))
-      : (maxDisplacement / height) * 100;
-    
-    // Structural response factor
-    const structuralResponseFactor = calculateResponseFactor(
-      magnitude,
-      stiffness,
-      dampingRatio,
-      materialType
-    );
-    
-    // Determine damage level
-    const damage = hasCollapsed 
-      ? { level: 'Complete Collapse', color: 'red' }
-      : determineDamageLevel(
-          interStoryDrift,
-          structuralResponseFactor,
-          materialType
-        );
-    
-    // Component damage assessment - exaggerate during collapse
-    const componentDamage = hasCollapsed 
-      ? generateCollapseComponentDamage(elapsedTime, collapseTime)
-      : assessComponentDamage(
-          magnitude,
-          interStoryDrift,
-          structuralResponseFactor,
-          height,
-          floors,
-          stiffness,
-          dampingRatio,
-          materialType
-        );
-    
-    // Safety assessment
-    const safetyStatus = hasCollapsed 
-      ? 'BUILDING COLLAPSE - EVACUATION REQUIRED'
-      : assessSafety(damage.level, interStoryDrift, componentDamage);
-    
-    // Recommended actions
-    const recommendedActions = hasCollapsed
-      ? getCollapseActions()
-      : getRecommendedActions(
-          damage.level,
-          materialType,
-          interStoryDrift,
-          componentDamage
-        );
-    
-    setResults({
-      maxDisplacement,
-      interStoryDrift,
-      naturalPeriod,
-      structuralResponseFactor,
-      damageLevel: damage.level,
-      damageColor: damage.color,
-      safetyStatus,
-      recommendedActions,
-      componentDamage,
-      hasCollapsed,
-      collapseTime
-    });
-  }, [
-    height,
-    floors,
-    magnitude,
-    stiffness,
-    dampingRatio,
-    materialType,
-    seismicDepth,
-    waveVelocity,
-    elapsedTime,
-    results.hasCollapsed,
-    results.collapseTime
-  ]);
+  // Damage, collapse and safety state at the current time
+  const results = useMemo(() => getSimulationState(run, elapsedTime), [run, elapsedTime]);
   
   // Get color for damage percentage
   const getDamageColor = (damageValue: number) => {
@@ -201,50 +39,18 @@ export default function BuildingAnalysisResults({
     return 'text-red-500';
   };
   
-  // Generate collapse-specific actions
-  const getCollapseActions = (): string[] => {
-    return [
-      'IMMEDIATE EVACUATION - Building has structurally collapsed',
-      'Contact emergency services and structural engineers',
-      'Establish safety perimeter around the building',
-      'Account for all building occupants',
-      'Do not attempt to enter the building under any circumstances'
-    ];
-  };
+  // Roof displacement over the last two seconds, normalized by its peak
+  const roofHistory = response.displacement[response.displacement.length - 1];
+  const roofPeak = Math.max(response.peaks.roofDisplacement, 1e-9);
+  const recentRoofSway = [...Array(20)].map((_, i) =>
+    sampleHistory(response, roofHistory, elapsedTime - (19 - i) * 0.1) / roofPeak
+  );
+  const currentSway = recentRoofSway[recentRoofSway.length - 1];
   
-  // Generate component damage data for collapse state
-  const generateCollapseComponentDamage = (
-    currentTime: number, 
-    collapseStartTime: number
-  ): ComponentDamage => {
-    // Calculate progression of collapse (0-1)
-    const progressFactor = Math.min(1, (currentTime - collapseStartTime) / 3);
-    
-    // Start with critical columns, then beams, then slabs
-    const columnDamage = Math.min(100, 80 + progressFactor * 20);
-    const beamDamage = Math.min(100, 75 + progressFactor * 25);
-    const slabDamage = Math.min(100, 70 + progressFactor * 30);
-    const foundationDamage = Math.min(100, 60 + progressFactor * 40);
-    
-    // Non-structural elements also critically damaged
-    const facadeDamage = Math.min(100, 90 + progressFactor * 10);
-    const wallDamage = Math.min(100, 85 + progressFactor * 15);
-    const utilityDamage = 100; // Utilities immediately compromised
-    
-    return {
-      structural: {
-        columns: { value: columnDamage, status: 'Critical' },
-        beams: { value: beamDamage, status: 'Critical' },
-        slabs: { value: slabDamage, status: 'Critical' },
-        foundation: { value: foundationDamage, status: 'Critical' }
-      },
-      nonStructural: {
-        facades: { value: facadeDamage, status: 'Critical' },
-        interiorWalls: { value: wallDamage, status: 'Critical' },
-        utilities: { value: utilityDamage, status: 'Critical' }
-      }
-    };
-  };
+  // Site amplification and foundation movement up to the current time
+  const site = seismicParams.site;
+  const outcropPga = useMemo(() => getOutcropMotion(seismicParams).peakGroundAcceleration, [seismicParams]);
+  const foundationPeaks = getFoundationPeaksUntil(response, elapsedTime);
   
   return (
     <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3 ${
@@ -278,7 +84,7 @@ export default function BuildingAnalysisResults({
         <div className="text-right">{results.structuralResponseFactor.toFixed(2)}</div>
       </div>
       
-      {/* Building vibration visualization graph - simplified representation */}
+      {/* Building vibration visualization graph - recent roof displacement */}
       <div className="mt-4 pt-2 border-t">
         <div className="font-medium mb-2">Building Oscillation Pattern:</div>
         <div className="h-12 w-full bg-gray-100 dark:bg-gray-700 rounded overflow-hidden relative">
@@ -290,11 +96,11 @@ export default function BuildingAnalysisResults({
             const heightFactor = results.hasCollapsed 
               ? Math.abs(Math.sin((i / 20) * Math.PI * 6 + elapsedTime * 5) * 
                   Math.cos(i * 0.7 + elapsedTime * 3)) 
-              : Math.abs(Math.sin((i / 20) * Math.PI * 4 + elapsedTime * 3));
+              : Math.abs(recentRoofSway[i]) * 0.5;
               
             const position = results.hasCollapsed
               ? 50 - (Math.sin((i / 20) * Math.PI * 4 + elapsedTime * 3) > 0 ? 0 : Math.abs(Math.sin((i / 20) * Math.PI * 4 + elapsedTime * 3)) * 50)
-              : Math.sin((i / 20) * Math.PI * 4 + elapsedTime * 3) > 0 ? 50 : 50 - Math.abs(Math.sin((i / 20) * Math.PI * 4 + elapsedTime * 3)) * 50;
+              : recentRoofSway[i] > 0 ? 50 : 50 - Math.abs(recentRoofSway[i]) * 50;
             
             return (
               <div 
@@ -329,11 +135,11 @@ export default function BuildingAnalysisResults({
           {/* Deformed building shape */}
           <div className="absolute bg-opacity-30 dark:bg-opacity-30"
               style={{
-                left: `${30 + (results.hasCollapsed ? (Math.sin(elapsedTime * 3) * 15) : (Math.sin(elapsedTime * 2) * results.interStoryDrift))}%`,
+                left: `${30 + (results.hasCollapsed ? (Math.sin(elapsedTime * 3) * 15) : (currentSway * results.interStoryDrift))}%`,
                 width: '40%',
                 top: `${10 + (results.hasCollapsed ? 20 : 0)}%`,
                 height: `${80 - (results.hasCollapsed ? 20 : 0)}%`,
-                transform: `skew(${results.hasCollapsed ? Math.sin(elapsedTime * 5) * 30 : Math.sin(elapsedTime * 2) * results.interStoryDrift}deg)`,
+                transform: `skew(${results.hasCollapsed ? Math.sin(elapsedTime * 5) * 30 : currentSway * results.interStoryDrift}deg)`,
                 backgroundColor: results.hasCollapsed ? 'rgba(239, 68, 68, 0.5)' : 'rgba(59, 130, 246, 0.5)',
                 transition: 'all 0.3s ease'
               }}>
@@ -347,7 +153,7 @@ export default function BuildingAnalysisResults({
                   transform: `translateY(-50%) rotate(${
                     results.hasCollapsed 
                       ? Math.sin(elapsedTime * 3 + i * 0.5) * 10 
-                      : Math.sin(elapsedTime * 2 + i * 0.5) * results.interStoryDrift * 0.2
+                      : currentSway * results.interStoryDrift * 0.2
                   }deg)`,
                   opacity: results.hasCollapsed && i > 3 ? 0.3 : 0.8
                 }}>
@@ -361,7 +167,7 @@ export default function BuildingAnalysisResults({
                   left: `${30 + i * 10}%`,
                   transform: results.hasCollapsed 
                     ? `skew(${Math.sin(elapsedTime * 4 + i * 0.7) * 20}deg, ${Math.sin(elapsedTime * 3 + i * 0.5) * 15}deg)` 
-                    : `skew(${Math.sin(elapsedTime * 2 + i * 0.5) * results.interStoryDrift * 0.3}deg)`
+                    : `skew(${currentSway * results.interStoryDrift * 0.3}deg)`
                 }}>
             </div>
           ))}
@@ -464,6 +270,61 @@ export default function BuildingAnalysisResults({
         </div>
       </div>
       
+      {/* Site soil and foundation springs */}
+      {site && response.model.foundation && response.foundation && foundationPeaks && (
+        <div className="mt-4 pt-2 border-t">
+          <div className="font-medium mb-2">Site & Foundation:</div>
+          <div className="ml-2 grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+            <div>Site Class:</div>
+            <div>
+              {site.siteClass} (Vs {site.shearWaveVelocity} m/s
+              {getSitePeriod(site) > 0 ? `, site period ${getSitePeriod(site).toFixed(2)} s` : ''})
+            </div>
+            
+            <div>PGA Rock / Surface:</div>
+            <div>
+              {(outcropPga / GRAVITY).toFixed(3)} g / {(response.groundMotion.peakGroundAcceleration / GRAVITY).toFixed(3)} g
+              {outcropPga > 0 && ` (×${(response.groundMotion.peakGroundAcceleration / outcropPga).toFixed(2)})`}
+            </div>
+            
+            <div>Period Fixed / Flexible Base:</div>
+            <div>
+              {response.model.fundamentalPeriod.toFixed(2)} s / {response.model.foundation.period.toFixed(2)} s
+            </div>
+            
+            <div>Foundation Sway:</div>
+            <div>{(foundationPeaks.sway * 1000).toFixed(1)} mm</div>
+            
+            <div>Foundation Rocking:</div>
+            <div>{(foundationPeaks.rocking * 1000).toFixed(3)} mrad</div>
+            
+            <div>Static Settlement:</div>
+            <div>{(response.foundation.staticSettlement * 1000).toFixed(1)} mm</div>
+            
+            <div>Edge Settlement:</div>
+            <div>{(foundationPeaks.edgeSettlement * 1000).toFixed(1)} mm</div>
+          </div>
+        </div>
+      )}
+      
+      {/* Damage states reached so far, story by story */}
+      {results.failureSequence.length > 0 && (
+        <div className="mt-4 pt-2 border-t">
+          <div className="font-medium mb-2">Failure Sequence:</div>
+          <ol className="text-xs space-y-1 max-h-32 overflow-y-auto">
+            {results.failureSequence.map((event, index) => (
+              <li
+                key={index}
+                className={event.state === 'collapse' || event.state === 'complete' ? 'text-red-500' : ''}
+              >
+                <span className="font-mono mr-2">{event.time.toFixed(2)}s</span>
+                {event.description}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       <div className="mt-4 pt-2 border-t">
         <div className="font-medium mb-2">Recommended Actions:</div>
         <ul className="list-disc list-inside text-sm space-y-1">
@@ -476,259 +337,3 @@ export default function BuildingAnalysisResults({
   );
 }
 
-// Helper functions for calculations
-
-function calculateMaxDisplacement(
-  height: number,
-  magnitude: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string
-): number {
-  // Simplified equation for max displacement
-  // Higher magnitude, height and lower stiffness increase displacement
-  const materialFactor = materialType === 'concrete' ? 0.8 : 
-                         materialType === 'steel' ? 1.0 : 1.5;
-  
-  return (magnitude * height * materialFactor) / (stiffness * 20 * dampingRatio * 10);
-}
-
-function calculateResponseFactor(
-  magnitude: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string
-): number {
-  // Response factor indicates how much the building amplifies ground motion
-  const materialFactor = materialType === 'concrete' ? 0.9 : 
-                         materialType === 'steel' ? 1.1 : 1.4;
-  
-  return (magnitude * materialFactor) / (stiffness * dampingRatio * 5);
-}
-
-function determineDamageLevel(
-  interStoryDrift: number,
-  responseFactor: number,
-  materialType: string
-): { level: string; color: string } {
-  // Damage thresholds based on inter-story drift (%)
-  let threshold1, threshold2, threshold3;
-  
-  if (materialType === 'concrete') {
-    threshold1 = 0.5;
-    threshold2 = 1.0;
-    threshold3 = 2.0;
-  } else if (materialType === 'steel') {
-    threshold1 = 0.7;
-    threshold2 = 1.5;
-    threshold3 = 2.5;
-  } else { // wood
-    threshold1 = 0.4;
-    threshold2 = 0.8;
-    threshold3 = 1.5;
-  }
-  
-  // Adjust thresholds based on response factor
-  threshold1 *= (1 / responseFactor);
-  threshold2 *= (1 / responseFactor);
-  threshold3 *= (1 / responseFactor);
-  
-  if (interStoryDrift < threshold1) {
-    return { level: 'None to Slight', color: 'green' };
-  } else if (interStoryDrift < threshold2) {
-    return { level: 'Moderate', color: 'yellow' };
-  } else if (interStoryDrift < threshold3) {
-    return { level: 'Extensive', color: 'orange' };
-  } else {
-    return { level: 'Complete', color: 'red' };
-  }
-}
-
-function assessComponentDamage(
-  magnitude: number,
-  interStoryDrift: number,
-  responseFactor: number,
-  height: number,
-  floors: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string
-): ComponentDamage {
-  // Base damage factors
-  const baseDamageFactor = magnitude * responseFactor * 10;
-  
-  // Material vulnerability factors
-  let materialFactors = {
-    columns: 1.0,
-    beams: 1.0,
-    slabs: 1.0,
-    foundation: 1.0
-  };
-  
-  if (materialType === 'concrete') {
-    materialFactors = {
-      columns: 0.8,
-      beams: 0.9,
-      slabs: 0.75,
-      foundation: 0.6
-    };
-  } else if (materialType === 'steel') {
-    materialFactors = {
-      columns: 0.7,
-      beams: 0.8,
-      slabs: 0.85,
-      foundation: 0.7
-    };
-  } else { // wood
-    materialFactors = {
-      columns: 1.2,
-      beams: 1.1,
-      slabs: 1.0,
-      foundation: 0.9
-    };
-  }
-  
-  // Stiffness influence (inverse relationship - higher stiffness means less damage)
-  const stiffnessFactor = (11 - stiffness) / 5;
-  
-  // Damping influence (inverse relationship - higher damping means less damage)
-  const dampingFactor = 0.05 / dampingRatio;
-  
-  // Calculate damage percentages
-  const calculateDamagePercent = (baseFactor: number, heightFactor: number = 1): number => {
-    return Math.min(100, Math.max(0, baseDamageFactor * baseFactor * stiffnessFactor * dampingFactor * heightFactor));
-  };
-  
-  // Calculate structural damage
-  const columnDamage = calculateDamagePercent(materialFactors.columns, 1.2);
-  const beamDamage = calculateDamagePercent(materialFactors.beams, 1.0);
-  const slabDamage = calculateDamagePercent(materialFactors.slabs, 0.8);
-  const foundationDamage = calculateDamagePercent(materialFactors.foundation, 0.7);
-  
-  // Calculate non-structural damage
-  // Non-structural elements are often more vulnerable but less critical
-  const facadeDamage = calculateDamagePercent(1.3, 1.0);
-  const interiorWallDamage = calculateDamagePercent(1.2, 0.9);
-  const utilitiesDamage = calculateDamagePercent(1.4, 0.8);
-  
-  // Helper to determine damage status
-  const getDamageStatus = (damagePercent: number): string => {
-    if (damagePercent < 10) return 'Undamaged';
-    if (damagePercent < 25) return 'Minor';
-    if (damagePercent < 50) return 'Moderate';
-    if (damagePercent < 75) return 'Severe';
-    return 'Critical';
-  };
-  
-  // Compile results
-  return {
-    structural: {
-      columns: { value: columnDamage, status: getDamageStatus(columnDamage) },
-      beams: { value: beamDamage, status: getDamageStatus(beamDamage) },
-      slabs: { value: slabDamage, status: getDamageStatus(slabDamage) },
-      foundation: { value: foundationDamage, status: getDamageStatus(foundationDamage) }
-    },
-    nonStructural: {
-      facades: { value: facadeDamage, status: getDamageStatus(facadeDamage) },
-      interiorWalls: { value: interiorWallDamage, status: getDamageStatus(interiorWallDamage) },
-      utilities: { value: utilitiesDamage, status: getDamageStatus(utilitiesDamage) }
-    }
-  };
-}
-
-function assessSafety(
-  damageLevel: string, 
-  interStoryDrift: number,
-  componentDamage: ComponentDamage
-): string {
-  // Check for critical structural elements
-  if (componentDamage.structural.columns.status === 'Critical' ||
-      componentDamage.structural.foundation.status === 'Critical') {
-    return 'Unsafe - Immediate Evacuation Required';
-  }
-  
-  if (componentDamage.structural.columns.status === 'Severe' ||
-      componentDamage.structural.beams.status === 'Severe') {
-    return 'Unsafe - Evacuation Recommended';
-  }
-  
-  if (damageLevel === 'None to Slight') {
-    return 'Safe';
-  } else if (damageLevel === 'Moderate') {
-    return 'Caution - Inspection Required';
-  } else {
-    return 'Unsafe - Evacuation Recommended';
-  }
-}
-
-function getRecommendedActions(
-  damageLevel: string,
-  materialType: string,
-  interStoryDrift: number,
-  componentDamage: ComponentDamage
-): string[] {
-  const actions = [];
-  
-  // Critical column damage
-  if (componentDamage.structural.columns.status === 'Critical') {
-    actions.push('IMMEDIATE EVACUATION - Risk of structural collapse');
-    actions.push('Emergency shoring of compromised columns');
-  }
-  
-  // Severe column/beam damage
-  else if (componentDamage.structural.columns.status === 'Severe' || 
-           componentDamage.structural.beams.status === 'Severe') {
-    actions.push('Evacuation recommended until structural assessment');
-    actions.push('Detailed engineering evaluation of load path integrity');
-    
-    if (materialType === 'concrete') {
-      actions.push('Inspect for concrete spalling and exposed rebar');
-    } else if (materialType === 'steel') {
-      actions.push('Inspect for buckling, connection failure, and weld fractures');
-    } else {
-      actions.push('Inspect for member splitting, connection failure, and joint displacement');
-    }
-  }
-  
-  // Moderate damage actions
-  else if (damageLevel === 'Moderate') {
-    actions.push('Structural engineering inspection required');
-    actions.push('Temporary evacuation may be necessary during inspection');
-    
-    if (componentDamage.structural.foundation.status === 'Moderate' || 
-        componentDamage.structural.foundation.status === 'Severe') {
-      actions.push('Foundation inspection for settlement and cracking');
-    }
-    
-    if (materialType === 'concrete') {
-      actions.push('Check for concrete cracking and rebar exposure');
-    } else if (materialType === 'steel') {
-      actions.push('Inspect steel connections and welds');
-    } else {
-      actions.push('Examine wood joints and connections');
-    }
-  }
-  
-  // Minor damage actions
-  else if (damageLevel === 'None to Slight') {
-    actions.push('Visual inspection of structural elements');
-    actions.push('Check for non-structural damage');
-    
-    if (componentDamage.nonStructural.utilities.status === 'Moderate' || 
-        componentDamage.nonStructural.utilities.status === 'Severe') {
-      actions.push('Inspect utility systems for damage or leaks');
-    }
-  }
-  
-  // Additional actions based on component damage
-  if (componentDamage.nonStructural.facades.status === 'Severe' || 
-      componentDamage.nonStructural.facades.status === 'Critical') {
-    actions.push('Secure or remove damaged facade elements to prevent falling hazards');
-  }
-  
-  if (interStoryDrift > 2.5) {
-    actions.push('Residual drift assessment before reoccupancy');
-  }
-  
-  return actions;
-} 
\ No newline at end of file
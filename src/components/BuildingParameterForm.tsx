@@ -1,6 +1,18 @@
-import { useState, FormEvent } from 'react';
+import { useState, useMemo, FormEvent } from 'react';
 import StructuralElementForm from './StructuralElementForm';
 import { DetailedBuildingParams } from './StructuralComponentAnalysis';
+import { FieldError } from './ui/FormComponents';
+import { hasErrors, validateBuildingParams } from '../utils/paramSchemas';
+import { buildShearBuildingModel } from '../utils/structuralSolver';
+import { FloorProperties, OPEN_STORY_STIFFNESS_FACTOR, getFloorProperties } from '../utils/buildingGeometry';
+import {
+  ProtectiveDevices,
+  defaultFrictionPendulums,
+  defaultLeadRubberBearings,
+  defaultTunedMassDamper,
+  defaultViscousDampers,
+  getOptimalTuning
+} from '../utils/protectiveDevices';
 
 export type BuildingParams = DetailedBuildingParams & {
   height: number;
@@ -10,6 +22,41 @@ export type BuildingParams = DetailedBuildingParams & {
   stiffness: number; // Building stiffness factor (1-10)
   dampingRatio: number; // Structural damping (0.01-0.1)
   materialType: 'concrete' | 'steel' | 'wood';
+  protectiveDevices?: ProtectiveDevices; // base isolation and supplemental damping, none when absent
+  floorProperties?: FloorProperties[]; // one row per floor, floor 1 first; every floor alike when absent
+};
+
+type IsolationType = 'none' | 'lead-rubber' | 'friction-pendulum';
+
+// Columns of the floor table, in the order they are shown
+const floorFields: { name: keyof FloorProperties; label: string; step: string }[] = [
+  { name: 'height', label: 'Story Height (m)', step: '0.1' },
+  { name: 'width', label: 'Width (m)', step: '1' },
+  { name: 'depth', label: 'Depth (m)', step: '1' },
+  { name: 'massFactor', label: 'Mass Factor', step: '0.1' },
+  { name: 'stiffnessFactor', label: 'Stiffness Factor', step: '0.05' }
+];
+
+// Inputs of each device, in the order they are shown
+const deviceFields: Record<keyof ProtectiveDevices, { name: string; label: string; step: string }[]> = {
+  leadRubberBearings: [
+    { name: 'isolatedPeriod', label: 'Isolated Period (s)', step: '0.1' },
+    { name: 'characteristicStrength', label: 'Characteristic Strength (Q/W)', step: '0.01' },
+    { name: 'yieldDisplacement', label: 'Yield Displacement (m)', step: '0.005' }
+  ],
+  frictionPendulums: [
+    { name: 'radius', label: 'Sliding Surface Radius (m)', step: '0.1' },
+    { name: 'frictionCoefficient', label: 'Friction Coefficient', step: '0.01' }
+  ],
+  viscousDampers: [
+    { name: 'dampingCoefficient', label: 'Damping Coefficient per Story (kN·(s/m)^α)', step: '100' },
+    { name: 'velocityExponent', label: 'Velocity Exponent α', step: '0.05' }
+  ],
+  tunedMassDamper: [
+    { name: 'massRatio', label: 'Mass Ratio', step: '0.005' },
+    { name: 'frequencyRatio', label: 'Frequency Ratio', step: '0.01' },
+    { name: 'dampingRatio', label: 'Damping Ratio', step: '0.01' }
+  ]
 };
 
 const defaultBuildingParams: BuildingParams = {
@@ -54,9 +101,11 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
     ...defaultBuildingParams,
     ...initialParams,
   });
+  const errors = useMemo(() => validateBuildingParams(params), [params]);
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (hasErrors(errors)) return;
     onSubmit(params);
   };
 
@@ -73,6 +122,128 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
     }));
   };
 
+  const devices = params.protectiveDevices ?? {};
+  const isolationType: IsolationType = devices.leadRubberBearings
+    ? 'lead-rubber'
+    : devices.frictionPendulums ? 'friction-pendulum' : 'none';
+
+  // A building without any device carries no device settings
+  const updateDevices = (update: (devices: ProtectiveDevices) => ProtectiveDevices) => {
+    setParams((prev: BuildingParams) => {
+      const next = update({ ...prev.protectiveDevices });
+      return { ...prev, protectiveDevices: Object.values(next).some(Boolean) ? next : undefined };
+    });
+  };
+
+  const handleIsolationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as IsolationType;
+    updateDevices(prev => ({
+      ...prev,
+      leadRubberBearings: type === 'lead-rubber' ? { ...defaultLeadRubberBearings } : undefined,
+      frictionPendulums: type === 'friction-pendulum' ? { ...defaultFrictionPendulums } : undefined
+    }));
+  };
+
+  const toggleViscousDampers = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = e.target;
+    updateDevices(prev => ({ ...prev, viscousDampers: checked ? { ...defaultViscousDampers } : undefined }));
+  };
+
+  const toggleTunedMassDamper = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = e.target;
+    updateDevices(prev => ({ ...prev, tunedMassDamper: checked ? { ...defaultTunedMassDamper } : undefined }));
+  };
+
+  const handleDeviceChange = (device: keyof ProtectiveDevices, e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    updateDevices(prev => {
+      const current = prev[device] as Record<string, number> | undefined;
+      if (!current) return prev;
+      return {
+        ...prev,
+        [device]: { ...current, [name]: value === '' ? '' : isNaN(parseFloat(value)) ? current[name] : parseFloat(value) }
+      };
+    });
+  };
+
+  // Den Hartog's optimum for the current mass ratio
+  const tuneMassDamper = () => {
+    updateDevices(prev => prev.tunedMassDamper ? ({
+      ...prev,
+      tunedMassDamper: { ...prev.tunedMassDamper, ...getOptimalTuning(prev.tunedMassDamper.massRatio) }
+    }) : prev);
+  };
+
+  const renderDeviceFields = (device: keyof ProtectiveDevices) => {
+    const values = devices[device] as Record<string, number> | undefined;
+    if (!values) return null;
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {deviceFields[device].map(field => (
+          <div key={field.name}>
+            <label htmlFor={`${device}-${field.name}`} className="block mb-1 text-sm font-medium">
+              {field.label}
+            </label>
+            <input
+              type="number"
+              id={`${device}-${field.name}`}
+              name={field.name}
+              step={field.step}
+              value={values[field.name]}
+              onChange={e => handleDeviceChange(device, e)}
+              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
+            />
+            <FieldError message={errors[`protectiveDevices.${device}.${field.name}`]} />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // The floor table sets the height and number of floors
+  const updateFloors = (update: (floors: FloorProperties[]) => FloorProperties[]) => {
+    setParams((prev: BuildingParams) => {
+      const floorProperties = update(getFloorProperties(prev));
+      return {
+        ...prev,
+        floorProperties,
+        floors: floorProperties.length,
+        height: parseFloat(floorProperties.reduce((sum, floor) => sum + (Number(floor.height) || 0), 0).toFixed(2))
+      };
+    });
+  };
+
+  const toggleFloorTable = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = e.target;
+    if (checked) {
+      updateFloors(floors => floors.map(floor => ({ ...floor })));
+    } else {
+      setParams((prev: BuildingParams) => ({ ...prev, floorProperties: undefined }));
+    }
+  };
+
+  const handleFloorChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    updateFloors(floors => floors.map((floor, i) => i !== index ? floor : {
+      ...floor,
+      [name]: value === '' ? '' : isNaN(parseFloat(value)) ? floor[name as keyof FloorProperties] : parseFloat(value)
+    }));
+  };
+
+  // A new floor repeats the one below it
+  const addFloor = () => updateFloors(floors => [...floors, { ...floors[floors.length - 1] }]);
+  const removeFloor = (index: number) => updateFloors(floors => floors.filter((_, i) => i !== index));
+  const openGroundStory = () => updateFloors(floors => floors.map((floor, i) =>
+    i === 0 ? { ...floor, stiffnessFactor: OPEN_STORY_STIFFNESS_FACTOR } : floor
+  ));
+
+  // Soft and weak stories do not depend on the material strengths, so the
+  // default materials give the same flags as the analysis
+  const irregularities = useMemo(
+    () => params.floorProperties && !hasErrors(errors) ? buildShearBuildingModel(params).irregularities : null,
+    [params, errors]
+  );
+
   const handleStructuralElementSubmit = (structuralComponents: DetailedBuildingParams['structuralComponents']) => {
     setParams(prev => ({
       ...prev,
@@ -99,8 +270,10 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             step="5"
             value={params.height}
             onChange={handleChange}
+            disabled={!!params.floorProperties}
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
           />
+          <FieldError message={errors.height} />
         </div>
         
         <div>
@@ -118,6 +291,7 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             onChange={handleChange}
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
           />
+          <FieldError message={errors.width} />
         </div>
         
         <div>
@@ -135,6 +309,7 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             onChange={handleChange}
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
           />
+          <FieldError message={errors.depth} />
         </div>
         
         <div>
@@ -150,8 +325,10 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             step="1"
             value={params.floors}
             onChange={handleChange}
+            disabled={!!params.floorProperties}
             className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
           />
+          <FieldError message={errors.floors} />
         </div>
         
         <div>
@@ -169,6 +346,7 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.stiffness} />
           <div className="text-right text-sm">{params.stiffness.toFixed(1)}</div>
         </div>
         
@@ -187,6 +365,7 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.dampingRatio} />
           <div className="text-right text-sm">{params.dampingRatio.toFixed(2)}</div>
         </div>
         
@@ -208,10 +387,185 @@ export default function BuildingParameterForm({ onSubmit, initialParams = {} }:
         </div>
       </div>
       
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-4">
+        <h3 className="text-lg font-semibold">Floor-by-Floor Geometry</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Give each story its own height, plan, mass and stiffness to model setbacks, heavy floors and open ground
+          stories. Mass and stiffness factors scale those of a typical floor; width and depth are the building&apos;s
+          footprint, which every floor must fit within.
+        </p>
+        
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="floorTable"
+            checked={!!params.floorProperties}
+            onChange={toggleFloorTable}
+            className="mr-2 h-5 w-5 accent-primary"
+          />
+          <label htmlFor="floorTable" className="font-medium">
+            Define Floors Individually
+          </label>
+        </div>
+        
+        {params.floorProperties && (
+          <div className="space-y-2">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-1 pr-2">Floor</th>
+                    {floorFields.map(field => (
+                      <th key={field.name} className="py-1 pr-2">{field.label}</th>
+                    ))}
+                    <th className="py-1 pr-2">Irregularity</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {params.floorProperties.map((floor: FloorProperties, index: number) => {
+                    const irregularity = irregularities?.[index];
+                    const flags = [
+                      irregularity?.softStory && (irregularity.softStory === 'extreme' ? 'Extreme soft story' : 'Soft story'),
+                      irregularity?.weakStory && (irregularity.weakStory === 'extreme' ? 'Extreme weak story' : 'Weak story')
+                    ].filter(Boolean);
+                    return (
+                      <tr key={index} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                        <td className="py-1 pr-2 font-medium">{index + 1}</td>
+                        {floorFields.map(field => (
+                          <td key={field.name} className="py-1 pr-2">
+                            <input
+                              type="number"
+                              name={field.name}
+                              aria-label={`Floor ${index + 1} ${field.label}`}
+                              step={field.step}
+                              value={floor[field.name]}
+                              onChange={e => handleFloorChange(index, e)}
+                              className="w-24 px-2 py-1 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
+                            />
+                            <FieldError message={errors[`floorProperties.${index}.${field.name}`]} />
+                          </td>
+                        ))}
+                        <td className={`py-1 pr-2 ${flags.length > 0 ? 'text-red-500 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {flags.length > 0 ? flags.join(', ') : 'None'}
+                        </td>
+                        <td className="py-1">
+                          <button
+                            type="button"
+                            onClick={() => removeFloor(index)}
+                            disabled={params.floorProperties!.length === 1}
+                            className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <FieldError message={errors.floorProperties} />
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={addFloor}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Add Floor
+              </button>
+              <button
+                type="button"
+                onClick={openGroundStory}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Open the Ground Story
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Soft and weak stories follow ASCE 7-10 Table 12.3-2: a soft story has less than 70% of the lateral
+              stiffness of the story above or 80% of the mean of the three above (extreme: 60% and 70%); a weak story
+              has less than 80% of the lateral strength of the story above (extreme: 65%).
+            </p>
+          </div>
+        )}
+      </div>
+      
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-4">
+        <h3 className="text-lg font-semibold">Protective Devices</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Base isolation under the ground floor and supplemental damping, included in the dynamic analysis. Compare
+          against the fixed-base building by turning them off.
+        </p>
+        
+        <div className="space-y-3">
+          <div className="md:w-1/2">
+            <label htmlFor="isolationType" className="block mb-1 font-medium">
+              Base Isolation
+            </label>
+            <select
+              id="isolationType"
+              value={isolationType}
+              onChange={handleIsolationChange}
+              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring focus:border-blue-300"
+            >
+              <option value="none">None (fixed base)</option>
+              <option value="lead-rubber">Lead-Rubber Bearings</option>
+              <option value="friction-pendulum">Friction Pendulum Bearings</option>
+            </select>
+          </div>
+          {renderDeviceFields('leadRubberBearings')}
+          {renderDeviceFields('frictionPendulums')}
+          <FieldError message={errors['protectiveDevices.frictionPendulums']} />
+        </div>
+        
+        <div className="space-y-3">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="viscousDampers"
+              checked={!!devices.viscousDampers}
+              onChange={toggleViscousDampers}
+              className="mr-2 h-5 w-5 accent-primary"
+            />
+            <label htmlFor="viscousDampers" className="font-medium">
+              Viscous Dampers in Every Story
+            </label>
+          </div>
+          {renderDeviceFields('viscousDampers')}
+        </div>
+        
+        <div className="space-y-3">
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="tunedMassDamper"
+              checked={!!devices.tunedMassDamper}
+              onChange={toggleTunedMassDamper}
+              className="mr-2 h-5 w-5 accent-primary"
+            />
+            <label htmlFor="tunedMassDamper" className="font-medium">
+              Tuned Mass Damper on the Roof
+            </label>
+          </div>
+          {renderDeviceFields('tunedMassDamper')}
+          {devices.tunedMassDamper && (
+            <button
+              type="button"
+              onClick={tuneMassDamper}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Use Optimal Tuning for the Mass Ratio
+            </button>
+          )}
+        </div>
+      </div>
+      
       <div className="pt-2">
         <button
           type="submit"
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+          disabled={hasErrors(errors)}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Apply Building Parameters
         </button>
@@ -0,0 +1,128 @@
+import { useMemo } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { GRAVITY } from '../utils/groundMotion';
+import { analyzeStructure } from '../utils/structuralSolver';
+import { computeResponseSpectrum, getSpectrumPeriods } from '../utils/responseSpectrum';
+import {
+  CodeCheck,
+  evaluateCodeCompliance,
+  getDesignSpectrum,
+  getSeismicDesignCriteria
+} from '../utils/designCodes';
+
+type CodeComplianceCheckProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams: StructuralMaterialsParams;
+};
+
+// Format a check value in its display unit
+const formatCheckValue = (check: CodeCheck, value: number) =>
+  check.unit === 'N' ? `${(value / 1000).toFixed(0)} kN` : `${(value * 100).toFixed(2)}%`;
+
+export default function CodeComplianceCheck({
+  buildingParams,
+  seismicParams,
+  materialsParams
+}: CodeComplianceCheckProps) {
+  const criteria = useMemo(
+    () => getSeismicDesignCriteria(materialsParams, seismicParams.site),
+    [materialsParams, seismicParams.site]
+  );
+
+  const response = useMemo(
+    () => analyzeStructure(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+
+  const compliance = useMemo(
+    () => evaluateCodeCompliance(response, materialsParams, criteria),
+    [response, materialsParams, criteria]
+  );
+
+  // Code design spectrum against the 5% damped spectrum of the record
+  const spectra = useMemo(() => {
+    const periods = getSpectrumPeriods(0.02, 5, 60);
+    const design = getDesignSpectrum(compliance.code, criteria);
+    const record = computeResponseSpectrum(response.groundMotion, 0.05, periods);
+    return {
+      periods,
+      design: periods.map(period => design.elastic(period)),
+      record: record.sa.map(value => value / GRAVITY)
+    };
+  }, [compliance.code, criteria, response.groundMotion]);
+
+  const allPassed = compliance.checks.every(check => check.passed);
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3 ${
+      allPassed ? '' : 'border-2 border-red-600'
+    }`}>
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold">Design Code Check</h2>
+        <span className={`px-2 py-0.5 rounded text-sm font-semibold text-white ${allPassed ? 'bg-green-600' : 'bg-red-600'}`}>
+          {allPassed ? 'PASS' : 'FAIL'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="font-medium">Seismic Code:</div>
+        <div className="text-right">{compliance.codeName}</div>
+        <div className="font-medium">Declared Code:</div>
+        <div className="text-right">{compliance.codeMapping}</div>
+        <div className="font-medium">Site Class / Zone:</div>
+        <div className="text-right">{criteria.siteClass} / {criteria.seismicZone}</div>
+        <div className="font-medium">{compliance.code === 'EC8' ? 'Behaviour Factor q' : 'Response Factor R'}:</div>
+        <div className="text-right">{compliance.responseFactor}</div>
+        <div className="font-medium">Design Base Shear:</div>
+        <div className="text-right">
+          {(compliance.designBaseShear / 1000).toFixed(0)} kN
+          ({((compliance.designBaseShear / compliance.seismicWeight) * 100).toFixed(1)}% W)
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {compliance.checks.map(check => (
+          <div
+            key={check.name}
+            className={`p-2 rounded-md text-sm ${check.passed
+              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+              : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'}`}
+          >
+            <div className="flex justify-between font-medium">
+              <span>{check.name}</span>
+              <span>{check.passed ? '✓ Pass' : '✗ Fail'}</span>
+            </div>
+            <div className="text-xs mt-1">
+              {formatCheckValue(check, check.demand)} vs limit {formatCheckValue(check, check.limit)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <LineChart
+        series={[
+          { label: `${compliance.codeName} design spectrum`, color: '#dc2626', x: spectra.periods, y: spectra.design },
+          { label: 'Record (ζ = 5%)', color: '#2563eb', x: spectra.periods, y: spectra.record, dashed: true }
+        ]}
+        xLabel="Period (s)"
+        yLabel="Spectral acceleration (g)"
+        xScale="log"
+        markers={[{ x: response.model.fundamentalPeriod, label: 'T₁' }]}
+        height={200}
+      />
+
+      <div>
+        <h3 className="font-semibold text-sm mb-1">Clause References</h3>
+        <ul className="list-disc pl-5 text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+          {compliance.clauses.map(clause => (
+            <li key={clause}>{clause}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -6,17 +6,23 @@ import { BuildingParams } from "./BuildingParameterForm";
 import { SeismicParams } from "./SeismicParameterForm";
 import BuildingVisualizer from "./OptimizedBuildingVisualizer";
 import GroundWaveEffect from "./GroundWaveEffect";
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import * as THREE from 'three';
 import { WebGLRenderer } from 'three';
 
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { SelectedComponent } from './StructuralComponentAnalysis';
+import { GRAVITY } from '../utils/groundMotion';
+import { getSimulationState, runSimulation } from '../utils/simulationEngine';
 
 type CombinedSimulatorProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
   elapsedTime: number;
   materialsParams?: StructuralMaterialsParams;
+  animatedMode?: number | null;
+  selectedElement?: SelectedComponent | null;
+  onSelectElement?: (element: SelectedComponent) => void;
 };
 
 // Simple ground plane instead of dynamic ground
@@ -126,7 +132,10 @@ export default function CombinedSimulator({
   buildingParams,
   seismicParams,
   elapsedTime,
-  materialsParams
+  materialsParams,
+  animatedMode = null,
+  selectedElement = null,
+  onSelectElement
 }: CombinedSimulatorProps) {
   // Camera position state with modified view options (removed seismic)
   const [cameraView, setCameraView] = useState<"building" | "combined" | "damage">("building");
@@ -212,14 +221,20 @@ export default function CombinedSimulator({
   // Calculate progress percentage
   const progressPercentage = Math.min(100, Math.floor((elapsedTime / seismicParams.duration) * 100));
 
-  // Calculate intensity based on elapsed time and magnitude
-  const currentIntensity = elapsedTime > 0 
-    ? Math.max(0, Math.sin(elapsedTime * 2) * seismicParams.magnitude / 10)
-    : 0;
+  // Simulation state shared with the building visualizer
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const simulationState = getSimulationState(run, elapsedTime * simulationSpeed);
+
+  // Recent peak ground acceleration (g), with the bar full at 0.5 g
+  const recentShaking = simulationState.shakingIntensity * run.response.groundMotion.peakGroundAcceleration / GRAVITY;
+  const currentIntensity = Math.min(1, recentShaking / 0.5);
 
-  const intensityLevel = currentIntensity < 0.2 ? 'Low' : 
-                        currentIntensity < 0.5 ? 'Moderate' : 
-                        currentIntensity < 0.7 ? 'High' : 'Severe';
+  const intensityLevel = recentShaking < 0.05 ? 'Low' : 
+                        recentShaking < 0.15 ? 'Moderate' : 
+                        recentShaking < 0.35 ? 'High' : 'Severe';
   
   return (
     <div ref={containerRef} className={`relative w-full h-full ${isFullscreen ? 'bg-black' : ''}`}>
@@ -279,6 +294,9 @@ export default function CombinedSimulator({
             />
           </div>
         </div>
+        {simulationState.hasCollapsed && (
+          <div className="mt-1 text-xs font-bold text-red-400 animate-pulse">Structural Collapse</div>
+        )}
       </div>
       
       {showControls && (
@@ -454,7 +472,9 @@ export default function CombinedSimulator({
           seismicParams={seismicParams}
           elapsedTime={elapsedTime * simulationSpeed}
           materialsParams={materialsParams}
-          seismicIntensity={seismicParams.magnitude / 5} // Scale seismic intensity based on magnitude
+          animatedMode={animatedMode}
+          selectedElement={selectedElement}
+          onSelectElement={onSelectElement}
         />
         
         {/* Environment for better lighting */}
@@ -1,9 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { CustomAnnotation } from './InteractiveTimelineNavigator';
+import { FieldErrors, hasErrors, validateSimulationConfig } from '../utils/paramSchemas';
+import { SeismicProject, createProject, getProjectSeismicParams } from '../utils/projectFile';
+import {
+  LibraryProject,
+  deleteProjects,
+  duplicateProject,
+  filterProjects,
+  getLibraryTags,
+  importLegacyConfigs,
+  listProjects,
+  openProject,
+  saveProject,
+  updateProject
+} from '../utils/projectLibrary';
 
-type SimulationConfig = {
+export type SimulationConfig = {
   id: string;
   name: string;
   date: string;
@@ -13,68 +28,171 @@ type SimulationConfig = {
 };
 
 type ConfigurationManagerProps = {
-  currentBuildingParams: BuildingParams;
-  currentSeismicParams: SeismicParams;
-  currentMaterialParams: StructuralMaterialsParams;
-  onLoadConfiguration: (config: SimulationConfig) => void;
+  // Parameters still being set up cannot be saved yet
+  currentBuildingParams: BuildingParams | null;
+  currentSeismicParams: SeismicParams | null;
+  currentMaterialParams: StructuralMaterialsParams | null;
+  currentAnnotations?: CustomAnnotation[];
+  includeResults?: boolean;
+  onLoadConfiguration: (config: SimulationConfig, project: SeismicProject) => void;
 };
 
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+const toSimulationConfig = (entry: LibraryProject, seismicParams: SeismicParams): SimulationConfig => ({
+  id: entry.id,
+  name: entry.name,
+  date: new Date(entry.updatedAt).toLocaleString(),
+  buildingParams: entry.buildingParams,
+  seismicParams,
+  materialParams: entry.materialsParams
+});
+
 export default function ConfigurationManager({
   currentBuildingParams,
   currentSeismicParams,
   currentMaterialParams,
+  currentAnnotations = [],
+  includeResults = false,
   onLoadConfiguration
 }: ConfigurationManagerProps) {
-  const [savedConfigs, setSavedConfigs] = useState<SimulationConfig[]>([]);
+  const [savedProjects, setSavedProjects] = useState<LibraryProject[]>([]);
   const [configName, setConfigName] = useState('');
-  
-  // Load saved configurations from localStorage
-  useEffect(() => {
-    const savedConfigsJson = localStorage.getItem('seismicSimulationConfigs');
-    if (savedConfigsJson) {
-      try {
-        const configs = JSON.parse(savedConfigsJson);
-        setSavedConfigs(configs);
-      } catch (e) {
-        console.error('Failed to parse saved configurations', e);
-      }
+  const [configTags, setConfigTags] = useState('');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<{ id: string; name: string; tags: string } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [skippedLegacyConfigs, setSkippedLegacyConfigs] = useState(0);
+
+  const refreshLibrary = async () => {
+    try {
+      const projects = await listProjects();
+      setSavedProjects(projects);
+      setSelectedIds(prev => new Set(projects.filter(project => prev.has(project.id)).map(project => project.id)));
+    } catch (e) {
+      setLibraryError(e instanceof Error ? e.message : 'Could not open the project library');
     }
+  };
+
+  // Load saved projects, importing configurations saved to localStorage before
+  useEffect(() => {
+    refreshLibrary();
+    // A failed import is reported by refreshLibrary
+    importLegacyConfigs().then(({ skipped }) => setSkippedLegacyConfigs(skipped), () => {});
   }, []);
-  
+
+  // Runs a library change and shows the projects as they are afterwards
+  const updateLibrary = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      setLibraryError(null);
+    } catch (e) {
+      setLibraryError(e instanceof Error ? e.message : 'Could not update the project library');
+    }
+    await refreshLibrary();
+  };
+
+  // Saved projects are kept even when invalid, but cannot be loaded
+  const configErrors = useMemo(() => {
+    const errors = new Map<string, FieldErrors>();
+    savedProjects.forEach(entry =>
+      errors.set(entry.id, validateSimulationConfig(toSimulationConfig(entry, entry.seismicParams)))
+    );
+    return errors;
+  }, [savedProjects]);
+
+  const tags = useMemo(() => getLibraryTags(savedProjects), [savedProjects]);
+  const visibleProjects = useMemo(
+    () => filterProjects(savedProjects, search, tagFilter),
+    [savedProjects, search, tagFilter]
+  );
+  const allVisibleSelected = visibleProjects.length > 0 && visibleProjects.every(entry => selectedIds.has(entry.id));
+
   // Save current configuration
-  const handleSaveConfig = () => {
+  const handleSaveConfig = async () => {
     if (!configName.trim()) {
       alert('Please enter a name for this configuration');
       return;
     }
-    
-    const newConfig: SimulationConfig = {
-      id: Date.now().toString(),
+    if (!currentSeismicParams || !currentBuildingParams || !currentMaterialParams) {
+      setSaveError('Set the seismic, building and material parameters before saving');
+      return;
+    }
+
+    const errors = validateSimulationConfig({
+      id: '',
       name: configName,
       date: new Date().toLocaleString(),
       buildingParams: currentBuildingParams,
       seismicParams: currentSeismicParams,
       materialParams: currentMaterialParams
-    };
-    
-    const updatedConfigs = [...savedConfigs, newConfig];
-    setSavedConfigs(updatedConfigs);
-    localStorage.setItem('seismicSimulationConfigs', JSON.stringify(updatedConfigs));
+    });
+    if (hasErrors(errors)) {
+      setSaveError(Object.values(errors)[0]);
+      return;
+    }
+    setSaveError(null);
+
+    await updateLibrary(() =>
+      saveProject(
+        createProject({
+          name: configName.trim(),
+          seismicParams: currentSeismicParams,
+          buildingParams: currentBuildingParams,
+          materialsParams: currentMaterialParams,
+          annotations: currentAnnotations,
+          includeResults
+        }),
+        parseTags(configTags)
+      )
+    );
     setConfigName('');
+    setConfigTags('');
+  };
+
+  const handleLoadConfig = async (entry: LibraryProject) => {
+    try {
+      const project = await openProject(entry.id);
+      setLibraryError(null);
+      onLoadConfiguration(toSimulationConfig(entry, getProjectSeismicParams(project)), project);
+    } catch (e) {
+      setLibraryError(e instanceof Error ? e.message : 'Could not open the project');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    await updateLibrary(() => updateProject(renaming.id, { name: renaming.name, tags: parseTags(renaming.tags) }));
+    setRenaming(null);
   };
-  
-  // Delete a saved configuration
-  const handleDeleteConfig = (id: string) => {
-    const updatedConfigs = savedConfigs.filter(config => config.id !== id);
-    setSavedConfigs(updatedConfigs);
-    localStorage.setItem('seismicSimulationConfigs', JSON.stringify(updatedConfigs));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
   };
-  
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleProjects.map(entry => entry.id)));
+  };
+
+  // Delete the selected projects
+  const handleDeleteSelected = async () => {
+    if (!confirm(`Delete ${selectedIds.size} saved project${selectedIds.size === 1 ? '' : 's'}?`)) return;
+    await updateLibrary(() => deleteProjects(Array.from(selectedIds)));
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md">
-      <h3 className="font-bold mb-3">Configuration Manager</h3>
-      
-      <div className="mb-4">
+      <h3 className="font-bold mb-3">Project Library</h3>
+
+      <div className="mb-4 space-y-2">
         <div className="flex gap-2">
           <input
             type="text"
@@ -90,39 +208,178 @@ export default function ConfigurationManager({
             Save Current
           </button>
         </div>
+        <input
+          type="text"
+          value={configTags}
+          onChange={(e) => setConfigTags(e.target.value)}
+          placeholder="Tags, separated by commas"
+          className="w-full px-3 py-2 border rounded text-sm"
+        />
+        {saveError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{saveError}</p>}
       </div>
-      
-      {savedConfigs.length > 0 ? (
-        <div className="space-y-2 max-h-60 overflow-y-auto">
-          {savedConfigs.map(config => (
-            <div 
-              key={config.id}
-              className="flex justify-between items-center p-2 bg-gray-100 dark:bg-gray-700 rounded"
+
+      <div className="mb-3 flex gap-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or tag"
+          className="flex-1 px-3 py-1 border rounded text-sm"
+        />
+        <select
+          value={tagFilter ?? ''}
+          onChange={(e) => setTagFilter(e.target.value || null)}
+          className="px-2 py-1 border rounded text-sm bg-white dark:bg-gray-700"
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => (
+            <option key={tag} value={tag}>{tag}</option>
+          ))}
+        </select>
+      </div>
+
+      {libraryError && <p className="mb-2 text-xs text-red-600 dark:text-red-400">{libraryError}</p>}
+      {skippedLegacyConfigs > 0 && (
+        <p className="mb-2 text-xs text-yellow-700 dark:text-yellow-400">
+          {skippedLegacyConfigs === 1 ? '1 configuration' : `${skippedLegacyConfigs} configurations`} saved by an earlier
+          version could not be imported (see the browser console); they are kept and retried when the library opens.
+        </p>
+      )}
+
+      {visibleProjects.length > 0 ? (
+        <>
+          <div className="mb-2 flex justify-between items-center text-sm">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} />
+              Select all
+            </label>
+            <button
+              onClick={handleDeleteSelected}
+              disabled={selectedIds.size === 0}
+              className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <div>
-                <div className="font-medium">{config.name}</div>
-                <div className="text-xs text-gray-500">{config.date}</div>
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => onLoadConfiguration(config)}
-                  className="bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded text-sm"
-                >
-                  Load
-                </button>
-                <button
-                  onClick={() => handleDeleteConfig(config.id)}
-                  className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-sm"
-                >
-                  Delete
-                </button>
+              Delete Selected ({selectedIds.size})
+            </button>
+          </div>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {visibleProjects.map(entry => {
+              const errors = configErrors.get(entry.id) ?? {};
+              const isValid = !hasErrors(errors);
+              const isRenaming = renaming?.id === entry.id;
+              return (
+              <div
+                key={entry.id}
+                className="flex justify-between items-start gap-2 p-2 bg-gray-100 dark:bg-gray-700 rounded"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  className="mt-1"
+                  aria-label={`Select ${entry.name}`}
+                />
+                <div className="flex-1 min-w-0">
+                  {isRenaming ? (
+                    <div className="space-y-1">
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        className="w-full px-2 py-1 border rounded text-sm"
+                        autoFocus
+                      />
+                      <input
+                        type="text"
+                        value={renaming.tags}
+                        onChange={(e) => setRenaming({ ...renaming, tags: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        placeholder="Tags, separated by commas"
+                        className="w-full px-2 py-1 border rounded text-xs"
+                      />
+                    </div>
+                  ) : (
+                    <>
+                      <div className="font-medium truncate">{entry.name}</div>
+                      <div className="text-xs text-gray-500">{new Date(entry.updatedAt).toLocaleString()}</div>
+                      {entry.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {entry.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => setTagFilter(tag)}
+                              className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+                            >
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {!isValid && (
+                    <div className="text-xs text-red-600 dark:text-red-400">
+                      Invalid: {Object.values(errors)[0]}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {isRenaming ? (
+                    <>
+                      <button
+                        onClick={handleRename}
+                        className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded text-sm"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setRenaming(null)}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleLoadConfig(entry)}
+                        disabled={!isValid}
+                        className="bg-green-500 hover:bg-green-600 text-white px-2 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Load
+                      </button>
+                      <button
+                        onClick={() => setRenaming({ id: entry.id, name: entry.name, tags: entry.tags.join(', ') })}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-sm"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        onClick={() => updateLibrary(() => duplicateProject(entry.id))}
+                        className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-sm"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={() => updateLibrary(() => deleteProjects([entry.id]))}
+                        className="bg-red-500 hover:bg-red-600 text-white px-2 py-1 rounded text-sm"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        </>
       ) : (
-        <p className="text-gray-500 text-center py-2">No saved configurations</p>
+        <p className="text-gray-500 text-center py-2">
+          {savedProjects.length > 0 ? 'No projects match the search' : 'No saved configurations'}
+        </p>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,6 +7,8 @@ type SimulationProgressIndicatorProps = {
   onStepClick?: (step: SimulationStep) => void;
   availableSteps?: SimulationStep[];
   completedSteps?: SimulationStep[];
+  analysisProgress?: number | null; // 0-1 while the structural analysis runs
+  onCancelAnalysis?: () => void;
 };
 
 /**
@@ -17,7 +19,9 @@ export default function EnhancedSimulationProgressIndicator({
   currentStep,
   onStepClick,
   availableSteps = [],
-  completedSteps = []
+  completedSteps = [],
+  analysisProgress = null,
+  onCancelAnalysis
 }: SimulationProgressIndicatorProps) {
   // Define steps and their properties
   const steps = [
@@ -70,6 +74,31 @@ export default function EnhancedSimulationProgressIndicator({
         </div>
       </div>
 
+      {/* Structural analysis progress, streamed from the analysis worker */}
+      {analysisProgress !== null && (
+        <div className="mb-6 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="font-medium text-blue-800 dark:text-blue-300">
+              Running structural analysis… {Math.round(analysisProgress * 100)}%
+            </span>
+            {onCancelAnalysis && (
+              <button
+                onClick={onCancelAnalysis}
+                className="px-2 py-0.5 text-xs rounded bg-red-500 hover:bg-red-600 text-white"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="h-2 rounded-full bg-blue-100 dark:bg-blue-950 overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all duration-200"
+              style={{ width: `${analysisProgress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Step indicators with enhanced feedback */}
       <div className="flex justify-between">
         {steps.map((step, index) => {
@@ -17,25 +17,6 @@ const EnhancedStructuralDeformationVisualizer = dynamic(
   }
 );
 
-type SimulationResult = {
-  id: string;
-  name: string;
-  buildingParams: BuildingParams;
-  seismicParams: SeismicParams;
-  results: {
-    maxDisplacement: number;
-    interStoryDrift: number;
-    baseShear: number;
-    damageIndex: number;
-    hasCollapsed: boolean;
-    criticalElements: {
-      type: 'column' | 'beam' | 'slab' | 'foundation';
-      id: number;
-      damageLevel: 'None' | 'Minor' | 'Moderate' | 'Severe' | 'Critical';
-    }[];
-  };
-};
-
 type EnhancedSimulationViewProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
@@ -130,6 +111,8 @@ export default function EnhancedSimulationView({
           {isSimulationComplete ? (
             <EnhancedStructuralDeformationVisualizer
               buildingParams={buildingParams as DetailedBuildingParams}
+              materialsParams={materialParams}
+              seismicParams={seismicParams}
               elementInteractions={elementInteractions}
               analysisResults={analysisResults}
               selectedElement={selectedElement}
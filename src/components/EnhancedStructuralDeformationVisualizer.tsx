@@ -6,6 +6,9 @@ import { DetailedBuildingParams } from './StructuralComponentAnalysis';
 import { ElementInteraction, InteractionAnalysisResult } from './StructuralElementInteraction';
 import { applyDistanceBasedLOD, isInViewFrustum } from '../utils/renderOptimization';
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { getDuctilityCapacity } from '../utils/hysteresis';
+import { getCachedResponse } from '../utils/structuralSolver';
 
 type ElementType = 'column' | 'beam' | 'slab' | 'foundation';
 
@@ -36,39 +39,30 @@ type EnhancedDeformationVisualizerProps = {
   deformationScale: number;
   onElementSelect?: (element: SelectedElement) => void;
   seismicIntensity?: number; // Added to factor in seismic intensity for deformation
+  seismicParams?: SeismicParams; // Colours the columns by the ductility demand of the simulated record
 };
 
-// Color scale for stress visualization
-const getStressColor = (stress: number, maxStress: number, materialType: string = 'concrete'): THREE.Color => {
-  // Prevent division by zero and handle invalid stress values
-  if (maxStress <= 0 || isNaN(stress)) return new THREE.Color(0x0000ff); // Default blue for zero/invalid stress
+// Colour of an element from its stress over yield stress and, once it yields,
+// its ductility demand: blue through green to yellow up to yield, then on to
+// red as the demand reaches the ductility capacity
+const getStressColor = (stressRatio: number, ductility: number = 0, ductilityCapacity: number = 1): THREE.Color => {
+  // Default blue for invalid stress, including a ratio over a zero peak stress
+  if (!Number.isFinite(stressRatio)) return new THREE.Color(0x0000ff);
   
-  // Normalize stress value with material-specific factors
-  const materialFactor = materialType === 'steel' ? 1.5 : 1.0; // Steel can handle higher stress
-  const normalizedStress = Math.min(stress / (maxStress * materialFactor), 1);
+  const low = new THREE.Color().setHSL(0.6, 0.8, 0.5);
+  const mid = new THREE.Color().setHSL(0.3, 0.9, 0.5);
+  const yieldColor = new THREE.Color().setHSL(0.15, 1, 0.5);
+  const failure = new THREE.Color().setHSL(0, 1, 0.6);
   
-  // Enhanced color gradient with better visual distinction
-  const t = Math.pow(normalizedStress, 0.7); // Non-linear scaling for better visual range
-  
-  if (t <= 0.33) {
-    // Cool colors for low stress (Blue to Cyan to Green)
-    return new THREE.Color().setHSL(0.6, 0.8, 0.5).lerp(
-      new THREE.Color().setHSL(0.3, 0.9, 0.5),
-      t * 3
-    );
-  } else if (t <= 0.66) {
-    // Transition colors (Green to Yellow)
-    return new THREE.Color().setHSL(0.3, 0.9, 0.5).lerp(
-      new THREE.Color().setHSL(0.15, 1, 0.5),
-      (t - 0.33) * 3
-    );
-  } else {
-    // Warm colors for high stress (Yellow to Orange to Red)
-    return new THREE.Color().setHSL(0.15, 1, 0.5).lerp(
-      new THREE.Color().setHSL(0, 1, 0.6),
-      Math.pow((t - 0.66) * 3, 1.2) // Enhanced contrast for critical stress levels
-    );
+  if (ductility > 1) {
+    // Post-yield: yellow to red with the share of the ductility capacity used
+    const t = ductilityCapacity > 1 ? Math.min((ductility - 1) / (ductilityCapacity - 1), 1) : 1;
+    return yieldColor.lerp(failure, t);
   }
+  
+  // Elastic: blue to green to yellow at the yield stress
+  const t = Math.min(Math.max(stressRatio, 0), 1);
+  return t <= 0.5 ? low.lerp(mid, t * 2) : mid.lerp(yieldColor, (t - 0.5) * 2);
 };
 
 // Calculate deformed position based on analysis results
@@ -116,7 +110,8 @@ function StructuralVisualization({
   showDeformation = true,
   deformationScale = 1.0,
   onElementSelect,
-  seismicIntensity = 1.0
+  seismicIntensity = 1.0,
+  seismicParams
 }: EnhancedDeformationVisualizerProps) {
   const groupRef = useRef<THREE.Group>(null);
   const [hoveredElement, setHoveredElement] = useState<SelectedElement | null>(null);
@@ -141,6 +136,18 @@ function StructuralVisualization({
     }
   });
 
+  // Peak ductility demand on the columns of the most damaged story, read from
+  // the analysis the worker already ran rather than solved again here
+  const columnDemand = useMemo(() => {
+    const response = seismicParams && getCachedResponse(buildingParams, seismicParams, materialsParams);
+    if (!response) return null;
+    const { stories } = response;
+    return {
+      ductility: Math.max(0, ...stories.map(story => story.peaks.ductility)),
+      capacity: getDuctilityCapacity(buildingParams.materialType)
+    };
+  }, [buildingParams, seismicParams, materialsParams]);
+  
   // Generate geometry instances for each structural element
   const elements = useMemo(() => {
     const elements: StructuralElement[] = [];
@@ -202,15 +209,18 @@ function StructuralVisualization({
       // If it's an object with properties
       if (typeof buildingParams.structuralComponents.columns === 'object' && !Array.isArray(buildingParams.structuralComponents.columns)) {
         const column = buildingParams.structuralComponents.columns;
+        const stress = columnDemand ? Math.min(columnDemand.ductility, 1) : 0.5;
         elements.push({
           position: new THREE.Vector3(0, 5, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(column.width || 1, 10, column.width || 1),
-          color: showStressColors ? getStressColor(0.5, 1) : new THREE.Color('#808080'),
+          color: showStressColors
+            ? getStressColor(stress, columnDemand?.ductility, columnDemand?.capacity)
+            : new THREE.Color('#808080'),
           type: 'column',
           id: 1,
           isSelected: selectedElement?.type === 'column' && selectedElement?.id === 1,
-          stress: 0.5
+          stress
         });
       }
     }
@@ -224,7 +234,7 @@ function StructuralVisualization({
           position: new THREE.Vector3(5, 9.5, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(10, beam.depth || 0.5, beam.width || 0.3),
-          color: showStressColors ? getStressColor(0.6, 1) : new THREE.Color('#909090'),
+          color: showStressColors ? getStressColor(0.6) : new THREE.Color('#909090'),
           type: 'beam',
           id: 1,
           isSelected: selectedElement?.type === 'beam' && selectedElement?.id === 1,
@@ -242,7 +252,7 @@ function StructuralVisualization({
           position: new THREE.Vector3(0, 10, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(10, slab.thickness || 0.2, 10),
-          color: showStressColors ? getStressColor(0.4, 1) : new THREE.Color('#a8a8a8'),
+          color: showStressColors ? getStressColor(0.4) : new THREE.Color('#a8a8a8'),
           type: 'slab',
           id: 1,
           isSelected: selectedElement?.type === 'slab' && selectedElement?.id === 1,
@@ -260,7 +270,7 @@ function StructuralVisualization({
           position: new THREE.Vector3(0, -1, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(12, foundation.depth || 2, 12),
-          color: showStressColors ? getStressColor(0.3, 1) : new THREE.Color('#606060'),
+          color: showStressColors ? getStressColor(0.3) : new THREE.Color('#606060'),
           type: 'foundation',
           id: 1,
           isSelected: selectedElement?.type === 'foundation' && selectedElement?.id === 1,
@@ -270,7 +280,7 @@ function StructuralVisualization({
     }
     
     return elements;
-  }, [buildingParams, showStressColors, selectedElement]);
+  }, [buildingParams, columnDemand, showStressColors, selectedElement]);
   
   // Apply deformation to elements if enabled
   const deformedElements = useMemo(() => {
@@ -457,7 +467,7 @@ export default function EnhancedStructuralDeformationVisualizer(props: EnhancedD
           position: new THREE.Vector3(0, column.height / 2, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(column.width, column.height, column.width),
-          color: showStressColors ? getStressColor(stress, maxStress) : new THREE.Color('#808080'),
+          color: showStressColors ? getStressColor(stress / maxStress) : new THREE.Color('#808080'),
           type: 'column',
           id: columnId,
           isSelected,
@@ -486,7 +496,7 @@ export default function EnhancedStructuralDeformationVisualizer(props: EnhancedD
           position: new THREE.Vector3(beam.length / 2, beam.floorLevel, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(beam.length, beam.depth, beam.width),
-          color: showStressColors ? getStressColor(stress, maxStress) : new THREE.Color('#909090'),
+          color: showStressColors ? getStressColor(stress / maxStress) : new THREE.Color('#909090'),
           type: 'beam',
           id: beamId,
           isSelected,
@@ -515,7 +525,7 @@ export default function EnhancedStructuralDeformationVisualizer(props: EnhancedD
           position: new THREE.Vector3(0, slab.floorLevel, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(slab.width, slab.thickness, slab.depth),
-          color: showStressColors ? getStressColor(stress, maxStress) : new THREE.Color('#a8a8a8'),
+          color: showStressColors ? getStressColor(stress / maxStress) : new THREE.Color('#a8a8a8'),
           type: 'slab',
           id: slabId,
           isSelected,
@@ -544,7 +554,7 @@ export default function EnhancedStructuralDeformationVisualizer(props: EnhancedD
           position: new THREE.Vector3(0, -foundation.depth / 2, 0),
           rotation: new THREE.Euler(0, 0, 0),
           scale: new THREE.Vector3(foundation.width, foundation.depth, foundation.length),
-          color: showStressColors ? getStressColor(stress, maxStress) : new THREE.Color('#606060'),
+          color: showStressColors ? getStressColor(stress / maxStress) : new THREE.Color('#606060'),
           type: 'foundation',
           id: foundationId,
           isSelected,
@@ -1,22 +1,37 @@
 'use client';
 
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useMemo } from 'react';
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { getFloorDisplacementsAt } from '../utils/structuralSolver';
+import { DISPLACEMENT_VISUAL_SCALE, getSimulationState, runSimulation } from '../utils/simulationEngine';
 
 type FallbackSimulatorProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
   elapsedTime: number;
+  materialsParams?: StructuralMaterialsParams;
 };
 
 /**
  * A simple 2D fallback visualization that works without WebGL
  */
-export default function FallbackSimulator({ buildingParams, seismicParams, elapsedTime }: FallbackSimulatorProps) {
+export default function FallbackSimulator({
+  buildingParams,
+  seismicParams,
+  elapsedTime,
+  materialsParams
+}: FallbackSimulatorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>(0);
   
+  // Simulation run shared with the 3D simulators and the results panel
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -37,7 +52,11 @@ export default function FallbackSimulator({ buildingParams, seismicParams, elaps
     window.addEventListener('resize', resizeCanvas);
     
     // Extract parameters
-    const { magnitude, epicenterX, epicenterY, waveVelocity } = seismicParams;
+    const { magnitude, epicenterX, waveVelocity } = seismicParams;
+    
+    // Response and damage at the current time
+    const state = getSimulationState(run, elapsedTime);
+    const floorDisplacements = getFloorDisplacementsAt(run.response, elapsedTime);
     const { height, width, depth, floors, materialType } = buildingParams;
     
     // Animation function
@@ -95,37 +114,26 @@ export default function FallbackSimulator({ buildingParams, seismicParams, elaps
       const buildingX = centerX - buildingWidth / 2;
       const buildingY = centerY + 50 - buildingHeight;
       
-      // Calculate displacement based on time, magnitude and material properties
-      // Fix: Add material-based damping factor for more realistic simulation
-      let dampingFactor = 1.0; // Default for concrete
-      if (materialType === 'steel') {
-        dampingFactor = 0.7; // Steel has better damping
-      } else if (materialType === 'wood') {
-        dampingFactor = 1.3; // Wood has worse damping
-      }
-      
-      const displacementAmplitude = magnitude * 2 * dampingFactor;
-      // Calculate distance from epicenter to adjust displacement
-      // These variables will be reused for damage calculation
-      const epicenterDistance = Math.sqrt(epicenterX * epicenterX + epicenterY * epicenterY);
-      const distanceFactor = Math.max(0.2, 1 - (epicenterDistance / 100));
-      const displacement = Math.sin(elapsedTime * 5) * displacementAmplitude * distanceFactor;
+      // Solver floor displacements in pixels (10 px per metre, like the building outline)
+      const floorOffset = (floor: number) =>
+        floor <= 0 ? 0 : floorDisplacements[Math.min(floor, floors) - 1] * DISPLACEMENT_VISUAL_SCALE * 10;
       
-      // Draw building with displacement
-      ctx.fillStyle = buildingColor;
-      ctx.fillRect(buildingX + displacement, buildingY, buildingWidth, buildingHeight);
+      // Draw building as one storey per band so it deforms with the floors
+      const floorHeight = buildingHeight / floors;
+      ctx.fillStyle = state.hasCollapsed ? '#b91c1c' : buildingColor;
+      for (let floor = 0; floor < floors; floor++) {
+        const bandY = buildingY + buildingHeight - (floor + 1) * floorHeight;
+        ctx.fillRect(buildingX + floorOffset(floor + 1), bandY, buildingWidth, floorHeight);
+      }
       
       // Draw floors
-      const floorHeight = buildingHeight / floors;
       ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
       ctx.lineWidth = 1;
       
       for (let i = 1; i < floors; i++) {
         const y = buildingY + i * floorHeight;
         
-        // Add individual floor displacement (more at the top)
-        const floorFactor = i / floors;
-        const floorDisplacement = displacement * (1 + floorFactor);
+        const floorDisplacement = floorOffset(floors - i);
         
         ctx.beginPath();
         ctx.moveTo(buildingX + floorDisplacement, y);
@@ -141,8 +149,7 @@ export default function FallbackSimulator({ buildingParams, seismicParams, elaps
       
       for (let floor = 0; floor < floors; floor++) {
         const floorY = buildingY + floor * floorHeight + 10;
-        const floorFactor = floor / floors;
-        const floorDisplacement = displacement * (1 + floorFactor);
+        const floorDisplacement = floorOffset(floors - floor);
         
         for (let w = 0; w < windowsPerFloor; w++) {
           const windowX = buildingX + 10 + w * 20 + floorDisplacement;
@@ -158,22 +165,8 @@ export default function FallbackSimulator({ buildingParams, seismicParams, elaps
       ctx.fillText(`Building Height: ${height}m (${floors} floors)`, 20, 70);
       
       // Draw damage indicator
-      // Fix: More realistic damage calculation based on multiple factors
-      let materialResistanceFactor = 1.0; // Default for concrete
-      if (materialType === 'steel') {
-        materialResistanceFactor = 0.6; // Steel is more resistant
-      } else if (materialType === 'wood') {
-        materialResistanceFactor = 1.4; // Wood is less resistant
-      }
-      
-      // Calculate time factor (damage accumulates but with diminishing returns)
-      const timeFactor = Math.min(1, elapsedTime / (seismicParams.duration || 10));
-      
-      // Calculate final damage percentage
-      const damagePercent = Math.min(100, Math.max(0, 
-        magnitude * timeFactor * distanceFactor * materialResistanceFactor * 10
-      ));
-      ctx.fillText(`Damage Risk: ${damagePercent.toFixed(0)}%`, 20, 90);
+      ctx.fillText(`Damage: ${(state.damageIndex * 100).toFixed(0)}% (${state.damageLevel})`, 20, 90);
+      ctx.fillText(`Peak Drift: ${state.interStoryDrift.toFixed(2)}%`, 20, 110);
       
       ctx.fillStyle = '#333';
       ctx.font = '12px Arial';
@@ -192,7 +185,7 @@ export default function FallbackSimulator({ buildingParams, seismicParams, elaps
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [buildingParams, seismicParams, elapsedTime]); // Dependencies are correct
+  }, [buildingParams, seismicParams, elapsedTime, run]); // Dependencies are correct
   
   return (
     <div className="w-full h-full relative bg-gray-100 dark:bg-gray-800">
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { GRAVITY, getOutcropMotion } from '../utils/groundMotion';
+import {
+  FragilityResult,
+  defaultIdaOptions,
+  fragilityCurvesToCsv,
+  fragilityParametersToCsv,
+  getExceedanceProbability,
+  idaResultsToCsv,
+  runFragilityAnalysis
+} from '../utils/fragility';
+
+type FragilityAnalysisPanelProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
+};
+
+type FragilityView = 'curves' | 'ida';
+
+const motionColors = ['#2563eb', '#16a34a', '#f97316', '#9333ea', '#db2777', '#0891b2', '#65a30d', '#ca8a04'];
+
+// Points at which each fitted curve is drawn
+const CURVE_SAMPLES = 80;
+
+const downloadCsv = (csv: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function FragilityAnalysisPanel({
+  buildingParams,
+  seismicParams,
+  materialsParams
+}: FragilityAnalysisPanelProps) {
+  const [motionCount, setMotionCount] = useState(String(defaultIdaOptions.motionCount));
+  const [maxIntensity, setMaxIntensity] = useState(String(defaultIdaOptions.maxIntensity));
+  const [levels, setLevels] = useState(String(defaultIdaOptions.levels));
+  const [result, setResult] = useState<FragilityResult | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<FragilityView>('curves');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Results belong to one scenario
+  useEffect(() => {
+    setResult(null);
+    return () => controllerRef.current?.abort();
+  }, [buildingParams, seismicParams, materialsParams]);
+
+  // Rock-outcrop PGA of the scenario being simulated (g), as on the curves
+  const scenarioIntensity = useMemo(
+    () => getOutcropMotion(seismicParams).peakGroundAcceleration / GRAVITY,
+    [seismicParams]
+  );
+
+  const handleRun = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: Number(motionCount) });
+    try {
+      const analysed = await runFragilityAnalysis(
+        buildingParams,
+        seismicParams,
+        materialsParams,
+        { motionCount: Math.round(Number(motionCount)), maxIntensity: Number(maxIntensity), levels: Math.round(Number(levels)) },
+        { signal: controller.signal, onProgress: (done, total) => setProgress({ done, total }) }
+      );
+      setResult(analysed);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'The fragility analysis failed');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const chart = useMemo(() => {
+    if (!result) return null;
+    const maxLevel = result.intensities[result.intensities.length - 1];
+
+    if (view === 'ida') {
+      // Peak drift against intensity for each record, up to its collapse
+      const series = result.motions.map((name, motion) => {
+        const points = result.points.filter(point => point.motion === motion && !point.collapsed);
+        return {
+          label: name,
+          color: motionColors[motion % motionColors.length],
+          x: [0, ...points.map(point => point.peakDrift as number)],
+          y: [0, ...points.map(point => point.intensity)]
+        };
+      });
+      return { series, xLabel: 'Peak inter-story drift (%)', yLabel: 'PGA (g)', yDomain: undefined, markers: [] };
+    }
+
+    const intensities = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => (maxLevel * i) / CURVE_SAMPLES);
+    const series = result.curves.flatMap(curve => {
+      // Share of runs that reached the state at each analysed level
+      const observed = {
+        label: `${curve.label} (observed)`,
+        color: curve.color,
+        x: result.intensities,
+        y: result.intensities.map(intensity => {
+          const atLevel = result.points.filter(point => point.intensity === intensity);
+          const reached = atLevel.filter(point => point.collapsed || (point.peakDrift ?? 0) >= curve.driftLimit);
+          return reached.length / atLevel.length;
+        }),
+        dashed: true
+      };
+      if (curve.median === null) return curve.exceedances > 0 ? [observed] : [];
+      return [
+        {
+          label: curve.label,
+          color: curve.color,
+          x: intensities,
+          y: intensities.map(intensity => getExceedanceProbability(curve, intensity) ?? 0)
+        },
+        observed
+      ];
+    });
+    const markers = [
+      { x: scenarioIntensity, label: `Scenario ${scenarioIntensity.toFixed(2)} g`, color: '#6b7280' },
+      ...result.curves
+        .filter(curve => curve.median !== null)
+        .map(curve => ({ x: curve.median as number, label: `θ ${curve.label}`, color: curve.color }))
+    ];
+    return {
+      series,
+      xLabel: 'PGA (g)',
+      yLabel: 'P(damage state reached)',
+      yDomain: [0, 1] as [number, number],
+      markers
+    };
+  }, [result, view, scenarioIntensity]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold">Fragility Curves</h2>
+        {result && (
+          <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+            {(['curves', 'ida'] as FragilityView[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`px-2 py-1 ${view === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+              >
+                {key === 'curves' ? 'Fragility' : 'IDA'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <label className="block">
+          <span className="block text-gray-600 dark:text-gray-400">Synthetic records</span>
+          <input
+            type="number"
+            min={seismicParams.groundMotionRecord ? 0 : 1}
+            value={motionCount}
+            onChange={(e) => setMotionCount(e.target.value)}
+            className="w-full px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-gray-600 dark:text-gray-400">Highest PGA (g)</span>
+          <input
+            type="number"
+            step="0.1"
+            value={maxIntensity}
+            onChange={(e) => setMaxIntensity(e.target.value)}
+            className="w-full px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-gray-600 dark:text-gray-400">Intensity levels</span>
+          <input
+            type="number"
+            min={2}
+            value={levels}
+            onChange={(e) => setLevels(e.target.value)}
+            className="w-full px-2 py-1 border rounded"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={progress !== null}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ? `Analysing record ${progress.done} of ${progress.total}...` : 'Run Incremental Dynamic Analysis'}
+        </button>
+        {progress && (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-1 rounded text-sm"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {result && chart && (
+        <>
+          <LineChart
+            series={chart.series}
+            xLabel={chart.xLabel}
+            yLabel={chart.yLabel}
+            yDomain={chart.yDomain}
+            markers={chart.markers}
+          />
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400">
+                <th className="py-1">Damage state</th>
+                <th className="py-1 text-right">Drift limit</th>
+                <th className="py-1 text-right">Median θ</th>
+                <th className="py-1 text-right">Dispersion β</th>
+                <th className="py-1 text-right">P at scenario</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.curves.map(curve => {
+                const probability = getExceedanceProbability(curve, scenarioIntensity);
+                return (
+                  <tr key={curve.state} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-1">
+                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: curve.color }} />
+                      {curve.label}
+                    </td>
+                    <td className="py-1 text-right">{curve.driftLimit.toFixed(2)}%</td>
+                    {curve.median !== null && curve.dispersion !== null ? (
+                      <>
+                        <td className="py-1 text-right">{curve.median.toFixed(3)} g</td>
+                        <td className="py-1 text-right">{curve.dispersion.toFixed(2)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={2} className="py-1 text-right text-gray-500">
+                        {curve.exceedances === 0
+                          ? `Not reached up to ${result.intensities[result.intensities.length - 1]} g`
+                          : `Reached at every level from ${result.intensities[0]} g`}
+                      </td>
+                    )}
+                    <td className="py-1 text-right">
+                      {probability === null ? '—' : `${(probability * 100).toFixed(1)}%`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => downloadCsv(fragilityParametersToCsv(result), 'fragility-parameters.csv')}
+              className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Export Parameters
+            </button>
+            <button
+              onClick={() => downloadCsv(fragilityCurvesToCsv(result), 'fragility-curves.csv')}
+              className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Export Curves
+            </button>
+            <button
+              onClick={() => downloadCsv(idaResultsToCsv(result), 'ida-results.csv')}
+              className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Export IDA Results
+            </button>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Records of this scenario are scaled to increasing peak ground accelerations and analysed at each
+        level. Each curve is the lognormal probability of reaching a damage state, fitted to the results by
+        maximum likelihood; dashed lines show the share of records that reached it.
+      </p>
+    </div>
+  );
+}
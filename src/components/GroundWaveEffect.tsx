@@ -2,14 +2,21 @@ import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { SeismicParams } from './SeismicParameterForm';
+import { GRAVITY, getGroundMotion, sampleGroundMotion } from '../utils/groundMotion';
 
 type GroundWaveEffectProps = {
   params: SeismicParams;
   elapsedTime: number;
 };
 
+// Vertical scene displacement per g of ground acceleration
+const GROUND_DISPLAY_SCALE = 1.5;
+
 export default function GroundWaveEffect({ params, elapsedTime }: GroundWaveEffectProps) {
-  const { magnitude, epicenterX, epicenterY } = params;
+  const { magnitude, epicenterX, epicenterY, waveVelocity } = params;
+  
+  // Acceleration record shared with the structural analysis
+  const groundMotion = useMemo(() => getGroundMotion(params), [params]);
   
   // Mesh reference for the ground plane
   const meshRef = useRef<THREE.Mesh>(null);
@@ -44,29 +51,28 @@ export default function GroundWaveEffect({ params, elapsedTime }: GroundWaveEffe
     const mesh = meshRef.current;
     const positions = mesh.geometry.attributes.position.array as Float32Array;
     
-    // Simplified wave parameters
-    const waveAmplitude = magnitude * 0.03; // Reduced amplitude
-    const waveFrequency = 0.6; // Reduced frequency
+    // Scene units travelled by the wavefront per second
+    const waveSpeed = waveVelocity * 10;
     
-    // Only update every frame if time is less than 70% of the duration
-    // This focuses animation on the beginning of the simulation
-    if (elapsedTime < params.duration * 0.7) {
-      // Update each vertex position with simpler calculation
+    // Only animate while the record is playing
+    if (elapsedTime <= params.duration) {
+      // Update each vertex position from the record, delayed by travel time from the epicenter
       for (let i = 0; i < positions.length; i += 3) {
+        // The plane is rotated flat, so its local y axis runs along world -z
         const x = positions[i];
-        const z = positions[i + 2];
+        const z = -positions[i + 1];
         
         // Calculate distance from epicenter
         const dx = x - epicenterX;
         const dz = z - epicenterY;
         const distance = Math.sqrt(dx * dx + dz * dz);
         
-        // Simple wave effect based on distance and time
+        // Shaking fades with distance from the epicenter
         const distanceEffect = Math.max(0, 1 - distance / (magnitude * 10));
-        const wave = Math.sin(distance - elapsedTime * 5) * distanceEffect;
+        const acceleration = sampleGroundMotion(groundMotion, elapsedTime - distance / waveSpeed);
         
-        // Apply vertical displacement (much simpler calculation)
-        positions[i + 1] = wave * waveAmplitude;
+        // Apply vertical displacement (local z becomes world up)
+        positions[i + 2] = (acceleration / GRAVITY) * GROUND_DISPLAY_SCALE * distanceEffect;
       }
       
       // Update geometry
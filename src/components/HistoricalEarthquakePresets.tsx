@@ -1,129 +1,8 @@
 import React, { useState } from 'react';
 import { SeismicParams } from './SeismicParameterForm';
+import { historicalEarthquakes } from '../utils/earthquakePresets';
 
-// Define historical earthquake data
-export const historicalEarthquakes = [
-  {
-    id: 'tohoku2011',
-    name: 'Tohoku, Japan (2011)',
-    description: 'One of the most powerful earthquakes ever recorded, causing a devastating tsunami.',
-    magnitude: 9.0,
-    depth: 29,
-    epicenterX: -5,
-    epicenterY: -7,
-    waveVelocity: 2.5,
-    duration: 180,
-    distance: 120,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/tohoku.jpg'
-  },
-  {
-    id: 'haiti2010',
-    name: 'Haiti (2010)',
-    description: 'Catastrophic earthquake that caused extensive damage to infrastructure.',
-    magnitude: 7.0,
-    depth: 13,
-    epicenterX: -2,
-    epicenterY: -3,
-    waveVelocity: 1.8,
-    duration: 35,
-    distance: 45,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/haiti.jpg'
-  },
-  {
-    id: 'chile1960',
-    name: 'Valdivia, Chile (1960)',
-    description: 'The most powerful earthquake ever recorded (9.5), causing tsunamis across the Pacific.',
-    magnitude: 9.5,
-    depth: 33,
-    epicenterX: -8,
-    epicenterY: -10,
-    waveVelocity: 3.0,
-    duration: 210,
-    distance: 150,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/chile.jpg'
-  },
-  {
-    id: 'sanFrancisco1906',
-    name: 'San Francisco (1906)',
-    description: 'Historic earthquake that destroyed much of San Francisco through fire and building collapse.',
-    magnitude: 7.9,
-    depth: 8,
-    epicenterX: -1,
-    epicenterY: -2,
-    waveVelocity: 1.5,
-    duration: 45,
-    distance: 35,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/sanfrancisco.jpg'
-  },
-  {
-    id: 'kobe1995',
-    name: 'Kobe, Japan (1995)',
-    description: 'One of the most destructive earthquakes to hit Japan, causing extensive damage to infrastructure.',
-    magnitude: 6.9,
-    depth: 16,
-    epicenterX: -3,
-    epicenterY: -4,
-    waveVelocity: 1.7,
-    duration: 20,
-    distance: 40,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/kobe.jpg'
-  },
-  {
-    id: 'sumatra2004',
-    name: 'Sumatra, Indonesia (2004)',
-    description: 'Triggered a devastating tsunami that killed over 230,000 people across multiple countries.',
-    magnitude: 9.1,
-    depth: 30,
-    epicenterX: -9,
-    epicenterY: -8,
-    waveVelocity: 2.8,
-    duration: 240,
-    distance: 180,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/sumatra.jpg'
-  },
-  {
-    id: 'mexico1985',
-    name: 'Mexico City (1985)',
-    description: 'Famous for demonstrating the effects of soil amplification in a sedimentary basin.',
-    magnitude: 8.0,
-    depth: 18,
-    epicenterX: -6,
-    epicenterY: -5,
-    waveVelocity: 2.0,
-    duration: 60,
-    distance: 75,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/mexico.jpg'
-  },
-  {
-    id: 'christchurch2011',
-    name: 'Christchurch, NZ (2011)',
-    description: 'Moderate earthquake that caused significant damage due to liquefaction and proximity to the city.',
-    magnitude: 6.3,
-    depth: 5,
-    epicenterX: -1,
-    epicenterY: -1,
-    waveVelocity: 1.2,
-    duration: 15,
-    distance: 25,
-    showGrid: true,
-    showStats: true,
-    image: '/earthquakes/christchurch.jpg'
-  }
-];
+export { historicalEarthquakes };
 
 type HistoricalEarthquakePresetsProps = {
   onSelect: (params: SeismicParams) => void;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { SeismicParams } from './SeismicParameterForm';
+import { getGroundMotion, getShakingTimeline } from '../utils/groundMotion';
 import Image from 'next/image';
 
 type TimelineMarker = {
@@ -18,7 +19,7 @@ type TimelineMarker = {
   };
 };
 
-type CustomAnnotation = {
+export type CustomAnnotation = {
   id: string;
   timePoint: number;
   label: string;
@@ -38,6 +39,9 @@ type InteractiveTimelineNavigatorProps = {
     description: string;
     seismicIntensity: number;
   }>;
+  // Controlled annotations, e.g. to save them with a project
+  annotations?: CustomAnnotation[];
+  onAnnotationsChange?: (annotations: CustomAnnotation[]) => void;
 };
 
 export default function InteractiveTimelineNavigator({
@@ -47,10 +51,18 @@ export default function InteractiveTimelineNavigator({
   onTimeChange,
   onPlayPause,
   isPlaying,
-  snapshots = []
+  snapshots = [],
+  annotations,
+  onAnnotationsChange
 }: InteractiveTimelineNavigatorProps) {
   const [markers, setMarkers] = useState<TimelineMarker[]>([]);
-  const [customAnnotations, setCustomAnnotations] = useState<CustomAnnotation[]>([]);
+  const [localAnnotations, setLocalAnnotations] = useState<CustomAnnotation[]>([]);
+  const customAnnotations = annotations ?? localAnnotations;
+  const setCustomAnnotations = (update: (prev: CustomAnnotation[]) => CustomAnnotation[]) => {
+    const next = update(customAnnotations);
+    setLocalAnnotations(next);
+    onAnnotationsChange?.(next);
+  };
   const [showThumbnails, setShowThumbnails] = useState(true);
   const [hoveredTime, setHoveredTime] = useState<number | null>(null);
   const [isTourMode, setIsTourMode] = useState(false);
@@ -59,9 +71,16 @@ export default function InteractiveTimelineNavigator({
   const [newAnnotation, setNewAnnotation] = useState<Partial<CustomAnnotation>>({});
   const timelineRef = useRef<HTMLDivElement>(null);
   
+  // Key instants of the same ground motion record the analysis uses
+  const shakingTimeline = useMemo(
+    () => getShakingTimeline(getGroundMotion(seismicParams)),
+    [seismicParams]
+  );
+  
   // Generate timeline markers based on seismic parameters with enhanced information
   useEffect(() => {
     const generatedMarkers: TimelineMarker[] = [];
+    const clampTime = (time: number) => Math.min(duration, Math.max(0, time));
     
     // Initial state
     generatedMarkers.push({
@@ -78,8 +97,8 @@ export default function InteractiveTimelineNavigator({
       }
     });
     
-    // P-wave arrival (typically first 10-15% of duration)
-    const pWaveTime = Math.floor(duration * 0.1);
+    // P-wave arrival (first perceptible shaking in the record)
+    const pWaveTime = clampTime(shakingTimeline.arrivalTime);
     generatedMarkers.push({
       id: 'p-wave',
       timePoint: pWaveTime,
@@ -94,8 +113,8 @@ export default function InteractiveTimelineNavigator({
       }
     });
     
-    // S-wave arrival (typically at 20-30% of duration)
-    const sWaveTime = Math.floor(duration * 0.25);
+    // S-wave arrival (start of the strong-motion phase)
+    const sWaveTime = clampTime(shakingTimeline.strongMotionStart);
     generatedMarkers.push({
       id: 's-wave',
       timePoint: sWaveTime,
@@ -110,8 +129,8 @@ export default function InteractiveTimelineNavigator({
       }
     });
     
-    // Peak intensity (typically at 40-60% of duration)
-    const peakTime = Math.floor(duration * 0.5);
+    // Peak intensity (instant of peak ground acceleration)
+    const peakTime = clampTime(shakingTimeline.peakTime);
     generatedMarkers.push({
       id: 'peak',
       timePoint: peakTime,
@@ -126,8 +145,8 @@ export default function InteractiveTimelineNavigator({
       }
     });
     
-    // Declining intensity (typically at 70-80% of duration)
-    const decliningTime = Math.floor(duration * 0.75);
+    // Declining intensity (end of the strong-motion phase)
+    const decliningTime = clampTime(shakingTimeline.strongMotionEnd);
     generatedMarkers.push({
       id: 'declining',
       timePoint: decliningTime,
@@ -158,7 +177,7 @@ export default function InteractiveTimelineNavigator({
     });
     
     setMarkers(generatedMarkers);
-  }, [duration]);
+  }, [duration, shakingTimeline]);
   
   // Handle timeline click to change time
   const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -679,4 +698,6 @@ export default function InteractiveTimelineNavigator({
           </div>
         </div>
       )}
-    </div>
\ No newline at end of file
+    </div>
+  );
+}
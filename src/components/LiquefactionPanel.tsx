@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { GRAVITY } from '../utils/groundMotion';
+import { LiquefactionStatus, getLiquefactionDamage, soilLayerTypes } from '../utils/liquefaction';
+import { getSimulationState, runSimulation } from '../utils/simulationEngine';
+
+type LiquefactionPanelProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
+  elapsedTime: number;
+};
+
+// Factors of safety above this are drawn at the edge of the plot
+const MAX_PLOTTED_FACTOR = 2;
+
+const statusStyles: Record<LiquefactionStatus, { label: string; className: string }> = {
+  'liquefiable': { label: 'Liquefies', className: 'text-red-500 font-semibold' },
+  'marginal': { label: 'Marginal', className: 'text-yellow-500' },
+  'non-liquefiable': { label: 'Stable', className: 'text-green-500' },
+  'not-susceptible': { label: 'Not susceptible', className: 'text-gray-500 dark:text-gray-400' }
+};
+
+export default function LiquefactionPanel({
+  buildingParams,
+  seismicParams,
+  materialsParams,
+  elapsedTime
+}: LiquefactionPanelProps) {
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const assessment = useMemo(() => getSimulationState(run, elapsedTime).liquefaction, [run, elapsedTime]);
+  if (!assessment || !run.liquefaction) return null;
+
+  const { layers, profile } = assessment;
+  const profileDepth = layers.length > 0 ? layers[layers.length - 1].bottom : 0;
+
+  // Step profile of the factor of safety against elevation below the surface
+  const factorSeries = {
+    label: 'Factor of safety',
+    color: '#2563eb',
+    x: layers.flatMap(layer => {
+      const factor = Math.min(layer.factorOfSafety ?? MAX_PLOTTED_FACTOR, MAX_PLOTTED_FACTOR);
+      return [factor, factor];
+    }),
+    y: layers.flatMap(layer => [-layer.top, -layer.bottom])
+  };
+  const waterTableSeries = {
+    label: 'Water table',
+    color: '#0891b2',
+    x: [0, MAX_PLOTTED_FACTOR],
+    y: [-profile.groundwaterDepth, -profile.groundwaterDepth],
+    dashed: true
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <h2 className="text-xl font-bold border-b pb-2">Liquefaction Assessment</h2>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="font-medium">Surface PGA (so far / record):</div>
+        <div className="text-right">
+          {(assessment.peakGroundAcceleration / GRAVITY).toFixed(3)} g / {(run.liquefaction.peakGroundAcceleration / GRAVITY).toFixed(3)} g
+        </div>
+
+        <div className="font-medium">Magnitude Scaling Factor:</div>
+        <div className="text-right">
+          {assessment.magnitudeScalingFactor.toFixed(2)} (M {assessment.magnitude.toFixed(1)})
+        </div>
+
+        <div className="font-medium">Liquefaction Potential Index:</div>
+        <div className={`text-right ${assessment.severity === 'high' || assessment.severity === 'very high' ? 'text-red-500 font-semibold' : ''}`}>
+          {assessment.liquefactionPotentialIndex.toFixed(1)} ({assessment.severity})
+        </div>
+
+        <div className="font-medium">Liquefied Thickness:</div>
+        <div className="text-right">{assessment.liquefiedThickness.toFixed(1)} m</div>
+
+        <div className="font-medium">Foundation Damage from Liquefaction:</div>
+        <div className="text-right">{getLiquefactionDamage(assessment).toFixed(0)}%</div>
+      </div>
+
+      <LineChart
+        series={[factorSeries, waterTableSeries]}
+        xLabel="Factor of safety against liquefaction"
+        yLabel="Elevation below surface (m)"
+        xDomain={[0, MAX_PLOTTED_FACTOR]}
+        yDomain={[-profileDepth, 0]}
+        markers={[{ x: 1, label: 'FS = 1', color: '#dc2626' }]}
+        height={240}
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400">
+              <th className="py-1">Depth (m)</th>
+              <th className="py-1">Soil</th>
+              <th className="py-1 text-right">(N1)60cs</th>
+              <th className="py-1 text-right">CSR</th>
+              <th className="py-1 text-right">CRR</th>
+              <th className="py-1 text-right">FS</th>
+              <th className="py-1 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {layers.map((layer, index) => {
+              const soilType = soilLayerTypes.find(type => type.value === profile.layers[index].soilType);
+              const susceptible = layer.status !== 'not-susceptible';
+              return (
+                <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="py-1">{layer.top.toFixed(1)}–{layer.bottom.toFixed(1)}</td>
+                  <td className="py-1">{soilType?.label}</td>
+                  <td className="py-1 text-right">{susceptible ? layer.correctedBlowCount.toFixed(1) : '–'}</td>
+                  <td className="py-1 text-right">{susceptible ? layer.cyclicStressRatio.toFixed(3) : '–'}</td>
+                  <td className="py-1 text-right">{layer.cyclicResistanceRatio?.toFixed(3) ?? '–'}</td>
+                  <td className="py-1 text-right">{layer.factorOfSafety?.toFixed(2) ?? '–'}</td>
+                  <td className={`py-1 text-right ${statusStyles[layer.status].className}`}>
+                    {statusStyles[layer.status].label}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Simplified procedure of Youd et al. (2001) at the surface PGA reached so far. Layers above the water table and
+        clays are not susceptible; sands with (N1)60cs of 30 or more are too dense to liquefy. Factors of safety above{' '}
+        {MAX_PLOTTED_FACTOR} are drawn at the edge of the plot.
+      </p>
+    </div>
+  );
+}
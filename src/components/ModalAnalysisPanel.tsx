@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { buildShearBuildingModel } from '../utils/structuralSolver';
+import { analyzeModes } from '../utils/modalAnalysis';
+
+type ModalAnalysisPanelProps = {
+  buildingParams: BuildingParams;
+  materialsParams?: StructuralMaterialsParams;
+  animatedMode: number | null;
+  onAnimateMode: (mode: number | null) => void;
+  modeCount?: number;
+};
+
+const modeColors = ['#2563eb', '#16a34a', '#f97316', '#9333ea', '#db2777', '#0891b2'];
+
+export default function ModalAnalysisPanel({
+  buildingParams,
+  materialsParams,
+  animatedMode,
+  onAnimateMode,
+  modeCount = 6
+}: ModalAnalysisPanelProps) {
+  const model = useMemo(
+    () => buildShearBuildingModel(buildingParams, materialsParams),
+    [buildingParams, materialsParams]
+  );
+  const { modes } = useMemo(() => analyzeModes(model), [model]);
+  const shownModes = modes.slice(0, modeCount);
+
+  // Mode shapes plotted against height, with the fixed base included
+  const shapeSeries = shownModes.slice(0, 3).map((mode, i) => ({
+    label: `Mode ${mode.index}`,
+    color: modeColors[i],
+    x: [0, ...mode.shape],
+    y: [0, ...model.floorElevations],
+    dashed: animatedMode !== null && animatedMode !== mode.index
+  }));
+
+  let cumulativeMass = 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <h2 className="text-xl font-bold border-b pb-2">Modal Analysis</h2>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400">
+              <th className="py-1">Mode</th>
+              <th className="py-1 text-right">T (s)</th>
+              <th className="py-1 text-right">f (Hz)</th>
+              <th className="py-1 text-right">Γ</th>
+              <th className="py-1 text-right">Mass</th>
+              <th className="py-1 text-right">Cum.</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownModes.map(mode => {
+              cumulativeMass += mode.effectiveMassRatio;
+              const isAnimated = animatedMode === mode.index;
+              return (
+                <tr key={mode.index} className={`border-t border-gray-200 dark:border-gray-700 ${isAnimated ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                  <td className="py-1">{mode.index}</td>
+                  <td className="py-1 text-right">{mode.period.toFixed(3)}</td>
+                  <td className="py-1 text-right">{mode.frequency.toFixed(2)}</td>
+                  <td className="py-1 text-right">{mode.participationFactor.toFixed(3)}</td>
+                  <td className="py-1 text-right">{(mode.effectiveMassRatio * 100).toFixed(1)}%</td>
+                  <td className="py-1 text-right">{(cumulativeMass * 100).toFixed(1)}%</td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => onAnimateMode(isAnimated ? null : mode.index)}
+                      className={`px-2 py-0.5 rounded text-xs ${isAnimated
+                        ? 'bg-red-500 hover:bg-red-600 text-white'
+                        : 'bg-blue-500 hover:bg-blue-600 text-white'}`}
+                    >
+                      {isAnimated ? 'Stop' : 'Animate'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <LineChart
+        series={shapeSeries}
+        xLabel="Normalized displacement"
+        yLabel="Height (m)"
+        xDomain={[-1, 1]}
+        height={220}
+      />
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Γ is the modal participation factor; mass is the effective modal mass as a share of the total.
+        Animating a mode replaces the earthquake response in the 3D view until it is stopped.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { getDamageThresholds } from '../utils/simulationEngine';
+import {
+  Distribution,
+  DistributionType,
+  Estimate,
+  MAX_REALIZATIONS,
+  MonteCarloResult,
+  getDefaultDistribution,
+  getUncertainParameters,
+  monteCarloToCsv,
+  runMonteCarlo,
+  validateDistribution
+} from '../utils/monteCarlo';
+
+type MonteCarloPanelProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
+};
+
+type MonteCarloView = 'profile' | 'distribution';
+
+// Distribution as entered: mean and COV, or minimum and maximum for uniform
+type DistributionDraft = {
+  type: DistributionType;
+  first: string;
+  second: string;
+};
+
+const toDraft = (distribution: Distribution): DistributionDraft =>
+  distribution.type === 'uniform'
+    ? { type: 'uniform', first: String(distribution.min), second: String(distribution.max) }
+    : { type: distribution.type, first: String(distribution.mean), second: String(distribution.cov) };
+
+const fromDraft = (draft: DistributionDraft): Distribution =>
+  draft.type === 'uniform'
+    ? { type: 'uniform', min: Number(draft.first), max: Number(draft.second) }
+    : { type: draft.type, mean: Number(draft.first), cov: Number(draft.second) };
+
+// Keeps the mean and spread when switching between distribution types
+const convertDraft = (draft: DistributionDraft, type: DistributionType): DistributionDraft => {
+  if ((draft.type === 'uniform') === (type === 'uniform')) return { ...draft, type };
+  const round = (value: number) => String(parseFloat(value.toPrecision(4)));
+  if (type === 'uniform') {
+    const halfWidth = Math.sqrt(3) * Number(draft.first) * Number(draft.second);
+    return { type, first: round(Number(draft.first) - halfWidth), second: round(Number(draft.first) + halfWidth) };
+  }
+  const mean = (Number(draft.first) + Number(draft.second)) / 2;
+  const cov = mean > 0 ? (Number(draft.second) - Number(draft.first)) / (2 * Math.sqrt(3) * mean) : 0;
+  return { type, first: round(mean), second: round(cov) };
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatInterval = (estimate: Estimate, format: (value: number) => string) =>
+  `${format(estimate.value)} (95% CI ${format(estimate.lower)} – ${format(estimate.upper)})`;
+
+export default function MonteCarloPanel({
+  buildingParams,
+  seismicParams,
+  materialsParams
+}: MonteCarloPanelProps) {
+  const parameters = useMemo(
+    () => getUncertainParameters(buildingParams, materialsParams),
+    [buildingParams, materialsParams]
+  );
+  const [drafts, setDrafts] = useState<DistributionDraft[]>([]);
+  const [realizations, setRealizations] = useState('200');
+  const [seed, setSeed] = useState('1');
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<MonteCarloView>('profile');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Start from the typical scatter about the scenario's values
+  useEffect(() => {
+    setDrafts(parameters.map(parameter => toDraft(getDefaultDistribution(parameter))));
+    setResult(null);
+  }, [parameters]);
+
+  useEffect(() => {
+    setResult(null);
+    return () => controllerRef.current?.abort();
+  }, [seismicParams]);
+
+  const draftErrors = drafts.map(draft => validateDistribution(fromDraft(draft)));
+  const realizationCount = Math.round(Number(realizations));
+  const canRun = progress === null && drafts.length === parameters.length &&
+    draftErrors.every(draftError => draftError === null) &&
+    realizationCount >= 1 && realizationCount <= MAX_REALIZATIONS;
+
+  const updateDraft = (index: number, changes: Partial<DistributionDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => {
+      if (i !== index) return draft;
+      return changes.type ? convertDraft(draft, changes.type) : { ...draft, ...changes };
+    }));
+  };
+
+  const handleRun = async () => {
+    if (!canRun) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: realizationCount });
+    try {
+      const analysed = await runMonteCarlo(
+        buildingParams,
+        seismicParams,
+        materialsParams,
+        drafts.map(fromDraft),
+        { realizations: realizationCount, seed: Math.round(Number(seed)) || 1 },
+        { signal: controller.signal, onProgress: (done, total) => setProgress({ done, total }) }
+      );
+      setResult(analysed);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'The Monte Carlo analysis failed');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([monteCarloToCsv(result)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'monte-carlo-realizations.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const criticalStory = result
+    ? result.storyFailureProbability.reduce((best, probability, i, all) => (probability > all[best] ? i : best), 0)
+    : 0;
+
+  const chart = useMemo(() => {
+    if (!result) return null;
+
+    if (view === 'profile') {
+      // Peak drift of each story against its number
+      const stories = result.storyDriftPercentiles.p50.map((_, i) => i + 1);
+      const { p5, p50, p95 } = result.storyDriftPercentiles;
+      return {
+        series: [
+          { label: '5th percentile', color: '#60a5fa', x: p5, y: stories, dashed: true },
+          { label: 'Median', color: '#2563eb', x: p50, y: stories },
+          { label: '95th percentile', color: '#1e3a8a', x: p95, y: stories, dashed: true }
+        ],
+        xLabel: 'Peak inter-story drift (%)',
+        yLabel: 'Story',
+        markers: []
+      };
+    }
+
+    // Empirical distribution of the peak drift with the damage state limits
+    const sorted = result.realizations.map(realization => realization.peakDrift).sort((a, b) => a - b);
+    const thresholds = getDamageThresholds(buildingParams.materialType);
+    return {
+      series: [{
+        label: 'Peak drift',
+        color: '#2563eb',
+        x: sorted,
+        y: sorted.map((_, i) => (i + 1) / sorted.length)
+      }],
+      xLabel: 'Peak inter-story drift (%)',
+      yLabel: 'Cumulative probability',
+      markers: [
+        { x: thresholds.moderate, label: 'Moderate', color: '#eab308' },
+        { x: thresholds.extensive, label: 'Extensive', color: '#f97316' },
+        { x: thresholds.complete, label: 'Complete', color: '#dc2626' }
+      ]
+    };
+  }, [result, view, buildingParams.materialType]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold">Uncertainty Analysis</h2>
+        {result && (
+          <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+            {(['profile', 'distribution'] as MonteCarloView[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`px-2 py-1 ${view === key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+              >
+                {key.charAt(0).toUpperCase() + key.slice(1)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 dark:text-gray-400">
+            <th className="py-1">Parameter</th>
+            <th className="py-1">Distribution</th>
+            <th className="py-1" colSpan={2}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {parameters.map((parameter, i) => {
+            const draft = drafts[i];
+            if (!draft) return null;
+            const isUniform = draft.type === 'uniform';
+            return (
+              <tr key={parameter.path} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                <td className="py-1 pr-2">
+                  {parameter.label}{parameter.unit && ` (${parameter.unit})`}
+                  {draftErrors[i] && <div className="text-xs text-red-600 dark:text-red-400">{draftErrors[i]}</div>}
+                </td>
+                <td className="py-1 pr-2">
+                  <select
+                    value={draft.type}
+                    onChange={(e) => updateDraft(i, { type: e.target.value as DistributionType })}
+                    className="px-2 py-1 border rounded bg-white dark:bg-gray-700"
+                  >
+                    <option value="normal">Normal</option>
+                    <option value="lognormal">Lognormal</option>
+                    <option value="uniform">Uniform</option>
+                  </select>
+                </td>
+                <td className="py-1 pr-2">
+                  <label className="flex items-center gap-1">
+                    <span className="text-gray-500">{isUniform ? 'Min' : 'Mean'}</span>
+                    <input
+                      type="number"
+                      value={draft.first}
+                      onChange={(e) => updateDraft(i, { first: e.target.value })}
+                      className="w-24 px-2 py-1 border rounded"
+                    />
+                  </label>
+                </td>
+                <td className="py-1">
+                  <label className="flex items-center gap-1">
+                    <span className="text-gray-500">{isUniform ? 'Max' : 'COV'}</span>
+                    <input
+                      type="number"
+                      step={isUniform ? undefined : '0.01'}
+                      value={draft.second}
+                      onChange={(e) => updateDraft(i, { second: e.target.value })}
+                      className="w-24 px-2 py-1 border rounded"
+                    />
+                  </label>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Realizations
+          <input
+            type="number"
+            min={1}
+            max={MAX_REALIZATIONS}
+            value={realizations}
+            onChange={(e) => setRealizations(e.target.value)}
+            className="w-24 px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            className="w-20 px-2 py-1 border rounded"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={!canRun}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ? `Realization ${progress.done} of ${progress.total}...` : 'Run Monte Carlo'}
+        </button>
+        {progress && (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-1 rounded text-sm"
+          >
+            Cancel
+          </button>
+        )}
+        {result && !progress && (
+          <button
+            onClick={handleExport}
+            className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+          >
+            Export CSV
+          </button>
+        )}
+      </div>
+
+      {result && chart && (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <div className="font-medium">Failure probability:</div>
+            <div className="text-right">{formatInterval(result.failureProbability, formatPercent)}</div>
+            <div className="font-medium">Collapse probability:</div>
+            <div className="text-right">{formatInterval(result.collapseProbability, formatPercent)}</div>
+            <div className="font-medium">Mean peak drift:</div>
+            <div className="text-right">{formatInterval(result.meanDrift, value => `${value.toFixed(3)}%`)}</div>
+            <div className="font-medium">Peak drift 5% / 50% / 95%:</div>
+            <div className="text-right">
+              {result.driftPercentiles.p5.toFixed(3)}% / {result.driftPercentiles.p50.toFixed(3)}% / {result.driftPercentiles.p95.toFixed(3)}%
+            </div>
+            <div className="font-medium">Most vulnerable story:</div>
+            <div className="text-right">
+              Story {criticalStory + 1}, fails in {formatPercent(result.storyFailureProbability[criticalStory])}
+            </div>
+          </div>
+
+          <LineChart series={chart.series} xLabel={chart.xLabel} yLabel={chart.yLabel} markers={chart.markers} />
+        </>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Each realization samples the material properties and damping ratio and analyses the building under this
+        scenario&apos;s ground motion. It fails when the building collapses or the column bending stress in any story
+        exceeds the sampled strength.
+      </p>
+    </div>
+  );
+}
@@ -1,9 +1,22 @@
-import { useRef, useMemo, useEffect } from "react";
-import { useFrame, useThree } from "@react-three/fiber";
+import { useRef, useMemo, useEffect, useState } from "react";
+import { ThreeEvent, useFrame, useThree } from "@react-three/fiber";
 import { Box, Text, Cylinder, Instance, Instances } from "@react-three/drei";
 import * as THREE from "three";
 import { BuildingParams } from "./BuildingParameterForm";
 import { SeismicParams } from "./SeismicParameterForm";
+import { StructuralMaterialsParams } from "./StructuralMaterialsForm";
+import { SelectedComponent } from "./StructuralComponentAnalysis";
+import { buildFrameModel } from "../utils/frameModel";
+import { getFloorProperties } from "../utils/buildingGeometry";
+import { getBaseDisplacementAt, getFloorDisplacementsAt, sampleHistory } from "../utils/structuralSolver";
+import { analyzeModes } from "../utils/modalAnalysis";
+import {
+  COLLAPSE_DURATION,
+  DISPLACEMENT_VISUAL_SCALE,
+  getElementDamage,
+  getSimulationState,
+  runSimulation
+} from "../utils/simulationEngine";
 import {
   optimizeMesh,
   isInViewFrustum,
@@ -14,9 +27,31 @@ import {
 type OptimizedBuildingVisualizerProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
   elapsedTime: number;
+  animatedMode?: number | null; // Mode shape to animate instead of the earthquake response
+  selectedElement?: SelectedComponent | null; // Frame element highlighted in the view
+  onSelectElement?: (element: SelectedComponent) => void;
 };
 
+
+// Colour of the selected frame element
+const SELECTED_COLOR = new THREE.Color('#3b82f6');
+
+// Mode animation: one cycle every 2 s, peak displacement 3% of the height on screen
+const MODE_ANIMATION_CYCLE = 2;
+const MODE_ANIMATION_AMPLITUDE = 0.03;
+
+// Drawn height of the isolation bearings and thickness of the slab they carry
+const ISOLATOR_HEIGHT = 1;
+const BASE_SLAB_THICKNESS = 0.4;
+
+// Device colours: isolators, and dampers blending from idle to their peak force
+const ISOLATOR_COLOR = '#1f2937';
+const DAMPER_IDLE_COLOR = new THREE.Color('#f59e0b');
+const DAMPER_PEAK_COLOR = new THREE.Color('#dc2626');
+const TUNED_MASS_COLOR = '#0ea5e9';
+
 // Material properties based on building material type
 const getMaterialProperties = (materialType: string) => {
   switch (materialType) {
@@ -63,117 +98,47 @@ const getMaterialProperties = (materialType: string) => {
   }
 };
 
-// Calculate floor displacement based on height and seismic parameters
+// Calculate displacement at an elevation from the solver's floor displacements
 const calculateFloorDisplacement = (
-  floorHeight: number,
-  totalHeight: number,
-  magnitude: number,
+  elevation: number,
+  floorDisplacements: number[],
+  floorElevations: number[],
+  baseDisplacement: number, // Ground floor, on isolators or a flexible foundation
   elapsedTime: number,
-  waveVelocity: number,
-  stiffness: number,
-  dampingRatio: number,
-  hasFailed: boolean // Whether the structure has collapsed
+  collapseTime: number | null // When the structure collapsed, if it did
 ) => {
-  // Mode shape factor - taller buildings sway more at the top (enhanced effect)
-  const modeShapeFactor = Math.pow(floorHeight / totalHeight, 1.3);
-  
-  // Increased base displacement amplitude based on magnitude
-  const baseAmplitude = magnitude * 0.08 * (10 / stiffness);
-  
-  // If building has failed, increase amplitude dramatically to show collapse
-  const collapseFactor = hasFailed ? 5.0 * Math.min(elapsedTime / 3, 1) : 1.0;
-  
-  // Time-dependent factor with damping - slower decay for visualization
-  const damping = hasFailed ? 1.0 : Math.exp(-dampingRatio * elapsedTime * 1.5);
-  
-  // Multiple frequency components for more realistic shaking
-  const primaryFreq = 1.0 + stiffness * 0.4 - totalHeight * 0.004;
-  const secondaryFreq = primaryFreq * 1.4; // Higher frequency component
-  
-  // Add chaotic component for collapse
-  const chaosFactor = hasFailed ? Math.sin(elapsedTime * 10 + floorHeight) * 0.5 : 0;
+  const totalHeight = floorElevations[floorElevations.length - 1];
+  
+  // Interpolate linearly between the floors above and below, from the base
+  let displacement = floorDisplacements[floorDisplacements.length - 1];
+  let lowerElevation = 0;
+  let lowerDisplacement = baseDisplacement;
+  for (let i = 0; i < floorElevations.length; i++) {
+    if (elevation <= floorElevations[i]) {
+      const t = (elevation - lowerElevation) / (floorElevations[i] - lowerElevation);
+      displacement = lowerDisplacement + (floorDisplacements[i] - lowerDisplacement) * Math.max(0, t);
+      break;
+    }
+    lowerElevation = floorElevations[i];
+    lowerDisplacement = floorDisplacements[i];
+  }
   
-  // Calculate displacement in x and z directions with multiple wave components
-  let xDisplacement = 
-    baseAmplitude * modeShapeFactor * damping * (
-      0.8 * Math.sin(elapsedTime * primaryFreq * 2) * Math.sin(elapsedTime * waveVelocity * 0.5) +
-      0.2 * Math.sin(elapsedTime * secondaryFreq * 3) // Higher frequency component
-    );
+  let xDisplacement = displacement * DISPLACEMENT_VISUAL_SCALE;
+  let zDisplacement = 0;
   
-  let zDisplacement = 
-    baseAmplitude * modeShapeFactor * damping * (
-      0.8 * Math.cos(elapsedTime * primaryFreq * 2) * Math.sin(elapsedTime * waveVelocity * 0.5 + 0.4) +
-      0.2 * Math.sin(elapsedTime * secondaryFreq * 3 + 0.7) // Higher frequency component with phase shift
-    );
+  // After collapse, amplify the motion and add a chaotic component that grows with height
+  if (collapseTime !== null && elapsedTime >= collapseTime) {
+    const modeShapeFactor = elevation / totalHeight;
+    const collapseFactor = Math.max(1, 5.0 * Math.min((elapsedTime - collapseTime) / COLLAPSE_DURATION, 1));
+    const chaosFactor = Math.sin(elapsedTime * 10 + elevation) * 0.5;
     
-  // Apply collapse offset - increase with floor height to show progressive collapse
-  if (hasFailed) {
     xDisplacement = xDisplacement * collapseFactor + chaosFactor * modeShapeFactor * 10;
-    zDisplacement = zDisplacement * collapseFactor + chaosFactor * modeShapeFactor * 10;
+    zDisplacement = chaosFactor * modeShapeFactor * 10;
   }
   
   return { x: xDisplacement, z: zDisplacement };
 };
 
-// Calculate damage factor for structural elements
-const calculateDamage = (
-  floorHeight: number,
-  totalHeight: number,
-  magnitude: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string,
-  elementType: 'column' | 'beam' | 'slab'
-) => {
-  // Base vulnerability by element type
-  const typeVulnerability = {
-    column: 1.0,  // columns are reference
-    beam: 0.85,   // beams slightly less vulnerable
-    slab: 0.7     // slabs least vulnerable
-  };
-  
-  // Material vulnerability factor
-  const materialFactor = materialType === 'concrete' ? 0.8 : 
-                          materialType === 'steel' ? 1.0 : 1.3;
-  
-  // Height factor (higher elements experience more stress)
-  const heightFactor = Math.pow(floorHeight / totalHeight, 0.7);
-  
-  // Structural properties factor
-  const structuralFactor = (10 - stiffness) / 10 * (1 / (dampingRatio * 20));
-  
-  // Calculate damage (0-1 scale)
-  const damage = magnitude * 0.08 * materialFactor * 
-                 heightFactor * structuralFactor * typeVulnerability[elementType];
-  
-  return Math.min(Math.max(damage, 0), 1); // Clamp between 0-1
-};
-
-// Calculate if a building has collapsed based on damage values
-const hasBuildingCollapsed = (
-  magnitude: number,
-  stiffness: number,
-  dampingRatio: number,
-  materialType: string,
-  elapsedTime: number
-) => {
-  // Material vulnerability factor
-  const materialFactor = materialType === 'concrete' ? 0.7 : 
-                         materialType === 'steel' ? 0.8 : 1.3;
-  
-  // Structural integrity factor
-  const structuralFactor = (10 - stiffness) / 10 * (1 / (dampingRatio * 15));
-  
-  // Calculate collapse risk (0-1)
-  const collapseRisk = Math.min(1.0, (magnitude * 0.15 - 0.6) * materialFactor * structuralFactor);
-  
-  // Determine if building has collapsed based on risk and elapsed time
-  // Buildings with high risk collapse sooner in the simulation
-  const collapseThreshold = collapseRisk > 0 ? 4 + (1 - collapseRisk) * 15 : Infinity;
-  
-  return collapseRisk > 0.5 && elapsedTime > collapseThreshold;
-};
-
 // Get damaged material appearance with enhanced deformation visualization and improved color coding
 const getDamagedMaterial = (
   baseMaterial: {color: string, roughness: number, metalness: number},
@@ -223,18 +188,22 @@ const getDamagedMaterial = (
 // Instanced mesh component for columns
 function InstancedColumns({
   columnPositions,
+  columnLengths,
   columnDamages,
   columnRadius,
-  floorHeight,
   material,
-  hasFailed
+  hasFailed,
+  selectedId,
+  onSelect
 }: {
   columnPositions: { x: number, y: number, z: number }[];
+  columnLengths: number[];
   columnDamages: number[];
   columnRadius: number;
-  floorHeight: number;
   material: ReturnType<typeof getMaterialProperties>;
   hasFailed: boolean;
+  selectedId?: number;
+  onSelect?: (id: number) => void;
 }) {
   const { camera } = useThree();
   const instancesRef = useRef<THREE.InstancedMesh>(null);
@@ -268,10 +237,10 @@ function InstancedColumns({
       );
       
       // Set color for this instance
-      instancesRef.current?.setColorAt(i, damagedMaterial.color);
+      instancesRef.current?.setColorAt(i, i === selectedId ? SELECTED_COLOR : damagedMaterial.color);
       
-      // Set transform for this instance
-      matrix.setPosition(pos.x, pos.y, pos.z);
+      // Set transform for this instance, stretched to its story height
+      matrix.makeScale(1, columnLengths[i], 1).setPosition(pos.x, pos.y, pos.z);
       instancesRef.current?.setMatrixAt(i, matrix);
     });
     
@@ -288,8 +257,13 @@ function InstancedColumns({
       args={[undefined, undefined, columnPositions.length]}
       castShadow
       receiveShadow
+      onClick={(event) => {
+        if (!onSelect || event.instanceId === undefined) return;
+        event.stopPropagation();
+        onSelect(event.instanceId);
+      }}
     >
-      <cylinderGeometry args={[columnRadius, columnRadius, floorHeight, 8]} />
+      <cylinderGeometry args={[columnRadius, columnRadius, 1, 8]} />
       <meshStandardMaterial 
         color={material.columnColor}
         roughness={material.roughness}
@@ -306,7 +280,9 @@ function InstancedBeams({
   beamScales,
   beamDamages,
   material,
-  hasFailed
+  hasFailed,
+  selectedId,
+  onSelect
 }: {
   beamPositions: { x: number, y: number, z: number }[];
   beamRotations: { x: number, y: number, z: number }[];
@@ -314,6 +290,8 @@ function InstancedBeams({
   beamDamages: number[];
   material: ReturnType<typeof getMaterialProperties>;
   hasFailed: boolean;
+  selectedId?: number;
+  onSelect?: (id: number) => void;
 }) {
   const { camera } = useThree();
   const instancesRef = useRef<THREE.InstancedMesh>(null);
@@ -350,7 +328,7 @@ function InstancedBeams({
       );
       
       // Set color for this instance
-      instancesRef.current?.setColorAt(i, damagedMaterial.color);
+      instancesRef.current?.setColorAt(i, i === selectedId ? SELECTED_COLOR : damagedMaterial.color);
       
       // Set transform for this instance
       const rot = beamRotations[i];
@@ -377,6 +355,11 @@ function InstancedBeams({
       args={[undefined, undefined, beamPositions.length]}
       castShadow
       receiveShadow
+      onClick={(event) => {
+        if (!onSelect || event.instanceId === undefined) return;
+        event.stopPropagation();
+        onSelect(event.instanceId);
+      }}
     >
       <boxGeometry args={[1, 1, 1]} />
       <meshStandardMaterial 
@@ -391,252 +374,193 @@ function InstancedBeams({
 export default function OptimizedBuildingVisualizer({
   buildingParams,
   seismicParams,
-  elapsedTime
+  materialsParams,
+  elapsedTime,
+  animatedMode = null,
+  selectedElement = null,
+  onSelectElement
 }: OptimizedBuildingVisualizerProps) {
   const {
     height,
     width,
     depth,
     floors,
-    stiffness,
-    dampingRatio,
     materialType
   } = buildingParams;
   
-  const { magnitude, waveVelocity } = seismicParams;
   const { camera } = useThree();
   
   // Material properties
   const material = getMaterialProperties(materialType);
   
-  // Calculate dimensions
+  // Calculate dimensions; a typical story sets the size of beams and slabs
   const floorHeight = height / floors;
+  const floorProperties = useMemo(() => getFloorProperties(buildingParams), [buildingParams]);
   
-  // Memoize columnCount to prevent re-creation on each render
-  const columnCount = useMemo(() => ({ 
-    x: 3, 
-    z: 3 
-  }), []);
-  
-  // Memoize columnSpacing to prevent re-creation on each render
-  const columnSpacing = useMemo(() => ({ 
-    x: width / (columnCount.x - 1), 
-    z: depth / (columnCount.z - 1) 
-  }), [width, depth, columnCount]);
+  // Frame model the columns and beams are drawn from, so instance ids are
+  // the element ids of the structural component analysis
+  const frame = useMemo(() => buildFrameModel(buildingParams), [buildingParams]);
   
   const columnRadius = Math.min(width, depth) * 0.03;
   const beamHeight = floorHeight * 0.2;
   const beamWidth = columnRadius * 1.5;
   const slabThickness = floorHeight * 0.1;
   
-  // Check if building has collapsed
-  const buildingCollapsed = useMemo(() => {
-    return hasBuildingCollapsed(
-      magnitude,
-      stiffness,
-      dampingRatio,
-      materialType,
-      elapsedTime
-    );
-  }, [magnitude, stiffness, dampingRatio, materialType, elapsedTime]);
+  // Simulation run shared with the results panel
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const { response } = run;
+  const { floorElevations } = response.model;
+  
+  // Selected mode shape, when a mode is being animated
+  const animatedShape = useMemo(() => {
+    if (animatedMode === null) return null;
+    const mode = analyzeModes(response.model).modes[animatedMode - 1];
+    return mode ? mode.shape : null;
+  }, [response, animatedMode]);
+  
+  // Mode animation clock, advanced at about 30 updates per second
+  const [modeTime, setModeTime] = useState(0);
+  const modeClockRef = useRef(0);
+  useFrame((_, delta) => {
+    if (!animatedShape) return;
+    modeClockRef.current += delta;
+    if (modeClockRef.current - modeTime >= 1 / 30) {
+      setModeTime(modeClockRef.current);
+    }
+  });
+  
+  // Floor displacements at the current time
+  const floorDisplacements = useMemo(() => {
+    if (animatedShape) {
+      const amplitude = (MODE_ANIMATION_AMPLITUDE * height) / DISPLACEMENT_VISUAL_SCALE;
+      const phase = Math.sin((2 * Math.PI * modeTime) / MODE_ANIMATION_CYCLE);
+      return animatedShape.map(value => value * amplitude * phase);
+    }
+    return getFloorDisplacementsAt(response, elapsedTime);
+  }, [response, elapsedTime, animatedShape, modeTime, height]);
+  const baseDisplacement = animatedShape ? 0 : getBaseDisplacementAt(response, elapsedTime);
+  
+  // Mode animation shows the intact structure
+  const collapseTime = animatedShape ? null : response.collapseTime;
+  
+  // Damage and collapse state at the current time; mode animation shows no damage
+  const simulationState = useMemo(
+    () => animatedShape ? null : getSimulationState(run, elapsedTime),
+    [run, elapsedTime, animatedShape]
+  );
+  const buildingCollapsed = simulationState?.hasCollapsed ?? false;
   
   // Generate column data for instanced rendering
-  const { columnPositions, columnDamages } = useMemo(() => {
+  const { columnPositions, columnLengths, columnDamages } = useMemo(() => {
     const positions: { x: number, y: number, z: number }[] = [];
+    const lengths: number[] = [];
     const damages: number[] = [];
     
-    // Create columns for each floor
-    for (let floor = 0; floor < floors; floor++) {
-      const y = floor * floorHeight;
+    // One instance per frame column, in element order
+    frame.columns.forEach(column => {
+      const base = frame.nodes[column.nodes[0]];
       
-      for (let x = 0; x < columnCount.x; x++) {
-        for (let z = 0; z < columnCount.z; z++) {
-          const xPos = -width/2 + x * columnSpacing.x;
-          const zPos = -depth/2 + z * columnSpacing.z;
-          
-          // Calculate displacement for this floor
-          const displacement = calculateFloorDisplacement(
-            y, 
-            height, 
-            magnitude, 
-            elapsedTime, 
-            waveVelocity, 
-            stiffness, 
-            dampingRatio,
-            buildingCollapsed
-          );
-          
-          // Calculate damage for this column
-          const damage = calculateDamage(
-            y + floorHeight/2, 
-            height, 
-            magnitude, 
-            stiffness, 
-            dampingRatio, 
-            materialType,
-            'column'
-          );
-          
-          // Add position with displacement
-          positions.push({
-            x: xPos + displacement.x,
-            y: y + floorHeight/2,
-            z: zPos + displacement.z
-          });
-          
-          // Add damage value
-          damages.push(damage);
-        }
-      }
-    }
+      // Calculate displacement for this floor
+      const displacement = calculateFloorDisplacement(
+        base.y, 
+        floorDisplacements, 
+        floorElevations, 
+        baseDisplacement,
+        elapsedTime, 
+        collapseTime
+      );
+      
+      // Calculate damage for this column
+      const damage = simulationState ? getElementDamage(simulationState, column.story - 1, 'column') : 0;
+      
+      // Add position with displacement
+      positions.push({
+        x: base.x + displacement.x,
+        y: base.y + column.length/2,
+        z: base.z + displacement.z
+      });
+      lengths.push(column.length);
+      
+      // Add damage value
+      damages.push(damage);
+    });
     
-    return { columnPositions: positions, columnDamages: damages };
-  }, [floors, floorHeight, width, depth, columnCount, columnSpacing, height, magnitude, elapsedTime, waveVelocity, stiffness, dampingRatio, materialType, buildingCollapsed]);
+    return { columnPositions: positions, columnLengths: lengths, columnDamages: damages };
+  }, [frame, elapsedTime, floorDisplacements, floorElevations, baseDisplacement, collapseTime, simulationState]);
   
   // Generate beam data for instanced rendering
-  const { beamPositionsX, beamRotationsX, beamScalesX, beamDamagesX, 
-          beamPositionsZ, beamRotationsZ, beamScalesZ, beamDamagesZ } = useMemo(() => {
-    const positionsX: { x: number, y: number, z: number }[] = [];
-    const rotationsX: { x: number, y: number, z: number }[] = [];
-    const scalesX: { x: number, y: number, z: number }[] = [];
-    const damagesX: number[] = [];
-    
-    const positionsZ: { x: number, y: number, z: number }[] = [];
-    const rotationsZ: { x: number, y: number, z: number }[] = [];
-    const scalesZ: { x: number, y: number, z: number }[] = [];
-    const damagesZ: number[] = [];
+  const { beamPositions, beamRotations, beamScales, beamDamages } = useMemo(() => {
+    const positions: { x: number, y: number, z: number }[] = [];
+    const rotations: { x: number, y: number, z: number }[] = [];
+    const scales: { x: number, y: number, z: number }[] = [];
+    const damages: number[] = [];
     
-    // Create beams for each floor
-    for (let floor = 0; floor < floors; floor++) {
-      const y = (floor + 1) * floorHeight - beamHeight/2;
+    // One instance per frame beam, in element order
+    frame.beams.forEach(beam => {
+      const [start, end] = beam.nodes.map(id => frame.nodes[id]);
       
       // Calculate displacement for this floor
       const displacement = calculateFloorDisplacement(
-        (floor + 1) * floorHeight, 
-        height, 
-        magnitude, 
+        start.y, 
+        floorDisplacements, 
+        floorElevations, 
+        baseDisplacement,
         elapsedTime, 
-        waveVelocity, 
-        stiffness, 
-        dampingRatio,
-        buildingCollapsed
+        collapseTime
       );
       
-      // X-direction beams
-      for (let x = 0; x < columnCount.x; x++) {
-        for (let z = 0; z < columnCount.z - 1; z++) {
-          const xPos = -width/2 + x * columnSpacing.x;
-          const zPos = -depth/2 + z * columnSpacing.z + columnSpacing.z/2;
-          
-          // Calculate damage for this beam
-          const damage = calculateDamage(
-            y, 
-            height, 
-            magnitude, 
-            stiffness, 
-            dampingRatio, 
-            materialType,
-            'beam'
-          );
-          
-          // Add position with displacement
-          positionsX.push({
-            x: xPos + displacement.x,
-            y: y,
-            z: zPos + displacement.z
-          });
-          
-          // Add rotation (no rotation for X beams)
-          rotationsX.push({ x: 0, y: 0, z: 0 });
-          
-          // Add scale
-          scalesX.push({
-            x: beamWidth,
-            y: beamHeight,
-            z: columnSpacing.z
-          });
-          
-          // Add damage value
-          damagesX.push(damage);
-        }
-      }
+      // Calculate damage for this beam
+      const damage = simulationState ? getElementDamage(simulationState, beam.story - 1, 'beam') : 0;
       
-      // Z-direction beams
-      for (let x = 0; x < columnCount.x - 1; x++) {
-        for (let z = 0; z < columnCount.z; z++) {
-          const xPos = -width/2 + x * columnSpacing.x + columnSpacing.x/2;
-          const zPos = -depth/2 + z * columnSpacing.z;
-          
-          // Calculate damage for this beam
-          const damage = calculateDamage(
-            y, 
-            height, 
-            magnitude, 
-            stiffness, 
-            dampingRatio, 
-            materialType,
-            'beam'
-          );
-          
-          // Add position with displacement
-          positionsZ.push({
-            x: xPos + displacement.x,
-            y: y,
-            z: zPos + displacement.z
-          });
-          
-          // Add rotation (90 degrees around Y for Z beams)
-          rotationsZ.push({ x: 0, y: Math.PI / 2, z: 0 });
-          
-          // Add scale
-          scalesZ.push({
-            x: beamWidth,
-            y: beamHeight,
-            z: columnSpacing.x
-          });
-          
-          // Add damage value
-          damagesZ.push(damage);
-        }
-      }
-    }
+      // Add position at mid-span with displacement
+      positions.push({
+        x: (start.x + end.x) / 2 + displacement.x,
+        y: start.y - beamHeight/2,
+        z: (start.z + end.z) / 2 + displacement.z
+      });
+      
+      // Beams along x are turned 90 degrees around Y
+      rotations.push({ x: 0, y: beam.direction === 'x' ? Math.PI / 2 : 0, z: 0 });
+      
+      // Add scale
+      scales.push({
+        x: beamWidth,
+        y: beamHeight,
+        z: beam.length
+      });
+      
+      // Add damage value
+      damages.push(damage);
+    });
     
-    return { 
-      beamPositionsX: positionsX, beamRotationsX: rotationsX, beamScalesX: scalesX, beamDamagesX: damagesX,
-      beamPositionsZ: positionsZ, beamRotationsZ: rotationsZ, beamScalesZ: scalesZ, beamDamagesZ: damagesZ
-    };
-  }, [floors, floorHeight, width, depth, columnCount, columnSpacing, beamHeight, beamWidth, height, magnitude, elapsedTime, waveVelocity, stiffness, dampingRatio, materialType, buildingCollapsed]);
+    return { beamPositions: positions, beamRotations: rotations, beamScales: scales, beamDamages: damages };
+  }, [frame, beamHeight, beamWidth, elapsedTime, floorDisplacements, floorElevations, baseDisplacement, collapseTime, simulationState]);
   
   // Generate floor slabs with optimized rendering
   const floorSlabs = useMemo(() => {
     const slabs = [];
     
-    // Create floor slabs
+    // Create floor slabs, each over its own plan
     for (let floor = 1; floor <= floors; floor++) {
-      const y = floor * floorHeight - slabThickness/2;
+      const elevation = floorElevations[floor - 1];
+      const plan = floorProperties[floor - 1];
+      const y = elevation - slabThickness/2;
       
       // Calculate displacement for this floor
       const displacement = calculateFloorDisplacement(
-        floor * floorHeight, 
-        height, 
-        magnitude, 
+        elevation, 
+        floorDisplacements, 
+        floorElevations, 
+        baseDisplacement,
         elapsedTime, 
-        waveVelocity, 
-        stiffness, 
-        dampingRatio,
-        buildingCollapsed
+        collapseTime
       );
       
       // Calculate damage for this slab
-      const damage = calculateDamage(
-        y, 
-        height, 
-        magnitude, 
-        stiffness, 
-        dampingRatio, 
-        materialType,
-        'slab'
-      );
+      const damage = simulationState ? getElementDamage(simulationState, floor - 1, 'slab') : 0;
       
       // Get damaged material properties
       const damagedMaterial = getDamagedMaterial(
@@ -652,7 +576,11 @@ export default function OptimizedBuildingVisualizer({
       slabs.push(
         <Box
           key={`slab-${floor}`}
-          args={[width, slabThickness, depth]}
+          onClick={onSelectElement && ((event: ThreeEvent<MouseEvent>) => {
+            event.stopPropagation();
+            onSelectElement({ type: 'slab', id: floor - 1 });
+          })}
+          args={[plan.width, slabThickness, plan.depth]}
           position={[
             displacement.x,
             y,
@@ -662,7 +590,7 @@ export default function OptimizedBuildingVisualizer({
           receiveShadow
         >
           <meshStandardMaterial
-            color={damagedMaterial.color}
+            color={selectedElement?.type === 'slab' && selectedElement.id === floor - 1 ? SELECTED_COLOR : damagedMaterial.color}
             roughness={damagedMaterial.roughness}
             metalness={damagedMaterial.metalness}
             emissive={damagedMaterial.emissive}
@@ -672,14 +600,15 @@ export default function OptimizedBuildingVisualizer({
     }
     
     return slabs;
-  }, [floors, floorHeight, width, depth, slabThickness, height, magnitude, elapsedTime, waveVelocity, stiffness, dampingRatio, materialType, material, buildingCollapsed]);
+  }, [floors, floorProperties, slabThickness, elapsedTime, floorDisplacements, floorElevations, baseDisplacement, collapseTime, simulationState, material, buildingCollapsed, selectedElement, onSelectElement]);
   
-  // Define building base
+  // Define building base, lowered below the bearings of an isolated building
+  const isolator = response.model.devices?.isolator ?? null;
   const buildingBase = useMemo(() => {
     return (
       <Box 
         args={[width + 5, 2, depth + 5]} 
-        position={[0, -1, 0]}
+        position={[0, isolator ? -1 - ISOLATOR_HEIGHT - BASE_SLAB_THICKNESS : -1, 0]}
         receiveShadow
       >
         <meshStandardMaterial 
@@ -688,7 +617,101 @@ export default function OptimizedBuildingVisualizer({
         />
       </Box>
     );
-  }, [width, depth]);
+  }, [width, depth, isolator]);
+  
+  // Bearings under the columns, dampers braced across each story and the
+  // tuned mass riding on the roof
+  const deviceMeshes = useMemo(() => {
+    const meshes = [];
+    const devices = animatedShape ? [] : response.devices;
+    const displacementAt = (elevation: number) =>
+      calculateFloorDisplacement(elevation, floorDisplacements, floorElevations, baseDisplacement, elapsedTime, collapseTime).x;
+    const baseShift = displacementAt(0);
+    
+    if (isolator) {
+      meshes.push(
+        <Box
+          key="base-slab"
+          args={[width + 2, BASE_SLAB_THICKNESS, depth + 2]}
+          position={[baseShift, -BASE_SLAB_THICKNESS / 2, 0]}
+          castShadow
+          receiveShadow
+        >
+          <meshStandardMaterial color={material.slabColor} roughness={material.roughness} metalness={material.metalness} />
+        </Box>
+      );
+      
+      // Each bearing shears from the fixed ground to the moving slab
+      const bottom = -BASE_SLAB_THICKNESS - ISOLATOR_HEIGHT;
+      const tilt = Math.atan2(baseShift, ISOLATOR_HEIGHT);
+      const length = Math.hypot(baseShift, ISOLATOR_HEIGHT);
+      frame.nodes.filter(node => node.floor === 0).forEach(node => {
+        meshes.push(
+          <Cylinder
+            key={`isolator-${node.id}`}
+            args={[columnRadius * 2, columnRadius * 2, length, 16]}
+            position={[node.x + baseShift / 2, bottom + ISOLATOR_HEIGHT / 2, node.z]}
+            rotation={[0, 0, -tilt]}
+            castShadow
+          >
+            <meshStandardMaterial
+              color={ISOLATOR_COLOR}
+              roughness={isolator.type === 'lead-rubber' ? 0.9 : 0.3}
+              metalness={isolator.type === 'lead-rubber' ? 0 : 0.8}
+            />
+          </Cylinder>
+        );
+      });
+    }
+    
+    // One diagonal in the first bay of the front and back faces of each story
+    devices.filter(device => device.kind === 'viscous-damper').forEach(device => {
+      const story = device.story ?? 0;
+      const plan = floorProperties[story];
+      const bayWidth = frame.columnSpacing[story + 1].x;
+      const lowerElevation = story > 0 ? floorElevations[story - 1] : 0;
+      const upperElevation = floorElevations[story];
+      const start = new THREE.Vector3(-plan.width / 2 + displacementAt(lowerElevation), lowerElevation, 0);
+      const end = new THREE.Vector3(-plan.width / 2 + bayWidth + displacementAt(upperElevation), upperElevation, 0);
+      const direction = end.clone().sub(start);
+      const level = device.peaks.force > 0
+        ? Math.abs(sampleHistory(response, device.force, elapsedTime)) / device.peaks.force
+        : 0;
+      const color = DAMPER_IDLE_COLOR.clone().lerp(DAMPER_PEAK_COLOR, level);
+      
+      [-plan.depth / 2, plan.depth / 2].forEach(z => {
+        meshes.push(
+          <Cylinder
+            key={`${device.id}-${z}`}
+            args={[columnRadius * 0.4, columnRadius * 0.4, direction.length(), 8]}
+            position={[(start.x + end.x) / 2, (start.y + end.y) / 2, z]}
+            rotation={[0, 0, -Math.atan2(direction.x, direction.y)]}
+            castShadow
+          >
+            <meshStandardMaterial color={color} roughness={0.4} metalness={0.6} />
+          </Cylinder>
+        );
+      });
+    });
+    
+    const tunedMass = devices.find(device => device.kind === 'tuned-mass-damper');
+    if (tunedMass) {
+      const size = Math.min(width, depth) * 0.25;
+      const travel = sampleHistory(response, tunedMass.displacement, elapsedTime) * DISPLACEMENT_VISUAL_SCALE;
+      meshes.push(
+        <Box
+          key="tuned-mass-damper"
+          args={[size, floorHeight * 0.4, size]}
+          position={[displacementAt(height) + travel, height + floorHeight * 0.2, 0]}
+          castShadow
+        >
+          <meshStandardMaterial color={TUNED_MASS_COLOR} roughness={0.5} metalness={0.5} />
+        </Box>
+      );
+    }
+    
+    return meshes;
+  }, [response, animatedShape, isolator, frame, floorProperties, width, depth, height, floorHeight, columnRadius, material, floorDisplacements, floorElevations, baseDisplacement, elapsedTime, collapseTime]);
   
   // Apply performance optimizations using the throttle utility
   const throttledOptimizeMesh = useMemo(() => throttle((mesh: THREE.Mesh) => {
@@ -714,35 +737,32 @@ export default function OptimizedBuildingVisualizer({
       {/* Instanced columns */}
       <InstancedColumns
         columnPositions={columnPositions}
+        columnLengths={columnLengths}
         columnDamages={columnDamages}
         columnRadius={columnRadius}
-        floorHeight={floorHeight}
         material={material}
         hasFailed={buildingCollapsed}
+        selectedId={selectedElement?.type === 'column' ? selectedElement.id : undefined}
+        onSelect={onSelectElement && (id => onSelectElement({ type: 'column', id }))}
       />
       
-      {/* Instanced beams in X direction */}
+      {/* Instanced beams */}
       <InstancedBeams
-        beamPositions={beamPositionsX}
-        beamRotations={beamRotationsX}
-        beamScales={beamScalesX}
-        beamDamages={beamDamagesX}
-        material={material}
-        hasFailed={buildingCollapsed}
-      />
-      
-      {/* Instanced beams in Z direction */}
-      <InstancedBeams
-        beamPositions={beamPositionsZ}
-        beamRotations={beamRotationsZ}
-        beamScales={beamScalesZ}
-        beamDamages={beamDamagesZ}
+        beamPositions={beamPositions}
+        beamRotations={beamRotations}
+        beamScales={beamScales}
+        beamDamages={beamDamages}
         material={material}
         hasFailed={buildingCollapsed}
+        selectedId={selectedElement?.type === 'beam' ? selectedElement.id : undefined}
+        onSelect={onSelectElement && (id => onSelectElement({ type: 'beam', id }))}
       />
       
       {/* Floor slabs */}
       {floorSlabs}
+      
+      {/* Protective devices */}
+      {deviceMeshes}
     </group>
   );
 }
\ No newline at end of file
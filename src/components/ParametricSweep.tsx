@@ -0,0 +1,450 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import LineChart from './ui/LineChart';
+import Heatmap from './ui/Heatmap';
+import { LibraryProject, listProjects, openProject } from '../utils/projectLibrary';
+import { getProjectSeismicParams } from '../utils/projectFile';
+import { getPath } from '../utils/objectPath';
+import { SharedScenario } from '../utils/shareLink';
+import {
+  MAX_SWEEP_SAMPLES,
+  SamplingMethod,
+  SweepAxis,
+  SweepField,
+  SweepResult,
+  aggregateSweep,
+  createSweepSamples,
+  getRangeValues,
+  getSampleCount,
+  getSweepableFields,
+  runSweep,
+  sweepMetrics,
+  sweepResultsToCsv
+} from '../utils/parametricSweep';
+
+const MAX_AXES = 4;
+const seriesColors = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2'];
+
+type AxisDraft = {
+  path: string;
+  mode: 'range' | 'list';
+  min: string;
+  max: string;
+  count: string;
+  list: string; // comma separated values
+};
+
+const axisLabel = (field: SweepField) => (field.unit ? `${field.label} (${field.unit})` : field.label);
+
+// Levels of an axis as entered, or an error explaining why they cannot be used
+const resolveAxis = (draft: AxisDraft, field: SweepField): SweepAxis | string => {
+  const values = draft.mode === 'range'
+    ? getRangeValues(field, Number(draft.min), Number(draft.max), Math.round(Number(draft.count)))
+    : draft.list.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+
+  if (draft.mode === 'range' && !(Number(draft.count) >= 2)) return 'Use at least 2 levels';
+  if (values.length === 0 || values.some(value => !isFinite(value))) return 'Enter numbers separated by commas';
+  if (values.some(value => value < field.min || value > field.max)) {
+    return `${field.label} must be between ${field.min} and ${field.max}${field.unit ? ` ${field.unit}` : ''}`;
+  }
+  return { field, values };
+};
+
+const defaultDraft = (field: SweepField, base: SharedScenario): AxisDraft => {
+  const current = getPath(base, field.path);
+  const min = Math.max(field.min, typeof current === 'number' ? current * 0.5 : field.min);
+  const max = Math.min(field.max, typeof current === 'number' ? current * 1.5 : field.max);
+  return {
+    path: field.path,
+    mode: 'range',
+    min: String(parseFloat(min.toPrecision(3))),
+    max: String(parseFloat(max.toPrecision(3))),
+    count: '5',
+    list: typeof current === 'number' ? String(current) : ''
+  };
+};
+
+export default function ParametricSweep() {
+  const [savedProjects, setSavedProjects] = useState<LibraryProject[]>([]);
+  const [base, setBase] = useState<{ id: string; scenario: SharedScenario } | null>(null);
+  const [drafts, setDrafts] = useState<AxisDraft[]>([]);
+  const [method, setMethod] = useState<SamplingMethod>('grid');
+  const [sampleCount, setSampleCount] = useState('50');
+  const [seed, setSeed] = useState('1');
+  const [results, setResults] = useState<{ axes: SweepAxis[]; runs: SweepResult[] } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [metricKey, setMetricKey] = useState(sweepMetrics[0].key);
+  const [xAxis, setXAxis] = useState(0);
+  const [yAxis, setYAxis] = useState(1);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(setSavedProjects)
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not open the project library'));
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const fields = useMemo(() => (base ? getSweepableFields(base.scenario) : []), [base]);
+  const resolvedAxes = drafts.map(draft => {
+    const field = fields.find(candidate => candidate.path === draft.path);
+    return field ? resolveAxis(draft, field) : 'Choose a parameter';
+  });
+  const axes = resolvedAxes.filter((axis): axis is SweepAxis => typeof axis !== 'string');
+  const axesValid = drafts.length > 0 && axes.length === drafts.length &&
+    new Set(drafts.map(draft => draft.path)).size === drafts.length;
+  const lhsCount = Math.round(Number(sampleCount));
+  const totalRuns = getSampleCount(axes, method, lhsCount);
+  const canRun = base !== null && axesValid && totalRuns >= 1 && totalRuns <= MAX_SWEEP_SAMPLES &&
+    (method === 'grid' || lhsCount >= 2) && progress === null;
+
+  const handleSelectBase = async (id: string) => {
+    setError(null);
+    if (!id) {
+      setBase(null);
+      return;
+    }
+    try {
+      const project = await openProject(id);
+      const scenario = {
+        seismicParams: getProjectSeismicParams(project),
+        buildingParams: project.buildingParams,
+        materialsParams: project.materialsParams
+      };
+      setBase({ id, scenario });
+      // Start with the parameters asked about most often
+      const initial = getSweepableFields(scenario).filter(field =>
+        ['buildingParams.stiffness', 'seismicParams.magnitude'].includes(field.path)
+      );
+      setDrafts(initial.map(field => defaultDraft(field, scenario)));
+      setResults(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not open the project');
+    }
+  };
+
+  const updateDraft = (index: number, changes: Partial<AxisDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => {
+      if (i !== index) return draft;
+      const field = changes.path ? fields.find(candidate => candidate.path === changes.path) : undefined;
+      return field && base ? defaultDraft(field, base.scenario) : { ...draft, ...changes };
+    }));
+  };
+
+  const handleAddAxis = () => {
+    const unused = fields.find(field => !drafts.some(draft => draft.path === field.path));
+    if (unused && base) setDrafts(prev => [...prev, defaultDraft(unused, base.scenario)]);
+  };
+
+  const handleRun = async () => {
+    if (!base || !canRun) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+
+    const samples = createSweepSamples(axes, method, lhsCount, Math.round(Number(seed)) || 1);
+    setProgress({ done: 0, total: samples.length });
+    try {
+      const runs = await runSweep(base.scenario, axes, samples, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      setResults({ axes, runs });
+      setXAxis(0);
+      setYAxis(Math.min(1, axes.length - 1));
+    } catch (e) {
+      // Cancellation is not an error
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : 'The sweep failed');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    const blob = new Blob([sweepResultsToCsv(results.axes, results.runs)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'parametric-sweep.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const metric = sweepMetrics.find(candidate => candidate.key === metricKey) ?? sweepMetrics[0];
+  const metricLabel = metric.unit ? `${metric.label} (${metric.unit})` : metric.label;
+  const failedRuns = results?.runs.filter(run => !run.summary) ?? [];
+
+  // Line chart along the x axis, one line per level of the other chosen axis
+  const lineChart = useMemo(() => {
+    if (!results) return null;
+    const groupAxis = results.axes.length > 1 && yAxis !== xAxis ? yAxis : null;
+    const { x, y, means } = aggregateSweep(results.runs, metric, xAxis, groupAxis);
+    const series = means.map((row, i) => {
+      const points = x.levels.map((level, j) => [level, row[j]] as const).filter(([, mean]) => mean !== null);
+      const groupField = groupAxis !== null ? results.axes[groupAxis].field : null;
+      return {
+        label: y && groupField ? `${groupField.label} = ${parseFloat(y.levels[i].toPrecision(3))}` : metric.label,
+        color: seriesColors[i % seriesColors.length],
+        x: points.map(([level]) => level),
+        y: points.map(([, mean]) => mean as number)
+      };
+    });
+    return { series, xLabel: axisLabel(results.axes[xAxis].field) };
+  }, [results, metric, xAxis, yAxis]);
+
+  const heatmap = useMemo(() => {
+    if (!results || results.axes.length < 2 || xAxis === yAxis) return null;
+    return aggregateSweep(results.runs, metric, xAxis, yAxis);
+  }, [results, metric, xAxis, yAxis]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+        <h2 className="text-xl font-bold">Sweep Setup</h2>
+
+        <div>
+          <label htmlFor="sweepBase" className="block text-sm font-medium mb-1">Base scenario</label>
+          <select
+            id="sweepBase"
+            value={base?.id ?? ''}
+            onChange={(e) => handleSelectBase(e.target.value)}
+            className="w-full px-3 py-2 border rounded bg-white dark:bg-gray-700"
+          >
+            <option value="">Choose a saved project...</option>
+            {savedProjects.map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.name}</option>
+            ))}
+          </select>
+          {savedProjects.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">Save a project from the simulation page to use it as the base scenario.</p>
+          )}
+        </div>
+
+        {base && (
+          <>
+            <div className="space-y-2">
+              {drafts.map((draft, index) => {
+                const resolved = resolvedAxes[index];
+                return (
+                  <div key={index} className="p-2 bg-gray-100 dark:bg-gray-700 rounded space-y-2">
+                    <div className="flex gap-2">
+                      <select
+                        value={draft.path}
+                        onChange={(e) => updateDraft(index, { path: e.target.value })}
+                        className="flex-1 px-2 py-1 border rounded text-sm bg-white dark:bg-gray-700"
+                      >
+                        {fields.map(field => (
+                          <option key={field.path} value={field.path}>{axisLabel(field)}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={draft.mode}
+                        onChange={(e) => updateDraft(index, { mode: e.target.value as AxisDraft['mode'] })}
+                        className="px-2 py-1 border rounded text-sm bg-white dark:bg-gray-700"
+                      >
+                        <option value="range">Range</option>
+                        <option value="list">List</option>
+                      </select>
+                      <button
+                        onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                        className="px-2 py-1 text-sm text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {draft.mode === 'range' ? (
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        {(['min', 'max', 'count'] as const).map(key => (
+                          <label key={key} className="flex items-center gap-1">
+                            <span className="text-gray-600 dark:text-gray-400">
+                              {key === 'count' ? (method === 'grid' ? 'Levels' : 'Levels (grid)') : key === 'min' ? 'From' : 'To'}
+                            </span>
+                            <input
+                              type="number"
+                              value={draft[key]}
+                              onChange={(e) => updateDraft(index, { [key]: e.target.value })}
+                              className="w-full px-2 py-1 border rounded"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <input
+                        type="text"
+                        value={draft.list}
+                        onChange={(e) => updateDraft(index, { list: e.target.value })}
+                        placeholder="Values separated by commas"
+                        className="w-full px-2 py-1 border rounded text-sm"
+                      />
+                    )}
+                    {typeof resolved === 'string' ? (
+                      <p className="text-xs text-red-600 dark:text-red-400">{resolved}</p>
+                    ) : (
+                      <p className="text-xs text-gray-500">
+                        {method === 'grid'
+                          ? `Levels: ${resolved.values.join(', ')}`
+                          : `Sampled between ${Math.min(...resolved.values)} and ${Math.max(...resolved.values)}`}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+              {new Set(drafts.map(draft => draft.path)).size !== drafts.length && (
+                <p className="text-xs text-red-600 dark:text-red-400">Each parameter can only be varied once</p>
+              )}
+              <button
+                onClick={handleAddAxis}
+                disabled={drafts.length >= MAX_AXES}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+              >
+                + Vary another parameter
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                Sampling
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as SamplingMethod)}
+                  className="px-2 py-1 border rounded bg-white dark:bg-gray-700"
+                >
+                  <option value="grid">Full grid</option>
+                  <option value="latin-hypercube">Latin hypercube</option>
+                </select>
+              </label>
+              {method === 'latin-hypercube' && (
+                <>
+                  <label className="flex items-center gap-2">
+                    Samples
+                    <input
+                      type="number"
+                      value={sampleCount}
+                      onChange={(e) => setSampleCount(e.target.value)}
+                      className="w-20 px-2 py-1 border rounded"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Seed
+                    <input
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value)}
+                      className="w-20 px-2 py-1 border rounded"
+                    />
+                  </label>
+                </>
+              )}
+              <span className={totalRuns > MAX_SWEEP_SAMPLES ? 'text-red-600 dark:text-red-400' : 'text-gray-500'}>
+                {totalRuns} runs{totalRuns > MAX_SWEEP_SAMPLES ? ` (at most ${MAX_SWEEP_SAMPLES})` : ''}
+              </span>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleRun}
+            disabled={!canRun}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {progress ? `Running ${progress.done} of ${progress.total}...` : 'Run Sweep'}
+          </button>
+          {progress && (
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-4 py-2 rounded"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {results && lineChart && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+          <div className="flex flex-wrap justify-between items-center gap-2 border-b pb-2">
+            <h2 className="text-xl font-bold">Sweep Results</h2>
+            <button
+              onClick={handleExport}
+              className="bg-green-500 hover:bg-green-600 text-white px-3 py-1 rounded text-sm"
+            >
+              Export CSV
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Result
+              <select
+                value={metricKey}
+                onChange={(e) => setMetricKey(e.target.value as typeof metricKey)}
+                className="px-2 py-1 border rounded bg-white dark:bg-gray-700"
+              >
+                {sweepMetrics.map(candidate => (
+                  <option key={candidate.key} value={candidate.key}>{candidate.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Horizontal axis
+              <select
+                value={xAxis}
+                onChange={(e) => setXAxis(Number(e.target.value))}
+                className="px-2 py-1 border rounded bg-white dark:bg-gray-700"
+              >
+                {results.axes.map((axis, i) => (
+                  <option key={axis.field.path} value={i}>{axis.field.label}</option>
+                ))}
+              </select>
+            </label>
+            {results.axes.length > 1 && (
+              <label className="flex items-center gap-2">
+                Vertical axis / lines
+                <select
+                  value={yAxis}
+                  onChange={(e) => setYAxis(Number(e.target.value))}
+                  className="px-2 py-1 border rounded bg-white dark:bg-gray-700"
+                >
+                  {results.axes.map((axis, i) => (
+                    <option key={axis.field.path} value={i}>{axis.field.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {results.axes.length > 2 && (
+            <p className="text-xs text-gray-500">Values are averaged over the parameters not shown.</p>
+          )}
+          {failedRuns.length > 0 && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+              {failedRuns.length} of {results.runs.length} variations were not valid scenarios and were skipped
+              (e.g. {failedRuns[0].error}).
+            </p>
+          )}
+
+          {heatmap && heatmap.y && (
+            <Heatmap
+              xLevels={heatmap.x.levels}
+              yLevels={heatmap.y.levels}
+              values={heatmap.means}
+              xLabel={axisLabel(results.axes[xAxis].field)}
+              yLabel={axisLabel(results.axes[yAxis].field)}
+              valueLabel={metricLabel}
+            />
+          )}
+
+          <LineChart series={lineChart.series} xLabel={lineChart.xLabel} yLabel={metricLabel} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { SeismicProject, getProjectFileName, parseProject, serializeProject } from '../utils/projectFile';
+
+type ProjectFileControlsProps = {
+  // Builds the project to download, or null while there is nothing to save yet
+  createProject: ((name: string) => SeismicProject) | null;
+  onOpenProject: (project: SeismicProject) => void;
+};
+
+export default function ProjectFileControls({ createProject, onOpenProject }: ProjectFileControlsProps) {
+  const [projectName, setProjectName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    if (!createProject) return;
+    const name = projectName.trim() || 'Seismic simulation';
+
+    try {
+      const blob = new Blob([serializeProject(createProject(name))], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getProjectFileName(name);
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the project.');
+    }
+  };
+
+  // Older project files and saved configurations are migrated as they are opened
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = parseProject(await file.text());
+      setError(null);
+      setProjectName(project.name);
+      onOpenProject(project);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not open the project file.');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <h3 className="font-bold">Project File</h3>
+
+      {createProject && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            placeholder="Project name"
+            className="flex-1 px-3 py-2 border rounded text-sm"
+          />
+          <button
+            onClick={handleDownload}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-2 rounded text-sm"
+          >
+            Download
+          </button>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="projectFile" className="block text-sm font-medium mb-1">
+          Open a .seismic.json project or saved configuration
+        </label>
+        <input
+          type="file"
+          id="projectFile"
+          accept=".json,application/json"
+          onChange={handleUpload}
+          className="text-sm"
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>}
+    </div>
+  );
+}
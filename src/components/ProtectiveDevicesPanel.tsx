@@ -0,0 +1,121 @@
+import { useMemo, useState } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { getStepIndex, sampleHistory } from '../utils/structuralSolver';
+import { runSimulation } from '../utils/simulationEngine';
+
+type ProtectiveDevicesPanelProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
+  elapsedTime: number;
+};
+
+const DEVICE_COLOR = '#d97706';
+
+export default function ProtectiveDevicesPanel({
+  buildingParams,
+  seismicParams,
+  materialsParams,
+  elapsedTime
+}: ProtectiveDevicesPanelProps) {
+  const run = useMemo(
+    () => runSimulation(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const { response } = run;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const time = useMemo(
+    () => Float64Array.from({ length: response.steps }, (_, step) => step * response.dt),
+    [response]
+  );
+
+  const device = response.devices.find(candidate => candidate.id === selectedId) ?? response.devices[0];
+
+  // Histories in mm and kN
+  const histories = useMemo(() => device && {
+    displacement: device.displacement.map(value => value * 1000),
+    force: device.force.map(value => value / 1000)
+  }, [device]);
+
+  // Force against displacement up to the current time, in mm and kN
+  const loop = useMemo(() => {
+    if (!device) return null;
+    const end = getStepIndex(response, elapsedTime) + 1;
+    return {
+      x: Array.from(device.displacement.subarray(0, end), value => value * 1000),
+      y: Array.from(device.force.subarray(0, end), value => value / 1000)
+    };
+  }, [response, device, elapsedTime]);
+
+  if (!device || !histories || !loop) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <h2 className="text-xl font-bold border-b pb-2">Protective Devices</h2>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400">
+              <th className="py-1">Device</th>
+              <th className="py-1 text-right">Displacement now (mm)</th>
+              <th className="py-1 text-right">Peak (mm)</th>
+              <th className="py-1 text-right">Force now (kN)</th>
+              <th className="py-1 text-right">Peak (kN)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {response.devices.map(candidate => (
+              <tr
+                key={candidate.id}
+                onClick={() => setSelectedId(candidate.id)}
+                className={`border-t border-gray-200 dark:border-gray-700 cursor-pointer ${candidate.id === device.id ? 'bg-blue-50 dark:bg-blue-900/20 font-medium' : ''}`}
+              >
+                <td className="py-1">{candidate.label}</td>
+                <td className="py-1 text-right">{(sampleHistory(response, candidate.displacement, elapsedTime) * 1000).toFixed(1)}</td>
+                <td className="py-1 text-right">{(candidate.peaks.displacement * 1000).toFixed(1)}</td>
+                <td className="py-1 text-right">{(sampleHistory(response, candidate.force, elapsedTime) / 1000).toFixed(0)}</td>
+                <td className="py-1 text-right">{(candidate.peaks.force / 1000).toFixed(0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="font-semibold">{device.label}</h3>
+      <LineChart
+        series={[{ label: 'Displacement', color: DEVICE_COLOR, x: time, y: histories.displacement }]}
+        xLabel="Time (s)"
+        yLabel="Displacement (mm)"
+        markers={[{ x: elapsedTime, label: `${elapsedTime.toFixed(1)} s` }]}
+        height={180}
+      />
+      <LineChart
+        series={[{ label: 'Force', color: DEVICE_COLOR, x: time, y: histories.force }]}
+        xLabel="Time (s)"
+        yLabel="Force (kN)"
+        markers={[{ x: elapsedTime, label: `${elapsedTime.toFixed(1)} s` }]}
+        height={180}
+      />
+      <LineChart
+        series={[{ label: 'Hysteresis', color: DEVICE_COLOR, x: loop.x, y: loop.y }]}
+        xLabel="Displacement (mm)"
+        yLabel="Force (kN)"
+        xDomain={[-device.peaks.displacement * 1000, device.peaks.displacement * 1000]}
+        yDomain={[-device.peaks.force / 1000, device.peaks.force / 1000]}
+        height={240}
+        maxPoints={loop.x.length}
+      />
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Bearing displacement is measured across the isolation plane, damper displacement is the story&apos;s
+        inter-story displacement, and the tuned mass moves relative to the roof. Select a device to plot its
+        histories; the loop traces force against displacement up to the current time.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import { GRAVITY } from '../utils/groundMotion';
+import { analyzeStructure } from '../utils/structuralSolver';
+import {
+  DEFAULT_SPECTRUM_DAMPING_RATIOS,
+  computeResponseSpectrum,
+  interpolateSpectrum
+} from '../utils/responseSpectrum';
+
+type SpectrumQuantity = 'sa' | 'sv' | 'sd';
+
+type ResponseSpectrumChartProps = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
+};
+
+// Display settings for each spectral quantity
+const quantities: Record<SpectrumQuantity, { label: string; unit: string; scale: number; digits: number }> = {
+  sa: { label: 'Spectral acceleration', unit: 'g', scale: 1 / GRAVITY, digits: 3 },
+  sv: { label: 'Spectral velocity', unit: 'cm/s', scale: 100, digits: 1 },
+  sd: { label: 'Spectral displacement', unit: 'cm', scale: 100, digits: 2 }
+};
+
+const curveColors = ['#0ea5e9', '#2563eb', '#7c3aed', '#db2777', '#f97316'];
+
+export default function ResponseSpectrumChart({
+  buildingParams,
+  seismicParams,
+  materialsParams
+}: ResponseSpectrumChartProps) {
+  const [quantity, setQuantity] = useState<SpectrumQuantity>('sa');
+
+  // Same record and model as the time-history analysis
+  const response = useMemo(
+    () => analyzeStructure(buildingParams, seismicParams, materialsParams),
+    [buildingParams, seismicParams, materialsParams]
+  );
+  const { fundamentalPeriod, dampingRatio } = response.model;
+
+  // Standard damping ratios plus the building's own
+  const spectra = useMemo(() => {
+    const ratios = Array.from(new Set([...DEFAULT_SPECTRUM_DAMPING_RATIOS, dampingRatio]))
+      .sort((a, b) => a - b);
+    return ratios.map(ratio => computeResponseSpectrum(response.groundMotion, ratio));
+  }, [response.groundMotion, dampingRatio]);
+
+  const { label, unit, scale, digits } = quantities[quantity];
+  const buildingSpectrum = spectra.find(s => s.dampingRatio === dampingRatio) ?? spectra[0];
+  const buildingOrdinate = interpolateSpectrum(
+    buildingSpectrum.periods,
+    buildingSpectrum[quantity],
+    fundamentalPeriod
+  ) * scale;
+
+  const series = spectra.map((spectrum, i) => ({
+    label: `ζ = ${(spectrum.dampingRatio * 100).toFixed(0)}%${spectrum === buildingSpectrum ? ' (building)' : ''}`,
+    color: curveColors[i % curveColors.length],
+    x: spectrum.periods,
+    y: spectrum[quantity].map(value => value * scale),
+    dashed: spectrum !== buildingSpectrum
+  }));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex justify-between items-center border-b pb-2">
+        <h2 className="text-xl font-bold">Response Spectrum</h2>
+        <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+          {(Object.keys(quantities) as SpectrumQuantity[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setQuantity(key)}
+              className={`px-2 py-1 ${quantity === key
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+            >
+              {key.charAt(0).toUpperCase() + key.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <LineChart
+        series={series}
+        xLabel="Period (s)"
+        yLabel={`${label} (${unit})`}
+        xScale="log"
+        markers={[{ x: fundamentalPeriod, label: `T₁ = ${fundamentalPeriod.toFixed(2)} s` }]}
+      />
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="font-medium">Fundamental Period:</div>
+        <div className="text-right">{fundamentalPeriod.toFixed(2)} s</div>
+        <div className="font-medium">{label} at T₁:</div>
+        <div className="text-right">{buildingOrdinate.toFixed(digits)} {unit}</div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Each curve is the peak response of a single-storey oscillator to this ground motion. Where the
+        building&apos;s period falls on the curve shows how strongly the record excites its first mode.
+      </p>
+    </div>
+  );
+}
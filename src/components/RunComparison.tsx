@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import LineChart from './ui/LineChart';
+import SimulationPlaybackControls from './SimulationPlaybackControls';
+import { LibraryProject, listProjects, openProject } from '../utils/projectLibrary';
+import { getProjectSeismicParams } from '../utils/projectFile';
+import {
+  ComparedRun,
+  DiffRow,
+  MAX_COMPARED_RUNS,
+  compareProject,
+  comparisonColors,
+  getInputDiffRows,
+  getOutputDiffRows
+} from '../utils/runComparison';
+import { runAnalysisInWorker } from '../utils/structuralAnalysisClient';
+import { useSimulationRunner } from '../utils/useSimulationRunner';
+
+// Dynamically import the Safe 3D visualizer to avoid server-side rendering issues
+const SafeSimulator = dynamic(() => import('./SafeSimulator'), {
+  ssr: false,
+  loading: () => <div className="w-full h-full flex items-center justify-center">Loading visualizer...</div>
+});
+
+type HistoryQuantity = 'drift' | 'displacement';
+
+function DiffTable({ title, rows, runs }: { title: string; rows: DiffRow[]; runs: ComparedRun[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 dark:border-gray-700">
+          <th className="text-left py-2 pr-4">{title}</th>
+          {runs.map((run, i) => (
+            <th key={run.id} className="text-left py-2 pr-4" style={{ color: comparisonColors[i] }}>
+              {i + 1}. {run.name}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr
+            key={row.label}
+            className={`border-b border-gray-100 dark:border-gray-700 ${row.differs ? 'bg-yellow-50 dark:bg-yellow-900/20 font-medium' : ''}`}
+          >
+            <td className="py-1 pr-4 text-gray-600 dark:text-gray-400">{row.label}</td>
+            {row.values.map((value, i) => (
+              <td key={i} className="py-1 pr-4">{value}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function RunComparison() {
+  const [savedProjects, setSavedProjects] = useState<LibraryProject[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [runs, setRuns] = useState<ComparedRun[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [historyQuantity, setHistoryQuantity] = useState<HistoryQuantity>('drift');
+  const [showOnlyDifferences, setShowOnlyDifferences] = useState(false);
+  const [preferBasicMode, setPreferBasicMode] = useState(true);
+
+  // One clock drives every view, over the longest record
+  const duration = Math.max(0, ...runs.map(run => run.seismicParams.duration));
+  const [runnerState, runner] = useSimulationRunner({ duration });
+  const time = runnerState.time;
+
+  useEffect(() => {
+    listProjects()
+      .then(setSavedProjects)
+      .catch(e => setError(e instanceof Error ? e.message : 'Could not open the project library'));
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev =>
+      prev.includes(id)
+        ? prev.filter(selected => selected !== id)
+        : prev.length < MAX_COMPARED_RUNS ? [...prev, id] : prev
+    );
+  };
+
+  // Analyse the selected runs in the worker, then line them up
+  const handleCompare = async () => {
+    setError(null);
+    runner.pause();
+    try {
+      const compared: ComparedRun[] = [];
+      for (const [index, id] of selectedIds.entries()) {
+        setProgress(`Analysing run ${index + 1} of ${selectedIds.length}...`);
+        const project = await openProject(id);
+        await runAnalysisInWorker(project.buildingParams, getProjectSeismicParams(project), project.materialsParams);
+        compared.push(compareProject(id, project));
+      }
+      setRuns(compared);
+      runner.seek(0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not compare the runs');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const historySeries = useMemo(() => runs.map((run, i) => {
+    const { history, summary } = run.report;
+    return {
+      label: `${i + 1}. ${run.name}`,
+      color: comparisonColors[i],
+      x: history.time,
+      // Drift of each run's critical story, roof displacement in cm
+      y: historyQuantity === 'drift'
+        ? history.drift[summary.criticalStory - 1]
+        : history.roofDisplacement.map(value => value * 100)
+    };
+  }), [runs, historyQuantity]);
+
+  const inputRows = useMemo(() => getInputDiffRows(runs), [runs]);
+  const outputRows = useMemo(() => getOutputDiffRows(runs), [runs]);
+  const visibleInputRows = showOnlyDifferences ? inputRows.filter(row => row.differs) : inputRows;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+        <h2 className="text-xl font-bold">Saved Runs</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Select two to {MAX_COMPARED_RUNS} projects from the library to compare.
+        </p>
+
+        {savedProjects.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-60 overflow-y-auto">
+            {savedProjects.map(entry => {
+              const isSelected = selectedIds.includes(entry.id);
+              return (
+                <label
+                  key={entry.id}
+                  className="flex items-center gap-2 p-2 bg-gray-100 dark:bg-gray-700 rounded cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={!isSelected && selectedIds.length >= MAX_COMPARED_RUNS}
+                    onChange={() => toggleSelected(entry.id)}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium truncate">{entry.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      M{entry.seismicParams.magnitude.toFixed(1)} · {entry.buildingParams.floors} floors · {entry.buildingParams.materialType}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-2">No saved projects yet. Save runs from the simulation page first.</p>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <button
+          onClick={handleCompare}
+          disabled={selectedIds.length < 2 || progress !== null}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {progress ?? `Compare ${selectedIds.length} Runs`}
+        </button>
+      </div>
+
+      {runs.length > 0 && (
+        <>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold">Synchronized Playback</h2>
+              <label className="flex items-center text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preferBasicMode}
+                  onChange={() => setPreferBasicMode(prev => !prev)}
+                  className="mr-2"
+                />
+                Use Basic 3D (Better Performance)
+              </label>
+            </div>
+            <SimulationPlaybackControls state={runnerState} runner={runner} />
+            <div className={`grid grid-cols-1 gap-4 ${runs.length > 2 ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'}`}>
+              {runs.map((run, i) => (
+                <div key={run.id} className="border-2 rounded-lg overflow-hidden" style={{ borderColor: comparisonColors[i] }}>
+                  <div className="px-2 py-1 text-sm font-medium truncate">{i + 1}. {run.name}</div>
+                  <div className="relative h-80">
+                    <SafeSimulator
+                      seismicParams={run.seismicParams}
+                      buildingParams={run.buildingParams}
+                      materialsParams={run.materialsParams}
+                      elapsedTime={Math.min(time, run.seismicParams.duration)}
+                      preferBasicMode={preferBasicMode}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+            <div className="flex justify-between items-center border-b pb-2">
+              <h2 className="text-xl font-bold">Response Histories</h2>
+              <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+                {(['drift', 'displacement'] as HistoryQuantity[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setHistoryQuantity(key)}
+                    className={`px-2 py-1 ${historyQuantity === key
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+                  >
+                    {key.charAt(0).toUpperCase() + key.slice(1)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <LineChart
+              series={historySeries}
+              xLabel="Time (s)"
+              yLabel={historyQuantity === 'drift' ? 'Critical story drift (%)' : 'Roof displacement (cm)'}
+              markers={[{ x: time, label: `${time.toFixed(1)} s` }]}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3 overflow-x-auto">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold">Differences</h2>
+              <label className="flex items-center text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showOnlyDifferences}
+                  onChange={() => setShowOnlyDifferences(prev => !prev)}
+                  className="mr-2"
+                />
+                Only inputs that differ
+              </label>
+            </div>
+            <DiffTable title="Key results" rows={outputRows} runs={runs} />
+            <DiffTable title="Inputs" rows={visibleInputRows} runs={runs} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
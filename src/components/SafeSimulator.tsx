@@ -5,6 +5,7 @@ import dynamic from 'next/dynamic';
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { SelectedComponent } from './StructuralComponentAnalysis';
 
 // Load simulators with special settings to prevent initialization errors
 const BasicSimulator = dynamic(() => import('./BasicSimulator'), {
@@ -67,6 +68,9 @@ export type SafeSimulatorProps = {
   elapsedTime: number;
   preferBasicMode?: boolean;
   materialsParams?: StructuralMaterialsParams;
+  animatedMode?: number | null; // Mode shape animated in the 3D view instead of the response
+  selectedElement?: SelectedComponent | null; // Frame element highlighted in the 3D view
+  onSelectElement?: (element: SelectedComponent) => void;
   onStop?: () => void;
   onRestart?: () => void;
 };
@@ -137,7 +141,11 @@ function TroubleshootingGuide({
 export default function SafeSimulator({ 
   buildingParams, 
   seismicParams, 
+  materialsParams,
   elapsedTime,
+  animatedMode = null,
+  selectedElement = null,
+  onSelectElement,
   preferBasicMode = false,
   onStop,
   onRestart
@@ -240,6 +248,7 @@ export default function SafeSimulator({
               buildingParams={buildingParams}
               seismicParams={seismicParams}
               elapsedTime={elapsedTime}
+              materialsParams={materialsParams}
             />
             {/* Simulation Controls */}
             {(onStop || onRestart) && (
@@ -287,6 +296,7 @@ export default function SafeSimulator({
               buildingParams={buildingParams}
               seismicParams={seismicParams}
               elapsedTime={elapsedTime}
+              materialsParams={materialsParams}
             />
             {/* Simulation Controls */}
             {(onStop || onRestart) && (
@@ -332,7 +342,11 @@ export default function SafeSimulator({
           <CombinedSimulator
             buildingParams={buildingParams}
             seismicParams={seismicParams}
+            materialsParams={materialsParams}
             elapsedTime={elapsedTime}
+            animatedMode={animatedMode}
+            selectedElement={selectedElement}
+            onSelectElement={onSelectElement}
           />
           {/* Simulation Controls */}
           {(onStop || onRestart) && (
@@ -1,5 +1,13 @@
-import { useState, FormEvent } from 'react';
+import { useState, useMemo, FormEvent } from 'react';
 import HistoricalEarthquakePresets, { historicalEarthquakes } from './HistoricalEarthquakePresets';
+import { DEFAULT_SEED, GRAVITY, RecordedGroundMotion, getShakingTimeline } from '../utils/groundMotion';
+import { AccelerationUnit, parseAccelerogram } from '../utils/accelerogramImport';
+import { SiteSoil, getDefaultSiteSoil, getSitePeriod, siteClasses } from '../utils/siteResponse';
+import { SiteClass } from '../utils/designCodes';
+import { SoilLayer, SoilLayerType, SoilProfile, defaultSoilProfile, soilLayerTypes } from '../utils/liquefaction';
+import LineChart from './ui/LineChart';
+import { FieldError } from './ui/FormComponents';
+import { hasErrors, validateSeismicParams } from '../utils/paramSchemas';
 
 export type SeismicParams = {
   magnitude: number;
@@ -9,6 +17,10 @@ export type SeismicParams = {
   waveVelocity: number;
   duration: number;
   distance: number;
+  seed?: number; // Seed for the synthetic ground motion record
+  groundMotionRecord?: RecordedGroundMotion; // Imported accelerogram, replaces the synthetic record
+  site?: SiteSoil; // Soil beneath the building; without it the record acts on a fixed base
+  soilProfile?: SoilProfile; // Layers checked for liquefaction
   showGrid: boolean;
   showStats: boolean;
 };
@@ -21,6 +33,7 @@ const defaultParams: SeismicParams = {
   waveVelocity: 1.5,
   duration: 60,
   distance: 50, // Default distance in km
+  seed: DEFAULT_SEED,
   showGrid: true,
   showStats: false,
 };
@@ -36,8 +49,45 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
     ...initialParams,
   });
 
+  const [recordUnit, setRecordUnit] = useState<AccelerationUnit>('g');
+  const [importError, setImportError] = useState<string | null>(null);
+  const record = params.groundMotionRecord;
+  const errors = useMemo(() => validateSeismicParams(params), [params]);
+
+  // Plot data for the imported record, in g
+  const recordPlot = useMemo(() => {
+    if (!record) return null;
+    const time = record.acceleration.map((_, i) => i * record.dt);
+    const acceleration = record.acceleration.map(a => a / GRAVITY);
+    return { time, acceleration, peakTime: getShakingTimeline(record).peakTime };
+  }, [record]);
+
+  // Parse the selected file; the record's length becomes the simulation duration
+  const handleRecordImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseAccelerogram(await file.text(), file.name, recordUnit);
+      setImportError(null);
+      setParams(prev => ({
+        ...prev,
+        groundMotionRecord: imported,
+        duration: parseFloat(((imported.acceleration.length - 1) * imported.dt).toFixed(3))
+      }));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read the ground motion file.');
+    }
+  };
+
+  const clearRecord = () => {
+    setParams(prev => ({ ...prev, groundMotionRecord: undefined }));
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (hasErrors(errors)) return;
     onSubmit(params);
   };
 
@@ -54,6 +104,69 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
     }));
   };
 
+  // Choosing a site class starts from its representative soil
+  const handleSiteClassChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target;
+    setParams(prev => ({ ...prev, site: value ? getDefaultSiteSoil(value as SiteClass) : undefined }));
+  };
+
+  const handleSiteChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setParams(prev => prev.site ? ({
+      ...prev,
+      site: { ...prev.site, [name]: value === '' ? '' : isNaN(parseFloat(value)) ? prev.site[name as keyof SiteSoil] : parseFloat(value) }
+    }) : prev);
+  };
+
+  const toggleSoilProfile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = e.target;
+    setParams(prev => ({ ...prev, soilProfile: checked ? structuredClone(defaultSoilProfile) : undefined }));
+  };
+
+  const handleGroundwaterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setParams(prev => prev.soilProfile ? ({
+      ...prev,
+      soilProfile: { ...prev.soilProfile, [name]: value === '' ? '' : isNaN(parseFloat(value)) ? prev.soilProfile.groundwaterDepth : parseFloat(value) }
+    }) : prev);
+  };
+
+  const updateLayers = (update: (layers: SoilLayer[]) => SoilLayer[]) => {
+    setParams(prev => prev.soilProfile ? ({
+      ...prev,
+      soilProfile: { ...prev.soilProfile, layers: update(prev.soilProfile.layers) }
+    }) : prev);
+  };
+
+  const handleLayerChange = (index: number, e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    updateLayers(layers => layers.map((layer, i) => {
+      if (i !== index) return layer;
+      // A new soil type starts from its typical fines content
+      if (name === 'soilType') {
+        const soilType = soilLayerTypes.find(type => type.value === value);
+        return { ...layer, soilType: value as SoilLayerType, finesContent: soilType?.finesContent ?? layer.finesContent };
+      }
+      return { ...layer, [name]: value === '' ? '' : isNaN(parseFloat(value)) ? layer[name as keyof SoilLayer] : parseFloat(value) };
+    }));
+  };
+
+  const addLayer = () => {
+    updateLayers(layers => [...layers, { ...layers[layers.length - 1] ?? defaultSoilProfile.layers[0] }]);
+  };
+
+  const removeLayer = (index: number) => {
+    updateLayers(layers => layers.filter((_, i) => i !== index));
+  };
+
+  const siteFields: { name: keyof SiteSoil; label: string; step: string }[] = [
+    { name: 'shearWaveVelocity', label: 'Shear-Wave Velocity (m/s)', step: '10' },
+    { name: 'density', label: 'Density (kg/m³)', step: '50' },
+    { name: 'thickness', label: 'Soil Thickness to Bedrock (m)', step: '1' },
+    { name: 'dampingRatio', label: 'Soil Damping Ratio', step: '0.01' },
+    { name: 'poissonsRatio', label: "Poisson's Ratio", step: '0.01' }
+  ];
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4 p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
       <h2 className="text-xl font-bold mb-4">Seismic Simulation Parameters</h2>
@@ -67,6 +180,70 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
         <HistoricalEarthquakePresets onSelect={setParams} />
       </div>
       
+      {/* Recorded ground motion import */}
+      <div className="mb-6">
+        <h3 className="text-md font-semibold mb-2">Or Import a Recorded Accelerogram</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          PEER NGA .AT2, CSV or two-column time/acceleration files. The record replaces the synthetic
+          ground motion and sets the simulation duration.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            id="groundMotionFile"
+            accept=".at2,.AT2,.csv,.txt,.dat"
+            onChange={handleRecordImport}
+            className="text-sm"
+          />
+          <label htmlFor="recordUnit" className="text-sm font-medium">
+            Units if not stated in file
+          </label>
+          <select
+            id="recordUnit"
+            value={recordUnit}
+            onChange={(e) => setRecordUnit(e.target.value as AccelerationUnit)}
+            className="text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1"
+          >
+            <option value="g">g</option>
+            <option value="m/s2">m/s²</option>
+            <option value="cm/s2">cm/s² (gal)</option>
+          </select>
+        </div>
+        
+        <FieldError message={errors.groundMotionRecord} />
+        {importError && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">{importError}</p>
+        )}
+        
+        {record && recordPlot && (
+          <div className="mt-4 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-sm">
+                <span className="font-medium">{record.name}</span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {' '}· {record.acceleration.length} points · dt {record.dt} s ·
+                  PGA {(record.peakGroundAcceleration / GRAVITY).toFixed(3)} g
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={clearRecord}
+                className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+            <LineChart
+              series={[{ label: 'Ground acceleration', color: '#2563eb', x: recordPlot.time, y: recordPlot.acceleration }]}
+              xLabel="Time (s)"
+              yLabel="Acceleration (g)"
+              markers={[{ x: recordPlot.peakTime, label: 'PGA' }]}
+              height={200}
+            />
+          </div>
+        )}
+      </div>
+      
       <div className="border-t border-gray-200 dark:border-gray-700 my-6 pt-6">
         <h3 className="text-md font-semibold mb-4">Or Customize Parameters Manually</h3>
       
@@ -86,6 +263,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.magnitude} />
           <div className="text-right text-sm">{params.magnitude.toFixed(1)}</div>
         </div>
         
@@ -104,6 +282,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.depth} />
         </div>
         
         <div>
@@ -121,6 +300,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.epicenterX} />
         </div>
         
         <div>
@@ -138,6 +318,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.epicenterY} />
         </div>
         
         <div>
@@ -155,6 +336,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.waveVelocity} />
         </div>
         
         <div>
@@ -172,6 +354,7 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             onChange={handleChange}
             className="w-full"
           />
+          <FieldError message={errors.distance} />
         </div>
         
         <div>
@@ -187,9 +370,196 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
             step="1"
             value={params.duration}
             onChange={handleChange}
+            disabled={!!record}
             className="w-full"
           />
+          <FieldError message={errors.duration} />
+          {record && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Set by the imported record.
+            </p>
+          )}
+        </div>
+        
+        <div>
+          <label htmlFor="seed" className="block mb-1 font-medium">
+            Ground Motion Seed
+          </label>
+          <input
+            type="number"
+            id="seed"
+            name="seed"
+            min="1"
+            step="1"
+            value={params.seed ?? DEFAULT_SEED}
+            onChange={handleChange}
+            className="w-full"
+          />
+          <FieldError message={errors.seed} />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            The same seed always reproduces the same acceleration record.
+          </p>
+        </div>
+      </div>
+      
+      <div className="border-t border-gray-200 dark:border-gray-700 my-6 pt-6">
+        <h3 className="text-md font-semibold mb-2">Site Soil</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          The ground motion is taken at a rock outcrop. A soil layer amplifies it on its way to the surface,
+          and the foundation sways and rocks on the soil instead of being fixed.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="siteClass" className="block mb-1 font-medium">
+              Site Class
+            </label>
+            <select
+              id="siteClass"
+              value={params.site?.siteClass ?? ''}
+              onChange={handleSiteClassChange}
+              className="w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1"
+            >
+              <option value="">Not specified (fixed base)</option>
+              {(Object.keys(siteClasses) as SiteClass[]).map(siteClass => (
+                <option key={siteClass} value={siteClass}>{siteClasses[siteClass].label}</option>
+              ))}
+            </select>
+            <FieldError message={errors['site.siteClass']} />
+            {params.site && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {getSitePeriod(params.site) > 0
+                  ? `Site period ${getSitePeriod(params.site).toFixed(2)} s (4H / Vs)`
+                  : 'Rock site: no amplification'}
+              </p>
+            )}
+          </div>
+          
+          {params.site && siteFields.map(field => (
+            <div key={field.name}>
+              <label htmlFor={`site-${field.name}`} className="block mb-1 font-medium">
+                {field.label}
+              </label>
+              <input
+                type="number"
+                id={`site-${field.name}`}
+                name={field.name}
+                step={field.step}
+                value={params.site?.[field.name]}
+                onChange={handleSiteChange}
+                className="w-full"
+              />
+              <FieldError message={errors[`site.${field.name}`]} />
+            </div>
+          ))}
+        </div>
+      </div>
+      
+      <div className="border-t border-gray-200 dark:border-gray-700 my-6 pt-6">
+        <div className="flex items-center mb-2">
+          <input
+            type="checkbox"
+            id="checkLiquefaction"
+            checked={!!params.soilProfile}
+            onChange={toggleSoilProfile}
+            className="mr-2 h-5 w-5 accent-primary"
+          />
+          <label htmlFor="checkLiquefaction" className="text-md font-semibold">
+            Check Liquefaction
+          </label>
         </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Soil layers from the surface down with their SPT blow counts. Saturated sands and silts are checked
+          against the peak ground acceleration and magnitude of the scenario.
+        </p>
+        
+        {params.soilProfile && (
+          <div className="space-y-3">
+            <div className="md:w-1/2">
+              <label htmlFor="groundwaterDepth" className="block mb-1 font-medium">
+                Groundwater Depth (m)
+              </label>
+              <input
+                type="number"
+                id="groundwaterDepth"
+                name="groundwaterDepth"
+                min="0"
+                step="0.5"
+                value={params.soilProfile.groundwaterDepth}
+                onChange={handleGroundwaterChange}
+                className="w-full"
+              />
+              <FieldError message={errors['soilProfile.groundwaterDepth']} />
+            </div>
+            
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-1">Layer</th>
+                    <th className="py-1">Thickness (m)</th>
+                    <th className="py-1">Soil</th>
+                    <th className="py-1">SPT N60</th>
+                    <th className="py-1">Fines (%)</th>
+                    <th className="py-1">γ (kN/m³)</th>
+                    <th className="py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {params.soilProfile.layers.map((layer, index) => (
+                    <tr key={index} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                      <td className="py-1">{index + 1}</td>
+                      <td className="py-1 pr-2">
+                        <input type="number" name="thickness" step="0.5" value={layer.thickness} onChange={e => handleLayerChange(index, e)} className="w-20" />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <select
+                          name="soilType"
+                          value={layer.soilType}
+                          onChange={e => handleLayerChange(index, e)}
+                          className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-1 py-0.5"
+                        >
+                          {soilLayerTypes.map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      {(['sptN', 'finesContent', 'unitWeight'] as const).map(name => (
+                        <td key={name} className="py-1 pr-2">
+                          <input type="number" name={name} step="1" value={layer[name]} onChange={e => handleLayerChange(index, e)} className="w-20" />
+                        </td>
+                      ))}
+                      <td className="py-1 text-right">
+                        <button
+                          type="button"
+                          onClick={() => removeLayer(index)}
+                          disabled={params.soilProfile!.layers.length <= 1}
+                          className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {Object.entries(errors)
+              .filter(([path]) => path.startsWith('soilProfile.layers'))
+              .map(([path, message]) => (
+                <FieldError
+                  key={path}
+                  message={path === 'soilProfile.layers' ? message : `Layer ${Number(path.split('.')[2]) + 1}: ${message}`}
+                />
+              ))}
+            <button
+              type="button"
+              onClick={addLayer}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Add Layer
+            </button>
+          </div>
+        )}
       </div>
       
         <div className="flex flex-col space-y-2">
@@ -225,7 +595,8 @@ export default function SeismicParameterForm({ onSubmit, initialParams = {} }: S
       <div className="pt-2">
         <button
           type="submit"
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+          disabled={hasErrors(errors)}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Start Simulation
         </button>
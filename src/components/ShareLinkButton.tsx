@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { BuildingParams } from './BuildingParameterForm';
+import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import { canShareScenario, createShareUrl } from '../utils/shareLink';
+
+type ShareLinkButtonProps = {
+  seismicParams: SeismicParams;
+  buildingParams: BuildingParams;
+  materialsParams: StructuralMaterialsParams;
+};
+
+export default function ShareLinkButton({ seismicParams, buildingParams, materialsParams }: ShareLinkButtonProps) {
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const canShare = canShareScenario(seismicParams);
+
+  // Copy a link that opens this scenario straight into the simulation
+  const handleShare = async () => {
+    try {
+      const url = await createShareUrl({ seismicParams, buildingParams, materialsParams }, window.location.href);
+      await navigator.clipboard.writeText(url);
+      setStatus({ message: 'Link copied to the clipboard', isError: false });
+    } catch (e) {
+      setStatus({ message: e instanceof Error ? e.message : 'Could not create the link', isError: true });
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={handleShare}
+        disabled={!canShare}
+        className="w-full border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 font-medium py-3 px-4 rounded-md transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+          <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
+        </svg>
+        Copy Share Link
+      </button>
+      {!canShare && (
+        <p className="mt-1 text-xs text-gray-500">Scenarios with an imported ground motion record cannot be shared as a link.</p>
+      )}
+      {status && (
+        <p className={`mt-1 text-xs ${status.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
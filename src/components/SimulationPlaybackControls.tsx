@@ -0,0 +1,75 @@
+import { SimulationRunner, SimulationRunnerState } from '../utils/simulationRunner';
+
+type SimulationPlaybackControlsProps = {
+  state: SimulationRunnerState;
+  runner: SimulationRunner;
+};
+
+const speedOptions = [0.25, 0.5, 1, 2, 4];
+
+export default function SimulationPlaybackControls({ state, runner }: SimulationPlaybackControlsProps) {
+  const { time, duration, timeStep, speed, isPlaying } = state;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => runner.seek(0)}
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-sm"
+          aria-label="Back to start"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => runner.seek(time - timeStep)}
+          disabled={isPlaying}
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-sm disabled:opacity-50"
+          aria-label="Step back"
+        >
+          ◀
+        </button>
+        <button
+          onClick={() => (isPlaying ? runner.pause() : runner.play())}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium min-w-[4.5rem]"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={() => runner.step()}
+          disabled={isPlaying}
+          className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-sm disabled:opacity-50"
+          aria-label="Step forward"
+        >
+          ▶
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => runner.setSpeed(Number(e.target.value))}
+          className="ml-auto px-2 py-1 border rounded-md text-sm bg-white dark:bg-gray-700 dark:border-gray-600"
+          aria-label="Playback speed"
+        >
+          {speedOptions.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={timeStep}
+        value={time}
+        onChange={(e) => runner.seek(Number(e.target.value))}
+        className="w-full"
+        aria-label="Simulation time"
+      />
+
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 font-mono">
+        <span>{time.toFixed(2)} s</span>
+        <span>Δt = {(timeStep * 1000).toFixed(0)} ms</span>
+        <span>{duration.toFixed(1)} s</span>
+      </div>
+    </div>
+  );
+}
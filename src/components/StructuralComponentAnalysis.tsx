@@ -1,6 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
+import { StructuralMaterialsParams } from './StructuralMaterialsForm';
+import LineChart from './ui/LineChart';
+import {
+  ElementForces,
+  FrameElementType,
+  FrameModel,
+  InelasticDemand,
+  analyzeFrame,
+  buildFrameModel,
+  getElementHysteresis
+} from '../utils/frameModel';
+import { normalCdf } from '../utils/fragility';
+import { getDuctilityCapacity } from '../utils/hysteresis';
+import { getUncertainParameters } from '../utils/monteCarlo';
+import { runSimulation } from '../utils/simulationEngine';
+import { defaultMaterialsParams } from '../utils/structuralMaterials';
+import { getStepIndex } from '../utils/structuralSolver';
 
 // Extended building parameters with detailed structural properties
 export type DetailedBuildingParams = BuildingParams & {
@@ -28,12 +45,28 @@ export type DetailedBuildingParams = BuildingParams & {
   };
 };
 
+export type ComponentType = 'column' | 'beam' | 'slab' | 'foundation' | 'joint';
+
+// Element of the frame model; ids are the element ids of the 3D view
+export type SelectedComponent = {
+  type: ComponentType;
+  id: number;
+};
+
 // Detailed component analysis results
 type ComponentAnalysisResult = {
+  location: string; // grid location in the frame model
+  
+  // Member forces
+  axialForce: number; // kN
+  shearForce: number; // kN
+  moment: number; // kN·m
+  
   // Stress analysis
   maxStress: number; // MPa
   yieldStress: number; // MPa
-  stressRatio: number; // maxStress/yieldStress
+  stressRatio: number; // maxStress/yieldStress; past 1 only by hardening once a member yields
+  yielded: boolean; // from the member's hysteresis where it has one, else the stress ratio
   
   // Strain analysis
   maxStrain: number; // mm/mm
@@ -45,9 +78,12 @@ type ComponentAnalysisResult = {
   allowableDisplacement: number; // mm
   displacementRatio: number; // maxDisplacement/allowableDisplacement
   
+  // Hysteretic response of columns and beams bending under the shaking
+  inelastic: (InelasticDemand & { ductilityCapacity: number }) | null;
+  
   // Damage assessment
   damageLevel: 'None' | 'Minor' | 'Moderate' | 'Severe' | 'Critical';
-  failureProbability: number; // 0-1
+  failureProbability: number; // 0-1, lognormal in the demand/capacity ratio with the material's strength scatter
   remainingCapacity: number; // 0-1
   
   // Failure mode
@@ -60,68 +96,309 @@ type StructuralAnalysisResults = {
   columns: ComponentAnalysisResult[];
   beams: ComponentAnalysisResult[];
   slabs: ComponentAnalysisResult[];
-  foundation: ComponentAnalysisResult;
+  foundation: ComponentAnalysisResult & {
+    bearingPressure: number; // kPa
+    allowableBearingPressure: number; // kPa
+    baseShear: number; // kN
+    overturningMoment: number; // kN·m
+  };
   joints: ComponentAnalysisResult[];
   overallStructuralIntegrity: number; // 0-1
   criticalElements: {
-    type: 'column' | 'beam' | 'slab' | 'foundation' | 'joint';
+    type: ComponentType;
     id: number;
     location: string;
     damageLevel: string;
   }[];
 };
 
+// Moment against rotation of a member up to the current time
+type HysteresisLoop = {
+  rotation: number[]; // mrad
+  moment: number[]; // kN·m
+  yieldRotation: number; // mrad
+  yieldMoment: number; // kN·m
+  extent: { rotation: number; moment: number }; // over the whole record
+};
+
 type StructuralComponentAnalysisProps = {
   buildingParams: BuildingParams;
   seismicParams: SeismicParams;
+  materialsParams?: StructuralMaterialsParams;
   elapsedTime: number;
-  selectedComponent?: {
-    type: 'column' | 'beam' | 'slab' | 'foundation' | 'joint';
-    id: number;
+  selectedComponent?: SelectedComponent;
+  onSelectComponent?: (component: SelectedComponent) => void;
+};
+
+// Failure modes of each element type, by what governs
+const failureModes: Record<Exclude<ComponentType, 'foundation'>, Record<'flexure' | 'shear' | 'displacement', string>> = {
+  column: {
+    flexure: 'Flexural hinging at the column ends',
+    shear: 'Diagonal shear failure',
+    displacement: 'Excessive inter-story drift'
+  },
+  beam: {
+    flexure: 'Flexural hinging at the supports',
+    shear: 'Shear failure near the supports',
+    displacement: 'Excessive deflection'
+  },
+  slab: {
+    flexure: 'Flexural cracking',
+    shear: 'Diaphragm shear failure',
+    displacement: 'Excessive deflection'
+  },
+  joint: {
+    flexure: 'Anchorage failure of beam bars',
+    shear: 'Joint shear failure',
+    displacement: 'Excessive inter-story drift'
+  }
+};
+
+// Damage ratio of a member at its ductility capacity: Severe from yield up to
+// it, Critical beyond
+const DUCTILITY_CAPACITY_RATIO = 1.5;
+
+const getDamageLevel = (ratio: number): ComponentAnalysisResult['damageLevel'] => {
+  if (ratio < 0.5) return 'None';
+  if (ratio < 0.8) return 'Minor';
+  if (ratio < 1.0) return 'Moderate';
+  if (ratio < 1.5) return 'Severe';
+  return 'Critical';
+};
+
+// Damage ratio of a yielded member, rising from 1 at yield to
+// DUCTILITY_CAPACITY_RATIO at its ductility capacity; its stress stays near
+// the yield stress however far it is pushed
+const getDuctilityRatio = ({ ductility, ductilityCapacity }: NonNullable<ComponentAnalysisResult['inelastic']>) =>
+  ductility < 1 ? ductility : 1 + ((DUCTILITY_CAPACITY_RATIO - 1) * (ductility - 1)) / (ductilityCapacity - 1);
+
+// Assessment of an element from its demand/capacity ratios; the capacity
+// scatters lognormally with dispersion `dispersion`
+const assessElement = (
+  location: string,
+  forces: { axialForce: number; shearForce: number; moment: number },
+  checks: {
+    stress: number;
+    capacity: number;
+    elasticModulus: number; // MPa
+    displacement: number;
+    allowableDisplacement: number;
+  },
+  modes: { mode: string; ratio: number }[],
+  dispersion: number,
+  inelastic: ComponentAnalysisResult['inelastic'] = null
+): ComponentAnalysisResult => {
+  const stressRatio = checks.capacity > 0 ? checks.stress / checks.capacity : 0;
+  const displacementRatio = checks.allowableDisplacement > 0 ? checks.displacement / checks.allowableDisplacement : 0;
+  const governing = Math.max(stressRatio, displacementRatio, inelastic ? getDuctilityRatio(inelastic) : 0);
+  const [primary, secondary] = [...modes].sort((a, b) => b.ratio - a.ratio);
+
+  return {
+    location,
+    ...forces,
+    maxStress: checks.stress,
+    yieldStress: checks.capacity,
+    stressRatio,
+    yielded: inelastic ? inelastic.ductility >= 1 : stressRatio >= 1,
+    maxStrain: checks.stress / checks.elasticModulus,
+    yieldStrain: checks.capacity / checks.elasticModulus,
+    strainRatio: stressRatio,
+    maxDisplacement: checks.displacement,
+    allowableDisplacement: checks.allowableDisplacement,
+    displacementRatio,
+    inelastic,
+    damageLevel: getDamageLevel(governing),
+    failureProbability: governing > 0 ? normalCdf(Math.log(governing) / dispersion) : 0,
+    remainingCapacity: Math.min(1, Math.max(0, 1 - governing)),
+    primaryFailureMode: primary?.mode ?? 'None',
+    secondaryFailureMode: secondary?.mode ?? 'None'
   };
 };
 
+// Frame members are checked against the governing of flexure and shear
+const assessMember = (
+  type: Exclude<ComponentType, 'foundation'>,
+  element: ElementForces,
+  elasticModulus: number,
+  ductilityCapacity: number,
+  dispersion: number
+) => {
+  const shear = element.governingMode === 'shear';
+  const inelastic = element.inelastic && { ...element.inelastic, ductilityCapacity };
+  const checks = [
+    {
+      mode: failureModes[type].flexure,
+      ratio: inelastic ? getDuctilityRatio(inelastic) : element.stress / element.flexuralCapacity
+    },
+    { mode: failureModes[type].shear, ratio: element.shearStress / element.shearCapacity },
+    { mode: failureModes[type].displacement, ratio: element.displacement / element.allowableDisplacement }
+  ];
+  return assessElement(
+    element.label,
+    { axialForce: element.axialForce, shearForce: element.shearForce, moment: element.moment },
+    {
+      stress: shear ? element.shearStress : element.stress,
+      capacity: shear ? element.shearCapacity : element.flexuralCapacity,
+      elasticModulus,
+      displacement: element.displacement,
+      allowableDisplacement: element.allowableDisplacement
+    },
+    // Joints are checked in shear only
+    type === 'joint' ? checks.slice(1) : checks,
+    dispersion,
+    inelastic
+  );
+};
+
+// Element forces of the frame model at the peak response reached by `elapsedTime`
+const performDetailedStructuralAnalysis = (
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams,
+  elapsedTime: number
+): StructuralAnalysisResults => {
+  const run = runSimulation(buildingParams, seismicParams, materialsParams);
+  const frame = analyzeFrame(buildFrameModel(buildingParams), run, buildingParams, materialsParams, elapsedTime);
+  const material: StructuralMaterialsParams['activeMaterial'] = buildingParams.materialType;
+  const elasticModulus = materialsParams[material].elasticModulus * 1e3; // MPa
+  const ductilityCapacity = getDuctilityCapacity(material);
+  // Lognormal dispersion of the material strength
+  const strengthCov = getUncertainParameters(buildingParams, materialsParams)[0].defaultCov;
+  const dispersion = Math.sqrt(Math.log(1 + strengthCov * strengthCov));
+
+  const columns = frame.columns.map(element => assessMember('column', element, elasticModulus, ductilityCapacity, dispersion));
+  const beams = frame.beams.map(element => assessMember('beam', element, elasticModulus, ductilityCapacity, dispersion));
+  const slabs = frame.slabs.map(element => assessMember('slab', element, elasticModulus, ductilityCapacity, dispersion));
+  const joints = frame.joints.map(element => assessMember('joint', element, elasticModulus, ductilityCapacity, dispersion));
+
+  const { foundation: base } = frame;
+  const foundationDepth = buildingParams.structuralComponents?.foundation.depth ?? 2;
+  const foundation = {
+    ...assessElement(
+      `${buildingParams.structuralComponents?.foundation.type ?? 'isolated'} foundation`,
+      { axialForce: 0, shearForce: base.baseShear, moment: base.overturningMoment },
+      {
+        stress: base.bearingPressure / 1e3,
+        capacity: base.allowableBearingPressure / 1e3,
+        // Soil strain over the founding depth
+        elasticModulus: (base.bearingPressure / 1e3) / (base.settlement / 1e3 / foundationDepth || 1),
+        displacement: base.settlement,
+        allowableDisplacement: base.allowableSettlement
+      },
+      [
+        { mode: 'Bearing capacity failure', ratio: base.demandCapacityRatio },
+        { mode: 'Excessive settlement', ratio: base.settlement / base.allowableSettlement }
+      ],
+      dispersion
+    ),
+    bearingPressure: base.bearingPressure,
+    allowableBearingPressure: base.allowableBearingPressure,
+    baseShear: base.baseShear,
+    overturningMoment: base.overturningMoment
+  };
+
+  const groups: [ComponentType, ComponentAnalysisResult[]][] = [
+    ['column', columns],
+    ['beam', beams],
+    ['slab', slabs],
+    ['joint', joints],
+    ['foundation', [foundation]]
+  ];
+  const all = groups.flatMap(([, results]) => results);
+
+  return {
+    columns,
+    beams,
+    slabs,
+    foundation,
+    joints,
+    overallStructuralIntegrity: all.reduce((sum, result) => sum + result.remainingCapacity, 0) / all.length,
+    criticalElements: groups.flatMap(([type, results]) =>
+      results
+        .map((result, id) => ({ type, id, location: result.location, damageLevel: result.damageLevel }))
+        .filter(element => element.damageLevel === 'Severe' || element.damageLevel === 'Critical')
+    )
+  };
+};
+
+// Moment-rotation loop of a column or beam up to `elapsedTime`
+const getHysteresisLoop = (
+  frame: FrameModel,
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams,
+  elapsedTime: number,
+  type: FrameElementType,
+  id: number
+): HysteresisLoop | null => {
+  const run = runSimulation(buildingParams, seismicParams, materialsParams);
+  const hysteresis = getElementHysteresis(frame, run, buildingParams, materialsParams, type, id);
+  if (!hysteresis) return null;
+  const end = getStepIndex(run.response, elapsedTime) + 1;
+  const extent = (history: Float64Array) => history.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0);
+  return {
+    rotation: Array.from(hysteresis.rotation.subarray(0, end), value => value * 1000),
+    moment: Array.from(hysteresis.moment.subarray(0, end)),
+    yieldRotation: hysteresis.yieldRotation * 1000,
+    yieldMoment: hysteresis.yieldMoment,
+    extent: { rotation: extent(hysteresis.rotation) * 1000, moment: extent(hysteresis.moment) }
+  };
+};
+
+// Tab showing each component type
+const componentTabs = {
+  column: 'columns',
+  beam: 'beams',
+  slab: 'slabs',
+  foundation: 'foundation',
+  joint: 'joints'
+} as const;
+
 export default function StructuralComponentAnalysis({
   buildingParams,
   seismicParams,
+  materialsParams = defaultMaterialsParams,
   elapsedTime,
-  selectedComponent
+  selectedComponent,
+  onSelectComponent
 }: StructuralComponentAnalysisProps) {
   const [analysisResults, setAnalysisResults] = useState<StructuralAnalysisResults | null>(null);
   const [activeTab, setActiveTab] = useState<'columns' | 'beams' | 'slabs' | 'foundation' | 'joints' | 'overview'>(
-    selectedComponent ? 
-      (selectedComponent.type === 'joint' ? 'joints' : `${selectedComponent.type}s` as any) : 
-      'overview'
+    selectedComponent ? componentTabs[selectedComponent.type] : 'overview'
   );
+  const frame = useMemo(() => buildFrameModel(buildingParams), [buildingParams]);
   
-  // Perform detailed structural analysis when parameters change
+  // Analyse the frame at the peak response reached so far
   useEffect(() => {
-    // Only perform analysis if simulation has completed
-    if (seismicParams.duration <= elapsedTime) {
-      const results = performDetailedStructuralAnalysis(
-        buildingParams,
-        seismicParams,
-        elapsedTime
-      );
-      setAnalysisResults(results);
-    }
-  }, [buildingParams, seismicParams, elapsedTime]);
+    const results = performDetailedStructuralAnalysis(
+      buildingParams,
+      seismicParams,
+      materialsParams,
+      elapsedTime
+    );
+    setAnalysisResults(results);
+  }, [buildingParams, seismicParams, materialsParams, elapsedTime]);
   
   // If a component is selected, focus on that component's tab
   useEffect(() => {
     if (selectedComponent) {
-      setActiveTab(selectedComponent.type === 'joint' ? 'joints' : `${selectedComponent.type}s` as any);
+      setActiveTab(componentTabs[selectedComponent.type]);
     }
   }, [selectedComponent]);
   
   if (!analysisResults) {
     return (
       <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md">
-        <p>Waiting for simulation to complete...</p>
+        <p>Analysing the structural frame...</p>
       </div>
     );
   }
   
+  const selectedId = (type: ComponentType) => selectedComponent?.type === type ? selectedComponent.id : undefined;
+  const select = (type: ComponentType) => (id: number) => onSelectComponent?.({ type, id });
+  const getLoop = (type: FrameElementType) => (id: number) =>
+    getHysteresisLoop(frame, buildingParams, seismicParams, materialsParams, elapsedTime, type, id);
+  
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
       <div className="border-b border-gray-200 dark:border-gray-700">
@@ -179,27 +456,39 @@ export default function StructuralComponentAnalysis({
       
       <div className="p-4">
         {activeTab === 'overview' && (
-          <OverviewTab results={analysisResults} buildingParams={buildingParams} />
+          <OverviewTab
+            results={analysisResults}
+            buildingParams={buildingParams}
+            onSelect={onSelectComponent}
+          />
         )}
         
         {activeTab === 'columns' && (
-          <ColumnsTab 
-            columns={analysisResults.columns} 
-            selectedId={selectedComponent?.type === 'column' ? selectedComponent.id : undefined} 
+          <ElementsTab
+            title="Column"
+            elements={analysisResults.columns}
+            selectedId={selectedId('column')}
+            onSelect={select('column')}
+            getLoop={getLoop('column')}
           />
         )}
         
         {activeTab === 'beams' && (
-          <BeamsTab 
-            beams={analysisResults.beams} 
-            selectedId={selectedComponent?.type === 'beam' ? selectedComponent.id : undefined} 
+          <ElementsTab
+            title="Beam"
+            elements={analysisResults.beams}
+            selectedId={selectedId('beam')}
+            onSelect={select('beam')}
+            getLoop={getLoop('beam')}
           />
         )}
         
         {activeTab === 'slabs' && (
-          <SlabsTab 
-            slabs={analysisResults.slabs} 
-            selectedId={selectedComponent?.type === 'slab' ? selectedComponent.id : undefined} 
+          <ElementsTab
+            title="Slab"
+            elements={analysisResults.slabs}
+            selectedId={selectedId('slab')}
+            onSelect={select('slab')}
           />
         )}
         
@@ -208,9 +497,11 @@ export default function StructuralComponentAnalysis({
         )}
         
         {activeTab === 'joints' && (
-          <JointsTab 
-            joints={analysisResults.joints} 
-            selectedId={selectedComponent?.type === 'joint' ? selectedComponent.id : undefined} 
+          <ElementsTab
+            title="Joint"
+            elements={analysisResults.joints}
+            selectedId={selectedId('joint')}
+            onSelect={select('joint')}
           />
         )}
       </div>
@@ -221,10 +512,12 @@ export default function StructuralComponentAnalysis({
 // Overview tab component
 function OverviewTab({ 
   results, 
-  buildingParams 
+  buildingParams,
+  onSelect
 }: { 
   results: StructuralAnalysisResults; 
   buildingParams: BuildingParams;
+  onSelect?: (component: SelectedComponent) => void;
 }) {
   // Calculate overall statistics
   const criticalCount = results.criticalElements.length;
@@ -275,10 +568,16 @@ function OverviewTab({
               {results.criticalElements.map((element, index) => (
                 <li key={index} className="flex items-start">
                   <span className="text-red-500 mr-2">⚠️</span>
-                  <span>
-                    <span className="font-medium">{element.type.charAt(0).toUpperCase() + element.type.slice(1)} {element.id}</span> 
+                  <button
+                    onClick={() => onSelect?.({ type: element.type, id: element.id })}
+                    className="text-left hover:underline"
+                  >
+                    <span className="font-medium">
+                      {element.type.charAt(0).toUpperCase() + element.type.slice(1)}
+                      {element.type !== 'foundation' && ` ${element.id + 1}`}
+                    </span> 
                     <span className="text-sm"> at {element.location} - {element.damageLevel}</span>
-                  </span>
+                  </button>
                 </li>
               ))}
             </ul>
@@ -392,34 +691,40 @@ function ComponentSummaryCard({
   );
 }
 
-// Columns tab component
-function ColumnsTab({ 
-  columns, 
-  selectedId 
+// Element list and details of one element type
+function ElementsTab({ 
+  title,
+  elements, 
+  selectedId,
+  onSelect,
+  getLoop
 }: { 
-  columns: ComponentAnalysisResult[];
+  title: string;
+  elements: ComponentAnalysisResult[];
   selectedId?: number;
+  onSelect?: (id: number) => void;
+  getLoop?: (id: number) => HysteresisLoop | null;
 }) {
-  const [selectedColumn, setSelectedColumn] = useState<number | null>(
+  const [selectedElement, setSelectedElement] = useState<number | null>(
     selectedId !== undefined ? selectedId : null
   );
   
   useEffect(() => {
     if (selectedId !== undefined) {
-      setSelectedColumn(selectedId);
+      setSelectedElement(selectedId);
     }
   }, [selectedId]);
   
   return (
     <div>
-      <h3 className="text-lg font-semibold mb-4">Column Analysis</h3>
+      <h3 className="text-lg font-semibold mb-4">{title} Analysis</h3>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {/* Column selection sidebar */}
+        {/* Element selection sidebar */}
         <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
-          <h4 className="font-medium mb-2">Select Column</h4>
+          <h4 className="font-medium mb-2">Select {title}</h4>
           <div className="space-y-1 max-h-80 overflow-y-auto">
-            {columns.map((column, index) => {
+            {elements.map((element, index) => {
               // Get color based on damage level
               const getDamageColor = (level: string) => {
                 switch (level) {
@@ -435,25 +740,33 @@ function ColumnsTab({
               return (
                 <button
                   key={index}
-                  onClick={() => setSelectedColumn(index)}
-                  className={`w-full text-left px-3 py-2 rounded border ${getDamageColor(column.damageLevel)} 
-                    ${selectedColumn === index ? 'ring-2 ring-blue-500' : ''}`}
+                  onClick={() => {
+                    setSelectedElement(index);
+                    onSelect?.(index);
+                  }}
+                  className={`w-full text-left px-3 py-2 rounded border ${getDamageColor(element.damageLevel)} 
+                    ${selectedElement === index ? 'ring-2 ring-blue-500' : ''}`}
                 >
-                  <div className="font-medium">Column {index + 1}</div>
-                  <div className="text-xs">{column.damageLevel} Damage</div>
+                  <div className="font-medium">{title} {index + 1}</div>
+                  <div className="text-xs">{element.location}</div>
+                  <div className="text-xs">{element.damageLevel} Damage</div>
                 </button>
               );
             })}
           </div>
         </div>
         
-        {/* Column details */}
+        {/* Element details */}
         <div className="md:col-span-2">
-          {selectedColumn !== null ? (
-            <ColumnDetail column={columns[selectedColumn]} columnId={selectedColumn} />
+          {selectedElement !== null && elements[selectedElement] ? (
+            <ElementDetail
+              element={elements[selectedElement]}
+              title={`${title} ${selectedElement + 1}`}
+              loop={getLoop?.(selectedElement)}
+            />
           ) : (
             <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg text-center">
-              <p>Select a column to view detailed analysis</p>
+              <p>Select a {title.toLowerCase()} to view detailed analysis</p>
             </div>
           )}
         </div>
@@ -462,13 +775,15 @@ function ColumnsTab({
   );
 }
 
-// Column detail component
-function ColumnDetail({ 
-  column, 
-  columnId 
+// Element detail component
+function ElementDetail({ 
+  element, 
+  title,
+  loop
 }: { 
-  column: ComponentAnalysisResult;
-  columnId: number;
+  element: ComponentAnalysisResult;
+  title: string;
+  loop?: HysteresisLoop | null;
 }) {
   // Get color based on ratio (0-1)
   const getRatioColor = (ratio: number) => {
@@ -481,35 +796,57 @@ function ColumnDetail({
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
       <div className="flex justify-between items-start">
-        <h4 className="text-lg font-semibold">Column {columnId + 1}</h4>
+        <div>
+          <h4 className="text-lg font-semibold">{title}</h4>
+          <div className="text-sm text-gray-500 dark:text-gray-400">{element.location}</div>
+        </div>
         <div className={`px-2 py-1 rounded text-sm font-medium ${
-          column.damageLevel === 'None' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' :
-          column.damageLevel === 'Minor' ? 'bg-lime-100 text-lime-800 dark:bg-lime-900/30 dark:text-lime-400' :
-          column.damageLevel === 'Moderate' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' :
-          column.damageLevel === 'Severe' ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400' :
+          element.damageLevel === 'None' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' :
+          element.damageLevel === 'Minor' ? 'bg-lime-100 text-lime-800 dark:bg-lime-900/30 dark:text-lime-400' :
+          element.damageLevel === 'Moderate' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400' :
+          element.damageLevel === 'Severe' ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400' :
           'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400'
         }`}>
-          {column.damageLevel} Damage
+          {element.damageLevel} Damage
         </div>
       </div>
       
       <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Member forces */}
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 md:col-span-2">
+          <h5 className="font-medium mb-2">Member Forces</h5>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Axial Force</div>
+              <div className="font-medium">{element.axialForce.toFixed(1)} kN</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Shear Force</div>
+              <div className="font-medium">{element.shearForce.toFixed(1)} kN</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Moment</div>
+              <div className="font-medium">{element.moment.toFixed(1)} kN·m</div>
+            </div>
+          </div>
+        </div>
+        
         {/* Stress analysis */}
         <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
           <h5 className="font-medium mb-2">Stress Analysis</h5>
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Max Stress:</span>
-              <span className="font-medium">{column.maxStress.toFixed(2)} MPa</span>
+              <span className="font-medium">{element.maxStress.toFixed(2)} MPa</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Yield Stress:</span>
-              <span className="font-medium">{column.yieldStress.toFixed(2)} MPa</span>
+              <span className="font-medium">{element.yieldStress.toFixed(2)} MPa</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Stress Ratio:</span>
-              <span className={`font-medium ${getRatioColor(column.stressRatio)}`}>
-                {column.stressRatio.toFixed(2)}
+              <span className={`font-medium ${getRatioColor(element.stressRatio)}`}>
+                {element.stressRatio.toFixed(2)}
               </span>
             </div>
             
@@ -517,8 +854,8 @@ function ColumnDetail({
             <div className="mt-1">
               <div className="h-2 w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
                 <div 
-                  className={`h-full ${column.stressRatio >= 1.0 ? 'bg-red-500' : 'bg-blue-500'}`}
-                  style={{ width: `${Math.min(100, column.stressRatio * 100)}%` }}
+                  className={`h-full ${element.yielded ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, element.stressRatio * 100)}%` }}
                 />
               </div>
               <div className="flex justify-between text-xs mt-1">
@@ -535,16 +872,16 @@ function ColumnDetail({
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Max Strain:</span>
-              <span className="font-medium">{(column.maxStrain * 1000).toFixed(2)} mm/m</span>
+              <span className="font-medium">{(element.maxStrain * 1000).toFixed(2)} mm/m</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Yield Strain:</span>
-              <span className="font-medium">{(column.yieldStrain * 1000).toFixed(2)} mm/m</span>
+              <span className="font-medium">{(element.yieldStrain * 1000).toFixed(2)} mm/m</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Strain Ratio:</span>
-              <span className={`font-medium ${getRatioColor(column.strainRatio)}`}>
-                {column.strainRatio.toFixed(2)}
+              <span className={`font-medium ${getRatioColor(element.strainRatio)}`}>
+                {element.strainRatio.toFixed(2)}
               </span>
             </div>
             
@@ -552,8 +889,8 @@ function ColumnDetail({
             <div className="mt-1">
               <div className="h-2 w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
                 <div 
-                  className={`h-full ${column.strainRatio >= 1.0 ? 'bg-red-500' : 'bg-blue-500'}`}
-                  style={{ width: `${Math.min(100, column.strainRatio * 100)}%` }}
+                  className={`h-full ${element.strainRatio >= 1.0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, element.strainRatio * 100)}%` }}
                 />
               </div>
               <div className="flex justify-between text-xs mt-1">
@@ -570,16 +907,16 @@ function ColumnDetail({
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Max Displacement:</span>
-              <span className="font-medium">{column.maxDisplacement.toFixed(2)} mm</span>
+              <span className="font-medium">{element.maxDisplacement.toFixed(2)} mm</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Allowable:</span>
-              <span className="font-medium">{column.allowableDisplacement.toFixed(2)} mm</span>
+              <span className="font-medium">{element.allowableDisplacement.toFixed(2)} mm</span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Displacement Ratio:</span>
-              <span className={`font-medium ${getRatioColor(column.displacementRatio)}`}>
-                {column.displacementRatio.toFixed(2)}
+              <span className={`font-medium ${getRatioColor(element.displacementRatio)}`}>
+                {element.displacementRatio.toFixed(2)}
               </span>
             </div>
             
@@ -587,8 +924,8 @@ function ColumnDetail({
             <div className="mt-1">
               <div className="h-2 w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
                 <div 
-                  className={`h-full ${column.displacementRatio >= 1.0 ? 'bg-red-500' : 'bg-blue-500'}`}
-                  style={{ width: `${Math.min(100, column.displacementRatio * 100)}%` }}
+                  className={`h-full ${element.displacementRatio >= 1.0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, element.displacementRatio * 100)}%` }}
                 />
               </div>
               <div className="flex justify-between text-xs mt-1">
@@ -605,14 +942,14 @@ function ColumnDetail({
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Remaining Capacity:</span>
-              <span className={`font-medium ${getRatioColor(1 - column.remainingCapacity)}`}>
-                {(column.remainingCapacity * 100).toFixed(0)}%
+              <span className={`font-medium ${getRatioColor(1 - element.remainingCapacity)}`}>
+                {(element.remainingCapacity * 100).toFixed(0)}%
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-sm text-gray-500 dark:text-gray-400">Failure Probability:</span>
-              <span className={`font-medium ${getRatioColor(column.failureProbability)}`}>
-                {(column.failureProbability * 100).toFixed(1)}%
+              <span className={`font-medium ${getRatioColor(element.failureProbability)}`}>
+                {(element.failureProbability * 100).toFixed(1)}%
               </span>
             </div>
             
@@ -621,7 +958,7 @@ function ColumnDetail({
               <div className="h-4 w-full bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-green-500"
-                  style={{ width: `${column.remainingCapacity * 100}%` }}
+                  style={{ width: `${element.remainingCapacity * 100}%` }}
                 />
               </div>
               <div className="flex justify-between text-xs mt-1">
@@ -633,4 +970,101 @@ function ColumnDetail({
         </div>
       </div>
       
-      {/* Failure modes */}
\ No newline at end of file
+      {/* Inelastic response */}
+      {element.inelastic && (
+        <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+          <h5 className="font-medium mb-2">Inelastic Response</h5>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Ductility Demand</div>
+              <div className={`font-medium ${getRatioColor(element.inelastic.ductility / element.inelastic.ductilityCapacity)}`}>
+                {element.inelastic.ductility.toFixed(2)} / {element.inelastic.ductilityCapacity}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Residual Rotation</div>
+              <div className="font-medium">{(element.inelastic.residualRotation * 1000).toFixed(2)} mrad</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Dissipated Energy</div>
+              <div className="font-medium">{element.inelastic.dissipatedEnergy.toFixed(1)} kJ</div>
+            </div>
+          </div>
+          
+          {loop && (
+            <div className="mt-3">
+              <LineChart
+                series={[{ label: 'Hysteresis', color: element.yielded ? '#dc2626' : '#2563eb', x: loop.rotation, y: loop.moment }]}
+                xLabel="Rotation (mrad)"
+                yLabel="Moment (kN·m)"
+                xDomain={[-Math.max(loop.extent.rotation, loop.yieldRotation), Math.max(loop.extent.rotation, loop.yieldRotation)]}
+                yDomain={[-Math.max(loop.extent.moment, loop.yieldMoment), Math.max(loop.extent.moment, loop.yieldMoment)]}
+                markers={[
+                  { x: -loop.yieldRotation, label: 'Yield', color: '#9ca3af' },
+                  { x: loop.yieldRotation, label: 'Yield', color: '#9ca3af' }
+                ]}
+                height={240}
+                maxPoints={loop.rotation.length}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Seismic end moment against chord rotation (columns) or joint rotation (beams) up to the current
+                time; yield at {loop.yieldMoment.toFixed(0)} kN·m and {loop.yieldRotation.toFixed(2)} mrad.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+      
+      {/* Failure modes */}
+      <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+        <h5 className="font-medium mb-2">Failure Modes</h5>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-500 dark:text-gray-400">Primary:</span>
+            <span className="font-medium">{element.primaryFailureMode}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-sm text-gray-500 dark:text-gray-400">Secondary:</span>
+            <span className="font-medium">{element.secondaryFailureMode}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Foundation tab component
+function FoundationTab({ 
+  foundation 
+}: { 
+  foundation: StructuralAnalysisResults['foundation'];
+}) {
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">Foundation Analysis</h3>
+      
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Base Shear</div>
+          <div className="text-xl font-bold">{foundation.baseShear.toFixed(0)} kN</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Overturning Moment</div>
+          <div className="text-xl font-bold">{foundation.overturningMoment.toFixed(0)} kN·m</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Bearing Pressure</div>
+          <div className="text-xl font-bold">
+            {foundation.bearingPressure.toFixed(0)} / {foundation.allowableBearingPressure.toFixed(0)} kPa
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg">
+          <div className="text-sm text-gray-500 dark:text-gray-400">Settlement</div>
+          <div className="text-xl font-bold">{foundation.maxDisplacement.toFixed(1)} mm</div>
+        </div>
+      </div>
+      
+      <ElementDetail element={foundation} title="Foundation" />
+    </div>
+  );
+}
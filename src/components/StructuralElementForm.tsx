@@ -1,6 +1,7 @@
-import React, { useState, FormEvent } from 'react';
+import React, { useState, useMemo, FormEvent } from 'react';
 import { DetailedBuildingParams } from './StructuralComponentAnalysis';
 import { FormSection, FormRow, FormField, Input, Select, Button } from './ui/FormComponents';
+import { hasErrors, validateStructuralComponents } from '../utils/paramSchemas';
 
 type StructuralElementFormProps = {
   onSubmit: (params: DetailedBuildingParams['structuralComponents']) => void;
@@ -32,9 +33,11 @@ const defaultStructuralParams: DetailedBuildingParams['structuralComponents'] =
 
 export default function StructuralElementForm({ onSubmit, initialParams = defaultStructuralParams }: StructuralElementFormProps) {
   const [params, setParams] = useState(initialParams);
+  const errors = useMemo(() => validateStructuralComponents(params), [params]);
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (hasErrors(errors)) return;
     onSubmit(params);
   };
 
@@ -63,6 +66,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Width (m)" 
               htmlFor="columns-width" 
+              error={errors['columns.width']}
               tooltip="The width of columns in meters. Larger columns provide more stability but use more material."
             >
               <Input
@@ -81,6 +85,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Reinforcement" 
               htmlFor="columns-reinforcement"
+              error={errors['columns.reinforcement']}
               tooltip="The amount of steel reinforcement in the columns. Heavier reinforcement provides more strength during seismic events."
             >
               <Select
@@ -98,6 +103,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Connection Type" 
               htmlFor="columns-connection"
+              error={errors['columns.connectionType']}
               tooltip="How columns connect to beams. Rigid connections transfer more force but allow less movement."
             >
               <Select
@@ -122,6 +128,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Width (m)" 
               htmlFor="beams-width"
+              error={errors['beams.width']}
               tooltip="The width of beams in meters. Affects load distribution and structural integrity."
             >
               <Input
@@ -138,6 +145,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Depth (m)" 
               htmlFor="beams-depth"
+              error={errors['beams.depth']}
               tooltip="The depth of beams in meters. Deeper beams provide more resistance to bending."
             >
               <Input
@@ -156,6 +164,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Reinforcement" 
               htmlFor="beams-reinforcement"
+              error={errors['beams.reinforcement']}
               tooltip="The amount of steel reinforcement in the beams. Affects strength and ductility."
             >
               <Select
@@ -173,6 +182,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Connection Type" 
               htmlFor="beams-connection"
+              error={errors['beams.connectionType']}
               tooltip="How beams connect to columns. Affects force transfer during seismic events."
             >
               <Select
@@ -197,6 +207,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Thickness (m)" 
               htmlFor="slabs-thickness"
+              error={errors['slabs.thickness']}
               tooltip="The thickness of floor slabs in meters. Thicker slabs provide more rigidity but add weight."
             >
               <Input
@@ -215,6 +226,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Reinforcement" 
               htmlFor="slabs-reinforcement"
+              error={errors['slabs.reinforcement']}
               tooltip="The amount of steel reinforcement in the slabs. Affects load distribution and crack resistance."
             >
               <Select
@@ -232,6 +244,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Type" 
               htmlFor="slabs-type"
+              error={errors['slabs.type']}
               tooltip="The structural system of the slab. Affects load distribution and behavior during seismic events."
             >
               <Select
@@ -256,6 +269,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Type" 
               htmlFor="foundation-type"
+              error={errors['foundation.type']}
               tooltip="The type of foundation system. Different types are suitable for different soil conditions and building loads."
             >
               <Select
@@ -274,6 +288,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
             <FormField 
               label="Depth (m)" 
               htmlFor="foundation-depth"
+              error={errors['foundation.depth']}
               tooltip="The depth of the foundation in meters. Deeper foundations provide more stability but are more expensive."
             >
               <Input
@@ -296,6 +311,7 @@ export default function StructuralElementForm({ onSubmit, initialParams = defaul
           variant="primary"
           fullWidth
           size="md"
+          disabled={hasErrors(errors)}
         >
           Update Structural Properties
         </Button>
@@ -1,7 +1,11 @@
-import React, { useState, FormEvent } from 'react';
-import { FormSection, FormRow, FormField, Input, Select, Button } from './ui/FormComponents';
+import React, { useState, useMemo, FormEvent } from 'react';
+import { FormSection, FormRow, FormField, FieldError, Input, Select, Button } from './ui/FormComponents';
 import StructuralElementForm from './StructuralElementForm';
 import { DetailedBuildingParams } from './StructuralComponentAnalysis';
+import { SeismicDesignCriteria, SiteClass, defaultSeismicDesignCriteria } from '../utils/designCodes';
+import { MemberHysteresis, getDefaultHysteresisModel, hysteresisModels } from '../utils/hysteresis';
+import { defaultMaterialsParams } from '../utils/structuralMaterials';
+import { hasErrors, validateMaterialsParams } from '../utils/paramSchemas';
 
 export type StructuralMaterialsParams = {
   concrete: {
@@ -47,66 +51,26 @@ export type StructuralMaterialsParams = {
     codeCompliance: 'NDS' | 'Eurocode-5' | 'AS-1720' | 'other';
   };
   activeMaterial: 'concrete' | 'steel' | 'wood';
+  seismicDesign?: SeismicDesignCriteria; // Site class and zone for the design code check
+  hysteresis?: MemberHysteresis; // Cyclic law of the members; each material's own when unset
 };
 
-const defaultMaterialsParams: StructuralMaterialsParams = {
-  concrete: {
-    compressiveStrength: 30,
-    tensileStrength: 3,
-    elasticModulus: 25,
-    reinforcementType: 'standard',
-    // Default values for enhanced parameters
-    structuralSystemType: 'frame',
-    dampingRatio: 5,
-    poissonsRatio: 0.2,
-    thermalExpansionCoeff: 10,
-    creepCoefficient: 2.0,
-    shrinkageStrain: 0.5,
-    codeCompliance: 'ACI-318'
-  },
-  steel: {
-    yieldStrength: 350,
-    tensileStrength: 450,
-    elasticModulus: 200,
-    connectionType: 'welded',
-    // Default values for enhanced parameters
-    structuralSystemType: 'moment-frame',
-    dampingRatio: 2,
-    poissonsRatio: 0.3,
-    thermalExpansionCoeff: 12,
-    fatigueCategory: 'high-cycle',
-    fractureClass: 'B',
-    codeCompliance: 'AISC-360'
-  },
-  wood: {
-    bendingStrength: 20,
-    compressionStrength: 15,
-    elasticModulus: 10,
-    gradeType: 'structural',
-    // Default values for enhanced parameters
-    structuralSystemType: 'light-frame',
-    dampingRatio: 7,
-    poissonsRatio: 0.25,
-    moistureContent: 12,
-    shrinkageCoefficient: 0.2,
-    durabilityClass: '2',
-    codeCompliance: 'NDS'
-  },
-  activeMaterial: 'concrete'
-};
+export { defaultMaterialsParams };
 
 type StructuralMaterialsFormProps = {
   onSubmit: (params: StructuralMaterialsParams, structuralElements?: DetailedBuildingParams['structuralComponents']) => void;
   initialParams?: Partial<StructuralMaterialsParams>;
   activeMaterial: 'concrete' | 'steel' | 'wood';
   initialStructuralElements?: DetailedBuildingParams['structuralComponents'];
+  siteClass?: SiteClass; // of the analysed site, which the design check then uses
 };
 
 export default function StructuralMaterialsForm({ 
   onSubmit, 
   initialParams = {}, 
   activeMaterial,
-  initialStructuralElements
+  initialStructuralElements,
+  siteClass
 }: StructuralMaterialsFormProps) {
   const [params, setParams] = useState<StructuralMaterialsParams>({
     ...defaultMaterialsParams,
@@ -115,9 +79,13 @@ export default function StructuralMaterialsForm({
   });
   
   const [structuralElements, setStructuralElements] = useState<DetailedBuildingParams['structuralComponents']>(initialStructuralElements);
+  const errors = useMemo(() => validateMaterialsParams(params), [params]);
+  // Errors in the materials not shown here still block the form
+  const hiddenError = Object.entries(errors).find(([path]) => !path.startsWith(`${activeMaterial}.`))?.[1];
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
+    if (hasErrors(errors)) return;
     onSubmit(params, structuralElements);
   };
   
@@ -139,6 +107,42 @@ export default function StructuralMaterialsForm({
     }));
   };
 
+  const handleDesignChange = (property: keyof SeismicDesignCriteria, value: string) => {
+    setParams(prev => ({
+      ...prev,
+      seismicDesign: {
+        ...(prev.seismicDesign ?? defaultSeismicDesignCriteria),
+        [property]: value
+      }
+    }));
+  };
+
+  const seismicDesign = params.seismicDesign ?? defaultSeismicDesignCriteria;
+
+  // Without a chosen model the members follow their material's own law
+  const handleHysteresisModelChange = (value: string) => {
+    setParams(prev => ({
+      ...prev,
+      hysteresis: value === '' ? undefined : { model: value as MemberHysteresis['model'] }
+    }));
+  };
+
+  const handleHardeningChange = (value: number) => {
+    setParams(prev => ({
+      ...prev,
+      hysteresis: {
+        model: prev.hysteresis?.model ?? getDefaultHysteresisModel(activeMaterial),
+        hardeningRatio: value
+      }
+    }));
+  };
+
+  const hysteresisModel = params.hysteresis?.model ?? getDefaultHysteresisModel(activeMaterial);
+  const defaultModelLabel = hysteresisModels.find(option => option.value === getDefaultHysteresisModel(activeMaterial))?.label;
+  const hardeningRatio = params.hysteresis?.hardeningRatio
+    ?? hysteresisModels.find(option => option.value === hysteresisModel)?.hardeningRatio
+    ?? 0;
+
   return (
     <div className="space-y-6">
     <form onSubmit={handleSubmit} className="space-y-6 p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md transition-all hover:shadow-lg">
@@ -150,6 +154,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Compressive Strength (MPa)" 
               htmlFor="concrete-compressive-strength" 
+              error={errors['concrete.compressiveStrength']}
               tooltip="The maximum compressive stress that concrete can withstand before failure. Higher values indicate stronger concrete."
             >
               <Input
@@ -166,6 +171,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Tensile Strength (MPa)" 
               htmlFor="concrete-tensile-strength"
+              error={errors['concrete.tensileStrength']}
               tooltip="The maximum tensile stress that concrete can withstand before cracking. Concrete is weak in tension."
             >
               <Input
@@ -184,6 +190,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Elastic Modulus (GPa)" 
               htmlFor="concrete-elastic-modulus"
+              error={errors['concrete.elasticModulus']}
               tooltip="Measure of concrete's stiffness. Higher values mean the concrete deforms less under load."
             >
               <Input
@@ -200,6 +207,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Reinforcement Type" 
               htmlFor="concrete-reinforcement-type"
+              error={errors['concrete.reinforcementType']}
               tooltip="Type of reinforcement used in the concrete. Different types provide varying levels of strength and ductility."
             >
               <Select
@@ -220,6 +228,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Structural System Type" 
                 htmlFor="concrete-structural-system" 
+                error={errors['concrete.structuralSystemType']}
                 tooltip="The type of structural system used in the building, which affects its seismic response."
               >
                 <Select
@@ -238,6 +247,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Damping Ratio (%)" 
                 htmlFor="concrete-damping-ratio"
+                error={errors['concrete.dampingRatio']}
                 tooltip="Percentage of critical damping. Higher values reduce vibration amplitude but may indicate less efficient energy dissipation."
               >
                 <Input
@@ -256,6 +266,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Poisson's Ratio" 
                 htmlFor="concrete-poissons-ratio"
+                error={errors['concrete.poissonsRatio']}
                 tooltip="Ratio of transverse to axial strain. Affects how material deforms under load."
               >
                 <Input
@@ -272,6 +283,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Thermal Expansion Coeff (10^-6/°C)" 
                 htmlFor="concrete-thermal-expansion"
+                error={errors['concrete.thermalExpansionCoeff']}
                 tooltip="Coefficient of thermal expansion. Affects how material expands/contracts with temperature changes."
               >
                 <Input
@@ -290,6 +302,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Creep Coefficient" 
                 htmlFor="concrete-creep-coefficient"
+                error={errors['concrete.creepCoefficient']}
                 tooltip="Measure of concrete's tendency to deform permanently under sustained load. Important for long-term behavior."
               >
                 <Input
@@ -306,6 +319,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Shrinkage Strain (mm/m)" 
                 htmlFor="concrete-shrinkage-strain"
+                error={errors['concrete.shrinkageStrain']}
                 tooltip="Strain due to drying shrinkage. Affects cracking potential and long-term deformation."
               >
                 <Input
@@ -324,6 +338,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Code Compliance" 
                 htmlFor="concrete-code-compliance"
+                error={errors['concrete.codeCompliance']}
                 tooltip="Design code used for structural analysis and design. Different codes have different safety factors and requirements."
               >
                 <Select
@@ -349,6 +364,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Yield Strength (MPa)" 
               htmlFor="steel-yield-strength" 
+              error={errors['steel.yieldStrength']}
               tooltip="The stress at which steel begins to deform plastically. Critical for structural design."
             >
               <Input
@@ -365,6 +381,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Tensile Strength (MPa)" 
               htmlFor="steel-tensile-strength"
+              error={errors['steel.tensileStrength']}
               tooltip="The maximum stress that steel can withstand while being stretched before breaking."
             >
               <Input
@@ -383,6 +400,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Elastic Modulus (GPa)" 
               htmlFor="steel-elastic-modulus"
+              error={errors['steel.elasticModulus']}
               tooltip="Measure of steel's stiffness. Steel has a high elastic modulus, making it resistant to deformation."
             >
               <Input
@@ -399,6 +417,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Connection Type" 
               htmlFor="steel-connection-type"
+              error={errors['steel.connectionType']}
               tooltip="Method used to connect steel members. Different connection types affect the overall structural behavior."
             >
               <Select
@@ -419,6 +438,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Structural System Type" 
                 htmlFor="steel-structural-system" 
+                error={errors['steel.structuralSystemType']}
                 tooltip="The type of structural system used in the building, which affects its seismic response."
               >
                 <Select
@@ -437,6 +457,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Damping Ratio (%)" 
                 htmlFor="steel-damping-ratio"
+                error={errors['steel.dampingRatio']}
                 tooltip="Percentage of critical damping. Steel structures typically have lower damping than concrete."
               >
                 <Input
@@ -455,6 +476,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Poisson's Ratio" 
                 htmlFor="steel-poissons-ratio"
+                error={errors['steel.poissonsRatio']}
                 tooltip="Ratio of transverse to axial strain. For steel, typically around 0.3."
               >
                 <Input
@@ -471,6 +493,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Thermal Expansion Coeff (10^-6/°C)" 
                 htmlFor="steel-thermal-expansion"
+                error={errors['steel.thermalExpansionCoeff']}
                 tooltip="Coefficient of thermal expansion. Affects how material expands/contracts with temperature changes."
               >
                 <Input
@@ -489,6 +512,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Fatigue Category" 
                 htmlFor="steel-fatigue-category"
+                error={errors['steel.fatigueCategory']}
                 tooltip="Classification of fatigue resistance. Important for structures subjected to cyclic loading like earthquakes."
               >
                 <Select
@@ -506,6 +530,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Fracture Class" 
                 htmlFor="steel-fracture-class"
+                error={errors['steel.fractureClass']}
                 tooltip="Classification of fracture toughness. Higher classes have better resistance to brittle fracture."
               >
                 <Select
@@ -526,6 +551,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Code Compliance" 
                 htmlFor="steel-code-compliance"
+                error={errors['steel.codeCompliance']}
                 tooltip="Design code used for structural analysis and design. Different codes have different safety factors and requirements."
               >
                 <Select
@@ -551,6 +577,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Bending Strength (MPa)" 
               htmlFor="wood-bending-strength" 
+              error={errors['wood.bendingStrength']}
               tooltip="The maximum stress in bending that wood can withstand. Important for beams and joists."
             >
               <Input
@@ -567,6 +594,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Compression Strength (MPa)" 
               htmlFor="wood-compression-strength"
+              error={errors['wood.compressionStrength']}
               tooltip="The maximum compressive stress that wood can withstand parallel to grain. Important for columns."
             >
               <Input
@@ -585,6 +613,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Elastic Modulus (GPa)" 
               htmlFor="wood-elastic-modulus"
+              error={errors['wood.elasticModulus']}
               tooltip="Measure of wood's stiffness. Wood has a lower elastic modulus than concrete or steel."
             >
               <Input
@@ -601,6 +630,7 @@ export default function StructuralMaterialsForm({
             <FormField 
               label="Grade Type" 
               htmlFor="wood-grade-type"
+              error={errors['wood.gradeType']}
               tooltip="Quality classification of wood. Higher grades have fewer defects and better structural properties."
             >
               <Select
@@ -621,6 +651,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Structural System Type" 
                 htmlFor="wood-structural-system" 
+                error={errors['wood.structuralSystemType']}
                 tooltip="The type of structural system used in the building, which affects its seismic response."
               >
                 <Select
@@ -639,6 +670,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Damping Ratio (%)" 
                 htmlFor="wood-damping-ratio"
+                error={errors['wood.dampingRatio']}
                 tooltip="Percentage of critical damping. Wood structures typically have higher natural damping than steel or concrete."
               >
                 <Input
@@ -657,6 +689,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Poisson's Ratio" 
                 htmlFor="wood-poissons-ratio"
+                error={errors['wood.poissonsRatio']}
                 tooltip="Ratio of transverse to axial strain. For wood, typically around 0.25, varies by grain direction."
               >
                 <Input
@@ -673,6 +706,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Moisture Content (%)" 
                 htmlFor="wood-moisture-content"
+                error={errors['wood.moistureContent']}
                 tooltip="Percentage of water in wood. Affects strength, stiffness, and dimensional stability."
               >
                 <Input
@@ -691,6 +725,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Shrinkage Coefficient (%)" 
                 htmlFor="wood-shrinkage-coefficient"
+                error={errors['wood.shrinkageCoefficient']}
                 tooltip="Percentage of dimensional change per percentage of moisture content change. Important for long-term behavior."
               >
                 <Input
@@ -707,6 +742,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Durability Class" 
                 htmlFor="wood-durability-class"
+                error={errors['wood.durabilityClass']}
                 tooltip="Classification of natural durability against decay and insects. Class 1 is most durable, 5 is least durable."
               >
                 <Select
@@ -728,6 +764,7 @@ export default function StructuralMaterialsForm({
               <FormField 
                 label="Code Compliance" 
                 htmlFor="wood-code-compliance"
+                error={errors['wood.codeCompliance']}
                 tooltip="Design code used for structural analysis and design. Different codes have different safety factors and requirements."
               >
                 <Select
@@ -747,10 +784,101 @@ export default function StructuralMaterialsForm({
         </FormSection>
       )}
       
+      <FormSection
+        title="Seismic Design Criteria"
+        description="Site and hazard used to check the results against the seismic code for the selected design code"
+      >
+        <FormRow cols={2}>
+          <FormField
+            label="Site Class"
+            htmlFor="design-site-class"
+            tooltip={siteClass
+              ? 'Set by the site class in the seismic parameters, so the check uses the soil that was analysed.'
+              : 'Ground type beneath the building. Softer sites amplify shaking and raise the design spectrum.'}
+          >
+            <Select
+              id="design-site-class"
+              value={siteClass ?? seismicDesign.siteClass}
+              onChange={(e) => handleDesignChange('siteClass', e.target.value)}
+              disabled={!!siteClass}
+              options={[
+                { value: 'A', label: 'A - Hard rock' },
+                { value: 'B', label: 'B - Rock' },
+                { value: 'C', label: 'C - Very dense soil / soft rock' },
+                { value: 'D', label: 'D - Stiff soil' },
+                { value: 'E', label: 'E - Soft clay' }
+              ]}
+            />
+          </FormField>
+          
+          <FormField
+            label="Seismic Zone"
+            htmlFor="design-seismic-zone"
+            tooltip="Mapped hazard level. Each code translates it into its own parameters (Ss/S1, ag or zone factor Z)."
+          >
+            <Select
+              id="design-seismic-zone"
+              value={seismicDesign.seismicZone}
+              onChange={(e) => handleDesignChange('seismicZone', e.target.value)}
+              options={[
+                { value: 'low', label: 'Low (IS zone II)' },
+                { value: 'moderate', label: 'Moderate (IS zone III)' },
+                { value: 'high', label: 'High (IS zone IV)' },
+                { value: 'very-high', label: 'Very high (IS zone V)' }
+              ]}
+            />
+          </FormField>
+        </FormRow>
+      </FormSection>
+      
+      <FormSection
+        title="Member Hysteresis"
+        description="Cyclic behaviour of the columns and beams once they yield at the strength set above"
+      >
+        <FormRow cols={2}>
+          <FormField
+            label="Hysteresis Model"
+            htmlFor="hysteresis-model"
+            error={errors['hysteresis.model']}
+            tooltip="Bilinear with kinematic hardening suits steel, Takeda's degrading stiffness suits reinforced concrete and the pinched law suits nailed and bolted wood. Elastic members never yield."
+          >
+            <Select
+              id="hysteresis-model"
+              value={params.hysteresis?.model ?? ''}
+              onChange={(e) => handleHysteresisModelChange(e.target.value)}
+              options={[
+                { value: '', label: `Material default (${defaultModelLabel})` },
+                ...hysteresisModels.map(option => ({ value: option.value, label: option.label })),
+                { value: 'elastic', label: 'Elastic (no yielding)' }
+              ]}
+            />
+          </FormField>
+          
+          <FormField
+            label="Hardening Ratio"
+            htmlFor="hysteresis-hardening"
+            error={errors['hysteresis.hardeningRatio']}
+            tooltip="Post-yield stiffness as a share of the elastic stiffness. Higher values keep members picking up force after they yield."
+          >
+            <Input
+              type="number"
+              id="hysteresis-hardening"
+              value={hardeningRatio}
+              onChange={(e) => handleHardeningChange(parseFloat(e.target.value))}
+              step="0.01"
+              min={0}
+              max={0.5}
+              disabled={hysteresisModel === 'elastic'}
+            />
+          </FormField>
+        </FormRow>
+      </FormSection>
+      
       <div className="pt-2">
-        <Button type="submit" variant="primary" className="w-full">
+        <Button type="submit" variant="primary" className="w-full" disabled={hasErrors(errors)}>
           Apply Material Properties
         </Button>
+        <FieldError message={hiddenError} />
       </div>
     </form>
     
@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { BuildingParams } from './BuildingParameterForm';
 import { SeismicParams } from './SeismicParameterForm';
 import { StructuralMaterialsParams } from './StructuralMaterialsForm';
 import { DetailedBuildingParams } from './StructuralComponentAnalysis';
 import dynamic from 'next/dynamic';
+import { useSimulationRunner } from '../utils/useSimulationRunner';
 
 // Use the enhanced structural deformation visualizer based on the memory about consolidated components
 const EnhancedStructuralDeformationVisualizer = dynamic(
@@ -47,15 +48,14 @@ export default function TimeLapseVisualizer({
   materialsParams,
   structuralElements
 }: TimeLapseVisualizerProps) {
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  // Playback clock, looping over the record
+  const [playback, runner] = useSimulationRunner({ duration: seismicParams.duration, loop: true });
+  const { time: currentTime, isPlaying, speed: playbackSpeed } = playback;
   const [showStressColors, setShowStressColors] = useState(true);
   const [deformationScale, setDeformationScale] = useState(1);
   const [timelineView, setTimelineView] = useState<'continuous' | 'snapshots'>('continuous');
   const [snapshots, setSnapshots] = useState<DamageSnapshot[]>([]);
   const [selectedSnapshot, setSelectedSnapshot] = useState<number | null>(null);
-  const animationRef = useRef<number | null>(null);
   
   // Generate snapshots at key moments in the earthquake timeline
   useEffect(() => {
@@ -123,71 +123,6 @@ export default function TimeLapseVisualizer({
     setSnapshots(newSnapshots);
   }, [seismicParams.duration]);
 
-  // Enhanced animation loop with smooth transitions and interpolation
-  // Memoize snapshot search function to prevent recreating on every frame
-  const findNearestSnapshot = React.useCallback((time: number) => {
-    return snapshots.reduce((nearest, snapshot) => {
-      const currentDiff = Math.abs(snapshot.timePoint - time);
-      const nearestDiff = Math.abs(nearest.timePoint - time);
-      return currentDiff < nearestDiff ? snapshot : nearest;
-    }, snapshots[0]);
-  }, [snapshots]);
-
-  // Enhanced animation loop with improved timing and cleanup
-  useEffect(() => {
-    if (!isPlaying) return;
-
-    let frameId: number | null = null;
-    let lastTime = performance.now();
-    let accumulatedTime = 0;
-    
-    const animate = (time: number) => {
-      const deltaTime = Math.min(time - lastTime, 50); // Cap delta time to prevent large jumps
-      lastTime = time;
-      accumulatedTime += deltaTime;
-      
-      // Fixed timestep for consistent animation (60fps)
-      const timeStep = 16.67;
-      const maxSteps = 3; // Reduced from 5 to prevent potential lag
-      let steps = 0;
-      
-      while (accumulatedTime >= timeStep && steps < maxSteps) {
-        setCurrentTime(prevTime => {
-          const newTime = prevTime + (timeStep / 1000) * playbackSpeed;
-          
-          // Find nearest snapshot using memoized function
-          const nearestSnapshot = findNearestSnapshot(newTime);
-          
-          if (nearestSnapshot && Math.abs(nearestSnapshot.timePoint - newTime) < 0.1) {
-            return nearestSnapshot.timePoint;
-          }
-          
-          // Loop back to beginning if we reach the end
-          return newTime >= seismicParams.duration ? 0 : newTime;
-        });
-        
-        accumulatedTime -= timeStep;
-        steps++;
-      }
-      
-      // Reset accumulated time if we hit the step limit
-      if (steps >= maxSteps) {
-        accumulatedTime = 0;
-      }
-      
-      frameId = requestAnimationFrame(animate);
-    };
-    
-    frameId = requestAnimationFrame(animate);
-    
-    // Cleanup function
-    return () => {
-      if (frameId !== null) {
-        cancelAnimationFrame(frameId);
-      }
-    };
-  }, [isPlaying, playbackSpeed, seismicParams.duration, findNearestSnapshot]); // Added findNearestSnapshot to dependencies
-
   // Enhanced seismic intensity calculation with improved physics modeling
   const calculateSeismicIntensity = () => {
     // If a snapshot is selected, use its intensity with smooth interpolation
@@ -232,8 +167,8 @@ export default function TimeLapseVisualizer({
   // Handle snapshot selection
   const handleSnapshotSelect = (index: number) => {
     setSelectedSnapshot(index);
-    setCurrentTime(snapshots[index].timePoint);
-    setIsPlaying(false);
+    runner.pause();
+    runner.seek(snapshots[index].timePoint);
   };
 
   // Format time as MM:SS
@@ -269,7 +204,7 @@ export default function TimeLapseVisualizer({
               <span className="text-sm text-gray-600 dark:text-gray-300">Speed:</span>
               <select
                 value={playbackSpeed}
-                onChange={(e) => setPlaybackSpeed(parseFloat(e.target.value))}
+                onChange={(e) => runner.setSpeed(parseFloat(e.target.value))}
                 className="text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-800 dark:text-white px-2 py-1"
               >
                 <option value="0.5">0.5x</option>
@@ -348,19 +283,19 @@ export default function TimeLapseVisualizer({
             
             <div className="flex items-center justify-center space-x-4 mb-4">
               <button
-                onClick={() => setCurrentTime(0)}
+                onClick={() => runner.seek(0)}
                 className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300"
               >
                 ⏮
               </button>
               <button
-                onClick={() => setIsPlaying(!isPlaying)}
+                onClick={() => (isPlaying ? runner.pause() : runner.play())}
                 className="p-3 rounded-full bg-blue-500 hover:bg-blue-600 text-white"
               >
                 {isPlaying ? '⏸' : '▶'}
               </button>
               <button
-                onClick={() => setCurrentTime(seismicParams.duration)}
+                onClick={() => runner.seek(seismicParams.duration)}
                 className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300"
               >
                 ⏭
@@ -376,7 +311,7 @@ export default function TimeLapseVisualizer({
                   step="0.1"
                   value={currentTime}
                   onChange={(e) => {
-                    setCurrentTime(parseFloat(e.target.value));
+                    runner.seek(parseFloat(e.target.value));
                     setSelectedSnapshot(null);
                   }}
                   className="w-full"
@@ -41,6 +41,15 @@ export function FormRow({ children, cols = 2 }: FormRowProps) {
   );
 }
 
+type FieldErrorProps = {
+  message?: string;
+};
+
+export function FieldError({ message }: FieldErrorProps) {
+  if (!message) return null;
+  return <p className="text-xs text-danger" role="alert">{message}</p>;
+}
+
 type FormFieldProps = {
   label: string;
   htmlFor: string;
@@ -59,7 +68,7 @@ export function FormField({ label, htmlFor, tooltip, error, children }: FormFiel
         {tooltip && <Tooltip content={tooltip} />}
       </div>
       {children}
-      {error && <p className="text-xs text-danger">{error}</p>}
+      <FieldError message={error} />
     </div>
   );
 }
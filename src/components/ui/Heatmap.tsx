@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+
+type HeatmapProps = {
+  xLevels: number[];
+  yLevels: number[];
+  values: (number | null)[][]; // [y][x]; null cells are left empty
+  xLabel: string;
+  yLabel: string;
+  valueLabel: string;
+  height?: number;
+};
+
+const WIDTH = 600;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 64 };
+
+// Green through yellow to red as the value rises
+const colorScale = (t: number) => {
+  const hue = 120 * (1 - Math.max(0, Math.min(1, t)));
+  return `hsl(${hue.toFixed(0)}, 75%, 50%)`;
+};
+
+const formatValue = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs === 0) return '0';
+  if (abs >= 10000 || abs < 0.01) return value.toExponential(1);
+  return parseFloat(value.toPrecision(3)).toString();
+};
+
+export default function Heatmap({
+  xLevels,
+  yLevels,
+  values,
+  xLabel,
+  yLabel,
+  valueLabel,
+  height = 300
+}: HeatmapProps) {
+  const [min, max] = useMemo(() => {
+    const finite = values.flat().filter((value): value is number => value !== null && isFinite(value));
+    return finite.length ? [Math.min(...finite), Math.max(...finite)] : [0, 1];
+  }, [values]);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const cellWidth = plotWidth / Math.max(1, xLevels.length);
+  const cellHeight = plotHeight / Math.max(1, yLevels.length);
+  const span = max - min || 1;
+  // Label cells only while the text still fits
+  const showCellValues = cellWidth >= 36 && cellHeight >= 16;
+
+  return (
+    <div className="w-full">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto text-gray-500 dark:text-gray-400">
+        {values.map((row, yi) => row.map((value, xi) => {
+          // The first level is drawn at the bottom
+          const x = PADDING.left + xi * cellWidth;
+          const y = PADDING.top + (yLevels.length - 1 - yi) * cellHeight;
+          return (
+            <g key={`${xi}-${yi}`}>
+              <rect
+                x={x}
+                y={y}
+                width={cellWidth}
+                height={cellHeight}
+                fill={value === null ? 'none' : colorScale((value - min) / span)}
+                stroke="currentColor"
+                strokeOpacity={0.2}
+              >
+                <title>
+                  {`${xLabel}: ${formatValue(xLevels[xi])}, ${yLabel}: ${formatValue(yLevels[yi])}, ${valueLabel}: ${value === null ? 'no runs' : formatValue(value)}`}
+                </title>
+              </rect>
+              {showCellValues && value !== null && (
+                <text x={x + cellWidth / 2} y={y + cellHeight / 2 + 4} textAnchor="middle" fontSize="10" fill="#111827">
+                  {formatValue(value)}
+                </text>
+              )}
+            </g>
+          );
+        }))}
+
+        {/* Level labels */}
+        {xLevels.map((level, i) => (
+          <text
+            key={`x-${i}`}
+            x={PADDING.left + (i + 0.5) * cellWidth}
+            y={PADDING.top + plotHeight + 16}
+            textAnchor="middle"
+            fontSize="11"
+            fill="currentColor"
+          >
+            {formatValue(level)}
+          </text>
+        ))}
+        {yLevels.map((level, i) => (
+          <text
+            key={`y-${i}`}
+            x={PADDING.left - 6}
+            y={PADDING.top + (yLevels.length - 0.5 - i) * cellHeight + 4}
+            textAnchor="end"
+            fontSize="11"
+            fill="currentColor"
+          >
+            {formatValue(level)}
+          </text>
+        ))}
+
+        {/* Axis labels */}
+        <text x={PADDING.left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize="12" fill="currentColor">
+          {xLabel}
+        </text>
+        <text
+          x={14}
+          y={PADDING.top + plotHeight / 2}
+          textAnchor="middle"
+          fontSize="12"
+          fill="currentColor"
+          transform={`rotate(-90 14 ${PADDING.top + plotHeight / 2})`}
+        >
+          {yLabel}
+        </text>
+      </svg>
+
+      {/* Colour scale */}
+      <div className="flex items-center gap-2 mt-1 text-xs text-gray-600 dark:text-gray-400">
+        <span>{valueLabel}</span>
+        <span>{formatValue(min)}</span>
+        <span
+          className="inline-block h-2 w-32 rounded"
+          style={{ background: `linear-gradient(to right, ${colorScale(0)}, ${colorScale(0.5)}, ${colorScale(1)})` }}
+        />
+        <span>{formatValue(max)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { useMemo } from 'react';
+
+export type ChartSeries = {
+  label: string;
+  color: string;
+  x: ArrayLike<number>;
+  y: ArrayLike<number>;
+  dashed?: boolean;
+};
+
+export type ChartMarker = {
+  x: number;
+  label: string;
+  color?: string;
+};
+
+type LineChartProps = {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  markers?: ChartMarker[];
+  xScale?: 'linear' | 'log';
+  xDomain?: [number, number];
+  yDomain?: [number, number];
+  height?: number;
+  maxPoints?: number; // Points drawn per series; longer series are decimated
+};
+
+const WIDTH = 600;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 56 };
+
+// Keep the local extremes of each bucket so peaks survive decimation
+const decimate = (x: ArrayLike<number>, y: ArrayLike<number>, maxPoints: number) => {
+  const length = Math.min(x.length, y.length);
+  const points: [number, number][] = [];
+  if (length <= maxPoints) {
+    for (let i = 0; i < length; i++) points.push([x[i], y[i]]);
+    return points;
+  }
+
+  const bucketSize = Math.ceil(length / (maxPoints / 2));
+  for (let start = 0; start < length; start += bucketSize) {
+    const end = Math.min(start + bucketSize, length);
+    let minIndex = start;
+    let maxIndex = start;
+    for (let i = start; i < end; i++) {
+      if (y[i] < y[minIndex]) minIndex = i;
+      if (y[i] > y[maxIndex]) maxIndex = i;
+    }
+    const [first, second] = minIndex < maxIndex ? [minIndex, maxIndex] : [maxIndex, minIndex];
+    points.push([x[first], y[first]]);
+    if (second !== first) points.push([x[second], y[second]]);
+  }
+  return points;
+};
+
+// Round tick values to 1, 2 or 5 times a power of ten
+const niceTicks = (min: number, max: number, count: number) => {
+  const span = max - min || 1;
+  const rawStep = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) ?? rawStep;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-6; value += step) {
+    ticks.push(Math.abs(value) < step * 1e-6 ? 0 : value);
+  }
+  return ticks;
+};
+
+const formatTick = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs === 0) return '0';
+  if (abs >= 1000 || abs < 0.01) return value.toExponential(0);
+  return parseFloat(value.toPrecision(3)).toString();
+};
+
+export default function LineChart({
+  series,
+  xLabel,
+  yLabel,
+  markers = [],
+  xScale = 'linear',
+  xDomain,
+  yDomain,
+  height = 240,
+  maxPoints = 800
+}: LineChartProps) {
+  const chart = useMemo(() => {
+    const decimated = series.map(s => decimate(s.x, s.y, maxPoints));
+    const allPoints = decimated.flat().filter(([x, y]) =>
+      isFinite(x) && isFinite(y) && (xScale === 'linear' || x > 0)
+    );
+
+    // Data extents
+    let [xMin, xMax] = xDomain ?? [
+      Math.min(...allPoints.map(p => p[0])),
+      Math.max(...allPoints.map(p => p[0]))
+    ];
+    let [yMin, yMax] = yDomain ?? [
+      Math.min(0, ...allPoints.map(p => p[1])),
+      Math.max(...allPoints.map(p => p[1]))
+    ];
+    if (!isFinite(xMin) || !isFinite(xMax)) [xMin, xMax] = xScale === 'log' ? [0.1, 1] : [0, 1];
+    if (!isFinite(yMin) || !isFinite(yMax)) [yMin, yMax] = [0, 1];
+    if (xMax === xMin) xMax = xMin + 1;
+    if (yMax === yMin) yMax = yMin + 1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+
+    const toX = (x: number) => {
+      const t = xScale === 'log'
+        ? (Math.log10(x) - Math.log10(xMin)) / (Math.log10(xMax) - Math.log10(xMin))
+        : (x - xMin) / (xMax - xMin);
+      return PADDING.left + t * plotWidth;
+    };
+    const toY = (y: number) => PADDING.top + (1 - (y - yMin) / (yMax - yMin)) * plotHeight;
+
+    const paths = decimated.map(points => points
+      .filter(([x, y]) => isFinite(x) && isFinite(y) && (xScale === 'linear' || x > 0))
+      .map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${toX(x).toFixed(1)},${toY(y).toFixed(1)}`)
+      .join(' ')
+    );
+
+    const xTicks = xScale === 'log'
+      ? Array.from(
+          { length: Math.floor(Math.log10(xMax)) - Math.ceil(Math.log10(xMin)) + 1 },
+          (_, i) => Math.pow(10, Math.ceil(Math.log10(xMin)) + i)
+        )
+      : niceTicks(xMin, xMax, 6);
+    const yTicks = niceTicks(yMin, yMax, 5);
+
+    return { paths, xTicks, yTicks, toX, toY, plotWidth, plotHeight, xMin, xMax };
+  }, [series, xScale, xDomain, yDomain, height, maxPoints]);
+
+  const { paths, xTicks, yTicks, toX, toY, plotWidth, plotHeight, xMin, xMax } = chart;
+
+  return (
+    <div className="w-full">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto text-gray-500 dark:text-gray-400">
+        {/* Grid and ticks */}
+        {yTicks.map(tick => (
+          <g key={`y-${tick}`}>
+            <line
+              x1={PADDING.left}
+              x2={PADDING.left + plotWidth}
+              y1={toY(tick)}
+              y2={toY(tick)}
+              stroke="currentColor"
+              strokeOpacity={tick === 0 ? 0.6 : 0.15}
+            />
+            <text x={PADDING.left - 6} y={toY(tick) + 4} textAnchor="end" fontSize="11" fill="currentColor">
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map(tick => (
+          <g key={`x-${tick}`}>
+            <line
+              x1={toX(tick)}
+              x2={toX(tick)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke="currentColor"
+              strokeOpacity={0.15}
+            />
+            <text x={toX(tick)} y={PADDING.top + plotHeight + 16} textAnchor="middle" fontSize="11" fill="currentColor">
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+
+        {/* Axis labels */}
+        <text x={PADDING.left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize="12" fill="currentColor">
+          {xLabel}
+        </text>
+        <text
+          x={14}
+          y={PADDING.top + plotHeight / 2}
+          textAnchor="middle"
+          fontSize="12"
+          fill="currentColor"
+          transform={`rotate(-90 14 ${PADDING.top + plotHeight / 2})`}
+        >
+          {yLabel}
+        </text>
+
+        {/* Data */}
+        {paths.map((d, i) => (
+          <path
+            key={series[i].label}
+            d={d}
+            fill="none"
+            stroke={series[i].color}
+            strokeWidth={1.5}
+            strokeDasharray={series[i].dashed ? '6 4' : undefined}
+          />
+        ))}
+
+        {/* Vertical markers */}
+        {markers.filter(m => m.x >= xMin && m.x <= xMax).map(marker => (
+          <g key={marker.label}>
+            <line
+              x1={toX(marker.x)}
+              x2={toX(marker.x)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke={marker.color ?? '#ef4444'}
+              strokeDasharray="4 3"
+            />
+            <text x={toX(marker.x) + 4} y={PADDING.top + 12} fontSize="11" fill={marker.color ?? '#ef4444'}>
+              {marker.label}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {/* Legend */}
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-600 dark:text-gray-400">
+          {series.map(s => (
+            <div key={s.label} className="flex items-center">
+              <span className="inline-block w-4 h-0.5 mr-1" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
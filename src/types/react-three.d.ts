@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { ThreeEvent } from '@react-three/fiber';
 
 declare module '@react-three/fiber' {
   interface ThreeElements {
@@ -44,6 +45,8 @@ declare module '@react-three/drei' {
     material?: THREE.Material;
     castShadow?: boolean;
     receiveShadow?: boolean;
+    onClick?: (event: ThreeEvent<MouseEvent>) => void;
+    children?: React.ReactNode; // the material
   }>;
   
   export const Text: React.FC<{
@@ -63,5 +66,7 @@ declare module '@react-three/drei' {
     material?: THREE.Material;
     castShadow?: boolean;
     receiveShadow?: boolean;
+    onClick?: (event: ThreeEvent<MouseEvent>) => void;
+    children?: React.ReactNode; // the material
   }>;
 } 
\ No newline at end of file
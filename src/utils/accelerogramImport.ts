@@ -0,0 +1,203 @@
+/**
+ * Accelerogram Import Utilities
+ *
+ * This file parses recorded ground motions (PEER NGA .AT2 files, CSV and
+ * whitespace-delimited time/acceleration columns) into a uniformly sampled
+ * record that can drive the simulation in place of the synthetic motion.
+ */
+
+import { GRAVITY, RecordedGroundMotion } from './groundMotion';
+
+export type AccelerationUnit = 'g' | 'm/s2' | 'cm/s2';
+
+// Conversion factors to m/s²
+const UNIT_FACTORS: Record<AccelerationUnit, number> = {
+  'g': GRAVITY,
+  'm/s2': 1,
+  'cm/s2': 0.01
+};
+
+// Accepted sampling interval range (s)
+export const MIN_RECORD_TIME_STEP = 0.001;
+export const MAX_RECORD_TIME_STEP = 0.05;
+
+// Relative tolerance when checking that time samples are evenly spaced
+const TIME_STEP_TOLERANCE = 0.01;
+
+// Minimum number of samples in a usable record
+const MIN_RECORD_SAMPLES = 10;
+
+// Peak accelerations above this (in g) almost always mean the units are wrong
+const MAX_PLAUSIBLE_PGA = 5;
+
+/**
+ * Parses an accelerogram file. The format is chosen from the file extension
+ * and contents; `fallbackUnit` applies when the file does not state its units.
+ * Throws an Error describing the first problem found.
+ */
+export function parseAccelerogram(
+  text: string,
+  fileName: string,
+  fallbackUnit: AccelerationUnit = 'g'
+): RecordedGroundMotion {
+  const lines = text.split(/\r?\n/);
+  const isAt2 = /\.at2$/i.test(fileName) || /NPTS\s*=/i.test(lines.slice(0, 6).join('\n'));
+
+  const parsed = isAt2
+    ? parseAt2(lines)
+    : parseColumns(lines, fallbackUnit, /\.csv$/i.test(fileName) || lines.some(line => line.includes(',')));
+
+  return buildRecord(parsed, fileName);
+}
+
+type ParsedRecord = {
+  format: RecordedGroundMotion['format'];
+  dt: number;
+  values: number[];
+  unit: AccelerationUnit;
+};
+
+// PEER NGA format: four header lines, then acceleration values in g
+const parseAt2 = (lines: string[]): ParsedRecord => {
+  if (lines.length < 5) {
+    throw new Error('AT2 file is missing its four header lines.');
+  }
+
+  // Newer files: "NPTS=  5590, DT=   .0050 SEC"; older files: "5590   .0050   NPTS, DT"
+  const header = lines[3];
+  const newStyle = header.match(/NPTS\s*=\s*(\d+)\s*,?\s*DT\s*=\s*([\d.eE+-]+)/i);
+  const oldStyle = header.match(/^\s*(\d+)\s+([\d.eE+-]+)/);
+  const match = newStyle ?? oldStyle;
+  if (!match) {
+    throw new Error('Could not read NPTS and DT from line 4 of the AT2 header.');
+  }
+
+  const npts = parseInt(match[1], 10);
+  const dt = parseFloat(match[2]);
+
+  const unitLine = lines[2].toUpperCase();
+  let unit: AccelerationUnit = 'g';
+  if (/CM\/S/.test(unitLine) || /\bGAL\b/.test(unitLine)) unit = 'cm/s2';
+  else if (/\bM\/S/.test(unitLine)) unit = 'm/s2';
+
+  const values: number[] = [];
+  for (const line of lines.slice(4)) {
+    for (const token of line.trim().split(/\s+/)) {
+      if (token === '') continue;
+      const value = parseFloat(token);
+      if (isNaN(value)) {
+        throw new Error(`Unexpected value "${token}" in the AT2 data block.`);
+      }
+      values.push(value);
+    }
+  }
+
+  if (values.length < npts) {
+    throw new Error(`AT2 header declares ${npts} points but only ${values.length} were found.`);
+  }
+
+  return { format: 'at2', dt, values: values.slice(0, npts), unit };
+};
+
+// Read the unit from a column header such as "acc (g)" or "Acceleration [cm/s^2]"
+const unitFromHeader = (header: string): AccelerationUnit | null => {
+  const normalized = header.toLowerCase().replace(/[\s^²]/g, '').replace('sec', 's');
+  if (/cm\/s2|gal/.test(normalized)) return 'cm/s2';
+  if (/m\/s2/.test(normalized)) return 'm/s2';
+  if (/(^|[\s(\[_])g([\s)\]]|$)/.test(header.toLowerCase())) return 'g';
+  return null;
+};
+
+// CSV or whitespace-delimited columns: time, acceleration
+const parseColumns = (
+  lines: string[],
+  fallbackUnit: AccelerationUnit,
+  isCsv: boolean
+): ParsedRecord => {
+  const times: number[] = [];
+  const values: number[] = [];
+  let unit: AccelerationUnit | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) return;
+
+    const columns = line.split(isCsv ? /\s*[,;]\s*/ : /\s+/);
+    const time = parseFloat(columns[0]);
+    const value = parseFloat(columns[1]);
+
+    // Non-numeric rows before the data are headers
+    if (isNaN(time) || isNaN(value)) {
+      if (times.length > 0) {
+        throw new Error(`Line ${index + 1} is not a time/acceleration pair: "${line}".`);
+      }
+      if (columns.length > 1) unit = unitFromHeader(columns[1]) ?? unit;
+      return;
+    }
+
+    times.push(time);
+    values.push(value);
+  });
+
+  if (times.length < 2) {
+    throw new Error('No time/acceleration data was found in the file.');
+  }
+
+  // The solver needs a uniformly sampled record
+  const dt = (times[times.length - 1] - times[0]) / (times.length - 1);
+  for (let i = 1; i < times.length; i++) {
+    const step = times[i] - times[i - 1];
+    if (step <= 0) {
+      throw new Error(`Time values must increase (row ${i + 1}).`);
+    }
+    if (Math.abs(step - dt) > dt * TIME_STEP_TOLERANCE) {
+      throw new Error(
+        `Time step is not uniform: ${step.toFixed(4)} s at row ${i + 1} vs an average of ${dt.toFixed(4)} s.`
+      );
+    }
+  }
+
+  return { format: isCsv ? 'csv' : 'columns', dt, values, unit: unit ?? fallbackUnit };
+};
+
+// Validate the parsed samples and convert them to a record in m/s²
+const buildRecord = (parsed: ParsedRecord, fileName: string): RecordedGroundMotion => {
+  const { format, dt, values, unit } = parsed;
+
+  if (!isFinite(dt) || dt < MIN_RECORD_TIME_STEP || dt > MAX_RECORD_TIME_STEP) {
+    throw new Error(
+      `Time step of ${dt} s is outside the supported range of ${MIN_RECORD_TIME_STEP}-${MAX_RECORD_TIME_STEP} s.`
+    );
+  }
+  if (values.length < MIN_RECORD_SAMPLES) {
+    throw new Error(`The record has only ${values.length} samples; at least ${MIN_RECORD_SAMPLES} are needed.`);
+  }
+
+  const factor = UNIT_FACTORS[unit];
+  const acceleration = values.map(value => value * factor);
+  const peak = acceleration.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+
+  if (peak === 0) {
+    throw new Error('The record contains no ground motion (all accelerations are zero).');
+  }
+  if (peak / GRAVITY > MAX_PLAUSIBLE_PGA) {
+    throw new Error(
+      `Peak acceleration of ${(peak / GRAVITY).toFixed(1)} g is implausible; check the acceleration units (read as ${unit}).`
+    );
+  }
+
+  // Cheap content hash so identical records share cached analyses
+  let hash = 0;
+  for (let i = 0; i < acceleration.length; i++) {
+    hash = (hash * 31 + Math.round(acceleration[i] * 1e4)) | 0;
+  }
+
+  return {
+    id: `${fileName}:${acceleration.length}:${dt}:${(hash >>> 0).toString(16)}`,
+    name: fileName,
+    format,
+    dt,
+    acceleration,
+    peakGroundAcceleration: peak
+  };
+};
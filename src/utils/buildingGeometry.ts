@@ -0,0 +1,107 @@
+/**
+ * Building Geometry
+ *
+ * Floor-by-floor description of a building: the height of each story, the
+ * plan of the floor it carries, and how the floor's mass and the story's
+ * lateral stiffness compare with a typical floor of the same material and
+ * stiffness rating. Setbacks, heavy plant floors and open ground stories are
+ * entered here; without a floor table every floor shares the building's plan
+ * and story height. Stories are flagged as soft or weak with the vertical
+ * irregularities of ASCE 7-10 Table 12.3-2 (types 1a, 1b, 5a and 5b).
+ */
+
+import type { BuildingParams } from '../components/BuildingParameterForm';
+
+// Soft story (type 1a): stiffness below 70% of the story above or 80% of the
+// mean of the three stories above; extreme (1b): 60% and 70%
+const SOFT_STORY_RATIO = { adjacent: 0.7, average: 0.8 };
+const EXTREME_SOFT_STORY_RATIO = { adjacent: 0.6, average: 0.7 };
+
+// Weak story (type 5a): strength below 80% of the story above; extreme (5b): 65%
+const WEAK_STORY_RATIO = 0.8;
+const EXTREME_WEAK_STORY_RATIO = 0.65;
+
+// Stiffness factor of an open story: the bare frame keeps about a third of
+// the stiffness of the infilled frame above it
+export const OPEN_STORY_STIFFNESS_FACTOR = 0.3;
+
+/**
+ * One row of the floor table, floor 1 first
+ */
+export type FloorProperties = {
+  height: number; // m, of the story below the floor
+  width: number; // m, plan along the shaking direction
+  depth: number; // m, plan across it
+  massFactor: number; // times the mass of a typical floor of this plan
+  stiffnessFactor: number; // times the story stiffness of the building's rating; below 1 for an open story
+};
+
+export type IrregularitySeverity = 'irregular' | 'extreme';
+
+/**
+ * Vertical irregularities of one story
+ */
+export type StoryIrregularity = {
+  story: number; // 1-based
+  stiffnessRatio: number | null; // to the story above; null for the top story
+  averageStiffnessRatio: number | null; // to the mean of up to three stories above
+  strengthRatio: number | null; // to the story above
+  softStory: IrregularitySeverity | null;
+  weakStory: IrregularitySeverity | null;
+};
+
+/**
+ * Floor table of a building: its own when it has one, otherwise every floor
+ * with the building's plan and an equal share of its height
+ */
+export function getFloorProperties(buildingParams: BuildingParams): FloorProperties[] {
+  if (buildingParams.floorProperties && buildingParams.floorProperties.length > 0) {
+    return buildingParams.floorProperties;
+  }
+  const floors = Math.max(1, Math.round(buildingParams.floors));
+  return Array.from({ length: floors }, () => ({
+    height: buildingParams.height / floors,
+    width: buildingParams.width,
+    depth: buildingParams.depth,
+    massFactor: 1,
+    stiffnessFactor: 1
+  }));
+}
+
+/**
+ * Elevation of each floor above the ground (m), floor 1 first
+ */
+export function getFloorElevations(floors: FloorProperties[]): number[] {
+  let elevation = 0;
+  return floors.map(floor => (elevation += floor.height));
+}
+
+/**
+ * Soft- and weak-story flags of every story from the story stiffnesses and
+ * strengths, ground story first
+ */
+export function getVerticalIrregularities(storyStiffness: number[], storyStrength: number[]): StoryIrregularity[] {
+  return storyStiffness.map((stiffness, i) => {
+    const above = storyStiffness.slice(i + 1, i + 4);
+    const stiffnessRatio = above.length > 0 ? stiffness / above[0] : null;
+    const averageStiffnessRatio = above.length > 0
+      ? stiffness / (above.reduce((sum, value) => sum + value, 0) / above.length)
+      : null;
+    const strengthRatio = i + 1 < storyStrength.length ? storyStrength[i] / storyStrength[i + 1] : null;
+
+    const isSoft = (limits: { adjacent: number; average: number }) =>
+      stiffnessRatio !== null && averageStiffnessRatio !== null &&
+      (stiffnessRatio < limits.adjacent || averageStiffnessRatio < limits.average);
+
+    return {
+      story: i + 1,
+      stiffnessRatio,
+      averageStiffnessRatio,
+      strengthRatio,
+      softStory: isSoft(EXTREME_SOFT_STORY_RATIO) ? 'extreme' : isSoft(SOFT_STORY_RATIO) ? 'irregular' : null,
+      weakStory: strengthRatio === null
+        ? null
+        : strengthRatio < EXTREME_WEAK_STORY_RATIO ? 'extreme' : strengthRatio < WEAK_STORY_RATIO ? 'irregular' : null
+    };
+  });
+}
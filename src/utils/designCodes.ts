@@ -0,0 +1,398 @@
+/**
+ * Seismic Design Code Utilities
+ *
+ * This file provides design response spectra, design base shear and story drift
+ * limits from ASCE 7-10, Eurocode 8 (EN 1998-1) and IS 1893 (Part 1):2016, and
+ * checks an analysis result against them.
+ */
+
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { GRAVITY } from './groundMotion';
+import type { SiteSoil } from './siteResponse';
+import { StructuralResponse } from './structuralSolver';
+
+export type SeismicDesignCode = 'ASCE-7' | 'EC8' | 'IS-1893';
+export type SiteClass = 'A' | 'B' | 'C' | 'D' | 'E';
+export type SeismicZone = 'low' | 'moderate' | 'high' | 'very-high';
+
+export type SeismicDesignCriteria = {
+  siteClass: SiteClass;
+  seismicZone: SeismicZone;
+};
+
+export const defaultSeismicDesignCriteria: SeismicDesignCriteria = {
+  siteClass: 'D',
+  seismicZone: 'high'
+};
+
+/**
+ * Design criteria of a scenario. On an analysed site the site class is the
+ * site's own, so the check verifies the soil the response was computed on;
+ * on a fixed base it is the one chosen with the materials.
+ */
+export function getSeismicDesignCriteria(
+  materialsParams: StructuralMaterialsParams,
+  site?: SiteSoil | null
+): SeismicDesignCriteria {
+  const criteria = materialsParams.seismicDesign ?? defaultSeismicDesignCriteria;
+  return site ? { ...criteria, siteClass: site.siteClass } : criteria;
+}
+
+/**
+ * A single pass/fail check with the clauses it relies on
+ */
+export type CodeCheck = {
+  name: string;
+  demand: number;
+  limit: number;
+  unit: string;
+  passed: boolean;
+  clauses: string[];
+};
+
+export type CodeComplianceResult = {
+  code: SeismicDesignCode;
+  codeName: string;
+  codeMapping: string; // how the declared material code maps to a seismic code
+  responseFactor: number; // R (ASCE 7, IS 1893) or q (EC8)
+  designBaseShear: number; // N
+  seismicWeight: number; // N
+  checks: CodeCheck[];
+  clauses: string[]; // every clause referenced in this evaluation
+};
+
+/**
+ * Design spectrum parameters derived from code, zone and site class
+ */
+type DesignSpectrum = {
+  code: SeismicDesignCode;
+  elastic: (period: number) => number; // elastic design spectral acceleration (g)
+  clauses: string[];
+};
+
+const codeNames: Record<SeismicDesignCode, string> = {
+  'ASCE-7': 'ASCE 7-10',
+  'EC8': 'EN 1998-1 (Eurocode 8)',
+  'IS-1893': 'IS 1893 (Part 1):2016'
+};
+
+/**
+ * Seismic code that governs the declared material design code
+ */
+export function getSeismicDesignCode(materialsParams: StructuralMaterialsParams): {
+  code: SeismicDesignCode;
+  mapping: string;
+} {
+  const material = materialsParams.activeMaterial;
+  const declared = materialsParams[material].codeCompliance;
+
+  if (declared.startsWith('Eurocode')) {
+    return { code: 'EC8', mapping: `${declared} → Eurocode 8` };
+  }
+  if (declared.startsWith('IS-')) {
+    return { code: 'IS-1893', mapping: `${declared} → IS 1893` };
+  }
+  if (declared === 'ACI-318' || declared === 'AISC-360' || declared === 'NDS') {
+    return { code: 'ASCE-7', mapping: `${declared} → ASCE 7` };
+  }
+  return { code: 'ASCE-7', mapping: `${declared} has no mapped seismic code; ASCE 7 used` };
+}
+
+// Piecewise-linear lookup clamped at both ends
+const interpolateTable = (xs: number[], ys: number[], x: number) => {
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+  let i = 1;
+  while (xs[i] < x) i++;
+  return ys[i - 1] + (ys[i] - ys[i - 1]) * (x - xs[i - 1]) / (xs[i] - xs[i - 1]);
+};
+
+// ASCE 7-10 mapped MCE_R accelerations (g) representative of each zone
+const asceMappedAccelerations: Record<SeismicZone, { ss: number; s1: number }> = {
+  'low': { ss: 0.25, s1: 0.1 },
+  'moderate': { ss: 0.5, s1: 0.2 },
+  'high': { ss: 1.0, s1: 0.4 },
+  'very-high': { ss: 1.5, s1: 0.6 }
+};
+
+// ASCE 7-10 Tables 11.4-1 and 11.4-2
+const asceFa: Record<SiteClass, number[]> = {
+  A: [0.8, 0.8, 0.8, 0.8, 0.8],
+  B: [1.0, 1.0, 1.0, 1.0, 1.0],
+  C: [1.2, 1.2, 1.1, 1.0, 1.0],
+  D: [1.6, 1.4, 1.2, 1.1, 1.0],
+  E: [2.5, 1.7, 1.2, 0.9, 0.9]
+};
+const asceFv: Record<SiteClass, number[]> = {
+  A: [0.8, 0.8, 0.8, 0.8, 0.8],
+  B: [1.0, 1.0, 1.0, 1.0, 1.0],
+  C: [1.7, 1.6, 1.5, 1.4, 1.3],
+  D: [2.4, 2.0, 1.8, 1.6, 1.5],
+  E: [3.5, 3.2, 2.8, 2.4, 2.4]
+};
+
+// Long-period transition period (s), Figure 22-12 typical value
+const ASCE_TL = 8;
+
+const getAsceParameters = (criteria: SeismicDesignCriteria) => {
+  const { ss, s1 } = asceMappedAccelerations[criteria.seismicZone];
+  const fa = interpolateTable([0.25, 0.5, 0.75, 1.0, 1.25], asceFa[criteria.siteClass], ss);
+  const fv = interpolateTable([0.1, 0.2, 0.3, 0.4, 0.5], asceFv[criteria.siteClass], s1);
+  return {
+    s1,
+    sds: (2 / 3) * fa * ss,
+    sd1: (2 / 3) * fv * s1
+  };
+};
+
+// Eurocode 8 reference peak ground acceleration on type A ground (g)
+const ec8GroundAcceleration: Record<SeismicZone, number> = {
+  'low': 0.05,
+  'moderate': 0.15,
+  'high': 0.25,
+  'very-high': 0.35
+};
+
+// Eurocode 8 Table 3.2, Type 1 spectrum
+const ec8SiteParameters: Record<SiteClass, { s: number; tb: number; tc: number; td: number }> = {
+  A: { s: 1.0, tb: 0.15, tc: 0.4, td: 2.0 },
+  B: { s: 1.2, tb: 0.15, tc: 0.5, td: 2.0 },
+  C: { s: 1.15, tb: 0.2, tc: 0.6, td: 2.0 },
+  D: { s: 1.35, tb: 0.2, tc: 0.8, td: 2.0 },
+  E: { s: 1.4, tb: 0.15, tc: 0.5, td: 2.0 }
+};
+
+// Eurocode 8 lower bound factor for the design spectrum, 3.2.2.5(4)
+const EC8_BETA = 0.2;
+
+// IS 1893 Table 3 zone factors, with the zones mapped II-V
+const isZoneFactors: Record<SeismicZone, { z: number; zone: string; minimumBaseShear: number }> = {
+  'low': { z: 0.10, zone: 'II', minimumBaseShear: 0.007 },
+  'moderate': { z: 0.16, zone: 'III', minimumBaseShear: 0.011 },
+  'high': { z: 0.24, zone: 'IV', minimumBaseShear: 0.016 },
+  'very-high': { z: 0.36, zone: 'V', minimumBaseShear: 0.024 }
+};
+
+// IS 1893 soil types: I rock/hard, II medium, III soft
+const isSoilType = (siteClass: SiteClass): 'I' | 'II' | 'III' =>
+  siteClass === 'A' || siteClass === 'B' ? 'I' : siteClass === 'C' ? 'II' : 'III';
+
+// IS 1893 clause 6.4.2, Sa/g for 5% damping
+const isSpectralShape = (period: number, soil: 'I' | 'II' | 'III') => {
+  const plateauEnd = { I: 0.4, II: 0.55, III: 0.67 }[soil];
+  const velocityCoefficient = { I: 1.0, II: 1.36, III: 1.67 }[soil];
+  if (period < 0.1) return 1 + 15 * period;
+  if (period <= plateauEnd) return 2.5;
+  if (period <= 4) return velocityCoefficient / period;
+  return velocityCoefficient / 4;
+};
+
+/**
+ * Elastic (5% damped) design spectrum for a code, zone and site class
+ */
+export function getDesignSpectrum(
+  code: SeismicDesignCode,
+  criteria: SeismicDesignCriteria
+): DesignSpectrum {
+  switch (code) {
+    case 'EC8': {
+      const ag = ec8GroundAcceleration[criteria.seismicZone];
+      const { s, tb, tc, td } = ec8SiteParameters[criteria.siteClass];
+      return {
+        code,
+        elastic: (period: number) => {
+          if (period <= tb) return ag * s * (1 + (period / tb) * 1.5);
+          if (period <= tc) return ag * s * 2.5;
+          if (period <= td) return ag * s * 2.5 * tc / period;
+          return ag * s * 2.5 * tc * td / (period * period);
+        },
+        clauses: ['EN 1998-1 3.2.2.2 (elastic response spectrum, Table 3.2)']
+      };
+    }
+    case 'IS-1893': {
+      const { z } = isZoneFactors[criteria.seismicZone];
+      const soil = isSoilType(criteria.siteClass);
+      return {
+        code,
+        elastic: (period: number) => (z / 2) * isSpectralShape(period, soil),
+        clauses: ['IS 1893 6.4.2 (design acceleration spectrum)', 'IS 1893 Table 3 (zone factor)']
+      };
+    }
+    default: {
+      const { sds, sd1 } = getAsceParameters(criteria);
+      const ts = sd1 / sds;
+      const t0 = 0.2 * ts;
+      return {
+        code,
+        elastic: (period: number) => {
+          if (period < t0) return sds * (0.4 + 0.6 * period / t0);
+          if (period <= ts) return sds;
+          if (period <= ASCE_TL) return sd1 / period;
+          return sd1 * ASCE_TL / (period * period);
+        },
+        clauses: [
+          'ASCE 7-10 11.4.3 (site coefficients, Tables 11.4-1 and 11.4-2)',
+          'ASCE 7-10 11.4.4 (design spectral accelerations)',
+          'ASCE 7-10 11.4.5 (design response spectrum)'
+        ]
+      };
+    }
+  }
+}
+
+// ASCE 7-10 Table 12.2-1 response modification coefficients
+const asceResponseFactors: Record<string, number> = {
+  'frame': 8, 'shear-wall': 5, 'dual-system': 7, 'tube': 7,
+  'moment-frame': 4.5, 'special-moment-frame': 8, 'braced-frame': 6, 'eccentrically-braced': 8,
+  'light-frame': 6.5, 'post-and-beam': 3, 'heavy-timber': 3, 'cross-laminated': 3
+};
+
+// Eurocode 8 behaviour factors (DCM unless the system implies DCH)
+const ec8BehaviourFactors: Record<string, number> = {
+  'frame': 3.9, 'shear-wall': 3.0, 'dual-system': 3.6, 'tube': 3.0,
+  'moment-frame': 4.0, 'special-moment-frame': 6.5, 'braced-frame': 4.0, 'eccentrically-braced': 4.8,
+  'light-frame': 3.0, 'post-and-beam': 1.5, 'heavy-timber': 2.5, 'cross-laminated': 2.0
+};
+
+// IS 1893 Table 9 response reduction factors
+const isResponseFactors: Record<string, number> = {
+  'frame': 5, 'shear-wall': 4, 'dual-system': 5, 'tube': 5,
+  'moment-frame': 3, 'special-moment-frame': 5, 'braced-frame': 4.5, 'eccentrically-braced': 5,
+  'light-frame': 3, 'post-and-beam': 3, 'heavy-timber': 3, 'cross-laminated': 3
+};
+
+/**
+ * Response modification (R) or behaviour (q) factor for the active structural system
+ */
+export function getResponseFactor(
+  code: SeismicDesignCode,
+  materialsParams: StructuralMaterialsParams
+): number {
+  const system = materialsParams[materialsParams.activeMaterial].structuralSystemType;
+  const table = code === 'EC8' ? ec8BehaviourFactors : code === 'IS-1893' ? isResponseFactors : asceResponseFactors;
+  return table[system] ?? 3;
+}
+
+/**
+ * Design base shear coefficient (fraction of seismic weight) at period T
+ */
+export function getDesignBaseShearCoefficient(
+  code: SeismicDesignCode,
+  criteria: SeismicDesignCriteria,
+  period: number,
+  responseFactor: number,
+  floors: number
+): { coefficient: number; clauses: string[] } {
+  switch (code) {
+    case 'EC8': {
+      // Design spectrum 3.2.2.5(4) and lateral force method 4.3.3.2.2
+      const ag = ec8GroundAcceleration[criteria.seismicZone];
+      const { s, tb, tc, td } = ec8SiteParameters[criteria.siteClass];
+      const q = responseFactor;
+      let sd: number;
+      if (period <= tb) sd = ag * s * (2 / 3 + (period / tb) * (2.5 / q - 2 / 3));
+      else if (period <= tc) sd = ag * s * 2.5 / q;
+      else if (period <= td) sd = Math.max(ag * s * 2.5 / q * tc / period, EC8_BETA * ag);
+      else sd = Math.max(ag * s * 2.5 / q * tc * td / (period * period), EC8_BETA * ag);
+      const lambda = period <= 2 * tc && floors > 2 ? 0.85 : 1.0;
+      return {
+        coefficient: sd * lambda,
+        clauses: ['EN 1998-1 3.2.2.5 (design spectrum for elastic analysis)', 'EN 1998-1 4.3.3.2.2 (base shear force)']
+      };
+    }
+    case 'IS-1893': {
+      const { z, minimumBaseShear } = isZoneFactors[criteria.seismicZone];
+      const ah = (z / 2) * (1 / responseFactor) * isSpectralShape(period, isSoilType(criteria.siteClass));
+      return {
+        coefficient: Math.max(ah, minimumBaseShear),
+        clauses: ['IS 1893 7.2.1 (design horizontal acceleration coefficient)', 'IS 1893 7.2.2 and Table 7 (minimum design base shear)', 'IS 1893 7.6.1 (design base shear)']
+      };
+    }
+    default: {
+      const { s1, sds, sd1 } = getAsceParameters(criteria);
+      let cs = sds / responseFactor;
+      cs = Math.min(cs, period <= ASCE_TL ? sd1 / (period * responseFactor) : sd1 * ASCE_TL / (period * period * responseFactor));
+      cs = Math.max(cs, 0.044 * sds, 0.01);
+      if (s1 >= 0.6) cs = Math.max(cs, 0.5 * s1 / responseFactor);
+      return {
+        coefficient: cs,
+        clauses: ['ASCE 7-10 12.8.1 (seismic base shear)', 'ASCE 7-10 12.8.1.1 (seismic response coefficient, Eqs. 12.8-2 to 12.8-6)']
+      };
+    }
+  }
+}
+
+/**
+ * Allowable story drift ratio
+ */
+export function getDriftLimit(code: SeismicDesignCode): { limit: number; clause: string } {
+  switch (code) {
+    case 'EC8':
+      // d_r·ν ≤ 0.005h with ν = 0.5 (importance class II)
+      return { limit: 0.01, clause: 'EN 1998-1 4.4.3.2(1)a (damage limitation, brittle non-structural elements)' };
+    case 'IS-1893':
+      return { limit: 0.004, clause: 'IS 1893 7.11.1.1 (story drift limitation)' };
+    default:
+      return { limit: 0.02, clause: 'ASCE 7-10 12.12.1 and Table 12.12-1 (allowable story drift, Risk Category I/II)' };
+  }
+}
+
+/**
+ * Checks an analysis against the seismic code implied by the declared material code
+ */
+export function evaluateCodeCompliance(
+  response: StructuralResponse,
+  materialsParams: StructuralMaterialsParams,
+  criteria: SeismicDesignCriteria = defaultSeismicDesignCriteria
+): CodeComplianceResult {
+  const { code, mapping } = getSeismicDesignCode(materialsParams);
+  const { model, peaks } = response;
+
+  const responseFactor = getResponseFactor(code, materialsParams);
+  const seismicWeight = model.masses.reduce((sum, mass) => sum + mass, 0) * GRAVITY;
+  const baseShear = getDesignBaseShearCoefficient(
+    code, criteria, model.fundamentalPeriod, responseFactor, model.floors
+  );
+  const designBaseShear = baseShear.coefficient * seismicWeight;
+  const drift = getDriftLimit(code);
+  const spectrum = getDesignSpectrum(code, criteria);
+
+  // The elastic base shear from the record, reduced by R (or q), must not exceed the design base shear
+  const reducedBaseShear = peaks.baseShear / responseFactor;
+  const factorClause = code === 'EC8'
+    ? 'EN 1998-1 3.2.2.5(3) (behaviour factor q)'
+    : code === 'IS-1893' ? 'IS 1893 Table 9 (response reduction factor R)' : 'ASCE 7-10 Table 12.2-1 (response modification coefficient R)';
+
+  const checks: CodeCheck[] = [
+    {
+      name: 'Peak story drift ratio',
+      demand: peaks.interStoryDriftRatio,
+      limit: drift.limit,
+      unit: 'ratio',
+      passed: peaks.interStoryDriftRatio <= drift.limit,
+      clauses: [drift.clause]
+    },
+    {
+      name: `Base shear demand (elastic ÷ ${code === 'EC8' ? 'q' : 'R'}) vs design base shear`,
+      demand: reducedBaseShear,
+      limit: designBaseShear,
+      unit: 'N',
+      passed: reducedBaseShear <= designBaseShear,
+      clauses: [...baseShear.clauses, factorClause]
+    }
+  ];
+
+  return {
+    code,
+    codeName: codeNames[code],
+    codeMapping: mapping,
+    responseFactor,
+    designBaseShear,
+    seismicWeight,
+    checks,
+    clauses: Array.from(new Set([
+      ...spectrum.clauses,
+      ...checks.flatMap(check => check.clauses)
+    ]))
+  };
+}
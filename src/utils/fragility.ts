@@ -0,0 +1,286 @@
+/**
+ * Fragility Analysis
+ *
+ * Incremental dynamic analysis (IDA): a suite of ground motions is scaled to
+ * increasing peak ground accelerations and the building is analysed at each
+ * level. For every damage state of `determineDamageLevel` (and collapse) a
+ * lognormal fragility curve P(DS ≥ ds | PGA) = Φ(ln(PGA / θ) / β) is fitted
+ * to the outcomes by maximum likelihood (Baker, 2015).
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { defaultMaterialsParams } from './structuralMaterials';
+import {
+  DEFAULT_SEED,
+  GRAVITY,
+  GroundMotion,
+  createGroundMotion,
+  scaleGroundMotion
+} from './groundMotion';
+import { getDamageThresholds } from './simulationEngine';
+import { applySiteResponse } from './siteResponse';
+import { toCsv } from './simulationReport';
+import { buildShearBuildingModel, runTimeHistoryAnalysis } from './structuralSolver';
+
+export type FragilityState = 'moderate' | 'extensive' | 'complete' | 'collapse';
+
+export type IdaOptions = {
+  motionCount: number; // synthetic records in the suite (the imported record is added to them)
+  maxIntensity: number; // g, highest PGA analysed
+  levels: number; // intensity levels between 0 and the highest PGA
+};
+
+export const defaultIdaOptions: IdaOptions = {
+  motionCount: 10,
+  maxIntensity: 1.5,
+  levels: 10
+};
+
+/**
+ * Outcome of one analysis of the suite
+ */
+export type IdaPoint = {
+  motion: number; // index into `motions`
+  intensity: number; // g, PGA the record was scaled to
+  peakDrift: number | null; // %, null where the record had already caused collapse at a lower level
+  collapsed: boolean;
+};
+
+/**
+ * Lognormal fragility curve of one damage state; median and dispersion are
+ * null when the state was never (or always) reached over the analysed range
+ */
+export type FragilityCurve = {
+  state: FragilityState;
+  label: string;
+  color: string;
+  driftLimit: number; // %, inter-story drift at which the state starts
+  median: number | null; // θ, g
+  dispersion: number | null; // β
+  exceedances: number; // runs that reached the state
+};
+
+export type FragilityResult = {
+  motions: string[]; // names of the records in the suite
+  intensities: number[]; // g, analysed levels
+  points: IdaPoint[];
+  curves: FragilityCurve[];
+};
+
+const stateLabels: Record<FragilityState, { label: string; color: string }> = {
+  moderate: { label: 'Moderate', color: '#eab308' },
+  extensive: { label: 'Extensive', color: '#f97316' },
+  complete: { label: 'Complete', color: '#dc2626' },
+  collapse: { label: 'Collapse', color: '#7f1d1d' }
+};
+
+// Search range of the dispersion when fitting
+const MIN_DISPERSION = 0.05;
+const MAX_DISPERSION = 1.5;
+
+// Error function (Abramowitz & Stegun 7.1.26, error below 1.5e-7)
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+    Math.exp(-x * x);
+  return sign * y;
+};
+
+/**
+ * Standard normal cumulative distribution function Φ
+ */
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+/**
+ * Probability of reaching a damage state at a PGA (g)
+ */
+export function getExceedanceProbability(curve: FragilityCurve, intensity: number): number | null {
+  if (curve.median === null || curve.dispersion === null) return null;
+  if (intensity <= 0) return 0;
+  return normalCdf(Math.log(intensity / curve.median) / curve.dispersion);
+}
+
+const logLikelihood = (outcomes: { intensity: number; exceeded: boolean }[], lnMedian: number, dispersion: number) =>
+  outcomes.reduce((total, { intensity, exceeded }) => {
+    const p = normalCdf((Math.log(intensity) - lnMedian) / dispersion);
+    // Clamped so a single surprising run cannot make the likelihood zero
+    const clamped = Math.min(1 - 1e-12, Math.max(1e-12, p));
+    return total + Math.log(exceeded ? clamped : 1 - clamped);
+  }, 0);
+
+// Maximum-likelihood median and dispersion by successively finer grid searches
+const fitLognormal = (outcomes: { intensity: number; exceeded: boolean }[]) => {
+  const lnIntensities = outcomes.map(({ intensity }) => Math.log(intensity));
+  let lnRange = [Math.min(...lnIntensities) - 1, Math.max(...lnIntensities) + 1];
+  let betaRange = [MIN_DISPERSION, MAX_DISPERSION];
+  let best = { lnMedian: 0, dispersion: 0, value: -Infinity };
+
+  for (let pass = 0; pass < 4; pass++) {
+    const divisions = 24;
+    for (let i = 0; i <= divisions; i++) {
+      const lnMedian = lnRange[0] + ((lnRange[1] - lnRange[0]) * i) / divisions;
+      for (let j = 0; j <= divisions; j++) {
+        const dispersion = betaRange[0] + ((betaRange[1] - betaRange[0]) * j) / divisions;
+        const value = logLikelihood(outcomes, lnMedian, dispersion);
+        if (value > best.value) best = { lnMedian, dispersion, value };
+      }
+    }
+    // Zoom in on the best point found so far
+    const lnStep = (lnRange[1] - lnRange[0]) / divisions;
+    const betaStep = (betaRange[1] - betaRange[0]) / divisions;
+    lnRange = [best.lnMedian - 2 * lnStep, best.lnMedian + 2 * lnStep];
+    betaRange = [Math.max(MIN_DISPERSION, best.dispersion - 2 * betaStep), Math.min(MAX_DISPERSION, best.dispersion + 2 * betaStep)];
+  }
+
+  return { median: Math.exp(best.lnMedian), dispersion: best.dispersion };
+};
+
+/**
+ * Fits a fragility curve per damage state to IDA results
+ */
+export function fitFragilityCurves(
+  points: IdaPoint[],
+  materialType: BuildingParams['materialType'],
+  collapseDrift: number
+): FragilityCurve[] {
+  const thresholds = getDamageThresholds(materialType);
+  const limits: Record<FragilityState, number> = { ...thresholds, collapse: collapseDrift };
+
+  return (Object.keys(limits) as FragilityState[]).map(state => {
+    const outcomes = points.map(point => ({
+      intensity: point.intensity,
+      exceeded: point.collapsed || (point.peakDrift ?? 0) >= limits[state]
+    }));
+    const exceedances = outcomes.filter(outcome => outcome.exceeded).length;
+    const fitted = exceedances > 0 && exceedances < outcomes.length ? fitLognormal(outcomes) : null;
+    return {
+      state,
+      ...stateLabels[state],
+      driftLimit: limits[state],
+      median: fitted?.median ?? null,
+      dispersion: fitted?.dispersion ?? null,
+      exceedances
+    };
+  });
+}
+
+// Records of the suite: synthetic records of the scenario with consecutive
+// seeds, plus the imported record when there is one
+const getMotionSuite = (seismicParams: SeismicParams, motionCount: number) => {
+  const firstSeed = seismicParams.seed ?? DEFAULT_SEED;
+  const motions: { name: string; motion: GroundMotion }[] = Array.from({ length: motionCount }, (_, i) => ({
+    name: `Synthetic (seed ${firstSeed + i})`,
+    motion: createGroundMotion({ ...seismicParams, groundMotionRecord: undefined, seed: firstSeed + i })
+  }));
+  if (seismicParams.groundMotionRecord) {
+    motions.unshift({ name: seismicParams.groundMotionRecord.name, motion: seismicParams.groundMotionRecord });
+  }
+  return motions;
+};
+
+/**
+ * Runs an incremental dynamic analysis of a scenario and fits its fragility
+ * curves. Analyses run on the main thread, yielding between records so the
+ * page stays responsive; once a record causes collapse, higher levels of it
+ * are counted as collapse without being analysed.
+ */
+export async function runFragilityAnalysis(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  options: IdaOptions = defaultIdaOptions,
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<FragilityResult> {
+  const { motionCount, maxIntensity, levels } = options;
+  if (!(maxIntensity > 0) || levels < 2 || motionCount < 0) {
+    throw new Error('Use a positive highest PGA and at least 2 intensity levels');
+  }
+
+  const model = buildShearBuildingModel(buildingParams, materialsParams, seismicParams.site);
+  const suite = getMotionSuite(seismicParams, motionCount);
+  if (suite.length === 0) throw new Error('The ground motion suite is empty');
+
+  const intensities = Array.from({ length: levels }, (_, i) => parseFloat(((maxIntensity * (i + 1)) / levels).toPrecision(6)));
+  const points: IdaPoint[] = [];
+
+  for (const [index, { motion }] of suite.entries()) {
+    // Let the page repaint and handle a cancellation between records
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) throw new Error('Analysis cancelled');
+
+    let collapsed = false;
+    intensities.forEach(intensity => {
+      if (collapsed) {
+        points.push({ motion: index, intensity, peakDrift: null, collapsed });
+        return;
+      }
+      // Intensities are rock-outcrop PGAs; the site's soil filters each scaled record
+      const outcrop = scaleGroundMotion(motion, intensity * GRAVITY);
+      const surface = seismicParams.site ? applySiteResponse(outcrop, seismicParams.site) : outcrop;
+      const response = runTimeHistoryAnalysis(model, surface);
+      collapsed = response.collapseTime !== null;
+      points.push({ motion: index, intensity, peakDrift: response.peaks.interStoryDriftRatio * 100, collapsed });
+    });
+    onProgress?.(index + 1, suite.length);
+  }
+
+  return {
+    motions: suite.map(({ name }) => name),
+    intensities,
+    points,
+    curves: fitFragilityCurves(points, buildingParams.materialType, model.collapseDriftRatio * 100)
+  };
+}
+
+/**
+ * Median and dispersion of every fragility curve
+ */
+export function fragilityParametersToCsv(result: FragilityResult): string {
+  return toCsv([
+    ['damage_state', 'drift_limit_pct', 'median_pga_g', 'dispersion', 'exceedances', 'runs'],
+    ...result.curves.map(curve => [
+      curve.state,
+      curve.driftLimit,
+      curve.median,
+      curve.dispersion,
+      curve.exceedances,
+      result.points.length
+    ])
+  ]);
+}
+
+/**
+ * Probability of reaching each damage state, one row per PGA
+ */
+export function fragilityCurvesToCsv(result: FragilityResult, samples = 50): string {
+  const maxIntensity = result.intensities[result.intensities.length - 1];
+  const intensities = Array.from({ length: samples }, (_, i) => (maxIntensity * (i + 1)) / samples);
+
+  return toCsv([
+    ['pga_g', ...result.curves.map(curve => `p_${curve.state}`)],
+    ...intensities.map(intensity => [
+      parseFloat(intensity.toPrecision(6)),
+      ...result.curves.map(curve => getExceedanceProbability(curve, intensity))
+    ])
+  ]);
+}
+
+/**
+ * Every IDA analysis with its peak drift and outcome
+ */
+export function idaResultsToCsv(result: FragilityResult): string {
+  return toCsv([
+    ['motion', 'pga_g', 'peak_interstory_drift_pct', 'collapsed'],
+    ...result.points.map(point => [
+      result.motions[point.motion],
+      point.intensity,
+      point.peakDrift,
+      point.collapsed
+    ])
+  ]);
+}
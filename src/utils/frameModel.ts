@@ -0,0 +1,701 @@
+/**
+ * Frame Model
+ *
+ * Nodes and elements of the building's frame, laid out on the same column
+ * grid the 3D view draws, so element ids here are the ids of the columns and
+ * beams on screen. Each floor spreads the grid over its own plan; where a
+ * setback changes the plan, the columns above stand on transfer nodes on the
+ * floor below. Element end forces are recovered from the shear-building
+ * response: each story's hysteretic shear bends its columns in double
+ * curvature, the beams in the direction of shaking follow their own
+ * hysteresis under the joint rotations, and gravity loads follow the
+ * tributary areas. Members that yield report their ductility demand,
+ * residual rotation and dissipated energy, and their moment-rotation loops.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import type { DetailedBuildingParams } from '../components/StructuralComponentAnalysis';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { getFloorElevations, getFloorProperties } from './buildingGeometry';
+import { GRAVITY } from './groundMotion';
+import { HysteresisTrace, traceHysteresis } from './hysteresis';
+import { SimulationRun } from './simulationEngine';
+import { ISOLATED_FOOTING_SIZE, STRIP_FOOTING_WIDTH } from './soilStructureInteraction';
+import { defaultMaterialsParams, getMaterialStrength } from './structuralMaterials';
+import { COLUMN_GRID, getFoundationPeaksUntil, getStepIndex } from './structuralSolver';
+
+// Defaults of the structural element form, used until components are set
+const DEFAULT_COLUMN_WIDTH = 0.5; // m
+const DEFAULT_BEAM = { width: 0.3, depth: 0.5 }; // m
+const DEFAULT_SLAB_THICKNESS = 0.2; // m
+
+// Allowable bearing pressure of the foundation soil (Pa)
+const ALLOWABLE_BEARING_PRESSURE = 300e3;
+// Modulus of subgrade reaction used for settlement (N/m³)
+const SUBGRADE_MODULUS = 30e6;
+// Settlement a frame tolerates without distress (m)
+const ALLOWABLE_SETTLEMENT = 0.025;
+
+type SlabType = NonNullable<DetailedBuildingParams['structuralComponents']>['slabs']['type'];
+
+// Gravity moment coefficient (× wL²) over the shorter span of each slab type
+const SLAB_MOMENT_COEFFICIENTS: Record<SlabType, number> = { 'one-way': 1 / 8, 'two-way': 1 / 16, flat: 1 / 10 };
+
+export type FrameNode = {
+  id: number;
+  floor: number; // 0 at the ground
+  gridX: number; // grid line along the width (shaking direction)
+  gridZ: number; // grid line along the depth
+  x: number; // m, matches the 3D view
+  y: number;
+  z: number;
+  transfer: boolean; // carries the columns of a setback story on the floor below, off its beams
+};
+
+export type FrameElementType = 'column' | 'beam';
+
+export type FrameElement = {
+  id: number; // index among the elements of its type
+  type: FrameElementType;
+  nodes: [number, number]; // start and end node ids
+  story: number; // 1-based; beams belong to the floor they support
+  direction: 'x' | 'y' | 'z'; // axis the element runs along
+  length: number; // m
+  label: string; // grid location, e.g. "Story 2, B-1"
+};
+
+export type FrameModel = {
+  columnCount: { x: number; z: number };
+  columnSpacing: { x: number; z: number }[]; // m, per floor from the ground; the ground takes story 1's plan
+  storyHeights: number[]; // m, story 1 first
+  nodes: FrameNode[]; // floor by floor, each floor's grid followed by the transfer nodes on it
+  columns: FrameElement[]; // story by story, then along x, then along z
+  beams: FrameElement[]; // floor by floor: beams along z, then beams along x
+};
+
+/**
+ * Inelastic demand on a member up to a time
+ */
+export type InelasticDemand = {
+  ductility: number; // peak over yield rotation
+  residualRotation: number; // rad, left if the member were unloaded
+  dissipatedEnergy: number; // kJ
+};
+
+/**
+ * Moment-rotation history of a member that bends under the shaking
+ */
+export type ElementHysteresis = {
+  rotation: Float64Array; // rad, chord rotation (columns) or joint rotation (beams)
+  moment: Float64Array; // kN·m, seismic end moment
+  residualRotation: Float64Array; // rad
+  dissipatedEnergy: Float64Array; // kJ, cumulative
+  yieldRotation: number; // rad
+  yieldMoment: number; // kN·m
+};
+
+/**
+ * Forces, stresses and demand/capacity ratio of one element
+ */
+export type ElementForces = {
+  id: number;
+  label: string;
+  story: number;
+  axialForce: number; // kN, compression positive
+  shearForce: number; // kN
+  moment: number; // kN·m, largest end moment
+  stress: number; // MPa, peak normal stress (axial plus bending)
+  shearStress: number; // MPa
+  flexuralCapacity: number; // MPa
+  shearCapacity: number; // MPa
+  demandCapacityRatio: number; // governing of flexure and shear
+  governingMode: 'flexure' | 'shear';
+  displacement: number; // mm, story drift (columns, joints) or mid-span deflection (beams, slabs)
+  allowableDisplacement: number; // mm
+  inelastic: InelasticDemand | null; // columns, and beams bending in the shaking direction
+};
+
+export type FoundationForces = {
+  baseShear: number; // kN
+  overturningMoment: number; // kN·m
+  bearingPressure: number; // kPa, peak under the most loaded footing
+  allowableBearingPressure: number; // kPa
+  settlement: number; // mm
+  allowableSettlement: number; // mm
+  demandCapacityRatio: number;
+};
+
+export type FrameAnalysis = {
+  columns: ElementForces[];
+  beams: ElementForces[];
+  joints: ElementForces[]; // one per node above the ground, in node order
+  slabs: ElementForces[]; // one per floor
+  foundation: FoundationForces;
+};
+
+const gridLabel = (gridX: number, gridZ: number) => `${String.fromCharCode(65 + gridX)}-${gridZ + 1}`;
+
+/**
+ * Frame geometry on the building's column grid, spread over each floor's plan
+ */
+export function buildFrameModel(buildingParams: BuildingParams): FrameModel {
+  const floorProperties = getFloorProperties(buildingParams);
+  const floors = floorProperties.length;
+  const elevations = [0, ...getFloorElevations(floorProperties)];
+  // The ground floor takes the plan of the story above it
+  const plans = [floorProperties[0], ...floorProperties];
+  const storyHeights = floorProperties.map(floor => floor.height);
+  const columnCount = { x: COLUMN_GRID.x, z: COLUMN_GRID.z };
+  const columnSpacing = plans.map(plan => ({
+    x: plan.width / (columnCount.x - 1),
+    z: plan.depth / (columnCount.z - 1)
+  }));
+
+  const nodes: FrameNode[] = [];
+  // Grid of nodes on a floor, laid out on the plan of another floor
+  const addGrid = (floor: number, plan: number, transfer: boolean) => {
+    const grid: number[][] = [];
+    for (let gridX = 0; gridX < columnCount.x; gridX++) {
+      grid.push([]);
+      for (let gridZ = 0; gridZ < columnCount.z; gridZ++) {
+        grid[gridX].push(nodes.length);
+        nodes.push({
+          id: nodes.length,
+          floor,
+          gridX,
+          gridZ,
+          x: -plans[plan].width / 2 + gridX * columnSpacing[plan].x,
+          y: elevations[floor],
+          z: -plans[plan].depth / 2 + gridZ * columnSpacing[plan].z,
+          transfer
+        });
+      }
+    }
+    return grid;
+  };
+
+  // Each story's columns rise from the grid of the floor below, or from
+  // transfer nodes on it when the plan changes
+  const floorGrids: number[][][] = [];
+  const baseGrids: number[][][] = [];
+  for (let floor = 0; floor <= floors; floor++) {
+    floorGrids.push(addGrid(floor, floor, false));
+    if (floor === floors) break;
+    const below = plans[floor];
+    const above = plans[floor + 1];
+    const setback = below.width !== above.width || below.depth !== above.depth;
+    baseGrids.push(setback ? addGrid(floor, floor + 1, true) : floorGrids[floor]);
+  }
+
+  const columns: FrameElement[] = [];
+  const beams: FrameElement[] = [];
+  for (let story = 1; story <= floors; story++) {
+    for (let gridX = 0; gridX < columnCount.x; gridX++) {
+      for (let gridZ = 0; gridZ < columnCount.z; gridZ++) {
+        columns.push({
+          id: columns.length,
+          type: 'column',
+          nodes: [baseGrids[story - 1][gridX][gridZ], floorGrids[story][gridX][gridZ]],
+          story,
+          direction: 'y',
+          length: storyHeights[story - 1],
+          label: `Story ${story}, ${gridLabel(gridX, gridZ)}`
+        });
+      }
+    }
+  }
+  for (let floor = 1; floor <= floors; floor++) {
+    const grid = floorGrids[floor];
+    for (let gridX = 0; gridX < columnCount.x; gridX++) {
+      for (let gridZ = 0; gridZ < columnCount.z - 1; gridZ++) {
+        beams.push({
+          id: beams.length,
+          type: 'beam',
+          nodes: [grid[gridX][gridZ], grid[gridX][gridZ + 1]],
+          story: floor,
+          direction: 'z',
+          length: columnSpacing[floor].z,
+          label: `Floor ${floor}, ${gridLabel(gridX, gridZ)} to ${gridLabel(gridX, gridZ + 1)}`
+        });
+      }
+    }
+    for (let gridX = 0; gridX < columnCount.x - 1; gridX++) {
+      for (let gridZ = 0; gridZ < columnCount.z; gridZ++) {
+        beams.push({
+          id: beams.length,
+          type: 'beam',
+          nodes: [grid[gridX][gridZ], grid[gridX + 1][gridZ]],
+          story: floor,
+          direction: 'x',
+          length: columnSpacing[floor].x,
+          label: `Floor ${floor}, ${gridLabel(gridX, gridZ)} to ${gridLabel(gridX + 1, gridZ)}`
+        });
+      }
+    }
+  }
+
+  return { columnCount, columnSpacing, storyHeights, nodes, columns, beams };
+}
+
+// Shear strength (MPa) of an element, from its material and reinforcement
+const getShearCapacity = (
+  materialType: BuildingParams['materialType'],
+  strength: number,
+  reinforcement: 'light' | 'medium' | 'heavy' = 'medium'
+) => {
+  if (materialType === 'steel') return 0.6 * strength;
+  if (materialType === 'wood') return 0.1 * strength;
+  // Concrete plus stirrups or ties
+  const stirrups = { light: 0.5, medium: 1.0, heavy: 1.5 }[reinforcement];
+  return 0.17 * Math.sqrt(strength) * (1 + stirrups);
+};
+
+// Joint shear strength (MPa): ACI 318 γ √f'c for interior, exterior and corner joints
+const getJointShearCapacity = (materialType: BuildingParams['materialType'], strength: number, confinement: number) => {
+  if (materialType === 'steel') return 0.6 * strength;
+  if (materialType === 'wood') return 0.1 * strength;
+  const gamma = confinement >= 4 ? 1.66 : confinement >= 3 ? 1.25 : 1.0;
+  return gamma * Math.sqrt(strength);
+};
+
+// Share of the joint moment a beam connection carries
+const getConnectionFactor = (connectionType: string | undefined) => {
+  if (connectionType === 'pinned') return 0;
+  if (connectionType === 'semi-rigid') return 0.5;
+  return 1;
+};
+
+const toElementForces = (
+  element: { id: number; label: string; story: number },
+  forces: {
+    axialForce: number;
+    shearForce: number;
+    moment: number;
+    stress: number;
+    shearStress: number;
+    flexuralCapacity: number;
+    shearCapacity: number;
+    displacement: number;
+    allowableDisplacement: number;
+  },
+  inelastic: InelasticDemand | null = null
+): ElementForces => {
+  const flexureRatio = forces.stress / forces.flexuralCapacity;
+  const shearRatio = forces.shearCapacity > 0 ? forces.shearStress / forces.shearCapacity : 0;
+  return {
+    id: element.id,
+    label: element.label,
+    story: element.story,
+    axialForce: forces.axialForce / 1e3,
+    shearForce: forces.shearForce / 1e3,
+    moment: forces.moment / 1e3,
+    stress: forces.stress / 1e6,
+    shearStress: forces.shearStress / 1e6,
+    flexuralCapacity: forces.flexuralCapacity / 1e6,
+    shearCapacity: forces.shearCapacity / 1e6,
+    demandCapacityRatio: Math.max(flexureRatio, shearRatio),
+    governingMode: shearRatio > flexureRatio ? 'shear' : 'flexure',
+    displacement: forces.displacement * 1e3,
+    allowableDisplacement: forces.allowableDisplacement * 1e3,
+    inelastic
+  };
+};
+
+// Width of floor a grid line carries
+const tributary = (grid: number, count: number, spacing: number) =>
+  grid === 0 || grid === count - 1 ? spacing / 2 : spacing;
+
+// Gravity load per unit area (Pa) of each floor above the ground, from its
+// lumped mass spread over its plan
+const getFloorLoads = (frame: FrameModel, masses: number[]) => masses.map((mass, i) => {
+  const { x, z } = frame.columnSpacing[i + 1];
+  return (mass / (x * (frame.columnCount.x - 1) * z * (frame.columnCount.z - 1))) * GRAVITY;
+});
+
+// Member histories with the peaks reached up to each step
+type MemberTrace = ElementHysteresis & {
+  runningPeakRotation: Float64Array;
+  runningPeakMoment: Float64Array; // kN·m
+};
+
+type MemberTraces = {
+  columns: MemberTrace[]; // per story, shared by its columns
+  beams: (MemberTrace | null)[]; // per beam; null when it carries no seismic moment
+};
+
+// Member histories already traced, keyed by the run they belong to
+const memberTraceCache = new WeakMap<SimulationRun, MemberTraces>();
+
+const getRunningPeaks = (history: Float64Array) => {
+  const peaks = new Float64Array(history.length);
+  let peak = 0;
+  for (let step = 0; step < history.length; step++) {
+    peak = Math.max(peak, Math.abs(history[step]));
+    peaks[step] = peak;
+  }
+  return peaks;
+};
+
+const toMemberTrace = (
+  rotation: Float64Array,
+  trace: HysteresisTrace, // moment in N·m and energy in J
+  yieldRotation: number,
+  yieldMoment: number // N·m
+): MemberTrace => {
+  const moment = trace.force.map(value => value / 1e3);
+  return {
+    rotation,
+    moment,
+    residualRotation: trace.residualDeformation,
+    dissipatedEnergy: trace.dissipatedEnergy.map(value => value / 1e3),
+    yieldRotation,
+    yieldMoment: yieldMoment / 1e3,
+    runningPeakRotation: getRunningPeaks(rotation),
+    runningPeakMoment: getRunningPeaks(moment)
+  };
+};
+
+// Column and beam histories of a run. A story's columns share its shear in
+// the ratio of their yield moment to the story strength. A beam turns with
+// its joints, through the mean drift of the stories above and below, on a
+// law as stiff as the columns it balances and yielding at the flexural
+// capacity left over by gravity.
+const getMemberTraces = (
+  frame: FrameModel,
+  run: SimulationRun,
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams
+): MemberTraces => {
+  const cached = memberTraceCache.get(run);
+  if (cached) return cached;
+
+  const { response } = run;
+  const { model, stories, drift } = response;
+  const { columnCount, columnSpacing, storyHeights, nodes } = frame;
+  const components = buildingParams.structuralComponents;
+  const columnWidth = components?.columns.width ?? DEFAULT_COLUMN_WIDTH;
+  const beamSize = components?.beams ?? DEFAULT_BEAM;
+  const strength = getMaterialStrength(buildingParams.materialType, materialsParams) * 1e6; // Pa
+  const floorLoads = getFloorLoads(frame, model.masses);
+
+  const columnYieldMoment = (strength * columnWidth ** 3) / 6;
+  const columns = stories.map((story, i) => {
+    const scale = columnYieldMoment / story.yieldShear;
+    return toMemberTrace(
+      drift[i],
+      {
+        force: story.shear.map(value => value * scale),
+        residualDeformation: story.residualDrift,
+        dissipatedEnergy: story.dissipatedEnergy.map(value => (value * scale) / storyHeights[i])
+      },
+      story.yieldDriftRatio,
+      columnYieldMoment
+    );
+  });
+
+  // Joint rotation of each floor
+  const floorRotation = Array.from({ length: model.floors }, (_, i) => {
+    const below = drift[i];
+    const above = drift[i + 1];
+    return above ? below.map((value, step) => (value + above[step]) / 2) : below;
+  });
+
+  const connection = getConnectionFactor(components?.beams.connectionType);
+  const beamCapacity = (strength * beamSize.width * beamSize.depth ** 2) / 6;
+  const beamsAlongX = (node: FrameNode) => (node.gridX > 0 ? 1 : 0) + (node.gridX < columnCount.x - 1 ? 1 : 0);
+  // Elastic moment per radian of drift of the columns meeting at a joint
+  const columnStiffness = (story: number) => columnYieldMoment / stories[story].yieldDriftRatio;
+  const jointStiffness = (node: FrameNode) =>
+    columnStiffness(node.floor - 1) + (node.floor < model.floors ? columnStiffness(node.floor) : 0);
+
+  // Beams with the same law and rotation share one trace
+  const traced = new Map<string, MemberTrace>();
+  const beams = frame.beams.map(element => {
+    if (element.direction !== 'x' || connection === 0) return null;
+    const [start, end] = element.nodes.map(id => nodes[id]);
+    const elasticStiffness = connection * Math.max(
+      jointStiffness(start) / Math.max(1, beamsAlongX(start)),
+      jointStiffness(end) / Math.max(1, beamsAlongX(end))
+    );
+    const width = tributary(start.gridZ, columnCount.z, columnSpacing[element.story].z);
+    const gravityMoment = ((floorLoads[element.story - 1] * width) / 2) * element.length ** 2 / 12;
+    const yieldMoment = Math.max(beamCapacity - gravityMoment, 0.1 * beamCapacity);
+
+    const key = `${element.story}:${elasticStiffness}:${yieldMoment}`;
+    let trace = traced.get(key);
+    if (!trace) {
+      const rotation = floorRotation[element.story - 1];
+      const law = model.hysteresis && { ...model.hysteresis, elasticStiffness, yieldForce: yieldMoment };
+      trace = toMemberTrace(
+        rotation,
+        law
+          ? traceHysteresis(law, rotation)
+          : {
+            force: rotation.map(value => elasticStiffness * value),
+            residualDeformation: new Float64Array(rotation.length),
+            dissipatedEnergy: new Float64Array(rotation.length)
+          },
+        yieldMoment / elasticStiffness,
+        yieldMoment
+      );
+      traced.set(key, trace);
+    }
+    return trace;
+  });
+
+  const traces = { columns, beams };
+  memberTraceCache.set(run, traces);
+  return traces;
+};
+
+const getInelasticDemand = (trace: MemberTrace, step: number): InelasticDemand => ({
+  ductility: trace.runningPeakRotation[step] / trace.yieldRotation,
+  residualRotation: trace.residualRotation[step],
+  dissipatedEnergy: trace.dissipatedEnergy[step]
+});
+
+/**
+ * Moment-rotation history of a column or beam, or null for a beam that
+ * carries no seismic moment
+ */
+export function getElementHysteresis(
+  frame: FrameModel,
+  run: SimulationRun,
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  type: FrameElementType,
+  id: number
+): ElementHysteresis | null {
+  const traces = getMemberTraces(frame, run, buildingParams, materialsParams);
+  if (type === 'column') {
+    const element = frame.columns[id];
+    return element ? traces.columns[element.story - 1] : null;
+  }
+  return traces.beams[id] ?? null;
+}
+
+/**
+ * Element end forces, stresses and demand/capacity ratios at the peak
+ * response reached by a given time
+ */
+export function analyzeFrame(
+  frame: FrameModel,
+  run: SimulationRun,
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  time: number
+): FrameAnalysis {
+  const { columnCount, columnSpacing, storyHeights, nodes } = frame;
+  const { model } = run.response;
+  const floors = model.floors;
+  const components = buildingParams.structuralComponents;
+  const columnWidth = components?.columns.width ?? DEFAULT_COLUMN_WIDTH;
+  const beamSize = components?.beams ?? DEFAULT_BEAM;
+  const slabThickness = components?.slabs.thickness ?? DEFAULT_SLAB_THICKNESS;
+
+  const material: StructuralMaterialsParams['activeMaterial'] = buildingParams.materialType;
+  const strength = getMaterialStrength(material, materialsParams) * 1e6; // Pa
+  const toPa = (value: number) => value * 1e6;
+  const allowableDrift = ({ concrete: 2.0, steel: 2.5, wood: 1.5 }[material] / 100);
+
+  // Gravity load per unit area (Pa) of each floor, from its lumped mass
+  const floorLoads = getFloorLoads(frame, model.masses);
+
+  // Peak drift ratio and shear of each story up to this time
+  const step = getStepIndex(run.response, time);
+  const storyDrift = run.storyPeakDrift.map(peaks => peaks[step]);
+  const storyShear = run.storyPeakShear.map(peaks => peaks[step]);
+  const traces = getMemberTraces(frame, run, buildingParams, materialsParams);
+  const columnMoment = traces.columns.map(trace => trace.runningPeakMoment[step] * 1e3);
+
+  // Columns: bending from the story shear, shear from the end moments,
+  // axial force from gravity above and from the share of overturning the
+  // frame resists
+  const columnArea = columnWidth * columnWidth;
+  const columnShear = (moment: number, i: number) => (2 * moment) / storyHeights[i];
+  const frameShare = storyShear.map((shear, i) =>
+    shear > 0 ? Math.min(1, (columnShear(columnMoment[i], i) * columnCount.x * columnCount.z) / shear) : 0
+  );
+  const overturning = storyShear.map((_, i) =>
+    storyShear.slice(i).reduce((sum, shear, j) => sum + shear * storyHeights[i + j], 0)
+  );
+  // Lever arms of the grid lines about the centre of each story's plan
+  const leverArms = columnSpacing.slice(1).map(spacing =>
+    Array.from({ length: columnCount.x }, (_, gridX) => (gridX - (columnCount.x - 1) / 2) * spacing.x)
+  );
+  const sumLeverSquared = leverArms.map(arms => arms.reduce((sum, arm) => sum + arm * arm, 0) * columnCount.z);
+  // Floor weight above each story
+  const weightAbove = model.masses.map((_, i) =>
+    model.masses.slice(i).reduce((sum, mass) => sum + mass * GRAVITY, 0)
+  );
+
+  const columnMoments: number[] = [];
+  const columns = frame.columns.map(element => {
+    const base = nodes[element.nodes[0]];
+    const i = element.story - 1;
+    const moment = columnMoment[i];
+    const bendingStress = moment / (columnWidth ** 3 / 6);
+    const shearForce = columnShear(moment, i);
+    columnMoments[element.id] = moment;
+
+    // Every floor spreads the same grid over its plan, so a column carries the
+    // same share of each floor above it
+    const spacing = columnSpacing[element.story];
+    const share = (tributary(base.gridX, columnCount.x, spacing.x) / (spacing.x * (columnCount.x - 1))) *
+      (tributary(base.gridZ, columnCount.z, spacing.z) / (spacing.z * (columnCount.z - 1)));
+    const gravity = share * weightAbove[i];
+    const seismicAxial = sumLeverSquared[i] > 0
+      ? Math.abs((overturning[i] * frameShare[i] * leverArms[i][base.gridX]) / sumLeverSquared[i])
+      : 0;
+    const axialForce = gravity + seismicAxial;
+
+    return toElementForces(element, {
+      axialForce,
+      shearForce,
+      moment,
+      stress: axialForce / columnArea + bendingStress,
+      shearStress: (1.5 * shearForce) / columnArea,
+      flexuralCapacity: strength,
+      shearCapacity: toPa(getShearCapacity(material, strength / 1e6, components?.columns.reinforcement)),
+      displacement: storyDrift[i] * storyHeights[i],
+      allowableDisplacement: allowableDrift * storyHeights[i]
+    }, getInelasticDemand(traces.columns[i], step));
+  });
+
+  // Column moment meeting at a joint, from the columns below and above; above
+  // a setback the columns stand on transfer nodes instead
+  const columnsPerStory = columnCount.x * columnCount.z;
+  const jointColumnMoment = (node: FrameNode) => {
+    const gridIndex = node.gridX * columnCount.z + node.gridZ;
+    const below = columnMoments[(node.floor - 1) * columnsPerStory + gridIndex] ?? 0;
+    const columnAbove = frame.columns[node.floor * columnsPerStory + gridIndex];
+    const above = columnAbove?.nodes[0] === node.id ? columnMoments[columnAbove.id] ?? 0 : 0;
+    return below + above;
+  };
+
+  // Beams: seismic end moments from their hysteresis under the joint
+  // rotations (beams along x only); gravity from the tributary strip
+  const connection = getConnectionFactor(components?.beams.connectionType);
+  const beamModulus = (beamSize.width * beamSize.depth ** 2) / 6;
+  const beamArea = beamSize.width * beamSize.depth;
+  const beamInertia = (beamSize.width * beamSize.depth ** 3) / 12;
+  const elasticModulus = materialsParams[material].elasticModulus * 1e9;
+
+  const beams = frame.beams.map(element => {
+    const start = nodes[element.nodes[0]];
+    const span = element.length;
+    const spacing = columnSpacing[element.story];
+    // Two-way action sends half the floor load each way
+    const width = element.direction === 'x'
+      ? tributary(start.gridZ, columnCount.z, spacing.z)
+      : tributary(start.gridX, columnCount.x, spacing.x);
+    const lineLoad = (floorLoads[element.story - 1] * width) / 2;
+    const gravityMoment = (lineLoad * span * span) / 12;
+
+    const trace = traces.beams[element.id];
+    const seismicMoment = trace ? trace.runningPeakMoment[step] * 1e3 : 0;
+    const moment = gravityMoment + seismicMoment;
+    const shearForce = (2 * seismicMoment) / span + (lineLoad * span) / 2;
+
+    return toElementForces(element, {
+      axialForce: 0,
+      shearForce,
+      moment,
+      stress: moment / beamModulus,
+      shearStress: (1.5 * shearForce) / beamArea,
+      flexuralCapacity: strength,
+      shearCapacity: toPa(getShearCapacity(material, strength / 1e6, components?.beams.reinforcement)),
+      displacement: (lineLoad * span ** 4) / (384 * elasticModulus * beamInertia),
+      allowableDisplacement: span / 360
+    }, trace && getInelasticDemand(trace, step));
+  });
+
+  // Joints: shear from the beam moments across the beam depth, on the column section
+  const joints = nodes.filter(node => node.floor > 0 && !node.transfer).map((node, id) => {
+    const beamMoment = connection * jointColumnMoment(node);
+    const shearForce = beamMoment / (0.9 * beamSize.depth);
+    const confinement = (node.gridX > 0 ? 1 : 0) + (node.gridX < columnCount.x - 1 ? 1 : 0) +
+      (node.gridZ > 0 ? 1 : 0) + (node.gridZ < columnCount.z - 1 ? 1 : 0);
+    return toElementForces(
+      { id, label: `Floor ${node.floor}, ${gridLabel(node.gridX, node.gridZ)}`, story: node.floor },
+      {
+        axialForce: 0,
+        shearForce,
+        moment: beamMoment,
+        stress: 0,
+        shearStress: shearForce / columnArea,
+        flexuralCapacity: strength,
+        shearCapacity: toPa(getJointShearCapacity(material, strength / 1e6, confinement)),
+        displacement: storyDrift[node.floor - 1] * storyHeights[node.floor - 1],
+        allowableDisplacement: allowableDrift * storyHeights[node.floor - 1]
+      }
+    );
+  });
+
+  // Slabs: gravity bending over the shorter span, in-plane shear from the
+  // floor's inertia force
+  const slabType: SlabType = components?.slabs.type ?? 'two-way';
+  const slabCoefficient = SLAB_MOMENT_COEFFICIENTS[slabType];
+  const slabs = Array.from({ length: floors }, (_, i) => {
+    const spacing = columnSpacing[i + 1];
+    const slabSpan = Math.min(spacing.x, spacing.z);
+    const floorLoad = floorLoads[i];
+    const moment = slabCoefficient * floorLoad * slabSpan * slabSpan; // per metre width
+    const floorForce = Math.abs(storyShear[i] - (storyShear[i + 1] ?? 0));
+    const slabInertia = slabThickness ** 3 / 12;
+    return toElementForces(
+      { id: i, label: `Floor ${i + 1}`, story: i + 1 },
+      {
+        axialForce: 0,
+        shearForce: floorForce,
+        moment,
+        stress: (6 * moment) / (slabThickness * slabThickness),
+        shearStress: floorForce / (spacing.z * (columnCount.z - 1) * slabThickness),
+        flexuralCapacity: strength,
+        shearCapacity: toPa(getShearCapacity(material, strength / 1e6, components?.slabs.reinforcement)),
+        // Simply supported strip, reduced in the ratio of the moment coefficients
+        displacement: (8 * slabCoefficient * 5 * floorLoad * slabSpan ** 4) / (384 * elasticModulus * slabInertia),
+        allowableDisplacement: slabSpan / 360
+      }
+    );
+  });
+
+  // Foundation: base reactions of the most loaded column over its footing
+  const baseColumns = columns.slice(0, columnsPerStory);
+  const maxAxial = Math.max(...baseColumns.map(column => column.axialForce)) * 1e3;
+  const totalWeight = weightAbove[0] ?? 0;
+  const foundationType = components?.foundation.type ?? 'isolated';
+  let bearingPressure: number;
+  if (foundationType === 'raft') {
+    // Rigid raft under gravity and overturning
+    const area = buildingParams.width * buildingParams.depth;
+    const sectionModulus = (buildingParams.depth * buildingParams.width ** 2) / 6;
+    bearingPressure = totalWeight / area + (overturning[0] ?? 0) / sectionModulus;
+  } else if (foundationType === 'strip') {
+    bearingPressure = maxAxial / (STRIP_FOOTING_WIDTH * Math.max(columnSpacing[0].z, 1));
+  } else {
+    // Piles carry most of the load in shaft friction
+    const pileFactor = foundationType === 'pile' ? 3 : 1;
+    bearingPressure = maxAxial / (ISOLATED_FOOTING_SIZE * ISOLATED_FOOTING_SIZE * pileFactor);
+  }
+  // On a site, the foundation springs give the settlement at the edge; on a
+  // fixed base it comes from the subgrade modulus
+  const foundationPeaks = getFoundationPeaksUntil(run.response, time);
+  const settlement = foundationPeaks ? foundationPeaks.edgeSettlement : bearingPressure / SUBGRADE_MODULUS;
+
+  return {
+    columns,
+    beams,
+    joints,
+    slabs,
+    foundation: {
+      baseShear: (storyShear[0] ?? 0) / 1e3,
+      overturningMoment: (overturning[0] ?? 0) / 1e3,
+      bearingPressure: bearingPressure / 1e3,
+      allowableBearingPressure: ALLOWABLE_BEARING_PRESSURE / 1e3,
+      settlement: settlement * 1e3,
+      allowableSettlement: ALLOWABLE_SETTLEMENT * 1e3,
+      demandCapacityRatio: bearingPressure / ALLOWABLE_BEARING_PRESSURE
+    }
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Ground Motion Utilities
+ *
+ * This file turns the seismic scenario parameters into a deterministic,
+ * seedable ground acceleration time series that the structural solver, the
+ * ground animation and the timeline all read from.
+ */
+
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { applySiteResponse } from './siteResponse';
+
+// Standard gravity (m/s²)
+export const GRAVITY = 9.81;
+
+// Default sampling interval for generated records (s)
+export const DEFAULT_TIME_STEP = 0.01;
+
+// Seed used when the scenario does not specify one
+export const DEFAULT_SEED = 1;
+
+/**
+ * A uniformly sampled horizontal ground acceleration record
+ */
+export type GroundMotion = {
+  dt: number; // sampling interval (s)
+  acceleration: number[]; // ground acceleration (m/s²)
+  peakGroundAcceleration: number; // m/s²
+};
+
+/**
+ * A ground motion record imported from a file, used instead of the synthetic record
+ */
+export type RecordedGroundMotion = GroundMotion & {
+  id: string; // identifies the record content, used for caching
+  name: string;
+  format: 'at2' | 'csv' | 'columns';
+};
+
+/**
+ * Estimates the peak ground acceleration (in g) for a scenario using a
+ * simplified Campbell (1997) attenuation relation on firm soil
+ */
+export function estimatePeakGroundAcceleration(
+  magnitude: number,
+  distance: number,
+  depth: number
+): number {
+  // Hypocentral distance (km)
+  const hypocentralDistance = Math.sqrt(distance * distance + depth * depth);
+
+  // Near-source saturation term grows with magnitude
+  const saturation = 0.149 * Math.exp(0.647 * magnitude);
+
+  const lnPga = -3.512 + 0.904 * magnitude -
+    1.328 * Math.log(Math.sqrt(hypocentralDistance * hypocentralDistance + saturation * saturation));
+
+  return Math.exp(lnPga);
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample from a uniform generator (Box-Muller)
+ */
+export function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Predominant ground period (s) for a scenario. Larger events radiate more
+ * long-period energy, and distance filters out the high frequencies.
+ */
+export function getPredominantPeriod(magnitude: number, distance: number): number {
+  const sourcePeriod = Math.min(2.0, Math.max(0.15, 0.1 * Math.exp(0.45 * (magnitude - 4))));
+  return sourcePeriod * (1 + distance / 200);
+}
+
+/**
+ * Creates a ground acceleration record for the scenario.
+ * Gaussian white noise is passed through a Clough-Penzien filter (a Kanai-Tajimi
+ * soil filter tuned to the predominant period, followed by a high-pass stage that
+ * removes unrealistic long-period drift), shaped by the intensity envelope and
+ * scaled so its peak matches the attenuation-based PGA. The same seed always
+ * produces the same record.
+ */
+export function createGroundMotion(
+  seismicParams: SeismicParams,
+  dt: number = DEFAULT_TIME_STEP
+): GroundMotion {
+  const { magnitude, distance, depth, duration } = seismicParams;
+  const seed = seismicParams.seed ?? DEFAULT_SEED;
+
+  const pga = estimatePeakGroundAcceleration(magnitude, distance, depth) * GRAVITY;
+  const steps = Math.max(2, Math.round(duration / dt) + 1);
+
+  // Filter parameters
+  const groundOmega = (2 * Math.PI) / getPredominantPeriod(magnitude, distance);
+  const groundDamping = 0.6;
+  const highPassOmega = 0.1 * groundOmega;
+  const highPassDamping = 0.6;
+
+  // The filters are integrated on a finer grid to stay stable for stiff sites
+  const substeps = Math.max(1, Math.ceil(groundOmega * dt / 0.05));
+  const h = dt / substeps;
+
+  const random = createRandom(seed);
+  const acceleration: number[] = new Array(steps);
+  let soilDisplacement = 0;
+  let soilVelocity = 0;
+  let highPassDisplacement = 0;
+  let highPassVelocity = 0;
+  let peak = 0;
+
+  for (let i = 0; i < steps; i++) {
+    // White noise held constant over the sampling interval
+    const noise = gaussian(random) / Math.sqrt(dt);
+    let value = 0;
+
+    for (let k = 0; k < substeps; k++) {
+      // Kanai-Tajimi stage
+      const soilAcceleration = -noise -
+        2 * groundDamping * groundOmega * soilVelocity -
+        groundOmega * groundOmega * soilDisplacement;
+      soilVelocity += soilAcceleration * h;
+      soilDisplacement += soilVelocity * h;
+      const filtered = -(2 * groundDamping * groundOmega * soilVelocity +
+        groundOmega * groundOmega * soilDisplacement);
+
+      // High-pass stage
+      const highPassAcceleration = filtered -
+        2 * highPassDamping * highPassOmega * highPassVelocity -
+        highPassOmega * highPassOmega * highPassDisplacement;
+      highPassVelocity += highPassAcceleration * h;
+      highPassDisplacement += highPassVelocity * h;
+      value = highPassAcceleration;
+    }
+
+    value *= intensityEnvelope(i * dt, duration);
+    acceleration[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+
+  // Scale the record to the target PGA
+  const scale = peak > 0 ? pga / peak : 0;
+  for (let i = 0; i < steps; i++) {
+    acceleration[i] *= scale;
+  }
+
+  return { dt, acceleration, peakGroundAcceleration: pga };
+}
+
+// Recently generated records, so the analysis and the scene share one record
+const motionCache = new Map<string, GroundMotion>();
+const MOTION_CACHE_SIZE = 8;
+
+const cacheMotion = (key: string, motion: GroundMotion) => {
+  motionCache.set(key, motion);
+  if (motionCache.size > MOTION_CACHE_SIZE) {
+    const oldestKey = motionCache.keys().next().value;
+    if (oldestKey !== undefined) motionCache.delete(oldestKey);
+  }
+};
+
+/**
+ * Returns (or reuses) the rock-outcrop record for a scenario, before any
+ * site response
+ */
+export function getOutcropMotion(seismicParams: SeismicParams): GroundMotion {
+  // An imported record always takes precedence over the synthetic parameters
+  if (seismicParams.groundMotionRecord) return seismicParams.groundMotionRecord;
+
+  const { magnitude, distance, depth, duration, seed } = seismicParams;
+  const key = JSON.stringify([magnitude, distance, depth, duration, seed ?? DEFAULT_SEED]);
+  const cached = motionCache.get(key);
+  if (cached) return cached;
+
+  const motion = createGroundMotion(seismicParams);
+  cacheMotion(key, motion);
+  return motion;
+}
+
+/**
+ * Returns (or reuses) the ground motion record for a scenario: the
+ * free-field surface motion of its site
+ */
+export function getGroundMotion(seismicParams: SeismicParams): GroundMotion {
+  const outcrop = getOutcropMotion(seismicParams);
+  const { site } = seismicParams;
+  if (!site || site.thickness <= 0) return outcrop;
+
+  const { magnitude, distance, depth, duration, seed, groundMotionRecord } = seismicParams;
+  const key = JSON.stringify([
+    groundMotionRecord ? groundMotionRecord.id : [magnitude, distance, depth, duration, seed ?? DEFAULT_SEED],
+    site
+  ]);
+  const cached = motionCache.get(key);
+  if (cached) return cached;
+
+  const motion = applySiteResponse(outcrop, site);
+  cacheMotion(key, motion);
+  return motion;
+}
+
+/**
+ * A copy of a record scaled so its peak ground acceleration is the given
+ * value (m/s²), as used for incremental dynamic analysis
+ */
+export function scaleGroundMotion(motion: GroundMotion, peakGroundAcceleration: number): GroundMotion {
+  const peak = motion.acceleration.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const scale = peak > 0 ? peakGroundAcceleration / peak : 0;
+  return {
+    dt: motion.dt,
+    acceleration: motion.acceleration.map(value => value * scale),
+    peakGroundAcceleration
+  };
+}
+
+/**
+ * Ground acceleration (m/s²) at an arbitrary time, linearly interpolated
+ */
+export function sampleGroundMotion(motion: GroundMotion, time: number): number {
+  const { dt, acceleration } = motion;
+  if (time <= 0) return acceleration[0];
+
+  const position = time / dt;
+  const index = Math.floor(position);
+  if (index >= acceleration.length - 1) return acceleration[acceleration.length - 1];
+
+  const t = position - index;
+  return acceleration[index] * (1 - t) + acceleration[index + 1] * t;
+}
+
+/**
+ * Key instants of a record, derived from its cumulative Arias intensity
+ */
+export type ShakingTimeline = {
+  arrivalTime: number; // first perceptible shaking (1% of Arias intensity)
+  strongMotionStart: number; // 5% of Arias intensity
+  peakTime: number; // instant of peak ground acceleration
+  strongMotionEnd: number; // 95% of Arias intensity
+  ariasIntensity: number; // m/s
+};
+
+/**
+ * Computes the shaking timeline of a record
+ */
+export function getShakingTimeline(motion: GroundMotion): ShakingTimeline {
+  const { dt, acceleration } = motion;
+
+  let total = 0;
+  let peak = 0;
+  let peakIndex = 0;
+  for (let i = 0; i < acceleration.length; i++) {
+    total += acceleration[i] * acceleration[i] * dt;
+    if (Math.abs(acceleration[i]) > peak) {
+      peak = Math.abs(acceleration[i]);
+      peakIndex = i;
+    }
+  }
+
+  const thresholds = [0.01, 0.05, 0.95];
+  const times = thresholds.map(() => (acceleration.length - 1) * dt);
+  let cumulative = 0;
+  let next = 0;
+  for (let i = 0; i < acceleration.length && next < thresholds.length; i++) {
+    cumulative += acceleration[i] * acceleration[i] * dt;
+    while (next < thresholds.length && cumulative >= thresholds[next] * total) {
+      times[next] = i * dt;
+      next++;
+    }
+  }
+
+  return {
+    arrivalTime: times[0],
+    strongMotionStart: times[1],
+    peakTime: peakIndex * dt,
+    strongMotionEnd: times[2],
+    ariasIntensity: (Math.PI / (2 * GRAVITY)) * total
+  };
+}
+
+/**
+ * Trapezoidal intensity envelope: linear build-up, strong-motion plateau and
+ * exponential decay (after Jennings et al., 1968)
+ */
+export function intensityEnvelope(time: number, duration: number): number {
+  const riseEnd = duration * 0.1;
+  const strongEnd = duration * 0.45;
+
+  if (time <= 0) return 0;
+  if (time < riseEnd) return Math.pow(time / riseEnd, 2);
+  if (time <= strongEnd) return 1;
+
+  const decay = 3 / Math.max(duration - strongEnd, 1e-6);
+  return Math.exp(-decay * (time - strongEnd));
+}
@@ -0,0 +1,295 @@
+/**
+ * Hysteresis
+ *
+ * Cyclic force-deformation laws of the structural members and the stories
+ * they make up. Steel follows a bilinear law with kinematic hardening;
+ * reinforced concrete follows Takeda's degrading-stiffness model (Takeda,
+ * Sozen & Nielsen, 1970), unloading more softly the further it has been
+ * pushed and reloading towards the largest excursion in that direction; wood
+ * follows the same peak-oriented rules with a pinched reloading branch, as
+ * nailed and bolted connections slip before they bear again. Each law gives
+ * the force at a trial deformation from the state at the last converged
+ * step, so a Newton iteration can try deformations freely and commit only
+ * the converged one.
+ */
+
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+
+// Exponent of the unloading stiffness k0 (δy / δmax)^β of the peak-oriented models
+const UNLOADING_STIFFNESS_EXPONENT = 0.4;
+
+// Pinched reloading first aims at this share of the peak force, reached this
+// share of the way from zero force to the peak deformation
+const PINCH_FORCE_RATIO = 0.25;
+const PINCH_DEFORMATION_RATIO = 0.5;
+
+export type HysteresisModelType = 'bilinear' | 'takeda' | 'pinching';
+
+/**
+ * Member hysteresis chosen with the materials; without it each material uses
+ * its own model
+ */
+export type MemberHysteresis = {
+  model: HysteresisModelType | 'elastic';
+  hardeningRatio?: number; // post-yield over elastic stiffness
+};
+
+export type HysteresisRule = {
+  model: HysteresisModelType;
+  hardeningRatio: number;
+};
+
+/**
+ * Hysteresis rule with the elastic stiffness and yield force of one member or
+ * story, in any consistent units (N and m, or kN·m and rad)
+ */
+export type HysteresisLaw = HysteresisRule & {
+  elasticStiffness: number;
+  yieldForce: number;
+};
+
+export type HysteresisState = {
+  deformation: number;
+  force: number;
+  maxDeformation: number; // furthest excursion in the positive direction, at least the yield deformation
+  minDeformation: number; // furthest excursion in the negative direction, at most minus the yield deformation
+  positiveOrigin: number; // deformation where the branch reloading towards the positive peak leaves zero force
+  negativeOrigin: number;
+  work: number; // ∫ F dδ so far
+};
+
+/**
+ * Force and deformation histories of a law driven through a deformation history
+ */
+export type HysteresisTrace = {
+  force: Float64Array;
+  residualDeformation: Float64Array; // left after unloading to zero force at each step
+  dissipatedEnergy: Float64Array; // cumulative
+};
+
+export const hysteresisModels: { value: HysteresisModelType; label: string; hardeningRatio: number }[] = [
+  { value: 'bilinear', label: 'Bilinear, kinematic hardening', hardeningRatio: 0.03 },
+  { value: 'takeda', label: 'Takeda (degrading stiffness)', hardeningRatio: 0.05 },
+  { value: 'pinching', label: 'Pinching', hardeningRatio: 0.05 }
+];
+
+/**
+ * Model each material's members follow unless another is chosen
+ */
+export function getDefaultHysteresisModel(materialType: StructuralMaterialsParams['activeMaterial']): HysteresisModelType {
+  if (materialType === 'steel') return 'bilinear';
+  if (materialType === 'wood') return 'pinching';
+  return 'takeda';
+}
+
+/**
+ * Ductility a member of a material sustains before it starts losing strength
+ */
+export function getDuctilityCapacity(materialType: StructuralMaterialsParams['activeMaterial']): number {
+  if (materialType === 'steel') return 6;
+  if (materialType === 'wood') return 3;
+  return 4;
+}
+
+/**
+ * Hysteresis rule of a material's members, or null when they are taken as elastic
+ */
+export function getHysteresisRule(
+  materialType: StructuralMaterialsParams['activeMaterial'],
+  settings?: MemberHysteresis
+): HysteresisRule | null {
+  if (settings?.model === 'elastic') return null;
+  const model = settings?.model ?? getDefaultHysteresisModel(materialType);
+  const defaults = hysteresisModels.find(option => option.value === model);
+  return { model, hardeningRatio: settings?.hardeningRatio ?? defaults?.hardeningRatio ?? 0 };
+}
+
+/**
+ * Deformation at which a law yields
+ */
+export function getYieldDeformation(law: HysteresisLaw): number {
+  return law.yieldForce / law.elasticStiffness;
+}
+
+/**
+ * State of a law at rest, before any loading
+ */
+export function createHysteresisState(law: HysteresisLaw): HysteresisState {
+  const yieldDeformation = getYieldDeformation(law);
+  return {
+    deformation: 0,
+    force: 0,
+    maxDeformation: yieldDeformation,
+    minDeformation: -yieldDeformation,
+    positiveOrigin: 0,
+    negativeOrigin: 0,
+    work: 0
+  };
+}
+
+// Force and tangent on the skeleton curve, symmetric about the origin
+const getBackbone = (law: HysteresisLaw, deformation: number) => {
+  const { elasticStiffness, yieldForce, hardeningRatio } = law;
+  const yieldDeformation = getYieldDeformation(law);
+  const magnitude = Math.abs(deformation);
+  if (magnitude <= yieldDeformation) return { force: elasticStiffness * deformation, tangent: elasticStiffness };
+  return {
+    force: Math.sign(deformation) * (yieldForce + hardeningRatio * elasticStiffness * (magnitude - yieldDeformation)),
+    tangent: hardeningRatio * elasticStiffness
+  };
+};
+
+// Stiffness when unloading from a side last pushed to `peak` (a magnitude)
+const getUnloadingStiffness = (law: HysteresisLaw, peak: number) => {
+  if (law.model === 'bilinear') return law.elasticStiffness;
+  const yieldDeformation = getYieldDeformation(law);
+  return law.elasticStiffness * Math.pow(yieldDeformation / Math.max(peak, yieldDeformation), UNLOADING_STIFFNESS_EXPONENT);
+};
+
+// Kinematic hardening: the elastic range of width 2 (1 - α) Fy slides along
+// the hardening line α k0 δ
+const getBilinearForce = (law: HysteresisLaw, deformation: number, committed: HysteresisState) => {
+  const { elasticStiffness, yieldForce, hardeningRatio } = law;
+  const trial = committed.force + elasticStiffness * (deformation - committed.deformation);
+  const center = hardeningRatio * elasticStiffness * deformation;
+  const radius = (1 - hardeningRatio) * yieldForce;
+  if (Math.abs(trial - center) <= radius) return { force: trial, tangent: elasticStiffness };
+  return { force: center + Math.sign(trial - center) * radius, tangent: hardeningRatio * elasticStiffness };
+};
+
+// Branch from zero force at `origin` towards the peak, then along the
+// backbone, in a frame where the loading direction is positive. The branch is
+// never stiffer than the elastic stiffness; a pinched branch first aims at a
+// reduced force.
+const getReloadingForce = (law: HysteresisLaw, deformation: number, origin: number, peak: number, pinched: boolean) => {
+  if (deformation >= peak) return getBackbone(law, deformation);
+  const peakForce = getBackbone(law, peak).force;
+  const start = Math.min(origin, peak - peakForce / law.elasticStiffness);
+
+  if (pinched) {
+    const pinchDeformation = start + PINCH_DEFORMATION_RATIO * (peak - start);
+    const pinchForce = PINCH_FORCE_RATIO * peakForce;
+    if (deformation <= pinchDeformation) {
+      const slope = pinchForce / (pinchDeformation - start);
+      return { force: slope * (deformation - start), tangent: slope };
+    }
+    const slope = (peakForce - pinchForce) / (peak - pinchDeformation);
+    return { force: pinchForce + slope * (deformation - pinchDeformation), tangent: slope };
+  }
+
+  const slope = peakForce / (peak - start);
+  return { force: slope * (deformation - start), tangent: slope };
+};
+
+// Takeda and pinching: unload with the degraded stiffness to zero force, then
+// reload towards the peak on the other side
+const getPeakOrientedForce = (law: HysteresisLaw, deformation: number, committed: HysteresisState) => {
+  const direction = deformation >= committed.deformation ? 1 : -1;
+  const x = direction * deformation;
+  const xCommitted = direction * committed.deformation;
+  const fCommitted = direction * committed.force;
+  const peak = direction > 0 ? committed.maxDeformation : -committed.minDeformation;
+  const oppositePeak = direction > 0 ? -committed.minDeformation : committed.maxDeformation;
+  let origin = direction * (direction > 0 ? committed.positiveOrigin : committed.negativeOrigin);
+  const pinched = law.model === 'pinching' && Math.max(peak, oppositePeak) > getYieldDeformation(law);
+
+  let response: { force: number; tangent: number };
+  if (fCommitted < 0) {
+    // Unloading from the other side
+    const stiffness = getUnloadingStiffness(law, oppositePeak);
+    const force = fCommitted + stiffness * (x - xCommitted);
+    if (force <= 0) {
+      response = { force, tangent: stiffness };
+    } else {
+      origin = xCommitted - fCommitted / stiffness;
+      response = getReloadingForce(law, x, origin, peak, pinched);
+    }
+  } else {
+    // Reloading after a partial unloading climbs back to the branch
+    const stiffness = getUnloadingStiffness(law, peak);
+    const branch = getReloadingForce(law, x, origin, peak, pinched);
+    const force = fCommitted + stiffness * (x - xCommitted);
+    response = force < branch.force ? { force, tangent: stiffness } : branch;
+  }
+
+  return {
+    force: direction * response.force,
+    tangent: response.tangent,
+    origin: direction * origin,
+    direction
+  };
+};
+
+/**
+ * Force and tangent stiffness of a law at a trial deformation, from the state
+ * at the last converged step, and the state to commit if the trial converges
+ */
+export function getHysteresisForce(
+  law: HysteresisLaw,
+  deformation: number,
+  committed: HysteresisState
+): { force: number; tangent: number; state: HysteresisState } {
+  let force: number;
+  let tangent: number;
+  let { positiveOrigin, negativeOrigin } = committed;
+  if (law.model === 'bilinear') {
+    ({ force, tangent } = getBilinearForce(law, deformation, committed));
+  } else {
+    const response = getPeakOrientedForce(law, deformation, committed);
+    ({ force, tangent } = response);
+    if (response.direction > 0) positiveOrigin = response.origin;
+    else negativeOrigin = response.origin;
+  }
+
+  return {
+    force,
+    tangent,
+    state: {
+      deformation,
+      force,
+      maxDeformation: Math.max(committed.maxDeformation, deformation),
+      minDeformation: Math.min(committed.minDeformation, deformation),
+      positiveOrigin,
+      negativeOrigin,
+      work: committed.work + 0.5 * (committed.force + force) * (deformation - committed.deformation)
+    }
+  };
+}
+
+// Stiffness the law would unload with from its current force
+const getCurrentUnloadingStiffness = (law: HysteresisLaw, state: HysteresisState) =>
+  getUnloadingStiffness(law, state.force >= 0 ? state.maxDeformation : -state.minDeformation);
+
+/**
+ * Deformation left once the force is taken off: the permanent set
+ */
+export function getResidualDeformation(law: HysteresisLaw, state: HysteresisState): number {
+  return state.deformation - state.force / getCurrentUnloadingStiffness(law, state);
+}
+
+/**
+ * Energy dissipated so far: the work done on the law less the strain energy
+ * it would give back on unloading
+ */
+export function getDissipatedEnergy(law: HysteresisLaw, state: HysteresisState): number {
+  // Never below zero, whatever the round-off in the elastic range
+  return Math.max(0, state.work - (state.force * state.force) / (2 * getCurrentUnloadingStiffness(law, state)));
+}
+
+/**
+ * Drives a law through a deformation history, starting at rest
+ */
+export function traceHysteresis(law: HysteresisLaw, deformation: Float64Array): HysteresisTrace {
+  const steps = deformation.length;
+  const force = new Float64Array(steps);
+  const residualDeformation = new Float64Array(steps);
+  const dissipatedEnergy = new Float64Array(steps);
+  let state = createHysteresisState(law);
+  for (let step = 0; step < steps; step++) {
+    state = getHysteresisForce(law, deformation[step], state).state;
+    force[step] = state.force;
+    residualDeformation[step] = getResidualDeformation(law, state);
+    dissipatedEnergy[step] = getDissipatedEnergy(law, state);
+  }
+  return { force, residualDeformation, dissipatedEnergy };
+}
@@ -0,0 +1,256 @@
+/**
+ * Liquefaction
+ *
+ * Triggering of liquefaction in a layered soil profile by the SPT-based
+ * simplified procedure (Youd et al., 2001): the cyclic stress ratio the
+ * earthquake induces at each layer, CSR = 0.65 (amax / g) (σv / σ'v) rd, is
+ * compared with the cyclic resistance ratio of the layer from its corrected
+ * blow count (N1)60cs. The factors of safety add up to the liquefaction
+ * potential index (Iwasaki et al., 1978), which drives the foundation damage.
+ */
+
+import { GRAVITY } from './groundMotion';
+
+// Atmospheric pressure (kPa) and unit weight of water (kN/m³)
+const ATMOSPHERIC_PRESSURE = 100;
+const WATER_UNIT_WEIGHT = 9.81;
+
+// Clean-sand blow counts at or above this are too dense to liquefy
+const DENSE_SAND_BLOW_COUNT = 30;
+
+// Factor of safety below which a layer is reported as marginal
+const MARGINAL_FACTOR_OF_SAFETY = 1.3;
+
+// Depth over which the liquefaction potential index is integrated (m)
+const LPI_DEPTH = 20;
+
+export type SoilLayerType = 'sand' | 'silty-sand' | 'silt' | 'clay';
+
+export type SoilLayer = {
+  thickness: number; // m
+  soilType: SoilLayerType;
+  sptN: number; // N60, blows per 0.3 m corrected to 60% hammer energy
+  finesContent: number; // %, passing the 75 µm sieve
+  unitWeight: number; // kN/m³, total
+};
+
+/**
+ * Layers from the surface down, with the depth of the water table
+ */
+export type SoilProfile = {
+  groundwaterDepth: number; // m below the surface
+  layers: SoilLayer[];
+};
+
+export type LiquefactionStatus = 'liquefiable' | 'marginal' | 'non-liquefiable' | 'not-susceptible';
+
+export type LayerLiquefaction = {
+  top: number; // m
+  bottom: number; // m
+  depth: number; // m, where the layer is checked (middle of its saturated part)
+  totalStress: number; // kPa
+  effectiveStress: number; // kPa
+  stressReduction: number; // rd
+  cyclicStressRatio: number;
+  correctedBlowCount: number; // (N1)60cs
+  cyclicResistanceRatio: number | null; // at the scenario's magnitude and confinement; null when too dense to liquefy
+  factorOfSafety: number | null; // null when the layer cannot liquefy
+  status: LiquefactionStatus;
+};
+
+export type LiquefactionSeverity = 'none' | 'low' | 'high' | 'very high';
+
+export type LiquefactionAssessment = {
+  profile: SoilProfile;
+  magnitude: number;
+  peakGroundAcceleration: number; // m/s², at the surface
+  magnitudeScalingFactor: number;
+  layers: LayerLiquefaction[];
+  liquefactionPotentialIndex: number;
+  severity: LiquefactionSeverity;
+  liquefiedThickness: number; // m, of the layers with a factor of safety below 1
+};
+
+export const soilLayerTypes: { value: SoilLayerType; label: string; finesContent: number }[] = [
+  { value: 'sand', label: 'Clean sand', finesContent: 3 },
+  { value: 'silty-sand', label: 'Silty sand', finesContent: 20 },
+  { value: 'silt', label: 'Non-plastic silt', finesContent: 60 },
+  { value: 'clay', label: 'Clay', finesContent: 90 }
+];
+
+/**
+ * Loose saturated sand over denser sand and clay, as a starting point to edit
+ */
+export const defaultSoilProfile: SoilProfile = {
+  groundwaterDepth: 2,
+  layers: [
+    { thickness: 2, soilType: 'silty-sand', sptN: 8, finesContent: 20, unitWeight: 18 },
+    { thickness: 4, soilType: 'sand', sptN: 10, finesContent: 5, unitWeight: 19 },
+    { thickness: 6, soilType: 'sand', sptN: 22, finesContent: 5, unitWeight: 19.5 },
+    { thickness: 8, soilType: 'clay', sptN: 15, finesContent: 90, unitWeight: 18.5 }
+  ]
+};
+
+/**
+ * Stress reduction coefficient rd at a depth (m) (Liao & Whitman, 1986)
+ */
+export function getStressReduction(depth: number): number {
+  if (depth <= 9.15) return 1 - 0.00765 * depth;
+  if (depth <= 23) return 1.174 - 0.0267 * depth;
+  if (depth <= 30) return 0.744 - 0.008 * depth;
+  return 0.5;
+}
+
+/**
+ * Magnitude scaling factor of the cyclic resistance (Idriss, in Youd et al., 2001)
+ */
+export function getMagnitudeScalingFactor(magnitude: number): number {
+  return Math.pow(10, 2.24) / Math.pow(magnitude, 2.56);
+}
+
+/**
+ * Cyclic resistance ratio of a clean sand at magnitude 7.5 from its
+ * corrected blow count, or null when it is too dense to liquefy
+ */
+export function getCyclicResistanceRatio(correctedBlowCount: number): number | null {
+  const n = correctedBlowCount;
+  if (n >= DENSE_SAND_BLOW_COUNT) return null;
+  return 1 / (34 - n) + n / 135 + 50 / Math.pow(10 * n + 45, 2) - 1 / 200;
+}
+
+// Clean-sand equivalent of (N1)60 for the fines content (%)
+const getCleanSandBlowCount = (blowCount: number, finesContent: number) => {
+  if (finesContent <= 5) return blowCount;
+  if (finesContent >= 35) return 5 + 1.2 * blowCount;
+  const alpha = Math.exp(1.76 - 190 / (finesContent * finesContent));
+  const beta = 0.99 + Math.pow(finesContent, 1.5) / 1000;
+  return alpha + beta * blowCount;
+};
+
+// Vertical total stress (kPa) at a depth, from the unit weights above it
+const getTotalStress = (profile: SoilProfile, depth: number) => {
+  let stress = 0;
+  let top = 0;
+  for (const layer of profile.layers) {
+    const bottom = top + layer.thickness;
+    stress += layer.unitWeight * (Math.min(bottom, depth) - top);
+    if (bottom >= depth) break;
+    top = bottom;
+  }
+  return stress;
+};
+
+// Weighted depth integral of Iwasaki's w(z) = 10 - 0.5 z between two depths
+const integrateDepthWeight = (from: number, to: number) => {
+  const weight = (z: number) => 10 * z - 0.25 * z * z;
+  const a = Math.min(from, LPI_DEPTH);
+  const b = Math.min(to, LPI_DEPTH);
+  return b > a ? weight(b) - weight(a) : 0;
+};
+
+/**
+ * Severity of the liquefaction potential index (Iwasaki et al., 1982)
+ */
+export function getLiquefactionSeverity(index: number): LiquefactionSeverity {
+  if (index <= 0) return 'none';
+  if (index <= 5) return 'low';
+  if (index <= 15) return 'high';
+  return 'very high';
+}
+
+/**
+ * Factor of safety against liquefaction of every layer of a profile under a
+ * surface peak ground acceleration (m/s²) and magnitude. Clays and layers
+ * above the water table are not susceptible.
+ */
+export function assessLiquefaction(
+  profile: SoilProfile,
+  peakGroundAcceleration: number,
+  magnitude: number
+): LiquefactionAssessment {
+  const { groundwaterDepth } = profile;
+  const magnitudeScalingFactor = getMagnitudeScalingFactor(magnitude);
+  const amax = peakGroundAcceleration / GRAVITY;
+
+  let top = 0;
+  const layers = profile.layers.map((layer): LayerLiquefaction => {
+    const bottom = top + layer.thickness;
+    const saturatedTop = Math.max(top, groundwaterDepth);
+    const depth = bottom > saturatedTop ? (saturatedTop + bottom) / 2 : (top + bottom) / 2;
+    top = bottom;
+
+    const totalStress = getTotalStress(profile, depth);
+    const porePressure = WATER_UNIT_WEIGHT * Math.max(0, depth - groundwaterDepth);
+    const effectiveStress = totalStress - porePressure;
+    const stressReduction = getStressReduction(depth);
+    const cyclicStressRatio = effectiveStress > 0
+      ? 0.65 * amax * (totalStress / effectiveStress) * stressReduction
+      : 0;
+
+    // Overburden correction to 1 atm, capped at 1.7
+    const overburdenFactor = Math.min(1.7, Math.sqrt(ATMOSPHERIC_PRESSURE / Math.max(effectiveStress, 1e-6)));
+    const correctedBlowCount = getCleanSandBlowCount(overburdenFactor * layer.sptN, layer.finesContent);
+
+    const base = {
+      top: bottom - layer.thickness,
+      bottom,
+      depth,
+      totalStress,
+      effectiveStress,
+      stressReduction,
+      cyclicStressRatio,
+      correctedBlowCount
+    };
+    if (layer.soilType === 'clay' || bottom <= groundwaterDepth) {
+      return { ...base, cyclicResistanceRatio: null, factorOfSafety: null, status: 'not-susceptible' };
+    }
+
+    const resistance = getCyclicResistanceRatio(correctedBlowCount);
+    if (resistance === null) {
+      return { ...base, cyclicResistanceRatio: null, factorOfSafety: null, status: 'non-liquefiable' };
+    }
+
+    // Confinement above 1 atm lowers the resistance (Youd et al., 2001, f = 0.7)
+    const confinementFactor = Math.min(1, Math.pow(effectiveStress / ATMOSPHERIC_PRESSURE, 0.7 - 1));
+    const cyclicResistanceRatio = resistance * magnitudeScalingFactor * confinementFactor;
+    const factorOfSafety = cyclicStressRatio > 0 ? cyclicResistanceRatio / cyclicStressRatio : Infinity;
+
+    return {
+      ...base,
+      cyclicResistanceRatio,
+      factorOfSafety: Number.isFinite(factorOfSafety) ? factorOfSafety : null,
+      status: factorOfSafety < 1
+        ? 'liquefiable'
+        : factorOfSafety < MARGINAL_FACTOR_OF_SAFETY ? 'marginal' : 'non-liquefiable'
+    };
+  });
+
+  // LPI = ∫ F(z) w(z) dz over the top 20 m with F = 1 - FS where FS < 1
+  let liquefactionPotentialIndex = 0;
+  let liquefiedThickness = 0;
+  layers.forEach(layer => {
+    if (layer.factorOfSafety === null || layer.factorOfSafety >= 1) return;
+    const saturatedTop = Math.max(layer.top, groundwaterDepth);
+    liquefactionPotentialIndex += (1 - layer.factorOfSafety) * integrateDepthWeight(saturatedTop, layer.bottom);
+    liquefiedThickness += layer.bottom - saturatedTop;
+  });
+
+  return {
+    profile,
+    magnitude,
+    peakGroundAcceleration,
+    magnitudeScalingFactor,
+    layers,
+    liquefactionPotentialIndex,
+    severity: getLiquefactionSeverity(liquefactionPotentialIndex),
+    liquefiedThickness
+  };
+}
+
+/**
+ * Foundation damage (%) from loss of bearing and settlement of liquefied
+ * ground: 25% at an index of 5 (high) and 75% at 15 (very high)
+ */
+export function getLiquefactionDamage(assessment: LiquefactionAssessment): number {
+  return Math.min(100, 5 * assessment.liquefactionPotentialIndex);
+}
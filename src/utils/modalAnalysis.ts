@@ -0,0 +1,199 @@
+/**
+ * Modal Analysis Utilities
+ *
+ * This file solves the eigenvalue problem K φ = ω² M φ of the lumped-mass
+ * shear building for its natural periods, mode shapes and modal participation.
+ */
+
+import type { ShearBuildingModel } from './structuralSolver';
+
+// Convergence limit of the QL iteration
+const MAX_QL_ITERATIONS = 60;
+
+export type VibrationMode = {
+  index: number; // 1-based mode number
+  period: number; // s
+  frequency: number; // Hz
+  omega: number; // rad/s
+  shape: number[]; // per floor, normalized so the largest component is 1 and the roof is positive
+  participationFactor: number; // Γ = φᵀM1 / φᵀMφ
+  effectiveMass: number; // kg
+  effectiveMassRatio: number; // fraction of total mass
+};
+
+export type ModalAnalysisResult = {
+  modes: VibrationMode[];
+  totalMass: number; // kg
+};
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric tridiagonal matrix by the QL
+ * algorithm with implicit shifts. `diagonal` and `offDiagonal` are overwritten;
+ * the eigenvalues are returned in `diagonal` and, when requested, the
+ * eigenvectors as the columns of the returned matrix.
+ */
+function solveTridiagonalEigen(
+  diagonal: Float64Array,
+  offDiagonal: Float64Array,
+  computeVectors: boolean
+): number[][] {
+  const n = diagonal.length;
+  const d = diagonal;
+  const e = new Float64Array(n);
+  e.set(offDiagonal.subarray(0, n - 1));
+
+  const z: number[][] = computeVectors
+    ? Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+    : [];
+
+  for (let l = 0; l < n; l++) {
+    let iterations = 0;
+    let m: number;
+    do {
+      // Look for a negligible off-diagonal element to split the matrix
+      for (m = l; m < n - 1; m++) {
+        const scale = Math.abs(d[m]) + Math.abs(d[m + 1]);
+        if (Math.abs(e[m]) <= Number.EPSILON * scale) break;
+      }
+      if (m === l) break;
+
+      if (iterations++ === MAX_QL_ITERATIONS) {
+        throw new Error('Modal analysis did not converge');
+      }
+
+      // Implicit Wilkinson shift
+      let g = (d[l + 1] - d[l]) / (2 * e[l]);
+      let r = Math.hypot(g, 1);
+      g = d[m] - d[l] + e[l] / (g + (g >= 0 ? Math.abs(r) : -Math.abs(r)));
+      let s = 1;
+      let c = 1;
+      let p = 0;
+      let i: number;
+      let underflow = false;
+
+      for (i = m - 1; i >= l; i--) {
+        let f = s * e[i];
+        const b = c * e[i];
+        r = Math.hypot(f, g);
+        e[i + 1] = r;
+        if (r === 0) {
+          d[i + 1] -= p;
+          e[m] = 0;
+          underflow = true;
+          break;
+        }
+        s = f / r;
+        c = g / r;
+        g = d[i + 1] - p;
+        r = (d[i] - g) * s + 2 * c * b;
+        p = s * r;
+        d[i + 1] = g + p;
+        g = c * r - b;
+
+        // Accumulate the rotation into the eigenvectors
+        for (let k = 0; k < z.length; k++) {
+          f = z[k][i + 1];
+          z[k][i + 1] = s * z[k][i] + c * f;
+          z[k][i] = c * z[k][i] - s * f;
+        }
+      }
+
+      if (underflow) continue;
+      d[l] -= p;
+      e[l] = g;
+      e[m] = 0;
+    } while (m !== l);
+  }
+
+  return z;
+}
+
+// Mass-normalized stiffness M^-1/2 K M^-1/2, which stays symmetric tridiagonal
+const buildNormalizedStiffness = (masses: number[], storyStiffness: number[]) => {
+  const n = masses.length;
+  const rootMass = masses.map(Math.sqrt);
+  const diagonal = new Float64Array(n);
+  const offDiagonal = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const k = storyStiffness[i] + (i + 1 < n ? storyStiffness[i + 1] : 0);
+    diagonal[i] = k / masses[i];
+    if (i + 1 < n) offDiagonal[i] = -storyStiffness[i + 1] / (rootMass[i] * rootMass[i + 1]);
+  }
+  return { rootMass, diagonal, offDiagonal };
+};
+
+/**
+ * Natural periods (s) in descending order, without the mode shapes
+ */
+export function computeNaturalPeriods(masses: number[], storyStiffness: number[]): number[] {
+  const { diagonal, offDiagonal } = buildNormalizedStiffness(masses, storyStiffness);
+  solveTridiagonalEigen(diagonal, offDiagonal, false);
+  return Array.from(diagonal)
+    .sort((a, b) => a - b)
+    .map(eigenvalue => (2 * Math.PI) / Math.sqrt(Math.max(eigenvalue, 0)));
+}
+
+/**
+ * Natural modes of a chain of lumped masses connected by story springs
+ */
+export function computeModes(
+  masses: number[],
+  storyStiffness: number[],
+  modeCount: number = masses.length
+): ModalAnalysisResult {
+  const n = masses.length;
+  const totalMass = masses.reduce((sum, mass) => sum + mass, 0);
+
+  const { rootMass, diagonal, offDiagonal } = buildNormalizedStiffness(masses, storyStiffness);
+  const vectors = solveTridiagonalEigen(diagonal, offDiagonal, true);
+
+  const order = Array.from({ length: n }, (_, i) => i)
+    .sort((a, b) => diagonal[a] - diagonal[b])
+    .slice(0, Math.min(modeCount, n));
+
+  const modes = order.map((column, index) => {
+    const omega = Math.sqrt(Math.max(diagonal[column], 0));
+
+    // Back to physical coordinates, φ = M^-1/2 v
+    let shape = vectors.map((row, i) => row[column] / rootMass[i]);
+    const largest = shape.reduce((max, value) => Math.abs(value) > Math.abs(max) ? value : max, 0);
+    const sign = shape[n - 1] < 0 ? -1 : 1;
+    shape = shape.map(value => (value / Math.abs(largest)) * sign);
+
+    let modalLoad = 0;
+    let modalMass = 0;
+    for (let i = 0; i < n; i++) {
+      modalLoad += masses[i] * shape[i];
+      modalMass += masses[i] * shape[i] * shape[i];
+    }
+    const effectiveMass = (modalLoad * modalLoad) / modalMass;
+
+    return {
+      index: index + 1,
+      period: (2 * Math.PI) / omega,
+      frequency: omega / (2 * Math.PI),
+      omega,
+      shape,
+      participationFactor: modalLoad / modalMass,
+      effectiveMass,
+      effectiveMassRatio: effectiveMass / totalMass
+    };
+  });
+
+  return { modes, totalMass };
+}
+
+// Modal analyses already computed, keyed by the model they belong to
+const modalCache = new WeakMap<ShearBuildingModel, ModalAnalysisResult>();
+
+/**
+ * Runs (or reuses) the modal analysis of a shear-building model
+ */
+export function analyzeModes(model: ShearBuildingModel): ModalAnalysisResult {
+  const cached = modalCache.get(model);
+  if (cached) return cached;
+
+  const result = computeModes(model.masses, model.storyStiffness);
+  modalCache.set(model, result);
+  return result;
+}
@@ -0,0 +1,320 @@
+/**
+ * Monte Carlo Uncertainty Analysis
+ *
+ * Material strengths, elastic moduli and the damping ratio are given
+ * probability distributions instead of single values. Each seeded
+ * realization samples them, analyses the building under the scenario's
+ * ground motion and checks it: a realization fails when it collapses or when
+ * the bending stress in the columns of any story exceeds the sampled
+ * strength. Failure probability and drift statistics come with 95%
+ * confidence intervals.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { createRandom, gaussian, getGroundMotion } from './groundMotion';
+import { setPath } from './objectPath';
+import { toCsv } from './simulationReport';
+import { defaultMaterialsParams, getMaterialStrength } from './structuralMaterials';
+import { buildShearBuildingModel, getColumnStress, runTimeHistoryAnalysis } from './structuralSolver';
+
+export const MAX_REALIZATIONS = 2000;
+
+// z-value of a two-sided 95% confidence interval
+const Z_95 = 1.96;
+
+// Realizations analysed between repaints of the page
+const BATCH_SIZE = 10;
+
+export type DistributionType = 'normal' | 'lognormal' | 'uniform';
+
+/**
+ * Distribution of an uncertain parameter; normal and lognormal ones are
+ * given by their mean and coefficient of variation
+ */
+export type Distribution =
+  | { type: 'normal' | 'lognormal'; mean: number; cov: number }
+  | { type: 'uniform'; min: number; max: number };
+
+/**
+ * A parameter that can be given a distribution
+ */
+export type UncertainParameter = {
+  path: string; // e.g. `materialsParams.concrete.compressiveStrength`
+  label: string;
+  unit: string;
+  nominal: number; // value in the scenario
+  defaultCov: number; // typical coefficient of variation
+};
+
+export type MonteCarloOptions = {
+  realizations: number;
+  seed: number;
+};
+
+export type MonteCarloRealization = {
+  values: number[]; // sampled value of each parameter
+  peakDrift: number; // %, over all stories
+  storyDrift: number[]; // %, peak per story
+  stressRatio: number[]; // peak column stress over strength, per story
+  collapsed: boolean;
+  failed: boolean;
+};
+
+/**
+ * Estimate with its 95% confidence interval
+ */
+export type Estimate = {
+  value: number;
+  lower: number;
+  upper: number;
+};
+
+export type MonteCarloResult = {
+  parameters: UncertainParameter[];
+  realizations: MonteCarloRealization[];
+  failureProbability: Estimate; // Wilson score interval
+  collapseProbability: Estimate;
+  storyFailureProbability: number[]; // share of realizations whose columns failed, per story
+  meanDrift: Estimate; // %, mean peak drift
+  driftPercentiles: { p5: number; p50: number; p95: number }; // %, of the peak drift
+  storyDriftPercentiles: { p5: number[]; p50: number[]; p95: number[] }; // %, per story
+};
+
+// Value at a quantile of sorted values, linearly interpolated
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const index = Math.floor(position);
+  const next = Math.min(index + 1, sorted.length - 1);
+  return sorted[index] + (sorted[next] - sorted[index]) * (position - index);
+};
+
+const wilsonInterval = (successes: number, trials: number): Estimate => {
+  if (trials === 0) return { value: 0, lower: 0, upper: 0 };
+  const p = successes / trials;
+  const denominator = 1 + (Z_95 * Z_95) / trials;
+  const centre = (p + (Z_95 * Z_95) / (2 * trials)) / denominator;
+  const halfWidth = (Z_95 * Math.sqrt((p * (1 - p)) / trials + (Z_95 * Z_95) / (4 * trials * trials))) / denominator;
+  return { value: p, lower: Math.max(0, centre - halfWidth), upper: Math.min(1, centre + halfWidth) };
+};
+
+/**
+ * Parameters of a scenario that can be uncertain: the strength and elastic
+ * modulus of the building's material, and its damping ratio
+ */
+export function getUncertainParameters(
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams
+): UncertainParameter[] {
+  const material: StructuralMaterialsParams['activeMaterial'] = buildingParams.materialType;
+  const strength = {
+    concrete: { key: 'compressiveStrength', label: 'Compressive strength', cov: 0.15 },
+    steel: { key: 'yieldStrength', label: 'Yield strength', cov: 0.07 },
+    wood: { key: 'bendingStrength', label: 'Bending strength', cov: 0.25 }
+  }[material];
+  const modulusCov = { concrete: 0.1, steel: 0.03, wood: 0.2 }[material];
+
+  return [
+    {
+      path: `materialsParams.${material}.${strength.key}`,
+      label: strength.label,
+      unit: 'MPa',
+      nominal: getMaterialStrength(material, materialsParams),
+      defaultCov: strength.cov
+    },
+    {
+      path: `materialsParams.${material}.elasticModulus`,
+      label: 'Elastic modulus',
+      unit: 'GPa',
+      nominal: materialsParams[material].elasticModulus,
+      defaultCov: modulusCov
+    },
+    {
+      path: 'buildingParams.dampingRatio',
+      label: 'Damping ratio',
+      unit: '',
+      nominal: buildingParams.dampingRatio,
+      defaultCov: 0.4
+    }
+  ];
+}
+
+/**
+ * Lognormal distribution about the nominal value with the typical scatter
+ */
+export function getDefaultDistribution(parameter: UncertainParameter): Distribution {
+  return { type: 'lognormal', mean: parameter.nominal, cov: parameter.defaultCov };
+}
+
+/**
+ * Reason a distribution cannot be sampled, or null when it can
+ */
+export function validateDistribution(distribution: Distribution): string | null {
+  if (distribution.type === 'uniform') {
+    if (!(distribution.min > 0) || !(distribution.max >= distribution.min)) {
+      return 'Use a positive minimum no larger than the maximum';
+    }
+    return null;
+  }
+  if (!(distribution.mean > 0)) return 'The mean must be positive';
+  if (!(distribution.cov >= 0) || distribution.cov > 1) return 'The coefficient of variation must be between 0 and 1';
+  return null;
+}
+
+/**
+ * Draws one value; normal draws that are not positive are drawn again
+ */
+export function sampleDistribution(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'uniform':
+      return distribution.min + (distribution.max - distribution.min) * random();
+    case 'lognormal': {
+      // Parameters of the underlying normal distribution that give this mean and COV
+      const sigma = Math.sqrt(Math.log(1 + distribution.cov * distribution.cov));
+      const mu = Math.log(distribution.mean) - (sigma * sigma) / 2;
+      return Math.exp(mu + sigma * gaussian(random));
+    }
+    case 'normal':
+    default: {
+      let value = 0;
+      while (!(value > 0)) {
+        value = distribution.mean * (1 + distribution.cov * gaussian(random));
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Runs seeded Monte Carlo realizations of a scenario with one distribution
+ * per uncertain parameter (in the order of `getUncertainParameters`).
+ * Analyses run on the main thread in small batches so the page stays
+ * responsive.
+ */
+export async function runMonteCarlo(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  distributions: Distribution[],
+  { realizations, seed }: MonteCarloOptions,
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<MonteCarloResult> {
+  const parameters = getUncertainParameters(buildingParams, materialsParams);
+  if (distributions.length !== parameters.length) {
+    throw new Error('Give one distribution per uncertain parameter');
+  }
+  distributions.forEach((distribution, i) => {
+    const error = validateDistribution(distribution);
+    if (error) throw new Error(`${parameters[i].label}: ${error}`);
+  });
+  if (!(realizations >= 1) || realizations > MAX_REALIZATIONS) {
+    throw new Error(`Use between 1 and ${MAX_REALIZATIONS} realizations`);
+  }
+
+  const motion = getGroundMotion(seismicParams);
+  const random = createRandom(seed);
+  const results: MonteCarloRealization[] = [];
+
+  while (results.length < realizations) {
+    // Let the page repaint and handle a cancellation between batches
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) throw new Error('Analysis cancelled');
+
+    const batchEnd = Math.min(realizations, results.length + BATCH_SIZE);
+    while (results.length < batchEnd) {
+      const values = distributions.map(distribution => sampleDistribution(distribution, random));
+      const scenario = structuredClone({ buildingParams, materialsParams });
+      parameters.forEach((parameter, i) => setPath(scenario, parameter.path, values[i]));
+
+      const model = buildShearBuildingModel(scenario.buildingParams, scenario.materialsParams, seismicParams.site);
+      const response = runTimeHistoryAnalysis(model, motion);
+      const strength = getMaterialStrength(buildingParams.materialType, scenario.materialsParams);
+
+      const storyDrift = response.drift.map(history => history.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0));
+      const stressRatio = storyDrift.map((drift, story) =>
+        getColumnStress(scenario.buildingParams, scenario.materialsParams, drift, story) / strength
+      );
+      const collapsed = response.collapseTime !== null;
+
+      results.push({
+        values,
+        peakDrift: response.peaks.interStoryDriftRatio * 100,
+        storyDrift: storyDrift.map(drift => drift * 100),
+        stressRatio,
+        collapsed,
+        failed: collapsed || stressRatio.some(ratio => ratio >= 1)
+      });
+    }
+    onProgress?.(results.length, realizations);
+  }
+
+  return summarizeMonteCarlo(parameters, results);
+}
+
+/**
+ * Failure probability and drift statistics of a set of realizations
+ */
+export function summarizeMonteCarlo(
+  parameters: UncertainParameter[],
+  realizations: MonteCarloRealization[]
+): MonteCarloResult {
+  const count = realizations.length;
+  const drifts = realizations.map(realization => realization.peakDrift);
+  const mean = drifts.reduce((sum, drift) => sum + drift, 0) / Math.max(count, 1);
+  const variance = drifts.reduce((sum, drift) => sum + (drift - mean) * (drift - mean), 0) / Math.max(count - 1, 1);
+  const halfWidth = (Z_95 * Math.sqrt(variance)) / Math.sqrt(Math.max(count, 1));
+  const sortedDrifts = [...drifts].sort((a, b) => a - b);
+
+  const stories = realizations[0]?.storyDrift.length ?? 0;
+  const sortedStoryDrifts = Array.from({ length: stories }, (_, story) =>
+    realizations.map(realization => realization.storyDrift[story]).sort((a, b) => a - b)
+  );
+
+  return {
+    parameters,
+    realizations,
+    failureProbability: wilsonInterval(realizations.filter(realization => realization.failed).length, count),
+    collapseProbability: wilsonInterval(realizations.filter(realization => realization.collapsed).length, count),
+    storyFailureProbability: Array.from({ length: stories }, (_, story) =>
+      realizations.filter(realization => realization.collapsed || realization.stressRatio[story] >= 1).length /
+        Math.max(count, 1)
+    ),
+    meanDrift: { value: mean, lower: Math.max(0, mean - halfWidth), upper: mean + halfWidth },
+    driftPercentiles: {
+      p5: quantile(sortedDrifts, 0.05),
+      p50: quantile(sortedDrifts, 0.5),
+      p95: quantile(sortedDrifts, 0.95)
+    },
+    storyDriftPercentiles: {
+      p5: sortedStoryDrifts.map(sorted => quantile(sorted, 0.05)),
+      p50: sortedStoryDrifts.map(sorted => quantile(sorted, 0.5)),
+      p95: sortedStoryDrifts.map(sorted => quantile(sorted, 0.95))
+    }
+  };
+}
+
+/**
+ * One CSV row per realization with its sampled values and outcome
+ */
+export function monteCarloToCsv(result: MonteCarloResult): string {
+  return toCsv([
+    [
+      'realization',
+      ...result.parameters.map(parameter => parameter.path),
+      'peak_interstory_drift_pct',
+      'max_column_stress_ratio',
+      'collapsed',
+      'failed'
+    ],
+    ...result.realizations.map((realization, i) => [
+      i + 1,
+      ...realization.values,
+      realization.peakDrift,
+      Math.max(...realization.stressRatio),
+      realization.collapsed,
+      realization.failed
+    ])
+  ]);
+}
@@ -0,0 +1,36 @@
+/**
+ * Object Paths
+ *
+ * Reads and writes nested parameters by their dotted path, e.g.
+ * 'materialsParams.concrete.compressiveStrength', as used by the parametric
+ * sweep and the uncertainty analysis.
+ */
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Value at a dotted path, or undefined where an object along it is missing
+ */
+export function getPath(target: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((object, key) => (isObject(object) ? object[key] : undefined), target);
+}
+
+/**
+ * Whether every object holding the value at a dotted path exists
+ */
+export function hasPathParent(target: unknown, path: string): boolean {
+  const keys = path.split('.').slice(0, -1);
+  return isObject(keys.length > 0 ? getPath(target, keys.join('.')) : target);
+}
+
+/**
+ * Sets the value at a dotted path; the objects along it must exist
+ */
+export function setPath(target: unknown, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  const parent = keys.length > 0 ? getPath(target, keys.join('.')) : target;
+  if (!isObject(parent)) throw new Error(`Cannot set ${path}: ${keys.join('.') || 'its parent'} is missing`);
+  parent[last] = value;
+}
@@ -0,0 +1,540 @@
+/**
+ * Parameter Schemas
+ *
+ * Runtime schemas for the seismic, building, structural element and material
+ * parameters: the range and unit of every number, the allowed options and the
+ * rules that tie fields together. Forms show the errors next to their fields
+ * and every load and import path rejects parameters that fail them.
+ */
+
+import type { BuildingParams } from '../components/BuildingParameterForm';
+import type { SimulationConfig } from '../components/ConfigurationManager';
+import type { SeismicParams } from '../components/SeismicParameterForm';
+import type { DetailedBuildingParams } from '../components/StructuralComponentAnalysis';
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import type { FloorProperties } from './buildingGeometry';
+import type { ProtectiveDevices } from './protectiveDevices';
+
+// Error messages keyed by the dotted path of the field, e.g. 'steel.tensileStrength'
+export type FieldErrors = Record<string, string>;
+
+export type FieldSchema =
+  | { kind: 'number'; label: string; unit?: string; min: number; max: number; integer?: boolean; optional?: boolean }
+  | { kind: 'option'; label: string; options: readonly string[]; optional?: boolean }
+  | { kind: 'boolean'; label: string; optional?: boolean }
+  | { kind: 'string'; label: string; optional?: boolean }
+  | { kind: 'object'; label: string; schema: ObjectSchema<unknown>; optional?: boolean }
+  | { kind: 'array'; label: string; item: ObjectSchema<unknown>; minItems: number; maxItems: number; optional?: boolean }
+  | { kind: 'numbers'; label: string; minItems: number; optional?: boolean }; // a list of finite numbers
+
+// A rule across fields, checked once every field it reads is valid
+type CrossFieldRule<T> = {
+  path: string; // field the error is shown on
+  message: string;
+  fields: string[]; // fields the rule reads
+  check(value: T): boolean; // a method, so that a schema nests whatever it checks
+};
+
+export type ObjectSchema<T> = {
+  fields: Record<string, FieldSchema>;
+  rules?: CrossFieldRule<T>[];
+};
+
+const reinforcementOptions = ['light', 'medium', 'heavy'] as const;
+const connectionOptions = ['rigid', 'semi-rigid', 'pinned'] as const;
+
+export const seismicParamsSchema: ObjectSchema<SeismicParams> = {
+  fields: {
+    magnitude: { kind: 'number', label: 'Magnitude', min: 1, max: 10 },
+    depth: { kind: 'number', label: 'Depth', unit: 'km', min: 0, max: 700 },
+    epicenterX: { kind: 'number', label: 'Epicenter X', min: -10, max: 10 },
+    epicenterY: { kind: 'number', label: 'Epicenter Y', min: -10, max: 10 },
+    waveVelocity: { kind: 'number', label: 'Wave velocity', unit: 'km/s', min: 0.1, max: 10 },
+    duration: { kind: 'number', label: 'Duration', unit: 's', min: 1, max: 600 },
+    distance: { kind: 'number', label: 'Distance', unit: 'km', min: 0, max: 1000 },
+    seed: { kind: 'number', label: 'Ground motion seed', min: 1, max: 2 ** 32 - 1, integer: true, optional: true },
+    groundMotionRecord: {
+      kind: 'object',
+      label: 'Ground motion record',
+      optional: true,
+      schema: {
+        fields: {
+          id: { kind: 'string', label: 'Record id' },
+          name: { kind: 'string', label: 'Record name' },
+          format: { kind: 'option', label: 'Record format', options: ['at2', 'csv', 'columns'] },
+          dt: { kind: 'number', label: 'Record time step', unit: 's', min: 0.0001, max: 1 },
+          acceleration: { kind: 'numbers', label: 'Record accelerations', minItems: 2 },
+          peakGroundAcceleration: { kind: 'number', label: 'Record PGA', unit: 'm/s²', min: 0, max: 50 }
+        }
+      }
+    },
+    site: {
+      kind: 'object',
+      label: 'Site soil',
+      optional: true,
+      schema: {
+        fields: {
+          siteClass: { kind: 'option', label: 'Site class', options: ['A', 'B', 'C', 'D', 'E'] },
+          shearWaveVelocity: { kind: 'number', label: 'Shear-wave velocity', unit: 'm/s', min: 50, max: 3000 },
+          density: { kind: 'number', label: 'Soil density', unit: 'kg/m³', min: 1200, max: 3000 },
+          thickness: { kind: 'number', label: 'Soil thickness', unit: 'm', min: 0, max: 300 },
+          dampingRatio: { kind: 'number', label: 'Soil damping ratio', min: 0, max: 0.3 },
+          poissonsRatio: { kind: 'number', label: "Soil Poisson's ratio", min: 0.1, max: 0.49 }
+        }
+      }
+    },
+    soilProfile: {
+      kind: 'object',
+      label: 'Soil profile',
+      optional: true,
+      schema: {
+        fields: {
+          groundwaterDepth: { kind: 'number', label: 'Groundwater depth', unit: 'm', min: 0, max: 50 },
+          layers: {
+            kind: 'array',
+            label: 'Soil layers',
+            minItems: 1,
+            maxItems: 20,
+            item: {
+              fields: {
+                thickness: { kind: 'number', label: 'Layer thickness', unit: 'm', min: 0.1, max: 50 },
+                soilType: { kind: 'option', label: 'Soil type', options: ['sand', 'silty-sand', 'silt', 'clay'] },
+                sptN: { kind: 'number', label: 'SPT N60', min: 0, max: 100 },
+                finesContent: { kind: 'number', label: 'Fines content', unit: '%', min: 0, max: 100 },
+                unitWeight: { kind: 'number', label: 'Unit weight', unit: 'kN/m³', min: 12, max: 24 }
+              }
+            }
+          }
+        }
+      }
+    },
+    showGrid: { kind: 'boolean', label: 'Show grid' },
+    showStats: { kind: 'boolean', label: 'Show stats' }
+  }
+};
+
+export const structuralComponentsSchema: ObjectSchema<NonNullable<DetailedBuildingParams['structuralComponents']>> = {
+  fields: {
+    columns: {
+      kind: 'object',
+      label: 'Columns',
+      schema: {
+        fields: {
+          width: { kind: 'number', label: 'Column width', unit: 'm', min: 0.1, max: 3 },
+          reinforcement: { kind: 'option', label: 'Column reinforcement', options: reinforcementOptions },
+          connectionType: { kind: 'option', label: 'Column connection', options: connectionOptions }
+        }
+      }
+    },
+    beams: {
+      kind: 'object',
+      label: 'Beams',
+      schema: {
+        fields: {
+          width: { kind: 'number', label: 'Beam width', unit: 'm', min: 0.1, max: 2 },
+          depth: { kind: 'number', label: 'Beam depth', unit: 'm', min: 0.15, max: 3 },
+          reinforcement: { kind: 'option', label: 'Beam reinforcement', options: reinforcementOptions },
+          connectionType: { kind: 'option', label: 'Beam connection', options: connectionOptions }
+        }
+      }
+    },
+    slabs: {
+      kind: 'object',
+      label: 'Slabs',
+      schema: {
+        fields: {
+          thickness: { kind: 'number', label: 'Slab thickness', unit: 'm', min: 0.05, max: 1 },
+          reinforcement: { kind: 'option', label: 'Slab reinforcement', options: reinforcementOptions },
+          type: { kind: 'option', label: 'Slab type', options: ['one-way', 'two-way', 'flat'] }
+        }
+      }
+    },
+    foundation: {
+      kind: 'object',
+      label: 'Foundation',
+      schema: {
+        fields: {
+          type: { kind: 'option', label: 'Foundation type', options: ['isolated', 'strip', 'raft', 'pile'] },
+          depth: { kind: 'number', label: 'Foundation depth', unit: 'm', min: 0.5, max: 60 }
+        }
+      }
+    }
+  },
+  rules: [
+    {
+      path: 'beams.depth',
+      message: 'Beam depth must be at least the slab thickness',
+      fields: ['beams.depth', 'slabs.thickness'],
+      check: ({ beams, slabs }) => beams.depth >= slabs.thickness
+    }
+  ]
+};
+
+const protectiveDevicesSchema: ObjectSchema<ProtectiveDevices> = {
+  fields: {
+    leadRubberBearings: {
+      kind: 'object',
+      label: 'Lead-rubber bearings',
+      optional: true,
+      schema: {
+        fields: {
+          isolatedPeriod: { kind: 'number', label: 'Isolated period', unit: 's', min: 1, max: 6 },
+          characteristicStrength: { kind: 'number', label: 'Characteristic strength (Q/W)', min: 0.01, max: 0.2 },
+          yieldDisplacement: { kind: 'number', label: 'Yield displacement', unit: 'm', min: 0.001, max: 0.1 }
+        }
+      }
+    },
+    frictionPendulums: {
+      kind: 'object',
+      label: 'Friction pendulums',
+      optional: true,
+      schema: {
+        fields: {
+          radius: { kind: 'number', label: 'Sliding surface radius', unit: 'm', min: 0.5, max: 10 },
+          frictionCoefficient: { kind: 'number', label: 'Friction coefficient', min: 0.01, max: 0.2 }
+        }
+      }
+    },
+    viscousDampers: {
+      kind: 'object',
+      label: 'Viscous dampers',
+      optional: true,
+      schema: {
+        fields: {
+          dampingCoefficient: { kind: 'number', label: 'Damping coefficient per story', unit: 'kN·(s/m)^α', min: 1, max: 1e6 },
+          velocityExponent: { kind: 'number', label: 'Velocity exponent', min: 0.1, max: 2 }
+        }
+      }
+    },
+    tunedMassDamper: {
+      kind: 'object',
+      label: 'Tuned mass damper',
+      optional: true,
+      schema: {
+        fields: {
+          massRatio: { kind: 'number', label: 'Mass ratio', min: 0.001, max: 0.2 },
+          frequencyRatio: { kind: 'number', label: 'Frequency ratio', min: 0.5, max: 1.5 },
+          dampingRatio: { kind: 'number', label: 'Damper damping ratio', min: 0, max: 0.5 }
+        }
+      }
+    }
+  },
+  rules: [
+    {
+      path: 'frictionPendulums',
+      message: 'Use either lead-rubber bearings or friction pendulums, not both',
+      fields: ['leadRubberBearings', 'frictionPendulums'],
+      check: ({ leadRubberBearings, frictionPendulums }) => !leadRubberBearings || !frictionPendulums
+    }
+  ]
+};
+
+export const buildingParamsSchema: ObjectSchema<BuildingParams> = {
+  fields: {
+    height: { kind: 'number', label: 'Height', unit: 'm', min: 3, max: 500 },
+    width: { kind: 'number', label: 'Width', unit: 'm', min: 2, max: 200 },
+    depth: { kind: 'number', label: 'Depth', unit: 'm', min: 2, max: 200 },
+    floors: { kind: 'number', label: 'Number of floors', min: 1, max: 100, integer: true },
+    stiffness: { kind: 'number', label: 'Stiffness', min: 1, max: 10 },
+    dampingRatio: { kind: 'number', label: 'Damping ratio', min: 0.005, max: 0.3 },
+    materialType: { kind: 'option', label: 'Building material', options: ['concrete', 'steel', 'wood'] },
+    structuralComponents: {
+      kind: 'object',
+      label: 'Structural components',
+      schema: structuralComponentsSchema,
+      optional: true
+    },
+    protectiveDevices: {
+      kind: 'object',
+      label: 'Protective devices',
+      schema: protectiveDevicesSchema,
+      optional: true
+    },
+    floorProperties: {
+      kind: 'array',
+      label: 'Floor properties',
+      minItems: 1,
+      maxItems: 100,
+      optional: true,
+      item: {
+        fields: {
+          height: { kind: 'number', label: 'Story height', unit: 'm', min: 2, max: 12 },
+          width: { kind: 'number', label: 'Floor width', unit: 'm', min: 2, max: 200 },
+          depth: { kind: 'number', label: 'Floor depth', unit: 'm', min: 2, max: 200 },
+          massFactor: { kind: 'number', label: 'Mass factor', min: 0.1, max: 5 },
+          stiffnessFactor: { kind: 'number', label: 'Stiffness factor', min: 0.05, max: 5 }
+        }
+      }
+    }
+  },
+  rules: [
+    {
+      path: 'floors',
+      message: 'Story height (height / floors) must be between 2 and 12 m',
+      fields: ['height', 'floors'],
+      check: ({ height, floors }) => height / floors >= 2 && height / floors <= 12
+    },
+    {
+      path: 'floorProperties',
+      message: 'The floor table must have one row per floor',
+      fields: ['floors', 'floorProperties'],
+      check: ({ floors, floorProperties }) => !floorProperties || floorProperties.length === floors
+    },
+    {
+      path: 'height',
+      message: 'Height must equal the sum of the story heights in the floor table',
+      fields: ['height', 'floorProperties'],
+      check: ({ height, floorProperties }) =>
+        !floorProperties || Math.abs(floorProperties.reduce((sum: number, floor: FloorProperties) => sum + floor.height, 0) - height) < 0.01
+    },
+    {
+      path: 'floorProperties',
+      message: 'Every floor plan must fit within the footprint (width × depth)',
+      fields: ['width', 'depth', 'floorProperties'],
+      check: ({ width, depth, floorProperties }) =>
+        !floorProperties || floorProperties.every((floor: FloorProperties) => floor.width <= width && floor.depth <= depth)
+    }
+  ]
+};
+
+export const materialsParamsSchema: ObjectSchema<StructuralMaterialsParams> = {
+  fields: {
+    concrete: {
+      kind: 'object',
+      label: 'Concrete',
+      schema: {
+        fields: {
+          compressiveStrength: { kind: 'number', label: 'Compressive strength', unit: 'MPa', min: 10, max: 150 },
+          tensileStrength: { kind: 'number', label: 'Tensile strength', unit: 'MPa', min: 0.5, max: 15 },
+          elasticModulus: { kind: 'number', label: 'Elastic modulus', unit: 'GPa', min: 10, max: 60 },
+          reinforcementType: { kind: 'option', label: 'Reinforcement type', options: ['standard', 'high-strength', 'fiber-reinforced'] },
+          structuralSystemType: { kind: 'option', label: 'Structural system', options: ['frame', 'shear-wall', 'dual-system', 'tube'] },
+          dampingRatio: { kind: 'number', label: 'Damping ratio', unit: '%', min: 0.5, max: 20 },
+          poissonsRatio: { kind: 'number', label: "Poisson's ratio", min: 0.1, max: 0.3 },
+          thermalExpansionCoeff: { kind: 'number', label: 'Thermal expansion', unit: '×10⁻⁶/°C', min: 5, max: 15 },
+          creepCoefficient: { kind: 'number', label: 'Creep coefficient', min: 0, max: 6 },
+          shrinkageStrain: { kind: 'number', label: 'Shrinkage strain', unit: 'mm/m', min: 0, max: 2 },
+          codeCompliance: { kind: 'option', label: 'Design code', options: ['ACI-318', 'Eurocode-2', 'IS-456', 'other'] }
+        }
+      }
+    },
+    steel: {
+      kind: 'object',
+      label: 'Steel',
+      schema: {
+        fields: {
+          yieldStrength: { kind: 'number', label: 'Yield strength', unit: 'MPa', min: 150, max: 1000 },
+          tensileStrength: { kind: 'number', label: 'Tensile strength', unit: 'MPa', min: 200, max: 1200 },
+          elasticModulus: { kind: 'number', label: 'Elastic modulus', unit: 'GPa', min: 150, max: 220 },
+          connectionType: { kind: 'option', label: 'Connection type', options: ['welded', 'bolted', 'riveted'] },
+          structuralSystemType: {
+            kind: 'option',
+            label: 'Structural system',
+            options: ['moment-frame', 'braced-frame', 'eccentrically-braced', 'special-moment-frame']
+          },
+          dampingRatio: { kind: 'number', label: 'Damping ratio', unit: '%', min: 0.5, max: 20 },
+          poissonsRatio: { kind: 'number', label: "Poisson's ratio", min: 0.25, max: 0.35 },
+          thermalExpansionCoeff: { kind: 'number', label: 'Thermal expansion', unit: '×10⁻⁶/°C', min: 10, max: 18 },
+          fatigueCategory: { kind: 'option', label: 'Fatigue category', options: ['low-cycle', 'high-cycle', 'ultra-high-cycle'] },
+          fractureClass: { kind: 'option', label: 'Fracture class', options: ['A', 'B', 'C', 'D'] },
+          codeCompliance: { kind: 'option', label: 'Design code', options: ['AISC-360', 'Eurocode-3', 'IS-800', 'other'] }
+        }
+      }
+    },
+    wood: {
+      kind: 'object',
+      label: 'Wood',
+      schema: {
+        fields: {
+          bendingStrength: { kind: 'number', label: 'Bending strength', unit: 'MPa', min: 5, max: 100 },
+          compressionStrength: { kind: 'number', label: 'Compression strength', unit: 'MPa', min: 5, max: 80 },
+          elasticModulus: { kind: 'number', label: 'Elastic modulus', unit: 'GPa', min: 3, max: 25 },
+          gradeType: { kind: 'option', label: 'Grade', options: ['structural', 'construction', 'premium'] },
+          structuralSystemType: {
+            kind: 'option',
+            label: 'Structural system',
+            options: ['light-frame', 'post-and-beam', 'heavy-timber', 'cross-laminated']
+          },
+          dampingRatio: { kind: 'number', label: 'Damping ratio', unit: '%', min: 0.5, max: 20 },
+          poissonsRatio: { kind: 'number', label: "Poisson's ratio", min: 0.1, max: 0.5 },
+          moistureContent: { kind: 'number', label: 'Moisture content', unit: '%', min: 0, max: 30 },
+          shrinkageCoefficient: { kind: 'number', label: 'Shrinkage coefficient', unit: '%/%', min: 0, max: 1 },
+          durabilityClass: { kind: 'option', label: 'Durability class', options: ['1', '2', '3', '4', '5'] },
+          codeCompliance: { kind: 'option', label: 'Design code', options: ['NDS', 'Eurocode-5', 'AS-1720', 'other'] }
+        }
+      }
+    },
+    activeMaterial: { kind: 'option', label: 'Active material', options: ['concrete', 'steel', 'wood'] },
+    seismicDesign: {
+      kind: 'object',
+      label: 'Seismic design',
+      optional: true,
+      schema: {
+        fields: {
+          siteClass: { kind: 'option', label: 'Site class', options: ['A', 'B', 'C', 'D', 'E'] },
+          seismicZone: { kind: 'option', label: 'Seismic zone', options: ['low', 'moderate', 'high', 'very-high'] }
+        }
+      }
+    },
+    hysteresis: {
+      kind: 'object',
+      label: 'Member hysteresis',
+      optional: true,
+      schema: {
+        fields: {
+          model: { kind: 'option', label: 'Hysteresis model', options: ['elastic', 'bilinear', 'takeda', 'pinching'] },
+          hardeningRatio: { kind: 'number', label: 'Hardening ratio', min: 0, max: 0.5, optional: true }
+        }
+      }
+    }
+  },
+  rules: [
+    {
+      path: 'concrete.tensileStrength',
+      message: 'Concrete tensile strength must be below its compressive strength',
+      fields: ['concrete.tensileStrength', 'concrete.compressiveStrength'],
+      check: ({ concrete }) => concrete.tensileStrength < concrete.compressiveStrength
+    },
+    {
+      path: 'steel.tensileStrength',
+      message: 'Steel tensile strength must be at least its yield strength',
+      fields: ['steel.tensileStrength', 'steel.yieldStrength'],
+      check: ({ steel }) => steel.tensileStrength >= steel.yieldStrength
+    }
+  ]
+};
+
+// A configuration as saved by the configuration manager
+export const simulationConfigSchema: ObjectSchema<SimulationConfig> = {
+  fields: {
+    id: { kind: 'string', label: 'Id' },
+    name: { kind: 'string', label: 'Name' },
+    date: { kind: 'string', label: 'Date' },
+    buildingParams: { kind: 'object', label: 'Building parameters', schema: buildingParamsSchema },
+    seismicParams: { kind: 'object', label: 'Seismic parameters', schema: seismicParamsSchema },
+    materialParams: { kind: 'object', label: 'Material parameters', schema: materialsParamsSchema }
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatRange = (min: number, max: number, unit?: string) =>
+  `between ${min} and ${max}${unit ? ` ${unit}` : ''}`;
+
+// Records the error of a single field, if any
+const checkField = (field: FieldSchema, value: unknown, path: string, errors: FieldErrors): void => {
+  // A cleared input is an error even for optional fields
+  if (value === undefined || value === null || value === '') {
+    if (!field.optional || value === '') errors[path] = `${field.label} is required`;
+    return;
+  }
+
+  switch (field.kind) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors[path] = `${field.label} must be a number`;
+      } else if (value < field.min || value > field.max) {
+        errors[path] = `${field.label} must be ${formatRange(field.min, field.max, field.unit)}`;
+      } else if (field.integer && !Number.isInteger(value)) {
+        errors[path] = `${field.label} must be a whole number`;
+      }
+      break;
+    case 'option':
+      if (typeof value !== 'string' || !field.options.includes(value)) {
+        errors[path] = `${field.label} must be one of ${field.options.join(', ')}`;
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors[path] = `${field.label} must be true or false`;
+      break;
+    case 'string':
+      if (typeof value !== 'string') errors[path] = `${field.label} must be text`;
+      break;
+    case 'object':
+      if (!isObject(value)) {
+        errors[path] = `${field.label} must be an object`;
+      } else {
+        validateObject(field.schema, value, `${path}.`, errors);
+      }
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors[path] = `${field.label} must be a list`;
+      } else if (value.length < field.minItems || value.length > field.maxItems) {
+        errors[path] = `${field.label} must have between ${field.minItems} and ${field.maxItems} entries`;
+      } else {
+        value.forEach((item, index) => {
+          if (!isObject(item)) {
+            errors[`${path}.${index}`] = `${field.label} entries must be objects`;
+          } else {
+            validateObject(field.item, item, `${path}.${index}.`, errors);
+          }
+        });
+      }
+      break;
+    case 'numbers':
+      if (!Array.isArray(value)) {
+        errors[path] = `${field.label} must be a list`;
+      } else if (value.length < field.minItems) {
+        errors[path] = `${field.label} must have at least ${field.minItems} entries`;
+      } else if (!value.every(Number.isFinite)) {
+        errors[path] = `${field.label} must all be numbers`;
+      }
+      break;
+  }
+};
+
+const validateObject = <T>(schema: ObjectSchema<T>, value: Record<string, unknown>, prefix: string, errors: FieldErrors) => {
+  Object.entries(schema.fields).forEach(([name, field]) => {
+    checkField(field, value[name], `${prefix}${name}`, errors);
+  });
+
+  // Cross-field rules only make sense once the fields they read (and the
+  // objects holding them) are valid
+  const isInvalid = (path: string) =>
+    Object.keys(errors).some(key => key === path || path.startsWith(`${key}.`));
+  schema.rules?.forEach(rule => {
+    const path = `${prefix}${rule.path}`;
+    if (isInvalid(path) || rule.fields.some(field => isInvalid(`${prefix}${field}`))) return;
+    if (!rule.check(value as T)) errors[path] = rule.message;
+  });
+};
+
+/**
+ * Checks a value against a schema; an empty result means it is valid
+ */
+export function validate<T>(schema: ObjectSchema<T>, value: unknown): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!isObject(value)) {
+    errors[''] = 'Parameters must be an object';
+    return errors;
+  }
+  validateObject(schema, value, '', errors);
+  return errors;
+}
+
+export const validateSeismicParams = (value: unknown) => validate(seismicParamsSchema, value);
+export const validateBuildingParams = (value: unknown) => validate(buildingParamsSchema, value);
+export const validateStructuralComponents = (value: unknown) => validate(structuralComponentsSchema, value);
+export const validateMaterialsParams = (value: unknown) => validate(materialsParamsSchema, value);
+export const validateSimulationConfig = (value: unknown) => validate(simulationConfigSchema, value);
+
+/**
+ * Whether a validation found any errors
+ */
+export function hasErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
+
+/**
+ * Throws an error naming every invalid field under a label, e.g.
+ * 'buildingParams.floors: Number of floors must be a whole number'
+ */
+export function assertValid(errors: FieldErrors, label: string): void {
+  if (!hasErrors(errors)) return;
+  const messages = Object.entries(errors).map(([path, message]) =>
+    `${path ? `${label}.${path}` : label}: ${message}`
+  );
+  throw new Error(messages.join('; '));
+}
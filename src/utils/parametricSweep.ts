@@ -0,0 +1,322 @@
+/**
+ * Parametric Sweeps
+ *
+ * Runs the simulation over many variations of one scenario: any numeric field
+ * of the seismic, building or (active) material parameters can be varied,
+ * either over the full grid of the chosen levels or over a Latin hypercube
+ * sample of their ranges. Results can be aggregated for heatmaps and line
+ * charts and exported to CSV.
+ */
+
+import { createRandom } from './groundMotion';
+import { hasPathParent, setPath } from './objectPath';
+import {
+  FieldSchema,
+  ObjectSchema,
+  buildingParamsSchema,
+  hasErrors,
+  materialsParamsSchema,
+  seismicParamsSchema,
+  validateBuildingParams,
+  validateMaterialsParams,
+  validateSeismicParams
+} from './paramSchemas';
+import { runSimulation } from './simulationEngine';
+import { SimulationSummary, createSimulationReport, toCsv } from './simulationReport';
+import { runAnalysisInWorker } from './structuralAnalysisClient';
+import type { SharedScenario } from './shareLink';
+
+export const MAX_SWEEP_SAMPLES = 400;
+
+export type SamplingMethod = 'grid' | 'latin-hypercube';
+
+/**
+ * A numeric parameter that can be varied, e.g. `buildingParams.stiffness`
+ */
+export type SweepField = {
+  path: string;
+  label: string;
+  unit?: string;
+  min: number;
+  max: number;
+  integer: boolean;
+};
+
+/**
+ * A varied parameter with its levels; a Latin hypercube samples between the
+ * smallest and largest level
+ */
+export type SweepAxis = {
+  field: SweepField;
+  values: number[];
+};
+
+export type SweepResult = {
+  values: number[]; // one per axis
+  summary: SimulationSummary | null; // null when the variation is not a valid scenario
+  error?: string;
+};
+
+export type SweepMetric = {
+  key: 'damageIndex' | 'peakInterStoryDrift' | 'peakRoofDisplacement' | 'peakBaseShear' | 'naturalPeriod' | 'hasCollapsed';
+  label: string;
+  unit: string;
+};
+
+export const sweepMetrics: SweepMetric[] = [
+  { key: 'damageIndex', label: 'Damage index', unit: '' },
+  { key: 'peakInterStoryDrift', label: 'Peak inter-story drift', unit: '%' },
+  { key: 'peakRoofDisplacement', label: 'Peak roof displacement', unit: 'm' },
+  { key: 'peakBaseShear', label: 'Peak base shear', unit: 'kN' },
+  { key: 'naturalPeriod', label: 'Natural period', unit: 's' },
+  { key: 'hasCollapsed', label: 'Collapse rate', unit: '' }
+];
+
+/**
+ * Aggregated results at the levels of one or two axes
+ */
+export type SweepLevels = {
+  levels: number[]; // level values (bin centres for continuous samples)
+  indexOf: (value: number) => number;
+};
+
+// Continuous samples are grouped into this many bins for charts
+const CHART_BINS = 8;
+// Axes with at most this many distinct values are charted level by level
+const MAX_DISCRETE_LEVELS = 12;
+
+const numberFields = <T>(
+  schema: ObjectSchema<T>,
+  pathPrefix: string,
+  labelPrefix: string
+): SweepField[] =>
+  Object.entries(schema.fields).flatMap(([key, field]: [string, FieldSchema]) => {
+    if (field.kind === 'object') return numberFields(field.schema, `${pathPrefix}${key}.`, labelPrefix);
+    if (field.kind !== 'number') return [];
+    return [{
+      path: `${pathPrefix}${key}`,
+      label: `${labelPrefix}${field.label}`,
+      unit: field.unit,
+      min: field.min,
+      max: field.max,
+      integer: Boolean(field.integer)
+    }];
+  });
+
+const getMetricValue = (summary: SimulationSummary, metric: SweepMetric) =>
+  metric.key === 'hasCollapsed' ? Number(summary.hasCollapsed) : summary[metric.key];
+
+const shuffle = <T>(items: T[], random: () => number) => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+/**
+ * Numeric fields of a scenario that can be swept; material properties are
+ * those of the active material, since only they affect the response
+ */
+export function getSweepableFields(scenario: SharedScenario): SweepField[] {
+  const material = scenario.buildingParams.materialType;
+  const materialField = materialsParamsSchema.fields[material];
+
+  return [
+    // An imported record's samples are not a parameter to vary
+    ...numberFields(seismicParamsSchema, 'seismicParams.', '').filter(field =>
+      !['seismicParams.epicenterX', 'seismicParams.epicenterY'].includes(field.path) &&
+      !field.path.startsWith('seismicParams.groundMotionRecord.')
+    ),
+    ...numberFields(buildingParamsSchema, 'buildingParams.', ''),
+    ...(materialField.kind === 'object'
+      ? numberFields(materialField.schema, `materialsParams.${material}.`, `${materialField.label} · `)
+      : [])
+  ].filter(field =>
+    // Optional parameters (structural components, protective devices, site
+    // soil, soil profile) can only be varied once they have been set
+    hasPathParent(scenario, field.path)
+  );
+}
+
+/**
+ * Evenly spaced levels between two values, rounded for integer fields
+ */
+export function getRangeValues(field: SweepField, min: number, max: number, count: number): number[] {
+  const values = Array.from({ length: Math.max(1, count) }, (_, i) =>
+    count <= 1 ? min : min + ((max - min) * i) / (count - 1)
+  );
+  const rounded = values.map(value => (field.integer ? Math.round(value) : parseFloat(value.toPrecision(6))));
+  return Array.from(new Set(rounded));
+}
+
+/**
+ * Number of runs a sweep will take
+ */
+export function getSampleCount(axes: SweepAxis[], method: SamplingMethod, sampleCount: number): number {
+  if (axes.length === 0) return 0;
+  return method === 'grid' ? axes.reduce((count, axis) => count * axis.values.length, 1) : sampleCount;
+}
+
+/**
+ * Parameter values of every run in a sweep, one value per axis
+ */
+export function createSweepSamples(
+  axes: SweepAxis[],
+  method: SamplingMethod,
+  sampleCount: number,
+  seed = 1
+): number[][] {
+  if (axes.length === 0) return [];
+
+  if (method === 'grid') {
+    return axes.reduce<number[][]>(
+      (samples, axis) => samples.flatMap(sample => axis.values.map(value => [...sample, value])),
+      [[]]
+    );
+  }
+
+  // Each axis range is split into as many strata as samples; every stratum
+  // is used once per axis, in an independently shuffled order
+  const random = createRandom(seed);
+  const columns = axes.map(axis => {
+    const min = Math.min(...axis.values);
+    const max = Math.max(...axis.values);
+    const strata = shuffle(Array.from({ length: sampleCount }, (_, i) => i), random);
+    return strata.map(stratum => {
+      const value = min + ((stratum + random()) / sampleCount) * (max - min);
+      return axis.field.integer ? Math.round(value) : parseFloat(value.toPrecision(6));
+    });
+  });
+  return Array.from({ length: sampleCount }, (_, i) => columns.map(column => column[i]));
+}
+
+/**
+ * The scenario with one sample's parameter values applied
+ */
+export function applySample(base: SharedScenario, axes: SweepAxis[], values: number[]): SharedScenario {
+  const scenario = structuredClone(base);
+  axes.forEach((axis, i) => setPath(scenario, axis.field.path, values[i]));
+  return scenario;
+}
+
+/**
+ * Runs every sample of a sweep in turn; variations that are not valid
+ * scenarios (e.g. a story height out of range) are reported, not run
+ */
+export async function runSweep(
+  base: SharedScenario,
+  axes: SweepAxis[],
+  samples: number[][],
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<SweepResult[]> {
+  const results: SweepResult[] = [];
+
+  for (const values of samples) {
+    if (signal?.aborted) throw new Error('Sweep cancelled');
+    const { seismicParams, buildingParams, materialsParams } = applySample(base, axes, values);
+
+    const errors = {
+      ...validateSeismicParams(seismicParams),
+      ...validateBuildingParams(buildingParams),
+      ...validateMaterialsParams(materialsParams)
+    };
+    if (hasErrors(errors)) {
+      results.push({ values, summary: null, error: Object.values(errors)[0] });
+    } else {
+      await runAnalysisInWorker(buildingParams, seismicParams, materialsParams, { signal });
+      const run = runSimulation(buildingParams, seismicParams, materialsParams);
+      const { summary } = createSimulationReport(
+        { id: '', name: '', buildingParams, seismicParams, materialParams: materialsParams },
+        run
+      );
+      results.push({ values, summary });
+    }
+    onProgress?.(results.length, samples.length);
+  }
+
+  return results;
+}
+
+/**
+ * Levels of an axis for charts: its distinct values, or bins of its range
+ * when it was sampled continuously
+ */
+export function getSweepLevels(results: SweepResult[], axisIndex: number): SweepLevels {
+  const distinct = Array.from(new Set(results.map(result => result.values[axisIndex]))).sort((a, b) => a - b);
+  if (distinct.length <= MAX_DISCRETE_LEVELS) {
+    return { levels: distinct, indexOf: value => distinct.indexOf(value) };
+  }
+
+  const min = distinct[0];
+  const width = (distinct[distinct.length - 1] - min) / CHART_BINS;
+  return {
+    levels: Array.from({ length: CHART_BINS }, (_, i) => min + (i + 0.5) * width),
+    indexOf: value => Math.min(CHART_BINS - 1, Math.floor((value - min) / width))
+  };
+}
+
+/**
+ * Mean of a metric at each level of one axis, optionally split by the levels
+ * of a second axis; null where no run landed
+ */
+export function aggregateSweep(
+  results: SweepResult[],
+  metric: SweepMetric,
+  xAxis: number,
+  yAxis: number | null = null
+): { x: SweepLevels; y: SweepLevels | null; means: (number | null)[][] } {
+  const x = getSweepLevels(results, xAxis);
+  const y = yAxis === null ? null : getSweepLevels(results, yAxis);
+  const rows = y ? y.levels.length : 1;
+  const sums = Array.from({ length: rows }, () => x.levels.map(() => ({ total: 0, count: 0 })));
+
+  results.forEach(result => {
+    if (!result.summary) return;
+    const row = y && yAxis !== null ? y.indexOf(result.values[yAxis]) : 0;
+    const cell = sums[row][x.indexOf(result.values[xAxis])];
+    cell.total += getMetricValue(result.summary, metric);
+    cell.count++;
+  });
+
+  return { x, y, means: sums.map(row => row.map(cell => (cell.count ? cell.total / cell.count : null))) };
+}
+
+/**
+ * One CSV row per run with its parameter values and summary
+ */
+export function sweepResultsToCsv(axes: SweepAxis[], results: SweepResult[]): string {
+  const header = [
+    'run',
+    ...axes.map(axis => axis.field.path),
+    'natural_period_s',
+    'peak_roof_displacement_m',
+    'peak_interstory_drift_pct',
+    'critical_story',
+    'peak_base_shear_kn',
+    'peak_floor_acceleration_ms2',
+    'damage_level',
+    'damage_index',
+    'collapsed',
+    'collapse_time_s',
+    'error'
+  ];
+  return toCsv([
+    header,
+    ...results.map(({ values, summary, error }, i) => [
+      i + 1,
+      ...values,
+      summary?.naturalPeriod ?? null,
+      summary?.peakRoofDisplacement ?? null,
+      summary?.peakInterStoryDrift ?? null,
+      summary?.criticalStory ?? null,
+      summary?.peakBaseShear ?? null,
+      summary?.peakFloorAcceleration ?? null,
+      summary?.damageLevel ?? null,
+      summary?.damageIndex ?? null,
+      summary?.hasCollapsed ?? null,
+      summary?.collapseTime ?? null,
+      error ?? null
+    ])
+  ]);
+}
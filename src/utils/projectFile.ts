@@ -0,0 +1,222 @@
+/**
+ * Project File Format
+ *
+ * Versioned `.seismic.json` project files holding every parameter of a
+ * scenario, the ground motion it was run with, the timeline annotations and
+ * the run results. Files written by older versions (including the unversioned
+ * configurations saved before this format existed) are migrated step by step
+ * to the current version when they are opened.
+ */
+
+import type { BuildingParams } from '../components/BuildingParameterForm';
+import type { CustomAnnotation } from '../components/InteractiveTimelineNavigator';
+import type { SeismicParams } from '../components/SeismicParameterForm';
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { DEFAULT_SEED, GroundMotion, RecordedGroundMotion, getGroundMotion } from './groundMotion';
+import {
+  ObjectSchema,
+  assertValid,
+  validate,
+  validateBuildingParams,
+  validateMaterialsParams,
+  validateSeismicParams
+} from './paramSchemas';
+import { runSimulation } from './simulationEngine';
+import { SimulationReport, createSimulationReport, validateSimulationReport } from './simulationReport';
+import { defaultMaterialsParams } from './structuralMaterials';
+
+export const PROJECT_FORMAT = 'seismic-simulation-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.seismic.json';
+
+// The ground motion a project was run with; synthetic samples are kept for
+// other tools but regenerated from the seed when the project is opened
+export type ProjectGroundMotion =
+  | (GroundMotion & { source: 'synthetic'; seed: number })
+  | (RecordedGroundMotion & { source: 'record' });
+
+export type SeismicProject = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  name: string;
+  savedAt: string; // ISO 8601
+  seismicParams: Omit<SeismicParams, 'groundMotionRecord'>;
+  buildingParams: BuildingParams;
+  materialsParams: StructuralMaterialsParams;
+  groundMotion: ProjectGroundMotion | null; // null when migrated from a save without one
+  annotations: CustomAnnotation[];
+  results: SimulationReport | null; // null until the scenario has been run
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration takes a project of version N to version N + 1; the result
+// is validated once the project reaches the current version
+const migrations: Record<number, (project: unknown) => unknown> = {
+  // Version 0 is the unversioned configuration saved by the configuration
+  // manager (materialParams) or the workflow manager (materialsParams, nullable)
+  0: config => {
+    if (!isObject(config) || !isObject(config.seismicParams) || !isObject(config.buildingParams)) {
+      throw new Error('This configuration was saved before its seismic and building parameters were set');
+    }
+    const { groundMotionRecord, ...seismicParams } = config.seismicParams;
+    return {
+      format: PROJECT_FORMAT,
+      version: 1,
+      name: typeof config.name === 'string' ? config.name : 'Untitled project',
+      savedAt: new Date().toISOString(),
+      seismicParams,
+      buildingParams: config.buildingParams,
+      materialsParams: config.materialParams ?? config.materialsParams ?? defaultMaterialsParams,
+      groundMotion: isObject(groundMotionRecord) ? { ...groundMotionRecord, source: 'record' } : null,
+      annotations: [],
+      results: null
+    };
+  }
+};
+
+const annotationSchema: ObjectSchema<CustomAnnotation> = {
+  fields: {
+    id: { kind: 'string', label: 'Annotation id' },
+    timePoint: { kind: 'number', label: 'Annotation time', unit: 's', min: 0, max: 600 },
+    label: { kind: 'string', label: 'Annotation label' },
+    description: { kind: 'string', label: 'Annotation description' },
+    color: { kind: 'string', label: 'Annotation color' }
+  }
+};
+
+/**
+ * The ground motion a scenario is run with, as stored in a project
+ */
+export function getProjectGroundMotion(seismicParams: SeismicParams): ProjectGroundMotion {
+  return seismicParams.groundMotionRecord
+    ? { ...seismicParams.groundMotionRecord, source: 'record' }
+    : { ...getGroundMotion(seismicParams), source: 'synthetic', seed: seismicParams.seed ?? DEFAULT_SEED };
+}
+
+/**
+ * Collects the current scenario into a project; results are included once the
+ * scenario has been analysed
+ */
+export function createProject({
+  name,
+  seismicParams,
+  buildingParams,
+  materialsParams = defaultMaterialsParams,
+  annotations = [],
+  includeResults = false
+}: {
+  name: string;
+  seismicParams: SeismicParams;
+  buildingParams: BuildingParams;
+  materialsParams?: StructuralMaterialsParams;
+  annotations?: CustomAnnotation[];
+  includeResults?: boolean;
+}): SeismicProject {
+  const { groundMotionRecord: _record, ...params } = seismicParams;
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    seismicParams: params,
+    buildingParams,
+    materialsParams,
+    groundMotion: getProjectGroundMotion(seismicParams),
+    annotations,
+    results: includeResults
+      ? createSimulationReport(
+          { id: name, name, buildingParams, seismicParams, materialParams: materialsParams },
+          runSimulation(buildingParams, seismicParams, materialsParams)
+        )
+      : null
+  };
+}
+
+/**
+ * Migrates a parsed project file of any known version to the current version
+ * and validates it
+ */
+export function migrateProject(data: unknown): SeismicProject {
+  if (!isObject(data)) throw new Error('Project file must contain a JSON object');
+
+  // Files without a version predate the project format
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > 0 && data.format !== PROJECT_FORMAT) {
+    throw new Error('This is not a seismic simulation project file');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (format version ${version})`);
+  }
+
+  let project: unknown = data;
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`Cannot open project format version ${version}`);
+    project = migrate(project);
+    version++;
+  }
+
+  if (!isObject(project)) throw new Error('Project file must contain a JSON object');
+  const { seismicParams, groundMotion, buildingParams, materialsParams, annotations, results } = project;
+  if (groundMotion !== null && !isObject(groundMotion)) throw new Error('groundMotion must be an object or null');
+  // A recorded ground motion is validated as the record of the seismic parameters
+  assertValid(
+    validateSeismicParams(
+      isObject(seismicParams) && groundMotion?.source === 'record'
+        ? { ...seismicParams, groundMotionRecord: groundMotion }
+        : seismicParams
+    ),
+    'seismicParams'
+  );
+  assertValid(validateBuildingParams(buildingParams), 'buildingParams');
+  assertValid(validateMaterialsParams(materialsParams), 'materialsParams');
+  if (!Array.isArray(annotations)) throw new Error('annotations must be a list');
+  annotations.forEach((annotation, index) =>
+    assertValid(validate(annotationSchema, annotation), `annotations[${index}]`)
+  );
+  if (results !== null) assertValid(validateSimulationReport(results), 'results');
+  return project as SeismicProject;
+}
+
+/**
+ * Reads a project file, migrating and validating it
+ */
+export function parseProject(json: string): SeismicProject {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Project file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return migrateProject(data);
+}
+
+/**
+ * Seismic parameters of a project, with its recorded ground motion restored
+ */
+export function getProjectSeismicParams(project: SeismicProject): SeismicParams {
+  const motion = project.groundMotion;
+  if (motion?.source !== 'record') return project.seismicParams as SeismicParams;
+
+  const { source: _source, ...record } = motion;
+  return { ...project.seismicParams, groundMotionRecord: record } as SeismicParams;
+}
+
+/**
+ * Project file contents, ready to be written to disk
+ */
+export function serializeProject(project: SeismicProject): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * File name for a project, e.g. 'Tohoku tower.seismic.json'
+ */
+export function getProjectFileName(name: string): string {
+  const base = name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'project';
+  return `${base}${PROJECT_FILE_EXTENSION}`;
+}
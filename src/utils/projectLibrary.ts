@@ -0,0 +1,347 @@
+/**
+ * Project Library
+ *
+ * Browser storage for saved projects on IndexedDB. Projects, their run
+ * results and imported ground motion records live in separate object stores
+ * so that large records and results are stored once and only read when a
+ * project is opened. Configurations saved to localStorage by earlier versions
+ * are imported the first time the library is opened.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { RecordedGroundMotion } from './groundMotion';
+import {
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  SeismicProject,
+  getProjectGroundMotion,
+  getProjectSeismicParams,
+  migrateProject
+} from './projectFile';
+import { SimulationReport } from './simulationReport';
+
+const DB_NAME = 'seismic-simulation';
+const DB_VERSION = 1;
+
+// Configurations saved before the library existed
+const LEGACY_CONFIGS_KEY = 'seismicSimulationConfigs';
+const LEGACY_IMPORTED_KEY = 'seismicSimulationConfigsImported';
+
+type StoreName = 'projects' | 'runs' | 'records';
+
+/**
+ * A saved project as listed in the library; its ground motion record and run
+ * results are stored separately
+ */
+export type LibraryProject = Pick<
+  SeismicProject,
+  'name' | 'seismicParams' | 'buildingParams' | 'materialsParams' | 'annotations'
+> & {
+  id: string;
+  tags: string[];
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  recordId: string | null; // imported ground motion record, shared between projects
+};
+
+/**
+ * Results of running a saved project
+ */
+export type LibraryRun = {
+  id: string;
+  projectId: string;
+  createdAt: string; // ISO 8601
+  report: SimulationReport;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('This browser does not support IndexedDB, so projects cannot be saved'));
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const projects = db.createObjectStore('projects', { keyPath: 'id' });
+      projects.createIndex('updatedAt', 'updatedAt');
+      projects.createIndex('tags', 'tags', { multiEntry: true });
+      const runs = db.createObjectStore('runs', { keyPath: 'id' });
+      runs.createIndex('projectId', 'projectId');
+      db.createObjectStore('records', { keyPath: 'id' });
+    };
+    databasePromise = requestResult(request);
+    // Let a later call try again
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// Runs work in one transaction, resolving once it has been committed
+const transact = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Saving to the project library was cancelled'));
+  });
+  // When the work fails first, its own error is the one reported
+  committed.catch(() => undefined);
+
+  try {
+    const result = await work(transaction);
+    await committed;
+    return result;
+  } catch (error) {
+    if (!transaction.error) transaction.abort();
+    throw error;
+  }
+};
+
+const getRunsForProject = (transaction: IDBTransaction, projectId: string) =>
+  requestResult<LibraryRun[]>(transaction.objectStore('runs').index('projectId').getAll(projectId));
+
+const getProjectOrThrow = async (transaction: IDBTransaction, id: string) => {
+  const project = await requestResult<LibraryProject | undefined>(transaction.objectStore('projects').get(id));
+  if (!project) throw new Error('This project is no longer in the library');
+  return project;
+};
+
+const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+// Writes a project with its record and results inside an open transaction
+const putProject = (
+  transaction: IDBTransaction,
+  project: SeismicProject,
+  tags: string[],
+  createdAt = new Date().toISOString()
+): LibraryProject => {
+  const record = project.groundMotion?.source === 'record' ? project.groundMotion : null;
+  const entry: LibraryProject = {
+    id: uuidv4(),
+    name: project.name,
+    tags: normalizeTags(tags),
+    createdAt,
+    updatedAt: createdAt,
+    seismicParams: project.seismicParams,
+    buildingParams: project.buildingParams,
+    materialsParams: project.materialsParams,
+    annotations: project.annotations,
+    recordId: record?.id ?? null
+  };
+
+  transaction.objectStore('projects').put(entry);
+  if (record) {
+    const { source: _source, ...stored } = record;
+    transaction.objectStore('records').put(stored);
+  }
+  if (project.results) {
+    const run: LibraryRun = { id: uuidv4(), projectId: entry.id, createdAt, report: project.results };
+    transaction.objectStore('runs').put(run);
+  }
+  return entry;
+};
+
+/**
+ * Lists the saved projects, most recently changed first
+ */
+export async function listProjects(): Promise<LibraryProject[]> {
+  await importLegacyConfigs();
+  const projects = await transact(['projects'], 'readonly', transaction =>
+    requestResult<LibraryProject[]>(transaction.objectStore('projects').index('updatedAt').getAll())
+  );
+  return projects.reverse();
+}
+
+/**
+ * Projects whose name or tags contain the search text, optionally with a tag
+ */
+export function filterProjects(projects: LibraryProject[], search: string, tag: string | null = null): LibraryProject[] {
+  const text = search.trim().toLowerCase();
+  return projects.filter(project =>
+    (!tag || project.tags.includes(tag)) &&
+    (!text ||
+      project.name.toLowerCase().includes(text) ||
+      project.tags.some(projectTag => projectTag.includes(text)))
+  );
+}
+
+/**
+ * Every tag used in the library, sorted
+ */
+export function getLibraryTags(projects: LibraryProject[]): string[] {
+  return Array.from(new Set(projects.flatMap(project => project.tags))).sort();
+}
+
+/**
+ * Saves a project, with its results when it has any, as a new library entry
+ */
+export async function saveProject(project: SeismicProject, tags: string[] = []): Promise<LibraryProject> {
+  return transact(['projects', 'runs', 'records'], 'readwrite', async transaction =>
+    putProject(transaction, project, tags)
+  );
+}
+
+/**
+ * Reads a saved project with its ground motion and latest results
+ */
+export async function openProject(id: string): Promise<SeismicProject> {
+  const project = await transact(['projects', 'runs', 'records'], 'readonly', async transaction => {
+    const entry = await getProjectOrThrow(transaction, id);
+    const runs = await getRunsForProject(transaction, id);
+    const record = entry.recordId
+      ? await requestResult<RecordedGroundMotion | undefined>(transaction.objectStore('records').get(entry.recordId))
+      : undefined;
+    if (entry.recordId && !record) throw new Error(`The ground motion record of ${entry.name} is missing`);
+
+    const latestRun = runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    const stored: SeismicProject = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      name: entry.name,
+      savedAt: entry.updatedAt,
+      seismicParams: entry.seismicParams,
+      buildingParams: entry.buildingParams,
+      materialsParams: entry.materialsParams,
+      groundMotion: record ? { ...record, source: 'record' } : null,
+      annotations: entry.annotations,
+      results: latestRun?.report ?? null
+    };
+    return stored;
+  });
+
+  // Synthetic ground motion is regenerated from its seed rather than stored
+  return { ...project, groundMotion: getProjectGroundMotion(getProjectSeismicParams(project)) };
+}
+
+/**
+ * Renames a saved project or replaces its tags
+ */
+export async function updateProject(
+  id: string,
+  changes: Partial<Pick<LibraryProject, 'name' | 'tags'>>
+): Promise<LibraryProject> {
+  const name = changes.name?.trim();
+  if (changes.name !== undefined && !name) throw new Error('Project name cannot be empty');
+
+  return transact(['projects'], 'readwrite', async transaction => {
+    const entry = await getProjectOrThrow(transaction, id);
+    const updated: LibraryProject = {
+      ...entry,
+      name: name ?? entry.name,
+      tags: changes.tags ? normalizeTags(changes.tags) : entry.tags,
+      updatedAt: new Date().toISOString()
+    };
+    transaction.objectStore('projects').put(updated);
+    return updated;
+  });
+}
+
+/**
+ * Copies a saved project with its results; the copy shares the ground motion record
+ */
+export async function duplicateProject(id: string): Promise<LibraryProject> {
+  return transact(['projects', 'runs'], 'readwrite', async transaction => {
+    const entry = await getProjectOrThrow(transaction, id);
+    const runs = await getRunsForProject(transaction, id);
+    const now = new Date().toISOString();
+    const copy: LibraryProject = { ...entry, id: uuidv4(), name: `${entry.name} (copy)`, createdAt: now, updatedAt: now };
+
+    transaction.objectStore('projects').put(copy);
+    runs.forEach(run => transaction.objectStore('runs').put({ ...run, id: uuidv4(), projectId: copy.id }));
+    return copy;
+  });
+}
+
+/**
+ * Deletes saved projects with their results, and any ground motion records
+ * no other project uses
+ */
+export async function deleteProjects(ids: string[]): Promise<void> {
+  const deleted = new Set(ids);
+  await transact(['projects', 'runs', 'records'], 'readwrite', async transaction => {
+    const projects = await requestResult<LibraryProject[]>(transaction.objectStore('projects').getAll());
+    const usedRecords = new Set(projects.filter(project => !deleted.has(project.id)).map(project => project.recordId));
+
+    for (const project of projects.filter(project => deleted.has(project.id))) {
+      const runs = await getRunsForProject(transaction, project.id);
+      runs.forEach(run => transaction.objectStore('runs').delete(run.id));
+      transaction.objectStore('projects').delete(project.id);
+      if (project.recordId && !usedRecords.has(project.recordId)) {
+        transaction.objectStore('records').delete(project.recordId);
+      }
+    }
+  });
+}
+
+export type LegacyImport = {
+  imported: number;
+  skipped: number; // kept in localStorage and retried the next time
+};
+
+let legacyImport: Promise<LegacyImport> | null = null;
+
+/**
+ * Moves configurations saved to localStorage by earlier versions into the
+ * library; configurations that cannot be opened as projects (e.g. saved before
+ * their parameters were set) stay behind and are counted as skipped
+ */
+export function importLegacyConfigs(): Promise<LegacyImport> {
+  if (!legacyImport) {
+    legacyImport = (async () => {
+      if (typeof localStorage === 'undefined' || localStorage.getItem(LEGACY_IMPORTED_KEY)) {
+        return { imported: 0, skipped: 0 };
+      }
+
+      let configs: unknown[] = [];
+      try {
+        const parsed = JSON.parse(localStorage.getItem(LEGACY_CONFIGS_KEY) ?? '[]');
+        configs = Array.isArray(parsed) ? parsed : [];
+      } catch (e) {
+        console.error('Failed to parse saved configurations', e);
+      }
+
+      const projects: SeismicProject[] = [];
+      const skipped: unknown[] = [];
+      configs.forEach(config => {
+        try {
+          projects.push(migrateProject(config));
+        } catch (e) {
+          console.error('Failed to import a saved configuration', e);
+          skipped.push(config);
+        }
+      });
+      await transact(['projects', 'runs', 'records'], 'readwrite', async transaction => {
+        projects.forEach(project => putProject(transaction, project, ['imported']));
+      });
+
+      // Only what was not imported is left to retry
+      if (skipped.length > 0) {
+        localStorage.setItem(LEGACY_CONFIGS_KEY, JSON.stringify(skipped));
+      } else {
+        localStorage.setItem(LEGACY_IMPORTED_KEY, new Date().toISOString());
+      }
+      return { imported: projects.length, skipped: skipped.length };
+    })();
+    legacyImport.catch(() => {
+      legacyImport = null;
+    });
+  }
+  return legacyImport;
+}
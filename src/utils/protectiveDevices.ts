@@ -0,0 +1,203 @@
+/**
+ * Protective Devices
+ *
+ * Base isolation and supplemental damping added to the shear-building model:
+ * lead-rubber bearings and friction pendulums under the ground floor, fluid
+ * viscous dampers in every story and a tuned mass damper on the roof. Both
+ * isolators are bilinear: a post-yield stiffness Kd and a characteristic
+ * strength Q reached after a yield displacement Dy (Naeim & Kelly, 1999).
+ * A friction pendulum is the special case Kd = W / R and Q = μ W, with a
+ * small stick displacement before sliding.
+ */
+
+import { GRAVITY } from './groundMotion';
+
+// Displacement at which a friction pendulum starts to slide (m)
+const FRICTION_PENDULUM_STICK_DISPLACEMENT = 0.001;
+
+// Velocity below which a nonlinear damper's force is taken as linear (m/s),
+// so its tangent stays finite at rest
+const DAMPER_REFERENCE_VELOCITY = 1e-3;
+
+export type LeadRubberBearings = {
+  isolatedPeriod: number; // s, from the post-yield stiffness and the weight above the bearings
+  characteristicStrength: number; // Q / W
+  yieldDisplacement: number; // m
+};
+
+export type FrictionPendulums = {
+  radius: number; // m, effective radius of the sliding surface
+  frictionCoefficient: number;
+};
+
+export type ViscousDampers = {
+  dampingCoefficient: number; // kN·(s/m)^α, of all dampers in a story
+  velocityExponent: number; // α, 1 for linear dampers
+};
+
+export type TunedMassDamper = {
+  massRatio: number; // of the building's mass
+  frequencyRatio: number; // tuning frequency over the building's fundamental frequency
+  dampingRatio: number;
+};
+
+/**
+ * Devices of a building; at most one isolation system
+ */
+export type ProtectiveDevices = {
+  leadRubberBearings?: LeadRubberBearings;
+  frictionPendulums?: FrictionPendulums;
+  viscousDampers?: ViscousDampers;
+  tunedMassDamper?: TunedMassDamper;
+};
+
+export type IsolatorModel = {
+  type: 'lead-rubber' | 'friction-pendulum';
+  mass: number; // kg, base slab above the bearings
+  postYieldStiffness: number; // N/m, Kd
+  characteristicStrength: number; // N, Q
+  yieldDisplacement: number; // m, Dy
+};
+
+export type DamperModel = {
+  coefficient: number; // N·(s/m)^α per story
+  exponent: number;
+};
+
+export type TunedMassDamperModel = {
+  mass: number; // kg
+  stiffness: number; // N/m
+  damping: number; // N·s/m
+};
+
+export type DeviceModel = {
+  isolator: IsolatorModel | null;
+  dampers: DamperModel | null;
+  tunedMassDamper: TunedMassDamperModel | null;
+};
+
+export const defaultLeadRubberBearings: LeadRubberBearings = {
+  isolatedPeriod: 2.5,
+  characteristicStrength: 0.05,
+  yieldDisplacement: 0.01
+};
+
+export const defaultFrictionPendulums: FrictionPendulums = {
+  radius: 2.2,
+  frictionCoefficient: 0.06
+};
+
+export const defaultViscousDampers: ViscousDampers = {
+  dampingCoefficient: 2000,
+  velocityExponent: 1
+};
+
+/**
+ * Tuning of a tuned mass damper that minimises the response of the main
+ * structure to harmonic forcing (Den Hartog, 1956)
+ */
+export function getOptimalTuning(massRatio: number): Pick<TunedMassDamper, 'frequencyRatio' | 'dampingRatio'> {
+  return {
+    frequencyRatio: 1 / (1 + massRatio),
+    dampingRatio: Math.sqrt((3 * massRatio) / (8 * Math.pow(1 + massRatio, 3)))
+  };
+}
+
+export const defaultTunedMassDamper: TunedMassDamper = {
+  massRatio: 0.02,
+  ...getOptimalTuning(0.02)
+};
+
+/**
+ * Device properties for a building of the given floor mass, total mass and
+ * fundamental period, or null when it has no devices
+ */
+export function buildDeviceModel(
+  devices: ProtectiveDevices | undefined,
+  { floorMass, totalMass, fundamentalPeriod }: { floorMass: number; totalMass: number; fundamentalPeriod: number }
+): DeviceModel | null {
+  if (!devices) return null;
+  const { leadRubberBearings, frictionPendulums, viscousDampers, tunedMassDamper } = devices;
+  if (!leadRubberBearings && !frictionPendulums && !viscousDampers && !tunedMassDamper) return null;
+
+  // Bearings carry the building and the base slab
+  const isolatedMass = totalMass + floorMass;
+  const weight = isolatedMass * GRAVITY;
+
+  let isolator: IsolatorModel | null = null;
+  if (leadRubberBearings) {
+    const omega = (2 * Math.PI) / leadRubberBearings.isolatedPeriod;
+    isolator = {
+      type: 'lead-rubber',
+      mass: floorMass,
+      postYieldStiffness: isolatedMass * omega * omega,
+      characteristicStrength: leadRubberBearings.characteristicStrength * weight,
+      yieldDisplacement: leadRubberBearings.yieldDisplacement
+    };
+  } else if (frictionPendulums) {
+    isolator = {
+      type: 'friction-pendulum',
+      mass: floorMass,
+      postYieldStiffness: weight / frictionPendulums.radius,
+      characteristicStrength: frictionPendulums.frictionCoefficient * weight,
+      yieldDisplacement: FRICTION_PENDULUM_STICK_DISPLACEMENT
+    };
+  }
+
+  let tunedMassDamperModel: TunedMassDamperModel | null = null;
+  if (tunedMassDamper) {
+    const mass = tunedMassDamper.massRatio * totalMass;
+    const omega = (tunedMassDamper.frequencyRatio * 2 * Math.PI) / fundamentalPeriod;
+    tunedMassDamperModel = {
+      mass,
+      stiffness: mass * omega * omega,
+      damping: 2 * tunedMassDamper.dampingRatio * mass * omega
+    };
+  }
+
+  return {
+    isolator,
+    dampers: viscousDampers
+      ? { coefficient: viscousDampers.dampingCoefficient * 1e3, exponent: viscousDampers.velocityExponent }
+      : null,
+    tunedMassDamper: tunedMassDamperModel
+  };
+}
+
+/**
+ * Force (N) of a bilinear isolator at a trial displacement, from its state at
+ * the last converged step: the hysteretic part Q-limited, plus Kd u. The
+ * tangent is Kd once it yields and Kd + Q / Dy before.
+ */
+export function getIsolatorForce(
+  isolator: IsolatorModel,
+  displacement: number,
+  committed: { displacement: number; hystereticForce: number }
+): { force: number; tangent: number; hystereticForce: number } {
+  const { postYieldStiffness, characteristicStrength, yieldDisplacement } = isolator;
+  const elasticStiffness = characteristicStrength / yieldDisplacement;
+  const trial = committed.hystereticForce + elasticStiffness * (displacement - committed.displacement);
+  const yielding = Math.abs(trial) > characteristicStrength;
+  const hystereticForce = yielding ? Math.sign(trial) * characteristicStrength : trial;
+  return {
+    force: postYieldStiffness * displacement + hystereticForce,
+    tangent: postYieldStiffness + (yielding ? 0 : elasticStiffness),
+    hystereticForce
+  };
+}
+
+/**
+ * Force (N) of the dampers of a story at a relative velocity, c |v|^α sign(v),
+ * and its derivative with respect to the velocity
+ */
+export function getDamperForce(damper: DamperModel, velocity: number): { force: number; tangent: number } {
+  const { coefficient, exponent } = damper;
+  if (exponent === 1) return { force: coefficient * velocity, tangent: coefficient };
+  // c v (v² + v0²)^((α-1)/2) keeps the tangent finite near rest
+  const squared = velocity * velocity + DAMPER_REFERENCE_VELOCITY * DAMPER_REFERENCE_VELOCITY;
+  const scale = Math.pow(squared, (exponent - 1) / 2);
+  return {
+    force: coefficient * velocity * scale,
+    tangent: coefficient * scale * (1 + ((exponent - 1) * velocity * velocity) / squared)
+  };
+}
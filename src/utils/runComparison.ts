@@ -0,0 +1,242 @@
+/**
+ * Run Comparison
+ *
+ * Puts saved runs side by side: each run is analysed again from its saved
+ * parameters to get the time histories (only summaries are stored), and its
+ * inputs and key outputs are lined up in rows that flag where the runs differ.
+ */
+
+import type { BuildingParams } from '../components/BuildingParameterForm';
+import type { SeismicParams } from '../components/SeismicParameterForm';
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { DEFAULT_SEED } from './groundMotion';
+import { getHysteresisRule } from './hysteresis';
+import {
+  FieldSchema,
+  ObjectSchema,
+  buildingParamsSchema,
+  materialsParamsSchema,
+  seismicParamsSchema
+} from './paramSchemas';
+import { SeismicProject, getProjectSeismicParams } from './projectFile';
+import { getElementDamage, getSimulationState, runSimulation } from './simulationEngine';
+import { SimulationReport, createSimulationReport } from './simulationReport';
+
+export const MAX_COMPARED_RUNS = 4;
+
+// Series colours, one per compared run
+export const comparisonColors = ['#2563eb', '#dc2626', '#16a34a', '#d97706'];
+
+type ElementDamageLevel = 'None' | 'Minor' | 'Moderate' | 'Severe' | 'Critical';
+
+/**
+ * Key results of a run
+ */
+export type SimulationResult = {
+  id: string;
+  name: string;
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  results: {
+    maxDisplacement: number; // m
+    interStoryDrift: number; // %
+    baseShear: number; // kN
+    damageIndex: number;
+    hasCollapsed: boolean;
+    criticalElements: {
+      type: 'column' | 'beam' | 'slab' | 'foundation';
+      id: number; // story (1-based) of the element
+      damageLevel: ElementDamageLevel;
+    }[];
+  };
+};
+
+/**
+ * A run being compared, with its time histories
+ */
+export type ComparedRun = SimulationResult & {
+  materialsParams: StructuralMaterialsParams;
+  report: SimulationReport & { history: NonNullable<SimulationReport['history']> };
+};
+
+/**
+ * One input or output across the compared runs
+ */
+export type DiffRow = {
+  label: string;
+  values: string[];
+  differs: boolean;
+};
+
+const getElementDamageLevel = (damage: number): ElementDamageLevel => {
+  if (damage < 0.2) return 'None';
+  if (damage < 0.4) return 'Minor';
+  if (damage < 0.6) return 'Moderate';
+  if (damage < 0.8) return 'Severe';
+  return 'Critical';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatNumber = (value: number) => parseFloat(value.toPrecision(4)).toString();
+
+const formatField = (field: FieldSchema, value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (field.kind === 'number' && typeof value === 'number') {
+    return field.unit ? `${formatNumber(value)} ${field.unit}` : formatNumber(value);
+  }
+  if (field.kind === 'boolean') return value ? 'Yes' : 'No';
+  // One entry per row of a table, e.g. "4 m, 30 m, 20 m, 1, 0.3; 3.5 m, ..."
+  if (field.kind === 'array' && Array.isArray(value)) {
+    return value
+      .map(item => Object.entries(field.item.fields)
+        .map(([key, itemField]) => formatField(itemField, isObject(item) ? item[key] : undefined))
+        .join(', '))
+      .join('; ');
+  }
+  return String(value);
+};
+
+// Rows for every scalar field of a schema, following nested objects
+const schemaRows = <T>(
+  schema: ObjectSchema<T>,
+  values: unknown[], // one per run; undefined where a run does not have the object
+  labelPrefix = ''
+): DiffRow[] =>
+  Object.entries(schema.fields).flatMap(([key, field]) => {
+    // The ground motion record is compared by name
+    if (key === 'groundMotionRecord') return [];
+    if (field.kind === 'object') {
+      return schemaRows(field.schema, values.map(value => (isObject(value) ? value[key] : undefined)), labelPrefix);
+    }
+    const formatted = values.map(value => (isObject(value) ? formatField(field, value[key]) : '—'));
+    return [{
+      label: `${labelPrefix}${field.label}`,
+      values: formatted,
+      differs: new Set(formatted).size > 1
+    }];
+  });
+
+const toRow = (label: string, values: string[]): DiffRow => ({
+  label,
+  values,
+  differs: new Set(values).size > 1
+});
+
+/**
+ * Analyses a saved project for comparison
+ */
+export function compareProject(id: string, project: SeismicProject): ComparedRun {
+  const seismicParams = getProjectSeismicParams(project);
+  const { buildingParams, materialsParams } = project;
+  const run = runSimulation(buildingParams, seismicParams, materialsParams);
+  const report = createSimulationReport(
+    { id, name: project.name, buildingParams, seismicParams, materialParams: materialsParams },
+    run,
+    true
+  ) as ComparedRun['report'];
+
+  // Elements of the story that drifted most, most damaged first
+  const state = getSimulationState(run, seismicParams.duration);
+  const story = report.summary.criticalStory;
+  const criticalElements = ([
+    { type: 'column', damage: getElementDamage(state, story - 1, 'column') },
+    { type: 'beam', damage: getElementDamage(state, story - 1, 'beam') },
+    { type: 'slab', damage: getElementDamage(state, story - 1, 'slab') },
+    { type: 'foundation', damage: state.componentDamage.structural.foundation.value / 100 }
+  ] as const)
+    .map(element => ({ type: element.type, id: story, damage: element.damage }))
+    .sort((a, b) => b.damage - a.damage)
+    .map(({ type, id, damage }) => ({ type, id, damageLevel: getElementDamageLevel(damage) }));
+
+  return {
+    id,
+    name: project.name,
+    buildingParams,
+    seismicParams,
+    materialsParams,
+    report,
+    results: {
+      maxDisplacement: report.summary.peakRoofDisplacement,
+      interStoryDrift: report.summary.peakInterStoryDrift,
+      baseShear: report.summary.peakBaseShear,
+      damageIndex: report.summary.damageIndex,
+      hasCollapsed: report.summary.hasCollapsed,
+      criticalElements
+    }
+  };
+}
+
+/**
+ * Parameters of the compared runs, row by row
+ */
+export function getInputDiffRows(runs: ComparedRun[]): DiffRow[] {
+  const groundMotion = toRow(
+    'Ground motion',
+    runs.map(run =>
+      run.seismicParams.groundMotionRecord
+        ? `Record: ${run.seismicParams.groundMotionRecord.name}`
+        : `Synthetic (seed ${run.seismicParams.seed ?? DEFAULT_SEED})`
+    )
+  );
+
+  // Properties of every material that one of the runs is built from
+  const materialTypes = (['concrete', 'steel', 'wood'] as const)
+    .filter(material => runs.some(run => run.buildingParams.materialType === material));
+  const materials = materialTypes.flatMap(material => {
+    const field = materialsParamsSchema.fields[material];
+    if (field.kind !== 'object') return [];
+    return schemaRows(
+      field.schema,
+      runs.map(run => (run.buildingParams.materialType === material ? run.materialsParams[material] : undefined)),
+      `${field.label} · `
+    );
+  });
+
+  return [
+    groundMotion,
+    ...schemaRows(seismicParamsSchema, runs.map(run => run.seismicParams)).filter(
+      row => row.label !== 'Show grid' && row.label !== 'Show stats' && row.label !== 'Ground motion seed'
+    ),
+    ...schemaRows(buildingParamsSchema, runs.map(run => run.buildingParams)),
+    ...materials,
+    toRow('Member hysteresis', runs.map(run => {
+      const rule = getHysteresisRule(run.buildingParams.materialType, run.materialsParams.hysteresis);
+      return rule ? `${rule.model}, hardening ${formatNumber(rule.hardeningRatio)}` : 'elastic';
+    }))
+  ];
+}
+
+/**
+ * Key results of the compared runs, row by row
+ */
+export function getOutputDiffRows(runs: ComparedRun[]): DiffRow[] {
+  const summaries = runs.map(run => run.report.summary);
+  return [
+    toRow('Natural period', summaries.map(summary => `${summary.naturalPeriod.toFixed(2)} s`)),
+    toRow('Peak roof displacement', summaries.map(summary => `${(summary.peakRoofDisplacement * 100).toFixed(1)} cm`)),
+    toRow('Peak inter-story drift', summaries.map(summary => `${summary.peakInterStoryDrift.toFixed(2)} %`)),
+    toRow('Critical story', summaries.map(summary => String(summary.criticalStory))),
+    toRow('Peak base shear', summaries.map(summary => `${formatNumber(summary.peakBaseShear)} kN`)),
+    toRow('Peak floor acceleration', summaries.map(summary => `${summary.peakFloorAcceleration.toFixed(2)} m/s²`)),
+    toRow('Peak ductility demand', summaries.map(summary => summary.peakDuctility.toFixed(2))),
+    toRow('Max residual drift', summaries.map(summary => `${summary.maxResidualDrift.toFixed(3)} %`)),
+    toRow('Dissipated energy', summaries.map(summary => `${formatNumber(summary.dissipatedEnergy)} kJ`)),
+    toRow('Soft stories', summaries.map(summary => summary.softStories.join(', ') || 'None')),
+    toRow('Weak stories', summaries.map(summary => summary.weakStories.join(', ') || 'None')),
+    toRow('Peak isolator displacement', summaries.map(summary =>
+      summary.peakIsolatorDisplacement === null ? '—' : `${summary.peakIsolatorDisplacement.toFixed(0)} mm`
+    )),
+    toRow('Damage level', summaries.map(summary => summary.damageLevel)),
+    toRow('Damage index', summaries.map(summary => summary.damageIndex.toFixed(2))),
+    toRow('Safety status', summaries.map(summary => summary.safetyStatus)),
+    toRow('Collapse', summaries.map(summary =>
+      summary.hasCollapsed && summary.collapseTime !== null ? `At ${summary.collapseTime.toFixed(1)} s` : 'No'
+    )),
+    toRow('Most damaged element', runs.map(run => {
+      const [element] = run.results.criticalElements;
+      return element ? `${element.type} (story ${element.id}): ${element.damageLevel}` : '—';
+    }))
+  ];
+}
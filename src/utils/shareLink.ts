@@ -0,0 +1,142 @@
+/**
+ * Shareable Scenario Links
+ *
+ * Encodes a scenario (seismic and building parameters, structural components,
+ * the active material, the seismic design criteria and the member hysteresis)
+ * into one compressed URL parameter. The value starts with the version of its
+ * payload, e.g. `?scenario=1.<data>`, so links shared today can be migrated
+ * when the parameter types change.
+ */
+
+import type { BuildingParams } from '../components/BuildingParameterForm';
+import type { SeismicParams } from '../components/SeismicParameterForm';
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import {
+  assertValid,
+  validateBuildingParams,
+  validateMaterialsParams,
+  validateSeismicParams
+} from './paramSchemas';
+import { defaultMaterialsParams } from './structuralMaterials';
+
+export const SHARE_PARAM = 'scenario';
+export const SHARE_VERSION = 1;
+
+export type SharedScenario = {
+  seismicParams: SeismicParams;
+  buildingParams: BuildingParams;
+  materialsParams: StructuralMaterialsParams;
+};
+
+// Payload of a version 1 link; only the active material's properties are kept,
+// with the seismic design criteria and member hysteresis (absent from links
+// made before they were added)
+type SharePayloadV1 = {
+  seismicParams: Omit<SeismicParams, 'groundMotionRecord'>;
+  buildingParams: BuildingParams;
+  material: Pick<StructuralMaterialsParams, 'activeMaterial'> &
+    Partial<Omit<StructuralMaterialsParams, 'activeMaterial'>>;
+};
+
+// Each migration takes a payload of version N to version N + 1
+const migrations: Record<number, (payload: unknown) => unknown> = {};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Whether a scenario fits in a link; imported ground motion records are too large
+ */
+export function canShareScenario(seismicParams: SeismicParams): boolean {
+  return !seismicParams.groundMotionRecord;
+}
+
+/**
+ * Encodes a scenario as the value of the share parameter
+ */
+export async function encodeScenario({ seismicParams, buildingParams, materialsParams }: SharedScenario): Promise<string> {
+  if (!canShareScenario(seismicParams)) {
+    throw new Error('Scenarios with an imported ground motion record cannot be shared as a link');
+  }
+
+  const { groundMotionRecord: _record, ...params } = seismicParams;
+  const active = materialsParams.activeMaterial;
+  const payload: SharePayloadV1 = {
+    seismicParams: params,
+    buildingParams,
+    material: {
+      activeMaterial: active,
+      [active]: materialsParams[active],
+      seismicDesign: materialsParams.seismicDesign,
+      hysteresis: materialsParams.hysteresis
+    }
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return `${SHARE_VERSION}.${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`;
+}
+
+/**
+ * Decodes and validates the value of the share parameter
+ */
+export async function decodeScenario(value: string): Promise<SharedScenario> {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(value);
+  if (!match) throw new Error('This scenario link is not valid');
+
+  let version = Number(match[1]);
+  if (version > SHARE_VERSION) {
+    throw new Error('This scenario link was created by a newer version of the app');
+  }
+
+  let payload: unknown;
+  try {
+    const json = await transform(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('This scenario link is incomplete or damaged');
+  }
+  if (!isObject(payload)) throw new Error('This scenario link is incomplete or damaged');
+
+  while (version < SHARE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`Scenario links of version ${version} are no longer supported`);
+    payload = migrate(payload);
+    version++;
+  }
+
+  if (!isObject(payload) || !isObject(payload.material)) {
+    throw new Error('This scenario link is incomplete or damaged');
+  }
+  const { seismicParams, buildingParams, material } = payload;
+  const materialsParams = { ...defaultMaterialsParams, ...material };
+  assertValid(validateSeismicParams(seismicParams), 'seismicParams');
+  assertValid(validateBuildingParams(buildingParams), 'buildingParams');
+  assertValid(validateMaterialsParams(materialsParams), 'materialsParams');
+  return { seismicParams, buildingParams, materialsParams } as SharedScenario;
+}
+
+/**
+ * Link to a page showing the scenario, e.g. `https://example.com/?scenario=1.<data>`
+ */
+export async function createShareUrl(scenario: SharedScenario, pageUrl: string): Promise<string> {
+  const url = new URL(pageUrl);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_PARAM, await encodeScenario(scenario));
+  return url.toString();
+}
@@ -0,0 +1,559 @@
+/**
+ * Simulation Engine
+ *
+ * Turns the structural time-history response into what the simulators and
+ * results panels show: damage, collapse and the failure sequence. It holds no
+ * UI state, so every view of the same scenario reports the same outcome at
+ * the same time.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { StoryIrregularity } from './buildingGeometry';
+import { defaultMaterialsParams } from './structuralMaterials';
+import { sampleGroundMotion } from './groundMotion';
+import { LiquefactionAssessment, assessLiquefaction, getLiquefactionDamage } from './liquefaction';
+import {
+  StructuralResponse,
+  analyzeStructure,
+  getPeakResponseUntil,
+  getStepIndex,
+  hasCollapsedAt,
+  sampleHistory
+} from './structuralSolver';
+
+// Time taken for a collapse to run its course once it starts (s)
+export const COLLAPSE_DURATION = 3;
+
+// Exaggeration applied to solver displacements when they are drawn
+export const DISPLACEMENT_VISUAL_SCALE = 10;
+
+// Window over which the current shaking intensity is measured (s)
+const SHAKING_WINDOW = 1;
+
+export type DamageThresholds = {
+  moderate: number; // inter-story drift (%) at which moderate damage starts
+  extensive: number; // ... extensive damage
+  complete: number; // ... complete damage
+};
+
+export type FailureState = 'moderate' | 'extensive' | 'complete' | 'collapse';
+
+export type FailureEvent = {
+  time: number; // s
+  story: number; // 1-based story where it happened
+  state: FailureState;
+  driftRatio: number; // inter-story drift ratio of that story when it happened
+  description: string;
+};
+
+// Detailed damage assessment by component
+export type ComponentDamage = {
+  structural: {
+    columns: { value: number; status: string };
+    beams: { value: number; status: string };
+    slabs: { value: number; status: string };
+    foundation: { value: number; status: string };
+  };
+  nonStructural: {
+    facades: { value: number; status: string };
+    interiorWalls: { value: number; status: string };
+    utilities: { value: number; status: string };
+  };
+};
+
+export type SimulationRun = {
+  response: StructuralResponse;
+  materialType: BuildingParams['materialType'];
+  thresholds: DamageThresholds;
+  storyPeakDrift: Float64Array[]; // per story, running peak |drift ratio| at each step
+  storyPeakShear: Float64Array[]; // per story, running peak |shear| (N) at each step
+  failureSequence: FailureEvent[]; // every damage state reached, in time order
+  liquefaction: LiquefactionAssessment | null; // at the record's peak ground acceleration, when a soil profile is given
+};
+
+export type SimulationState = {
+  time: number;
+  roofDisplacement: number; // m, at this time
+  maxDisplacement: number; // m, peak roof displacement so far
+  interStoryDrift: number; // %, peak so far
+  naturalPeriod: number; // s
+  structuralResponseFactor: number; // peak floor over peak ground acceleration
+  groundAcceleration: number; // m/s², at this time
+  shakingIntensity: number; // 0-1, recent peak ground acceleration over the record's peak
+  damageLevel: string;
+  damageColor: string;
+  damageIndex: number; // 0-1, share of the way to complete damage
+  storyDamage: number[]; // 0-1 per story
+  componentDamage: ComponentDamage;
+  safetyStatus: string;
+  recommendedActions: string[];
+  hasCollapsed: boolean;
+  collapseTime: number | null;
+  collapseProgress: number; // 0-1 once the collapse has started
+  failureSequence: FailureEvent[]; // events up to this time
+  liquefaction: LiquefactionAssessment | null; // at the peak ground acceleration so far
+};
+
+// Relative vulnerability of each kind of structural element
+const elementVulnerability = {
+  column: 1.0,
+  beam: 0.85,
+  slab: 0.7
+};
+
+/**
+ * Inter-story drift (%) at which each damage state starts for a material
+ */
+export function getDamageThresholds(materialType: string): DamageThresholds {
+  if (materialType === 'steel') return { moderate: 0.7, extensive: 1.5, complete: 2.5 };
+  if (materialType === 'wood') return { moderate: 0.4, extensive: 0.8, complete: 1.5 };
+  return { moderate: 0.5, extensive: 1.0, complete: 2.0 };
+}
+
+/**
+ * Damage level and display color for an inter-story drift (%)
+ */
+export function determineDamageLevel(
+  interStoryDrift: number,
+  materialType: string
+): { level: string; color: string } {
+  const thresholds = getDamageThresholds(materialType);
+
+  if (interStoryDrift < thresholds.moderate) {
+    return { level: 'None to Slight', color: 'green' };
+  } else if (interStoryDrift < thresholds.extensive) {
+    return { level: 'Moderate', color: 'yellow' };
+  } else if (interStoryDrift < thresholds.complete) {
+    return { level: 'Extensive', color: 'orange' };
+  } else {
+    return { level: 'Complete', color: 'red' };
+  }
+}
+
+// Damage status for a damage percentage
+const getDamageStatus = (damagePercent: number): string => {
+  if (damagePercent < 10) return 'Undamaged';
+  if (damagePercent < 25) return 'Minor';
+  if (damagePercent < 50) return 'Moderate';
+  if (damagePercent < 75) return 'Severe';
+  return 'Critical';
+};
+
+const assessComponentDamage = (
+  interStoryDrift: number,
+  materialType: string,
+  liquefactionDamage: number = 0
+): ComponentDamage => {
+  // Base damage factor - percentage of the way to complete damage
+  const baseDamageFactor = (interStoryDrift / getDamageThresholds(materialType).complete) * 100;
+
+  // Material vulnerability factors
+  let materialFactors = {
+    columns: 1.0,
+    beams: 1.0,
+    slabs: 1.0,
+    foundation: 1.0
+  };
+
+  if (materialType === 'concrete') {
+    materialFactors = {
+      columns: 0.8,
+      beams: 0.9,
+      slabs: 0.75,
+      foundation: 0.6
+    };
+  } else if (materialType === 'steel') {
+    materialFactors = {
+      columns: 0.7,
+      beams: 0.8,
+      slabs: 0.85,
+      foundation: 0.7
+    };
+  } else { // wood
+    materialFactors = {
+      columns: 1.2,
+      beams: 1.1,
+      slabs: 1.0,
+      foundation: 0.9
+    };
+  }
+
+  const calculateDamagePercent = (baseFactor: number, heightFactor: number = 1): number => {
+    return Math.min(100, Math.max(0, baseDamageFactor * baseFactor * heightFactor));
+  };
+
+  // Structural damage
+  const columnDamage = calculateDamagePercent(materialFactors.columns, 1.2);
+  const beamDamage = calculateDamagePercent(materialFactors.beams, 1.0);
+  const slabDamage = calculateDamagePercent(materialFactors.slabs, 0.8);
+  // Liquefied ground under the foundation damages it whatever the drift
+  const foundationDamage = Math.max(calculateDamagePercent(materialFactors.foundation, 0.7), liquefactionDamage);
+
+  // Non-structural elements are often more vulnerable but less critical
+  const facadeDamage = calculateDamagePercent(1.3, 1.0);
+  const interiorWallDamage = calculateDamagePercent(1.2, 0.9);
+  const utilitiesDamage = calculateDamagePercent(1.4, 0.8);
+
+  return {
+    structural: {
+      columns: { value: columnDamage, status: getDamageStatus(columnDamage) },
+      beams: { value: beamDamage, status: getDamageStatus(beamDamage) },
+      slabs: { value: slabDamage, status: getDamageStatus(slabDamage) },
+      foundation: { value: foundationDamage, status: getDamageStatus(foundationDamage) }
+    },
+    nonStructural: {
+      facades: { value: facadeDamage, status: getDamageStatus(facadeDamage) },
+      interiorWalls: { value: interiorWallDamage, status: getDamageStatus(interiorWallDamage) },
+      utilities: { value: utilitiesDamage, status: getDamageStatus(utilitiesDamage) }
+    }
+  };
+};
+
+// Component damage while a collapse runs its course (progress 0-1)
+const getCollapseComponentDamage = (progress: number): ComponentDamage => {
+  // Critical columns first, then beams, then slabs
+  const columnDamage = Math.min(100, 80 + progress * 20);
+  const beamDamage = Math.min(100, 75 + progress * 25);
+  const slabDamage = Math.min(100, 70 + progress * 30);
+  const foundationDamage = Math.min(100, 60 + progress * 40);
+
+  // Non-structural elements are also critically damaged
+  const facadeDamage = Math.min(100, 90 + progress * 10);
+  const wallDamage = Math.min(100, 85 + progress * 15);
+  const utilityDamage = 100; // Utilities immediately compromised
+
+  return {
+    structural: {
+      columns: { value: columnDamage, status: 'Critical' },
+      beams: { value: beamDamage, status: 'Critical' },
+      slabs: { value: slabDamage, status: 'Critical' },
+      foundation: { value: foundationDamage, status: 'Critical' }
+    },
+    nonStructural: {
+      facades: { value: facadeDamage, status: 'Critical' },
+      interiorWalls: { value: wallDamage, status: 'Critical' },
+      utilities: { value: utilityDamage, status: 'Critical' }
+    }
+  };
+};
+
+const assessSafety = (damageLevel: string, componentDamage: ComponentDamage): string => {
+  // Check for critical structural elements
+  if (componentDamage.structural.columns.status === 'Critical' ||
+      componentDamage.structural.foundation.status === 'Critical') {
+    return 'Unsafe - Immediate Evacuation Required';
+  }
+
+  if (componentDamage.structural.columns.status === 'Severe' ||
+      componentDamage.structural.beams.status === 'Severe') {
+    return 'Unsafe - Evacuation Recommended';
+  }
+
+  if (damageLevel === 'None to Slight') {
+    return 'Safe';
+  } else if (damageLevel === 'Moderate') {
+    return 'Caution - Inspection Required';
+  } else {
+    return 'Unsafe - Evacuation Recommended';
+  }
+};
+
+// Soft- and weak-story flags of a story, e.g. "extreme soft, weak story", or
+// null when it has none
+const describeIrregularity = (irregularity: StoryIrregularity | undefined) => {
+  if (!irregularity) return null;
+  const flags = [
+    irregularity.softStory && `${irregularity.softStory === 'extreme' ? 'extreme ' : ''}soft`,
+    irregularity.weakStory && `${irregularity.weakStory === 'extreme' ? 'extreme ' : ''}weak`
+  ].filter(Boolean);
+  return flags.length > 0 ? `${flags.join(', ')} story` : null;
+};
+
+const getRecommendedActions = (
+  damageLevel: string,
+  materialType: string,
+  interStoryDrift: number,
+  componentDamage: ComponentDamage,
+  liquefaction: LiquefactionAssessment | null,
+  damagedIrregularStories: StoryIrregularity[]
+): string[] => {
+  const actions = [];
+
+  // Critical column damage
+  if (componentDamage.structural.columns.status === 'Critical') {
+    actions.push('IMMEDIATE EVACUATION - Risk of structural collapse');
+    actions.push('Emergency shoring of compromised columns');
+  }
+
+  // Severe column/beam damage
+  else if (componentDamage.structural.columns.status === 'Severe' ||
+           componentDamage.structural.beams.status === 'Severe') {
+    actions.push('Evacuation recommended until structural assessment');
+    actions.push('Detailed engineering evaluation of load path integrity');
+
+    if (materialType === 'concrete') {
+      actions.push('Inspect for concrete spalling and exposed rebar');
+    } else if (materialType === 'steel') {
+      actions.push('Inspect for buckling, connection failure, and weld fractures');
+    } else {
+      actions.push('Inspect for member splitting, connection failure, and joint displacement');
+    }
+  }
+
+  // Moderate damage actions
+  else if (damageLevel === 'Moderate') {
+    actions.push('Structural engineering inspection required');
+    actions.push('Temporary evacuation may be necessary during inspection');
+
+    if (componentDamage.structural.foundation.status === 'Moderate' ||
+        componentDamage.structural.foundation.status === 'Severe') {
+      actions.push('Foundation inspection for settlement and cracking');
+    }
+
+    if (materialType === 'concrete') {
+      actions.push('Check for concrete cracking and rebar exposure');
+    } else if (materialType === 'steel') {
+      actions.push('Inspect steel connections and welds');
+    } else {
+      actions.push('Examine wood joints and connections');
+    }
+  }
+
+  // Minor damage actions
+  else if (damageLevel === 'None to Slight') {
+    actions.push('Visual inspection of structural elements');
+    actions.push('Check for non-structural damage');
+
+    if (componentDamage.nonStructural.utilities.status === 'Moderate' ||
+        componentDamage.nonStructural.utilities.status === 'Severe') {
+      actions.push('Inspect utility systems for damage or leaks');
+    }
+  }
+
+  // Additional actions based on component damage
+  if (componentDamage.nonStructural.facades.status === 'Severe' ||
+      componentDamage.nonStructural.facades.status === 'Critical') {
+    actions.push('Secure or remove damaged facade elements to prevent falling hazards');
+  }
+
+  if (interStoryDrift > 2.5) {
+    actions.push('Residual drift assessment before reoccupancy');
+  }
+
+  if (liquefaction && (liquefaction.severity === 'high' || liquefaction.severity === 'very high')) {
+    actions.push('Survey the site for sand boils, ground settlement and tilting of the building');
+  }
+
+  // Damage concentrates in soft and weak stories
+  damagedIrregularStories.forEach(irregularity => {
+    actions.push(
+      `Inspect the columns of story ${irregularity.story} (${describeIrregularity(irregularity)}) for hinging ` +
+      'and retrofit it with walls, bracing or column jacketing before reoccupancy'
+    );
+  });
+
+  return actions;
+};
+
+const collapseActions = [
+  'IMMEDIATE EVACUATION - Building has structurally collapsed',
+  'Contact emergency services and structural engineers',
+  'Establish safety perimeter around the building',
+  'Account for all building occupants',
+  'Do not attempt to enter the building under any circumstances'
+];
+
+// First time each story reaches each damage state, plus the collapse itself
+const findFailureSequence = (
+  response: StructuralResponse,
+  thresholds: DamageThresholds
+): FailureEvent[] => {
+  const events: FailureEvent[] = [];
+  const states: Exclude<FailureState, 'collapse'>[] = ['moderate', 'extensive', 'complete'];
+  const storyLabel = (story: number) => {
+    const irregularity = describeIrregularity(response.model.irregularities[story]);
+    return irregularity ? `Story ${story + 1} (${irregularity})` : `Story ${story + 1}`;
+  };
+  const lastStep = response.collapseTime === null
+    ? response.steps - 1
+    : getStepIndex(response, response.collapseTime);
+
+  response.drift.forEach((history, story) => {
+    let next = 0;
+    for (let step = 0; step <= lastStep && next < states.length; step++) {
+      const driftRatio = Math.abs(history[step]);
+      while (next < states.length && driftRatio * 100 >= thresholds[states[next]]) {
+        events.push({
+          time: step * response.dt,
+          story: story + 1,
+          state: states[next],
+          driftRatio,
+          description: `${storyLabel(story)}: ${states[next]} damage at ${(driftRatio * 100).toFixed(2)}% drift`
+        });
+        next++;
+      }
+    }
+  });
+
+  if (response.collapseTime !== null) {
+    // The story whose drift passed the collapse limit
+    const step = getStepIndex(response, response.collapseTime);
+    let critical = 0;
+    response.drift.forEach((history, story) => {
+      if (Math.abs(history[step]) > Math.abs(response.drift[critical][step])) critical = story;
+    });
+    const driftRatio = Math.abs(response.drift[critical][step]);
+    events.push({
+      time: response.collapseTime,
+      story: critical + 1,
+      state: 'collapse',
+      driftRatio,
+      description: `${storyLabel(critical)}: collapse at ${(driftRatio * 100).toFixed(2)}% drift`
+    });
+  }
+
+  // Stable sort keeps lower damage states first when they share a step
+  return events.sort((a, b) => a.time - b.time);
+};
+
+// Largest magnitude of a history up to each step
+const getRunningPeaks = (history: Float64Array) => {
+  const peaks = new Float64Array(history.length);
+  let peak = 0;
+  for (let step = 0; step < history.length; step++) {
+    peak = Math.max(peak, Math.abs(history[step]));
+    peaks[step] = peak;
+  }
+  return peaks;
+};
+
+// Simulation runs already derived, keyed by the response they belong to
+const runCache = new WeakMap<StructuralResponse, SimulationRun>();
+
+/**
+ * Runs (or reuses) the simulation of a scenario: the structural response and
+ * the damage history derived from it
+ */
+export function runSimulation(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams
+): SimulationRun {
+  const response = analyzeStructure(buildingParams, seismicParams, materialsParams);
+  const cached = runCache.get(response);
+  if (cached) return cached;
+
+  const thresholds = getDamageThresholds(buildingParams.materialType);
+
+  const run = {
+    response,
+    materialType: buildingParams.materialType,
+    thresholds,
+    storyPeakDrift: response.drift.map(getRunningPeaks),
+    storyPeakShear: response.stories.map(story => getRunningPeaks(story.shear)),
+    failureSequence: findFailureSequence(response, thresholds),
+    liquefaction: seismicParams.soilProfile
+      ? assessLiquefaction(seismicParams.soilProfile, response.groundMotion.peakGroundAcceleration, seismicParams.magnitude)
+      : null
+  };
+  runCache.set(response, run);
+  return run;
+}
+
+/**
+ * Damage, collapse and safety state of a simulation run at a given time
+ */
+export function getSimulationState(run: SimulationRun, time: number): SimulationState {
+  const { response, materialType, thresholds } = run;
+  const { groundMotion } = response;
+  const index = getStepIndex(response, time);
+
+  const hasCollapsed = hasCollapsedAt(response, time);
+  const collapseProgress = hasCollapsed
+    ? Math.min(1, (time - (response.collapseTime ?? 0)) / COLLAPSE_DURATION)
+    : 0;
+
+  const peakResponse = getPeakResponseUntil(response, time);
+  const interStoryDrift = peakResponse.interStoryDriftRatio * 100;
+
+  // Recent shaking relative to the strongest shaking in the record
+  let recentPeak = 0;
+  for (let t = Math.max(0, time - SHAKING_WINDOW); t <= time; t += groundMotion.dt) {
+    recentPeak = Math.max(recentPeak, Math.abs(sampleGroundMotion(groundMotion, t)));
+  }
+  const shakingIntensity = groundMotion.peakGroundAcceleration > 0
+    ? Math.min(1, recentPeak / groundMotion.peakGroundAcceleration)
+    : 0;
+
+  // Story damage grows with its peak drift and goes to 1 as the collapse runs
+  const storyDamage = run.storyPeakDrift.map(peaks =>
+    Math.max(Math.min(1, (peaks[index] * 100) / thresholds.complete), collapseProgress)
+  );
+  const damageIndex = hasCollapsed ? 1 : Math.min(1, interStoryDrift / thresholds.complete);
+
+  // Liquefaction under the shaking so far
+  let peakGroundAcceleration = 0;
+  for (let step = 0; step <= index && step < groundMotion.acceleration.length; step++) {
+    peakGroundAcceleration = Math.max(peakGroundAcceleration, Math.abs(groundMotion.acceleration[step]));
+  }
+  const liquefaction = run.liquefaction
+    ? assessLiquefaction(run.liquefaction.profile, peakGroundAcceleration, run.liquefaction.magnitude)
+    : null;
+
+  const damage = hasCollapsed
+    ? { level: 'Complete Collapse', color: 'red' }
+    : determineDamageLevel(interStoryDrift, materialType);
+  const componentDamage = hasCollapsed
+    ? getCollapseComponentDamage(collapseProgress)
+    : assessComponentDamage(interStoryDrift, materialType, liquefaction ? getLiquefactionDamage(liquefaction) : 0);
+
+  // Soft and weak stories that have reached moderate damage
+  const failureSequence = run.failureSequence.filter(event => event.time <= time);
+  const damagedIrregularStories = response.model.irregularities.filter(irregularity =>
+    describeIrregularity(irregularity) && failureSequence.some(event => event.story === irregularity.story)
+  );
+
+  return {
+    time,
+    roofDisplacement: sampleHistory(response, response.displacement[response.displacement.length - 1], time),
+    maxDisplacement: peakResponse.roofDisplacement,
+    interStoryDrift,
+    naturalPeriod: response.model.fundamentalPeriod,
+    structuralResponseFactor: groundMotion.peakGroundAcceleration > 0
+      ? response.peaks.floorAcceleration / groundMotion.peakGroundAcceleration
+      : 0,
+    groundAcceleration: sampleGroundMotion(groundMotion, time),
+    shakingIntensity,
+    damageLevel: damage.level,
+    damageColor: damage.color,
+    damageIndex,
+    storyDamage,
+    componentDamage,
+    safetyStatus: hasCollapsed
+      ? 'BUILDING COLLAPSE - EVACUATION REQUIRED'
+      : assessSafety(damage.level, componentDamage),
+    recommendedActions: hasCollapsed
+      ? collapseActions
+      : getRecommendedActions(damage.level, materialType, interStoryDrift, componentDamage, liquefaction, damagedIrregularStories),
+    hasCollapsed,
+    collapseTime: response.collapseTime,
+    collapseProgress,
+    failureSequence,
+    liquefaction
+  };
+}
+
+/**
+ * Damage (0-1) of a structural element in a given story (0-based)
+ */
+export function getElementDamage(
+  state: SimulationState,
+  story: number,
+  elementType: keyof typeof elementVulnerability
+): number {
+  const storyIndex = Math.max(0, Math.min(story, state.storyDamage.length - 1));
+  return Math.min(1, state.storyDamage[storyIndex] * elementVulnerability[elementType]);
+}
+
@@ -0,0 +1,416 @@
+/**
+ * Simulation Report
+ *
+ * Reads saved simulation configurations outside the browser and turns a
+ * finished simulation run into plain JSON or CSV, so scenarios can be run
+ * headless and their results compared with other tools.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import type { SimulationConfig } from '../components/ConfigurationManager';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { defaultMaterialsParams } from './structuralMaterials';
+import {
+  ObjectSchema,
+  assertValid,
+  validate,
+  validateBuildingParams,
+  validateMaterialsParams,
+  validateSeismicParams
+} from './paramSchemas';
+import { FailureEvent, SimulationRun, getSimulationState } from './simulationEngine';
+
+export type SimulationScenario = Pick<SimulationConfig, 'buildingParams' | 'seismicParams'> & {
+  id: string;
+  name: string;
+  materialParams: StructuralMaterialsParams;
+};
+
+export type SimulationSummary = {
+  naturalPeriod: number; // s
+  peakRoofDisplacement: number; // m
+  peakInterStoryDrift: number; // %
+  criticalStory: number; // 1-based
+  peakBaseShear: number; // kN
+  peakFloorAcceleration: number; // m/s²
+  damageLevel: string;
+  damageIndex: number; // 0-1
+  safetyStatus: string;
+  hasCollapsed: boolean;
+  collapseTime: number | null; // s
+  foundationSway: number | null; // mm, peak; null on a fixed base
+  foundationRocking: number | null; // mrad, peak
+  edgeSettlement: number | null; // mm, static settlement plus peak rocking at the edge
+  liquefactionPotentialIndex: number | null; // null without a soil profile
+  peakIsolatorDisplacement: number | null; // mm; null without base isolation
+  peakDamperForce: number | null; // kN, largest over the stories; null without dampers
+  peakTunedMassDisplacement: number | null; // mm, relative to the roof; null without a tuned mass damper
+  peakDuctility: number; // largest story drift over its yield drift
+  maxResidualDrift: number; // %, largest over the stories at the end of the record
+  dissipatedEnergy: number; // kJ, hysteretic, summed over the stories
+  softStories: number[]; // 1-based, stiffness irregularities of ASCE 7 types 1a and 1b
+  weakStories: number[]; // 1-based, strength irregularities of types 5a and 5b
+};
+
+export type SimulationReport = {
+  id: string;
+  name: string;
+  summary: SimulationSummary;
+  storyPeakDrift: number[]; // %, per story
+  failureSequence: FailureEvent[];
+  recommendedActions: string[];
+  history?: {
+    time: number[]; // s
+    groundAcceleration: number[]; // m/s²
+    roofDisplacement: number[]; // m
+    baseShear: number[]; // kN
+    drift: number[][]; // %, per story
+    storyShear: number[][]; // kN, per story
+    devices: { id: string; displacement: number[]; force: number[] }[]; // m and kN
+  };
+};
+
+// Results only need to be numbers; their ranges depend on the scenario
+const anyNumber = { min: -Infinity, max: Infinity };
+
+const historyRows = (rows: unknown) =>
+  Array.isArray(rows) && rows.every(row => Array.isArray(row) && row.every(Number.isFinite));
+
+// A report as stored in a project file, checked before it is shown again
+const simulationReportSchema: ObjectSchema<SimulationReport> = {
+  fields: {
+    id: { kind: 'string', label: 'Report id' },
+    name: { kind: 'string', label: 'Report name' },
+    summary: {
+      kind: 'object',
+      label: 'Summary',
+      schema: {
+        fields: {
+          naturalPeriod: { kind: 'number', label: 'Natural period', unit: 's', ...anyNumber },
+          peakRoofDisplacement: { kind: 'number', label: 'Peak roof displacement', unit: 'm', ...anyNumber },
+          peakInterStoryDrift: { kind: 'number', label: 'Peak inter-story drift', unit: '%', ...anyNumber },
+          criticalStory: { kind: 'number', label: 'Critical story', min: 1, max: 100, integer: true },
+          peakBaseShear: { kind: 'number', label: 'Peak base shear', unit: 'kN', ...anyNumber },
+          peakFloorAcceleration: { kind: 'number', label: 'Peak floor acceleration', unit: 'm/s²', ...anyNumber },
+          damageLevel: { kind: 'string', label: 'Damage level' },
+          damageIndex: { kind: 'number', label: 'Damage index', min: 0, max: 1 },
+          safetyStatus: { kind: 'string', label: 'Safety status' },
+          hasCollapsed: { kind: 'boolean', label: 'Collapsed' },
+          collapseTime: { kind: 'number', label: 'Collapse time', unit: 's', ...anyNumber, optional: true },
+          foundationSway: { kind: 'number', label: 'Foundation sway', unit: 'mm', ...anyNumber, optional: true },
+          foundationRocking: { kind: 'number', label: 'Foundation rocking', unit: 'mrad', ...anyNumber, optional: true },
+          edgeSettlement: { kind: 'number', label: 'Edge settlement', unit: 'mm', ...anyNumber, optional: true },
+          liquefactionPotentialIndex: { kind: 'number', label: 'Liquefaction potential index', ...anyNumber, optional: true },
+          peakIsolatorDisplacement: { kind: 'number', label: 'Peak isolator displacement', unit: 'mm', ...anyNumber, optional: true },
+          peakDamperForce: { kind: 'number', label: 'Peak damper force', unit: 'kN', ...anyNumber, optional: true },
+          peakTunedMassDisplacement: { kind: 'number', label: 'Peak tuned mass displacement', unit: 'mm', ...anyNumber, optional: true },
+          peakDuctility: { kind: 'number', label: 'Peak ductility', ...anyNumber },
+          maxResidualDrift: { kind: 'number', label: 'Largest residual drift', unit: '%', ...anyNumber },
+          dissipatedEnergy: { kind: 'number', label: 'Dissipated energy', unit: 'kJ', ...anyNumber },
+          softStories: { kind: 'numbers', label: 'Soft stories', minItems: 0 },
+          weakStories: { kind: 'numbers', label: 'Weak stories', minItems: 0 }
+        }
+      }
+    },
+    storyPeakDrift: { kind: 'numbers', label: 'Story peak drifts', minItems: 1 },
+    failureSequence: {
+      kind: 'array',
+      label: 'Failure sequence',
+      minItems: 0,
+      maxItems: 1000,
+      item: {
+        fields: {
+          time: { kind: 'number', label: 'Failure time', unit: 's', ...anyNumber },
+          story: { kind: 'number', label: 'Failure story', min: 1, max: 100, integer: true },
+          state: { kind: 'option', label: 'Failure state', options: ['moderate', 'extensive', 'complete', 'collapse'] },
+          driftRatio: { kind: 'number', label: 'Failure drift ratio', ...anyNumber },
+          description: { kind: 'string', label: 'Failure description' }
+        }
+      }
+    },
+    history: {
+      kind: 'object',
+      label: 'History',
+      optional: true,
+      schema: {
+        fields: {
+          time: { kind: 'numbers', label: 'Time', minItems: 1 },
+          groundAcceleration: { kind: 'numbers', label: 'Ground acceleration', minItems: 1 },
+          roofDisplacement: { kind: 'numbers', label: 'Roof displacement', minItems: 1 },
+          baseShear: { kind: 'numbers', label: 'Base shear', minItems: 1 },
+          devices: {
+            kind: 'array',
+            label: 'Device histories',
+            minItems: 0,
+            maxItems: 100,
+            item: {
+              fields: {
+                id: { kind: 'string', label: 'Device id' },
+                displacement: { kind: 'numbers', label: 'Device displacement', minItems: 0 },
+                force: { kind: 'numbers', label: 'Device force', minItems: 0 }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  rules: [
+    {
+      path: 'recommendedActions',
+      message: 'Recommended actions must be a list of text',
+      fields: [],
+      check: ({ recommendedActions }) =>
+        Array.isArray(recommendedActions) && recommendedActions.every(action => typeof action === 'string')
+    },
+    {
+      path: 'history',
+      message: 'Drift and story shear histories must be lists of numbers, one per story',
+      fields: ['history'],
+      check: ({ history }) => !history || (historyRows(history.drift) && historyRows(history.storyShear))
+    }
+  ]
+};
+
+/**
+ * Checks a stored report; an empty result means it is valid
+ */
+export const validateSimulationReport = (value: unknown) => validate(simulationReportSchema, value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks one saved configuration and fills in what the analysis does not need
+ * from it; errors name the offending field under the given label
+ */
+export function parseSimulationConfig(value: unknown, label = 'config', index = 0): SimulationScenario {
+  if (!isObject(value)) throw new Error(`${label} must be an object`);
+
+  const { buildingParams, seismicParams } = value;
+  // ConfigurationManager saves the materials as materialParams
+  const materialParams = value.materialParams ?? value.materialsParams;
+
+  if (!isObject(buildingParams)) throw new Error(`${label}.buildingParams is missing`);
+  assertValid(validateBuildingParams(buildingParams), `${label}.buildingParams`);
+
+  // Display settings and the wave velocity, which only paces the 3D waves, do
+  // not affect the analysis, so they may be left out
+  if (!isObject(seismicParams)) throw new Error(`${label}.seismicParams is missing`);
+  const seismic = { showGrid: false, showStats: false, epicenterX: 0, epicenterY: 0, waveVelocity: 1.5, ...seismicParams };
+  assertValid(validateSeismicParams(seismic), `${label}.seismicParams`);
+
+  const materials = materialParams ?? defaultMaterialsParams;
+  assertValid(validateMaterialsParams(materials), `${label}.materialParams`);
+
+  return {
+    id: typeof value.id === 'string' ? value.id : String(index + 1),
+    name: typeof value.name === 'string' ? value.name : `Scenario ${index + 1}`,
+    buildingParams: buildingParams as BuildingParams,
+    seismicParams: seismic as SeismicParams,
+    materialParams: materials as StructuralMaterialsParams
+  };
+}
+
+/**
+ * Parses the scenarios in a JSON document holding one saved configuration or
+ * a list of them, as written by the configuration manager
+ */
+export function parseSimulationConfigs(json: string): SimulationScenario[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const configs = Array.isArray(data) ? data : [data];
+  if (configs.length === 0) throw new Error('No configurations found');
+  return configs.map((config, index) => parseSimulationConfig(config, `configs[${index}]`, index));
+}
+
+/**
+ * Summary, failure sequence and (optionally) the time histories of a run at
+ * the end of its record
+ */
+export function createSimulationReport(
+  scenario: SimulationScenario,
+  run: SimulationRun,
+  includeHistory = false
+): SimulationReport {
+  const { response } = run;
+  const state = getSimulationState(run, scenario.seismicParams.duration);
+  const roof = response.displacement[response.displacement.length - 1];
+  const isolator = response.devices.find(device => device.kind === 'isolator');
+  const dampers = response.devices.filter(device => device.kind === 'viscous-damper');
+  const tunedMass = response.devices.find(device => device.kind === 'tuned-mass-damper');
+
+  const report: SimulationReport = {
+    id: scenario.id,
+    name: scenario.name,
+    summary: {
+      naturalPeriod: state.naturalPeriod,
+      peakRoofDisplacement: response.peaks.roofDisplacement,
+      peakInterStoryDrift: response.peaks.interStoryDriftRatio * 100,
+      criticalStory: response.peaks.criticalStory + 1,
+      peakBaseShear: response.peaks.baseShear / 1000,
+      peakFloorAcceleration: response.peaks.floorAcceleration,
+      damageLevel: state.damageLevel,
+      damageIndex: state.damageIndex,
+      safetyStatus: state.safetyStatus,
+      hasCollapsed: state.hasCollapsed,
+      collapseTime: response.collapseTime,
+      foundationSway: response.foundation ? response.foundation.peaks.sway * 1000 : null,
+      foundationRocking: response.foundation ? response.foundation.peaks.rocking * 1000 : null,
+      edgeSettlement: response.foundation ? response.foundation.peaks.edgeSettlement * 1000 : null,
+      liquefactionPotentialIndex: run.liquefaction?.liquefactionPotentialIndex ?? null,
+      peakIsolatorDisplacement: isolator ? isolator.peaks.displacement * 1000 : null,
+      peakDamperForce: dampers.length > 0 ? Math.max(...dampers.map(damper => damper.peaks.force)) / 1000 : null,
+      peakTunedMassDisplacement: tunedMass ? tunedMass.peaks.displacement * 1000 : null,
+      peakDuctility: Math.max(0, ...response.stories.map(story => story.peaks.ductility)),
+      maxResidualDrift: Math.max(0, ...response.stories.map(story => story.peaks.residualDrift)) * 100,
+      dissipatedEnergy: response.stories.reduce((sum, story) => sum + story.peaks.dissipatedEnergy, 0) / 1000,
+      softStories: response.model.irregularities.filter(story => story.softStory).map(story => story.story),
+      weakStories: response.model.irregularities.filter(story => story.weakStory).map(story => story.story)
+    },
+    storyPeakDrift: run.storyPeakDrift.map(peaks => peaks[peaks.length - 1] * 100),
+    failureSequence: run.failureSequence,
+    recommendedActions: state.recommendedActions
+  };
+
+  if (includeHistory) {
+    const { acceleration } = response.groundMotion;
+    report.history = {
+      time: Array.from(roof, (_, step) => step * response.dt),
+      groundAcceleration: Array.from(roof, (_, step) => acceleration[step] ?? 0),
+      roofDisplacement: Array.from(roof),
+      baseShear: Array.from(response.baseShear, value => value / 1000),
+      drift: response.drift.map(history => Array.from(history, value => value * 100)),
+      storyShear: response.stories.map(story => Array.from(story.shear, value => value / 1000)),
+      devices: response.devices.map(device => ({
+        id: device.id,
+        displacement: Array.from(device.displacement),
+        force: Array.from(device.force, value => value / 1000)
+      }))
+    };
+  }
+
+  return report;
+}
+
+// Quotes a CSV field when it holds a separator, quote or line break
+const toCsvField = (value: string | number | boolean | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV text of rows of fields, ending with a line break
+ */
+export function toCsv(rows: (string | number | boolean | null)[][]): string {
+  return rows.map(row => row.map(toCsvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * One CSV row per scenario with its summary
+ */
+export function reportsToSummaryCsv(reports: SimulationReport[]): string {
+  const header = [
+    'id',
+    'name',
+    'natural_period_s',
+    'peak_roof_displacement_m',
+    'peak_interstory_drift_pct',
+    'critical_story',
+    'peak_base_shear_kn',
+    'peak_floor_acceleration_ms2',
+    'damage_level',
+    'damage_index',
+    'collapsed',
+    'collapse_time_s',
+    'peak_foundation_sway_mm',
+    'peak_foundation_rocking_mrad',
+    'edge_settlement_mm',
+    'liquefaction_potential_index',
+    'peak_isolator_displacement_mm',
+    'peak_damper_force_kn',
+    'peak_tmd_displacement_mm',
+    'peak_ductility',
+    'max_residual_drift_pct',
+    'dissipated_energy_kj',
+    'soft_stories',
+    'weak_stories'
+  ];
+  return toCsv([
+    header,
+    ...reports.map(({ id, name, summary }) => [
+      id,
+      name,
+      summary.naturalPeriod,
+      summary.peakRoofDisplacement,
+      summary.peakInterStoryDrift,
+      summary.criticalStory,
+      summary.peakBaseShear,
+      summary.peakFloorAcceleration,
+      summary.damageLevel,
+      summary.damageIndex,
+      summary.hasCollapsed,
+      summary.collapseTime,
+      summary.foundationSway,
+      summary.foundationRocking,
+      summary.edgeSettlement,
+      summary.liquefactionPotentialIndex,
+      summary.peakIsolatorDisplacement,
+      summary.peakDamperForce,
+      summary.peakTunedMassDisplacement,
+      summary.peakDuctility,
+      summary.maxResidualDrift,
+      summary.dissipatedEnergy,
+      summary.softStories.join(';'),
+      summary.weakStories.join(';')
+    ])
+  ]);
+}
+
+/**
+ * One CSV row per scenario and time step with the response histories; the
+ * reports must have been created with their histories
+ */
+export function reportsToHistoryCsv(reports: SimulationReport[]): string {
+  const stories = Math.max(0, ...reports.map(report => report.history?.drift.length ?? 0));
+  // Devices of every scenario, in the order they first appear
+  const deviceIds = Array.from(new Set(reports.flatMap(report => report.history?.devices.map(device => device.id) ?? [])));
+  const header = [
+    'id',
+    'time_s',
+    'ground_acceleration_ms2',
+    'roof_displacement_m',
+    'base_shear_kn',
+    ...Array.from({ length: stories }, (_, story) => `drift_story_${story + 1}_pct`),
+    ...Array.from({ length: stories }, (_, story) => `shear_story_${story + 1}_kn`),
+    ...deviceIds.flatMap(id => {
+      const column = id.replace(/-/g, '_');
+      return [`${column}_displacement_m`, `${column}_force_kn`];
+    })
+  ];
+
+  const rows: (string | number | null)[][] = [header];
+  for (const { id, history } of reports) {
+    if (!history) throw new Error(`Report ${id} has no time histories`);
+    const devices = deviceIds.map(deviceId => history.devices.find(device => device.id === deviceId));
+    history.time.forEach((time, step) => {
+      rows.push([
+        id,
+        time,
+        history.groundAcceleration[step],
+        history.roofDisplacement[step],
+        history.baseShear[step],
+        ...Array.from({ length: stories }, (_, story) => history.drift[story]?.[step] ?? null),
+        ...Array.from({ length: stories }, (_, story) => history.storyShear[story]?.[step] ?? null),
+        ...devices.flatMap(device => device ? [device.displacement[step], device.force[step]] : [null, null])
+      ]);
+    });
+  }
+  return toCsv(rows);
+}
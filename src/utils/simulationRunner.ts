@@ -0,0 +1,187 @@
+/**
+ * Simulation Runner
+ *
+ * Deterministic simulation clock with play, pause, seek, single-step and a
+ * speed multiplier. Simulation time only ever advances in whole fixed steps,
+ * so a replay visits exactly the same times as the original run whatever the
+ * frame rate, and rendering only decides how often the new time is published.
+ */
+
+import { DEFAULT_TIME_STEP } from './groundMotion';
+
+// Most fixed steps taken in one tick, so a stalled tab does not jump ahead
+const MAX_STEPS_PER_TICK = 240;
+
+export type SimulationRunnerState = {
+  step: number; // fixed steps taken since time zero
+  time: number; // s, always step × timeStep (clamped to the duration)
+  duration: number; // s
+  timeStep: number; // s
+  speed: number; // simulated seconds per wall-clock second
+  isPlaying: boolean;
+  isFinished: boolean;
+};
+
+export type SimulationRunnerOptions = {
+  duration: number; // s
+  timeStep?: number; // s, fixed physics step
+  speed?: number;
+  loop?: boolean; // start again from zero instead of stopping at the end
+  onStep?: (time: number) => void; // called for every fixed step, in order
+};
+
+// Frame scheduling, swappable so the runner also works outside the browser
+type Scheduler = {
+  request: (callback: () => void) => number;
+  cancel: (handle: number) => void;
+  now: () => number; // ms
+};
+
+export type SimulationRunner = {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  step: (count?: number) => void;
+  setSpeed: (speed: number) => void;
+  setDuration: (duration: number) => void;
+  getState: () => SimulationRunnerState;
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+};
+
+const defaultScheduler: Scheduler = typeof requestAnimationFrame === 'function'
+  ? {
+      request: callback => requestAnimationFrame(callback),
+      cancel: handle => cancelAnimationFrame(handle),
+      now: () => performance.now()
+    }
+  : {
+      request: callback => setTimeout(callback, 16) as unknown as number,
+      cancel: handle => clearTimeout(handle),
+      now: () => Date.now()
+    };
+
+/**
+ * Creates a simulation clock that starts paused at time zero
+ */
+export function createSimulationRunner(
+  options: SimulationRunnerOptions,
+  scheduler: Scheduler = defaultScheduler
+): SimulationRunner {
+  const timeStep = options.timeStep ?? DEFAULT_TIME_STEP;
+  const loop = options.loop ?? false;
+  const listeners = new Set<() => void>();
+
+  let duration = Math.max(0, options.duration);
+  let totalSteps = Math.round(duration / timeStep);
+  let speed = options.speed ?? 1;
+  let step = 0;
+  let isPlaying = false;
+  let frame: number | null = null;
+  let lastTick = 0;
+  let accumulator = 0; // simulated seconds not yet taken as whole steps
+
+  const buildState = (): SimulationRunnerState => ({
+    step,
+    time: Math.min(step * timeStep, duration),
+    duration,
+    timeStep,
+    speed,
+    isPlaying,
+    isFinished: step >= totalSteps
+  });
+  let state = buildState();
+
+  const publish = () => {
+    state = buildState();
+    listeners.forEach(listener => listener());
+  };
+
+  const stopTicking = () => {
+    if (frame !== null) scheduler.cancel(frame);
+    frame = null;
+  };
+
+  // Advances whole steps; returns false once the end is reached without looping
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (step >= totalSteps) {
+        if (!loop || totalSteps === 0) return false;
+        step = 0;
+      }
+      step++;
+      options.onStep?.(Math.min(step * timeStep, duration));
+    }
+    return step < totalSteps || loop;
+  };
+
+  const tick = () => {
+    const now = scheduler.now();
+    accumulator += ((now - lastTick) / 1000) * speed;
+    lastTick = now;
+
+    const steps = Math.floor(accumulator / timeStep);
+    accumulator -= steps * timeStep;
+    const running = advance(Math.min(steps, MAX_STEPS_PER_TICK));
+    if (steps > MAX_STEPS_PER_TICK) accumulator = 0;
+
+    if (!running) {
+      isPlaying = false;
+      accumulator = 0;
+      frame = null;
+    } else {
+      frame = scheduler.request(tick);
+    }
+    if (steps > 0 || !running) publish();
+  };
+
+  return {
+    play: () => {
+      if (isPlaying) return;
+      if (step >= totalSteps) step = 0;
+      isPlaying = true;
+      lastTick = scheduler.now();
+      accumulator = 0;
+      frame = scheduler.request(tick);
+      publish();
+    },
+    pause: () => {
+      if (!isPlaying) return;
+      isPlaying = false;
+      stopTicking();
+      publish();
+    },
+    seek: time => {
+      step = Math.max(0, Math.min(totalSteps, Math.round(time / timeStep)));
+      accumulator = 0;
+      publish();
+    },
+    step: (count = 1) => {
+      advance(Math.max(0, Math.floor(count)));
+      publish();
+    },
+    setSpeed: value => {
+      if (!(value > 0)) throw new Error(`Simulation speed must be positive, got ${value}`);
+      speed = value;
+      publish();
+    },
+    setDuration: value => {
+      duration = Math.max(0, value);
+      totalSteps = Math.round(duration / timeStep);
+      step = Math.min(step, totalSteps);
+      publish();
+    },
+    getState: () => state,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      isPlaying = false;
+      stopTicking();
+      listeners.clear();
+    }
+  };
+}
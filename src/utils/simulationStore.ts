@@ -0,0 +1,112 @@
+/**
+ * Simulation Store
+ *
+ * File-backed store for simulations requested through the API. Each run is a
+ * JSON file named after its id, so other tools can read the results straight
+ * from disk. Server only.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { runSimulation } from './simulationEngine';
+import { SimulationReport, SimulationScenario, createSimulationReport } from './simulationReport';
+
+export type SimulationStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type StoredSimulation = {
+  id: string;
+  status: SimulationStatus;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  includeHistory: boolean;
+  config: Omit<SimulationScenario, 'id'>;
+  result?: SimulationReport;
+  error?: string;
+};
+
+// Where runs are kept, overridable for tools that share a store
+const storeDirectory = process.env.SIMULATION_STORE_DIR ?? path.join(process.cwd(), '.simulations');
+
+const idPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Runs this process is working on; anything else left unfinished was interrupted
+const activeRuns = new Set<string>();
+
+const getRunPath = (id: string) => path.join(storeDirectory, `${id}.json`);
+
+// Writes through a temporary file so readers never see half a run
+const saveRun = async (run: StoredSimulation) => {
+  await mkdir(storeDirectory, { recursive: true });
+  const target = getRunPath(run.id);
+  await writeFile(`${target}.tmp`, JSON.stringify(run));
+  await rename(`${target}.tmp`, target);
+};
+
+const updateRun = async (run: StoredSimulation, changes: Partial<StoredSimulation>) => {
+  Object.assign(run, changes, { updatedAt: new Date().toISOString() });
+  await saveRun(run);
+};
+
+const executeRun = async (run: StoredSimulation) => {
+  try {
+    await updateRun(run, { status: 'running' });
+    const { buildingParams, seismicParams, materialParams } = run.config;
+    const simulation = runSimulation(buildingParams, seismicParams, materialParams);
+    const result = createSimulationReport({ id: run.id, ...run.config }, simulation, run.includeHistory);
+    await updateRun(run, { status: 'completed', result });
+  } catch (error) {
+    await updateRun(run, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Simulation failed'
+    }).catch(() => undefined);
+  } finally {
+    activeRuns.delete(run.id);
+  }
+};
+
+/**
+ * Stores a new run and starts it once the current request has been answered
+ */
+export async function createSimulation(
+  scenario: SimulationScenario,
+  includeHistory = false
+): Promise<StoredSimulation> {
+  const now = new Date().toISOString();
+  const { name, buildingParams, seismicParams, materialParams } = scenario;
+  const run: StoredSimulation = {
+    id: randomUUID(),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    includeHistory,
+    config: { name, buildingParams, seismicParams, materialParams }
+  };
+
+  await saveRun(run);
+  activeRuns.add(run.id);
+  // The analysis is synchronous, so give the response a chance to go out first
+  setTimeout(() => void executeRun(run), 0);
+  return run;
+}
+
+/**
+ * A stored run, or null when there is no run with that id
+ */
+export async function getSimulation(id: string): Promise<StoredSimulation | null> {
+  if (!idPattern.test(id)) return null;
+
+  let run: StoredSimulation;
+  try {
+    run = JSON.parse(await readFile(getRunPath(id), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  // A run left unfinished by an earlier server process will never complete
+  if ((run.status === 'queued' || run.status === 'running') && !activeRuns.has(id)) {
+    await updateRun(run, { status: 'failed', error: 'Simulation was interrupted' });
+  }
+  return run;
+}
@@ -0,0 +1,185 @@
+/**
+ * Site Response
+ *
+ * Site classes A–E with representative soil properties, and the 1D response
+ * of the soil column: vertically propagating shear waves through a uniform,
+ * linear viscoelastic layer over elastic bedrock (Kramer, 1996, §7.2). The
+ * ground motion models give the motion at a rock outcrop; the transfer
+ * function of the layer turns it into the free-field motion at the surface
+ * that the building feels.
+ */
+
+import type { GroundMotion } from './groundMotion';
+import type { SiteClass } from './designCodes';
+
+/**
+ * Soil beneath the building, averaged over the soil column
+ */
+export type SiteSoil = {
+  siteClass: SiteClass;
+  shearWaveVelocity: number; // m/s
+  density: number; // kg/m³
+  thickness: number; // m, soil above bedrock (0 for rock sites)
+  dampingRatio: number; // material damping of the soil
+  poissonsRatio: number;
+};
+
+// Bedrock the ground motion models are defined on (B/C boundary)
+export const BEDROCK = { shearWaveVelocity: 760, density: 2400 };
+
+/**
+ * Representative soil of each site class (ASCE 7 Table 20.3-1 shear-wave
+ * velocity ranges)
+ */
+export const siteClasses: Record<SiteClass, { label: string; soil: SiteSoil }> = {
+  A: {
+    label: 'A - Hard rock',
+    soil: { siteClass: 'A', shearWaveVelocity: 1800, density: 2600, thickness: 0, dampingRatio: 0.01, poissonsRatio: 0.25 }
+  },
+  B: {
+    label: 'B - Rock',
+    soil: { siteClass: 'B', shearWaveVelocity: 1100, density: 2400, thickness: 0, dampingRatio: 0.02, poissonsRatio: 0.3 }
+  },
+  C: {
+    label: 'C - Very dense soil / soft rock',
+    soil: { siteClass: 'C', shearWaveVelocity: 500, density: 2000, thickness: 30, dampingRatio: 0.04, poissonsRatio: 0.33 }
+  },
+  D: {
+    label: 'D - Stiff soil',
+    soil: { siteClass: 'D', shearWaveVelocity: 260, density: 1900, thickness: 30, dampingRatio: 0.05, poissonsRatio: 0.35 }
+  },
+  E: {
+    label: 'E - Soft clay',
+    soil: { siteClass: 'E', shearWaveVelocity: 150, density: 1700, thickness: 30, dampingRatio: 0.07, poissonsRatio: 0.45 }
+  }
+};
+
+/**
+ * Default soil properties of a site class
+ */
+export function getDefaultSiteSoil(siteClass: SiteClass): SiteSoil {
+  return { ...siteClasses[siteClass].soil };
+}
+
+/**
+ * Fundamental period of the soil column, 4 H / Vs (s); 0 for rock sites
+ */
+export function getSitePeriod(soil: SiteSoil): number {
+  return soil.thickness > 0 ? (4 * soil.thickness) / soil.shearWaveVelocity : 0;
+}
+
+/**
+ * Complex transfer function from rock outcrop to the soil surface at a
+ * frequency (Hz): 1 / (cos k*H + i α* sin k*H), with the complex shear-wave
+ * velocity Vs* = Vs (1 + i ξ) and impedance ratio α* = ρs Vs* / (ρr Vr)
+ */
+export function getSiteTransferFunction(soil: SiteSoil, frequency: number): { re: number; im: number } {
+  if (soil.thickness <= 0 || frequency <= 0) return { re: 1, im: 0 };
+
+  // k* H = ω H / Vs* = ω H / (Vs (1 + i ξ)) = ω H (1 - i ξ) / (Vs (1 + ξ²))
+  const xi = soil.dampingRatio;
+  const scale = (2 * Math.PI * frequency * soil.thickness) / (soil.shearWaveVelocity * (1 + xi * xi));
+  const kr = scale;
+  const ki = -scale * xi;
+
+  // cos and sin of a complex argument
+  const cos = { re: Math.cos(kr) * Math.cosh(ki), im: -Math.sin(kr) * Math.sinh(ki) };
+  const sin = { re: Math.sin(kr) * Math.cosh(ki), im: Math.cos(kr) * Math.sinh(ki) };
+
+  // α* = ρs Vs (1 + i ξ) / (ρr Vr)
+  const alpha = (soil.density * soil.shearWaveVelocity) / (BEDROCK.density * BEDROCK.shearWaveVelocity);
+  const alphaRe = alpha;
+  const alphaIm = alpha * xi;
+
+  // Denominator cos + i α* sin
+  const iAlphaRe = -alphaIm;
+  const iAlphaIm = alphaRe;
+  const re = cos.re + iAlphaRe * sin.re - iAlphaIm * sin.im;
+  const im = cos.im + iAlphaRe * sin.im + iAlphaIm * sin.re;
+
+  const magnitude = re * re + im * im;
+  return { re: re / magnitude, im: -im / magnitude };
+}
+
+/**
+ * Amplification of the surface motion over the rock outcrop at a frequency (Hz)
+ */
+export function getSiteAmplification(soil: SiteSoil, frequency: number): number {
+  const { re, im } = getSiteTransferFunction(soil, frequency);
+  return Math.sqrt(re * re + im * im);
+}
+
+// In-place iterative radix-2 FFT; `inverse` gives the unscaled inverse transform
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+};
+
+/**
+ * Free-field surface motion of a site for a rock-outcrop record. The record
+ * is padded with zeros (so the response of the layer does not wrap around),
+ * transformed, multiplied by the transfer function and transformed back.
+ */
+export function applySiteResponse(motion: GroundMotion, soil: SiteSoil): GroundMotion {
+  if (soil.thickness <= 0) return motion;
+
+  const { dt, acceleration } = motion;
+  let size = 1;
+  while (size < 2 * acceleration.length) size <<= 1;
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  re.set(acceleration);
+  fft(re, im, false);
+
+  for (let k = 0; k <= size / 2; k++) {
+    const { re: hRe, im: hIm } = getSiteTransferFunction(soil, k / (size * dt));
+    const aRe = re[k] * hRe - im[k] * hIm;
+    const aIm = re[k] * hIm + im[k] * hRe;
+    re[k] = aRe;
+    im[k] = aIm;
+    // Negative frequencies hold the complex conjugate
+    if (k > 0 && k < size / 2) {
+      re[size - k] = aRe;
+      im[size - k] = -aIm;
+    }
+  }
+  fft(re, im, true);
+
+  const surface = Array.from({ length: acceleration.length }, (_, i) => re[i] / size);
+  return {
+    dt,
+    acceleration: surface,
+    peakGroundAcceleration: surface.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0)
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Soil-Structure Interaction
+ *
+ * Springs and dashpots of the foundation on the site's soil: horizontal sway
+ * and rocking in the direction of shaking, and vertical stiffness for the
+ * settlement. Shallow footings use the surface stiffnesses of a rigid
+ * rectangle (Pais & Kausel, 1988) with their embedment factors, and radiation
+ * dashpots ρ Vs A and ρ V_La I (Gazetas, 1991); footings under the column grid
+ * rock by pushing into the soil at their lever arms. Piles use single-pile
+ * head stiffnesses (Gazetas, 1991) summed over the group.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SiteSoil } from './siteResponse';
+
+// Column grid of the frame the footings sit under (matches the 3D layout)
+const FOOTING_GRID = { x: 3, z: 3 };
+
+// Plan size of an isolated footing and width of a strip footing (m)
+export const ISOLATED_FOOTING_SIZE = 2.5;
+export const STRIP_FOOTING_WIDTH = 1.5;
+
+// Piles: diameter (m), Young's modulus (Pa) and shortest length (m)
+const PILE_DIAMETER = 0.6;
+const PILE_MODULUS = 30e9;
+const MIN_PILE_LENGTH = 6;
+
+// Shear modulus at the strains of strong shaking, as a share of the
+// small-strain value (ASCE 7-16 Table 19.3-1)
+export const SHEAR_MODULUS_REDUCTION = 0.5;
+
+/**
+ * Foundation degrees of freedom added below the first story
+ */
+export type FoundationModel = {
+  type: string;
+  mass: number; // kg, foundation and ground-floor slab
+  rotationalInertia: number; // kg·m², about the horizontal axis across the shaking direction
+  swayStiffness: number; // N/m
+  swayDamping: number; // N·s/m
+  rockingStiffness: number; // N·m/rad
+  rockingDamping: number; // N·m·s/rad
+  verticalStiffness: number; // N/m
+  leverArm: number; // m, from the centre to the edge of the foundation in the shaking direction
+  period: number; // s, first-mode period of the building on its foundation
+};
+
+type Impedance = {
+  sway: number;
+  swayDamping: number;
+  rocking: number;
+  rockingDamping: number;
+  vertical: number;
+  verticalDamping: number;
+};
+
+// Rigid rectangular footing of plan `along` × `across` (m) in the shaking
+// direction, embedded `embedment` m, with soil shear modulus G
+const getRectangularFootingImpedance = (
+  soil: SiteSoil,
+  shearModulus: number,
+  along: number,
+  across: number,
+  embedment: number
+): Impedance => {
+  const nu = soil.poissonsRatio;
+  const G = shearModulus;
+  // Half-dimensions with L ≥ B
+  const L = Math.max(along, across) / 2;
+  const B = Math.min(along, across) / 2;
+  const ratio = L / B;
+  const depthRatio = embedment / B;
+  const shakingAlongLength = along >= across;
+
+  const vertical = ((G * B) / (1 - nu)) * (3.1 * Math.pow(ratio, 0.75) + 1.6) *
+    (1 + (0.25 + 0.25 / ratio) * Math.pow(depthRatio, 0.8));
+
+  const swaySurface = shakingAlongLength
+    ? ((G * B) / (2 - nu)) * (6.8 * Math.pow(ratio, 0.65) + 2.4)
+    : ((G * B) / (2 - nu)) * (6.8 * Math.pow(ratio, 0.65) + 0.8 * ratio + 1.6);
+  const sway = swaySurface * (1 + (0.33 + 1.34 / (1 + ratio)) * Math.pow(depthRatio, 0.8));
+
+  // Rocking about the axis across the shaking direction
+  const rocking = shakingAlongLength
+    ? ((G * B ** 3) / (1 - nu)) * (3.73 * Math.pow(ratio, 2.4) + 0.27) *
+      (1 + depthRatio + (1.6 / (0.35 + ratio ** 4)) * depthRatio ** 2)
+    : ((G * B ** 3) / (1 - nu)) * (3.2 * ratio + 0.8) *
+      (1 + depthRatio + (1.6 / (0.35 + ratio)) * depthRatio ** 2);
+
+  // Radiation dashpots with Lysmer's analog wave velocity for compression
+  const area = along * across;
+  const secondMoment = (across * along ** 3) / 12;
+  const analogVelocity = (3.4 * soil.shearWaveVelocity) / (Math.PI * (1 - nu));
+
+  return {
+    sway,
+    swayDamping: soil.density * soil.shearWaveVelocity * area,
+    rocking,
+    rockingDamping: soil.density * analogVelocity * secondMoment,
+    vertical,
+    verticalDamping: soil.density * analogVelocity * area
+  };
+};
+
+// Head impedance of a single fixed-head pile of length L
+const getPileImpedance = (soil: SiteSoil, shearModulus: number, length: number): Impedance => {
+  const d = PILE_DIAMETER;
+  const soilModulus = 2 * shearModulus * (1 + soil.poissonsRatio);
+  const stiffnessRatio = PILE_MODULUS / soilModulus;
+  const slenderness = length / d;
+  const analogVelocity = (3.4 * soil.shearWaveVelocity) / (Math.PI * (1 - soil.poissonsRatio));
+
+  return {
+    sway: 1.08 * d * soilModulus * Math.pow(stiffnessRatio, 0.21),
+    swayDamping: 2 * soil.density * analogVelocity * d * length,
+    // Fixed heads are tied into the cap, which rocks on the axial springs
+    rocking: 0,
+    rockingDamping: 0,
+    vertical: 1.9 * soilModulus * d * Math.pow(slenderness, 2 / 3) * Math.pow(stiffnessRatio, -Math.pow(slenderness, -2 / 3)),
+    verticalDamping: soil.density * soil.shearWaveVelocity * Math.PI * d * length
+  };
+};
+
+// A group of identical supports at lever arms x from the rocking axis: sway
+// adds up, and rocking comes from the vertical springs at their lever arms
+const combineSupports = (support: Impedance, leverArms: number[]): Impedance => ({
+  sway: support.sway * leverArms.length,
+  swayDamping: support.swayDamping * leverArms.length,
+  rocking: leverArms.reduce((sum, x) => sum + support.rocking + support.vertical * x * x, 0),
+  rockingDamping: leverArms.reduce((sum, x) => sum + support.rockingDamping + support.verticalDamping * x * x, 0),
+  vertical: support.vertical * leverArms.length,
+  verticalDamping: support.verticalDamping * leverArms.length
+});
+
+/**
+ * Springs, dashpots and inertia of the building's foundation on a site, for
+ * a building of the given floor mass, total mass and fixed-base period.
+ * Dashpots also carry the soil's material damping, 2 ξ K / ω at the
+ * fixed-base frequency.
+ */
+export function buildFoundationModel(
+  buildingParams: BuildingParams,
+  soil: SiteSoil,
+  { floorMass, totalMass, fixedBasePeriod }: { floorMass: number; totalMass: number; fixedBasePeriod: number }
+): FoundationModel {
+  const { width, depth } = buildingParams;
+  const foundation = buildingParams.structuralComponents?.foundation;
+  const type: string = foundation?.type ?? 'isolated';
+  const embedment = Math.max(0, foundation?.depth ?? 0);
+  const shearModulus = SHEAR_MODULUS_REDUCTION * soil.density * soil.shearWaveVelocity ** 2;
+
+  // Lever arms of the grid lines across the shaking direction
+  const gridX = Array.from({ length: FOOTING_GRID.x }, (_, i) => -width / 2 + (i * width) / (FOOTING_GRID.x - 1));
+  const columnArms = gridX.flatMap(x => Array.from({ length: FOOTING_GRID.z }, () => x));
+
+  let impedance: Impedance;
+  switch (type) {
+    case 'raft':
+      impedance = getRectangularFootingImpedance(soil, shearModulus, width, depth, embedment);
+      break;
+    case 'strip':
+      impedance = combineSupports(
+        getRectangularFootingImpedance(soil, shearModulus, STRIP_FOOTING_WIDTH, depth, embedment),
+        gridX
+      );
+      break;
+    case 'pile':
+      impedance = combineSupports(getPileImpedance(soil, shearModulus, Math.max(MIN_PILE_LENGTH, embedment)), columnArms);
+      break;
+    case 'isolated':
+    default:
+      impedance = combineSupports(
+        getRectangularFootingImpedance(soil, shearModulus, ISOLATED_FOOTING_SIZE, ISOLATED_FOOTING_SIZE, embedment),
+        columnArms
+      );
+      break;
+  }
+
+  const omega = (2 * Math.PI) / fixedBasePeriod;
+  const materialDamping = (stiffness: number) => (2 * soil.dampingRatio * stiffness) / omega;
+
+  // Period lengthening (ASCE 7-16 Eq. 19.2-3): the first mode as a single
+  // oscillator of 70% of the mass at 70% of the height
+  const effectiveStiffness = 0.7 * totalMass * omega * omega;
+  const effectiveHeight = 0.7 * buildingParams.height;
+  const period = fixedBasePeriod * Math.sqrt(
+    1 + effectiveStiffness / impedance.sway + (effectiveStiffness * effectiveHeight ** 2) / impedance.rocking
+  );
+
+  return {
+    type,
+    mass: floorMass,
+    rotationalInertia: (floorMass * width * width) / 12,
+    swayStiffness: impedance.sway,
+    swayDamping: impedance.swayDamping + materialDamping(impedance.sway),
+    rockingStiffness: impedance.rocking,
+    rockingDamping: impedance.rockingDamping + materialDamping(impedance.rocking),
+    verticalStiffness: impedance.vertical,
+    leverArm: width / 2,
+    period
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Structural Analysis Worker
+ *
+ * Runs the time-history analysis off the main thread and streams progress
+ * back while it integrates. Each worker serves one request and is then
+ * terminated by the client.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { AnalysisProgress, StructuralResponse, analyzeStructure } from './structuralSolver';
+
+export type AnalysisRequest = {
+  buildingParams: BuildingParams;
+  seismicParams: SeismicParams;
+  materialsParams: StructuralMaterialsParams;
+};
+
+export type AnalysisMessage =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; response: StructuralResponse }
+  | { type: 'error'; message: string };
+
+// The parts of the dedicated worker scope used here
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (message: AnalysisMessage, transfer?: Transferable[]) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+// History buffers are moved to the main thread rather than copied
+const getTransferables = (response: StructuralResponse): Transferable[] => [
+  ...response.displacement,
+  ...response.velocity,
+  ...response.acceleration,
+  ...response.drift,
+  ...response.stories.flatMap(story => [story.shear, story.residualDrift, story.dissipatedEnergy]),
+  response.baseShear,
+  response.runningPeakDrift,
+  response.runningPeakRoofDisplacement,
+  ...(response.foundation ? [response.foundation.sway, response.foundation.rocking] : []),
+  ...(response.baseDisplacement ? [response.baseDisplacement] : []),
+  ...response.devices.flatMap(device => [device.displacement, device.force])
+].map(history => history.buffer);
+
+scope.onmessage = event => {
+  const { buildingParams, seismicParams, materialsParams } = event.data;
+  try {
+    const response = analyzeStructure(buildingParams, seismicParams, materialsParams, progress => {
+      scope.postMessage({ type: 'progress', progress });
+    });
+    scope.postMessage({ type: 'result', response }, getTransferables(response));
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Structural analysis failed'
+    });
+  }
+};
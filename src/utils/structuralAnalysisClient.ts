@@ -0,0 +1,87 @@
+/**
+ * Structural Analysis Client
+ *
+ * Main-thread side of the analysis worker. Results are stored in the solver's
+ * response cache, so every component that later asks for the same scenario
+ * gets the worker's result without solving it again.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { defaultMaterialsParams } from './structuralMaterials';
+import {
+  AnalysisProgress,
+  StructuralResponse,
+  analyzeStructure,
+  cacheResponse,
+  getCachedResponse
+} from './structuralSolver';
+import type { AnalysisMessage, AnalysisRequest } from './structuralAnalysis.worker';
+
+export type AnalysisOptions = {
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal; // aborting terminates the worker and rejects the promise
+};
+
+/**
+ * Runs the time-history analysis of a scenario in a Web Worker, falling back
+ * to the main thread where workers are not available
+ */
+export function runAnalysisInWorker(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  { onProgress, signal }: AnalysisOptions = {}
+): Promise<StructuralResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Analysis cancelled'));
+      return;
+    }
+
+    const cached = getCachedResponse(buildingParams, seismicParams, materialsParams);
+    if (cached) {
+      resolve(cached);
+      return;
+    }
+
+    if (typeof Worker === 'undefined') {
+      resolve(analyzeStructure(buildingParams, seismicParams, materialsParams, onProgress));
+      return;
+    }
+
+    const worker = new Worker(new URL('./structuralAnalysis.worker.ts', import.meta.url));
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new Error('Analysis cancelled'));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<AnalysisMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        cacheResponse(buildingParams, seismicParams, materialsParams, message.response);
+        resolve(message.response);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    const request: AnalysisRequest = { buildingParams, seismicParams, materialsParams };
+    worker.postMessage(request);
+  });
+}
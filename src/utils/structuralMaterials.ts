@@ -0,0 +1,72 @@
+/**
+ * Structural Material Defaults
+ *
+ * Default material properties, kept apart from the materials form so the
+ * analysis can use them on the server as well as in the browser.
+ */
+
+import type { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { defaultSeismicDesignCriteria } from './designCodes';
+
+/**
+ * Typical properties of each material, used until the user sets their own
+ */
+export const defaultMaterialsParams: StructuralMaterialsParams = {
+  concrete: {
+    compressiveStrength: 30,
+    tensileStrength: 3,
+    elasticModulus: 25,
+    reinforcementType: 'standard',
+    // Default values for enhanced parameters
+    structuralSystemType: 'frame',
+    dampingRatio: 5,
+    poissonsRatio: 0.2,
+    thermalExpansionCoeff: 10,
+    creepCoefficient: 2.0,
+    shrinkageStrain: 0.5,
+    codeCompliance: 'ACI-318'
+  },
+  steel: {
+    yieldStrength: 350,
+    tensileStrength: 450,
+    elasticModulus: 200,
+    connectionType: 'welded',
+    // Default values for enhanced parameters
+    structuralSystemType: 'moment-frame',
+    dampingRatio: 2,
+    poissonsRatio: 0.3,
+    thermalExpansionCoeff: 12,
+    fatigueCategory: 'high-cycle',
+    fractureClass: 'B',
+    codeCompliance: 'AISC-360'
+  },
+  wood: {
+    bendingStrength: 20,
+    compressionStrength: 15,
+    elasticModulus: 10,
+    gradeType: 'structural',
+    // Default values for enhanced parameters
+    structuralSystemType: 'light-frame',
+    dampingRatio: 7,
+    poissonsRatio: 0.25,
+    moistureContent: 12,
+    shrinkageCoefficient: 0.2,
+    durabilityClass: '2',
+    codeCompliance: 'NDS'
+  },
+  activeMaterial: 'concrete',
+  seismicDesign: defaultSeismicDesignCriteria
+};
+
+/**
+ * Strength (MPa) that limits the columns of a material: compressive strength
+ * of concrete, yield strength of steel and bending strength of wood
+ */
+export function getMaterialStrength(
+  materialType: 'concrete' | 'steel' | 'wood',
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams
+): number {
+  if (materialType === 'steel') return materialsParams.steel.yieldStrength;
+  if (materialType === 'wood') return materialsParams.wood.bendingStrength;
+  return materialsParams.concrete.compressiveStrength;
+}
@@ -0,0 +1,1123 @@
+/**
+ * Structural Solver
+ *
+ * Lumped-mass shear-building model (one horizontal degree of freedom per
+ * floor) integrated with the Newmark-beta method over a ground motion record.
+ * On a site with soil, the foundation sways and rocks on its springs and
+ * dashpots as two more degrees of freedom. Base isolators, story dampers and
+ * a roof tuned mass damper join the same coupled system. Stories yield and
+ * cycle on the hysteresis law of their material, so the response carries
+ * residual drift, ductility demand and dissipated energy. Every results panel
+ * and visualizer reads its response from here.
+ */
+
+import { BuildingParams } from '../components/BuildingParameterForm';
+import { SeismicParams } from '../components/SeismicParameterForm';
+import { StructuralMaterialsParams } from '../components/StructuralMaterialsForm';
+import { defaultMaterialsParams, getMaterialStrength } from './structuralMaterials';
+import { StoryIrregularity, getFloorElevations, getFloorProperties, getVerticalIrregularities } from './buildingGeometry';
+import { GRAVITY, GroundMotion, getGroundMotion } from './groundMotion';
+import { computeNaturalPeriods } from './modalAnalysis';
+import { SiteSoil } from './siteResponse';
+import { FoundationModel, buildFoundationModel } from './soilStructureInteraction';
+import { DeviceModel, buildDeviceModel, getDamperForce, getIsolatorForce } from './protectiveDevices';
+import {
+  HysteresisLaw,
+  HysteresisRule,
+  createHysteresisState,
+  getDissipatedEnergy,
+  getHysteresisForce,
+  getHysteresisRule,
+  getResidualDeformation
+} from './hysteresis';
+
+// Column grid shared with the 3D building layout
+export const COLUMN_GRID = { x: 3, z: 3 };
+
+// Newmark average acceleration method (unconditionally stable)
+const NEWMARK_GAMMA = 0.5;
+const NEWMARK_BETA = 0.25;
+
+// Integration steps between progress reports
+const PROGRESS_INTERVAL = 250;
+
+// Newton-Raphson iterations for hysteretic stories and nonlinear devices: converged
+// when the largest displacement correction is below the tolerance (m)
+const NEWTON_TOLERANCE = 1e-8;
+const MAX_NEWTON_ITERATIONS = 20;
+
+export type ShearBuildingModel = {
+  floors: number;
+  storyHeights: number[]; // m, story i sits below floor i
+  floorElevations: number[]; // m, elevation of each floor slab
+  masses: number[]; // kg, lumped at each floor
+  storyStiffness: number[]; // N/m, lateral stiffness of each story
+  storyStrength: number[]; // N, story shear at which the columns yield
+  irregularities: StoryIrregularity[]; // soft and weak stories, ground story first
+  hysteresis: HysteresisRule | null; // cyclic law of the stories, null when they stay elastic
+  dampingRatio: number; // fraction of critical damping
+  fundamentalPeriod: number; // s, first-mode period on a fixed base from the eigenvalue analysis
+  collapseDriftRatio: number; // inter-story drift ratio treated as collapse
+  foundation: FoundationModel | null; // springs and dashpots of the soil, null on a fixed base
+  devices: DeviceModel | null; // base isolation and supplemental damping, null without devices
+};
+
+/**
+ * Force and displacement history of one protective device
+ */
+export type DeviceResponse = {
+  id: string;
+  kind: 'isolator' | 'viscous-damper' | 'tuned-mass-damper';
+  label: string;
+  story: number | null; // 0-based story of a damper
+  displacement: Float64Array; // m: bearing displacement, damper stroke, or mass damper travel relative to the roof
+  force: Float64Array; // N
+  peaks: {
+    displacement: number; // m
+    force: number; // N
+  };
+};
+
+type DeviceHistory = Omit<DeviceResponse, 'peaks'>;
+
+/**
+ * Shear and hysteresis of one story's columns
+ */
+export type StoryResponse = {
+  shear: Float64Array; // N
+  residualDrift: Float64Array; // drift ratio the story would keep if unloaded at each step
+  dissipatedEnergy: Float64Array; // J, cumulative
+  yieldShear: number; // N
+  yieldDriftRatio: number;
+  peaks: {
+    ductility: number; // peak drift over yield drift
+    residualDrift: number; // magnitude at the end of the record
+    dissipatedEnergy: number; // J, over the record
+  };
+};
+
+type StoryHistory = Pick<StoryResponse, 'shear' | 'residualDrift' | 'dissipatedEnergy'>;
+
+export type StructuralResponse = {
+  model: ShearBuildingModel;
+  groundMotion: GroundMotion;
+  dt: number;
+  steps: number;
+  displacement: Float64Array[]; // per floor, relative to the ground (m)
+  velocity: Float64Array[]; // per floor, relative to the ground (m/s)
+  acceleration: Float64Array[]; // per floor, absolute (m/s²)
+  drift: Float64Array[]; // per story, inter-story drift ratio
+  stories: StoryResponse[];
+  baseShear: Float64Array; // N
+  runningPeakDrift: Float64Array; // max |drift| over all stories up to each step
+  runningPeakRoofDisplacement: Float64Array; // max |roof displacement| up to each step
+  peaks: {
+    roofDisplacement: number; // m
+    interStoryDriftRatio: number;
+    criticalStory: number; // 0-based story index
+    baseShear: number; // N
+    floorAcceleration: number; // m/s²
+  };
+  collapseTime: number | null; // s, first time drift exceeds the collapse limit
+  foundation: {
+    sway: Float64Array; // m, horizontal displacement relative to the free field
+    rocking: Float64Array; // rad
+    staticSettlement: number; // m, under the weight of the building
+    peaks: {
+      sway: number; // m
+      rocking: number; // rad
+      edgeSettlement: number; // m, static settlement plus rocking at the edge
+    };
+  } | null;
+  baseDisplacement: Float64Array | null; // m, ground floor relative to the free field; null on a fixed base
+  devices: DeviceResponse[];
+};
+
+export type AnalysisProgress = {
+  step: number; // last integrated step
+  steps: number;
+  time: number; // s
+  roofDisplacement: number[]; // m, roof history since the previous report
+};
+
+// Material-dependent model properties
+const getMaterialModelProperties = (
+  materialType: BuildingParams['materialType'],
+  materialsParams: StructuralMaterialsParams
+) => {
+  switch (materialType) {
+    case 'steel': {
+      const systemFactors = {
+        'moment-frame': 1.0,
+        'special-moment-frame': 1.1,
+        'braced-frame': 2.5,
+        'eccentrically-braced': 2.0
+      };
+      return {
+        elasticModulus: materialsParams.steel.elasticModulus * 1e9,
+        sectionFactor: 0.08, // open sections carry a fraction of the solid-square inertia
+        systemFactor: systemFactors[materialsParams.steel.structuralSystemType] ?? 1.0,
+        floorMassPerArea: 650,
+        collapseDriftRatio: 0.05
+      };
+    }
+    case 'wood': {
+      const systemFactors = {
+        'light-frame': 2.5,
+        'post-and-beam': 1.0,
+        'heavy-timber': 1.3,
+        'cross-laminated': 3.0
+      };
+      return {
+        elasticModulus: materialsParams.wood.elasticModulus * 1e9,
+        sectionFactor: 1.0,
+        systemFactor: systemFactors[materialsParams.wood.structuralSystemType] ?? 1.0,
+        floorMassPerArea: 250,
+        collapseDriftRatio: 0.03
+      };
+    }
+    case 'concrete':
+    default: {
+      const systemFactors = {
+        'frame': 1.0,
+        'shear-wall': 3.0,
+        'dual-system': 2.2,
+        'tube': 2.8
+      };
+      return {
+        elasticModulus: materialsParams.concrete.elasticModulus * 1e9,
+        sectionFactor: 0.7, // cracked section
+        systemFactor: systemFactors[materialsParams.concrete.structuralSystemType] ?? 1.0,
+        floorMassPerArea: 1000,
+        collapseDriftRatio: 0.04
+      };
+    }
+  }
+};
+
+// End fixity of a column under sway, from its connection type
+const getColumnFixityCoefficient = (connectionType: string | undefined) => {
+  switch (connectionType) {
+    case 'pinned':
+      return 3;
+    case 'semi-rigid':
+      return 6;
+    case 'rigid':
+    default:
+      return 12;
+  }
+};
+
+/**
+ * Builds the lumped-mass shear-building model from the building and
+ * material parameters, on the foundation's springs when a site soil is given
+ * and with the building's protective devices. Stories follow the hysteresis
+ * chosen with the materials, or their material's own.
+ */
+export function buildShearBuildingModel(
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  soil?: SiteSoil | null
+): ShearBuildingModel {
+  const { width, depth, stiffness, dampingRatio, materialType } = buildingParams;
+  const floorProperties = getFloorProperties(buildingParams);
+  const floors = floorProperties.length;
+
+  const material = getMaterialModelProperties(materialType, materialsParams);
+  const columns = buildingParams.structuralComponents?.columns;
+  const columnWidth = columns?.width ?? 0.5;
+  const secondMoment = (Math.pow(columnWidth, 4) / 12) * material.sectionFactor;
+  const fixity = getColumnFixityCoefficient(columns?.connectionType);
+  const strength = getMaterialStrength(materialType, materialsParams) * 1e6;
+
+  const storyHeights = floorProperties.map(floor => floor.height);
+  const floorElevations = getFloorElevations(floorProperties);
+  const masses = floorProperties.map(floor => floor.width * floor.depth * material.floorMassPerArea * floor.massFactor);
+
+  // Lateral stiffness of one column, fixed against rotation at both ends. The
+  // 1-10 stiffness rating scales the bare frame to account for walls, infill
+  // and bracing that the column grid alone does not capture, and each story's
+  // stiffness factor scales it again (an open ground story loses its infill)
+  const storyStiffness = floorProperties.map(floor => {
+    const columnStiffness = (fixity * material.elasticModulus * secondMoment) / Math.pow(floor.height, 3);
+    return columnStiffness * COLUMN_GRID.x * COLUMN_GRID.z * material.systemFactor * stiffness * floor.stiffnessFactor;
+  });
+
+  // A story yields with its columns, when their extreme fibre reaches the
+  // material strength: at a drift ratio of 4 h σy / (fixity E b), inverting
+  // getColumnStress
+  const storyStrength = floorProperties.map((floor, i) => {
+    const yieldDriftRatio = (4 * floor.height * strength) / (fixity * material.elasticModulus * columnWidth);
+    return storyStiffness[i] * yieldDriftRatio * floor.height;
+  });
+
+  // The ground-floor slab (over the foundation or the bearings) covers the footprint
+  const floorMass = width * depth * material.floorMassPerArea;
+  const fundamentalPeriod = computeNaturalPeriods(masses, storyStiffness)[0];
+  const totalMass = masses.reduce((sum, mass) => sum + mass, 0);
+
+  return {
+    floors,
+    storyHeights,
+    floorElevations,
+    masses,
+    storyStiffness,
+    storyStrength,
+    irregularities: getVerticalIrregularities(storyStiffness, storyStrength),
+    hysteresis: getHysteresisRule(materialType, materialsParams.hysteresis),
+    dampingRatio,
+    fundamentalPeriod,
+    collapseDriftRatio: material.collapseDriftRatio,
+    foundation: soil
+      ? buildFoundationModel(buildingParams, soil, {
+        floorMass,
+        totalMass,
+        fixedBasePeriod: fundamentalPeriod
+      })
+      : null,
+    devices: buildDeviceModel(buildingParams.protectiveDevices, { floorMass, totalMass, fundamentalPeriod })
+  };
+}
+
+/**
+ * Peak bending stress (MPa) in the columns of a story (0-based) at an
+ * inter-story drift ratio: a column bent in double curvature by the story drift
+ */
+export function getColumnStress(
+  buildingParams: BuildingParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  driftRatio: number,
+  story = 0
+): number {
+  const floors = getFloorProperties(buildingParams);
+  const storyHeight = floors[Math.min(story, floors.length - 1)].height;
+  const columns = buildingParams.structuralComponents?.columns;
+  const columnWidth = columns?.width ?? 0.5;
+  const { elasticModulus } = getMaterialModelProperties(buildingParams.materialType, materialsParams);
+
+  // M = k δ h / 2 with k = fixity E I / h³, and σ = M (b / 2) / I
+  const fixity = getColumnFixityCoefficient(columns?.connectionType);
+  return (fixity * elasticModulus * columnWidth * Math.abs(driftRatio)) / (4 * storyHeight) / 1e6;
+}
+
+// Newmark integration constants for a time step
+const getNewmarkConstants = (dt: number) => ({
+  a0: 1 / (NEWMARK_BETA * dt * dt),
+  a1: NEWMARK_GAMMA / (NEWMARK_BETA * dt),
+  a2: 1 / (NEWMARK_BETA * dt),
+  a3: 1 / (2 * NEWMARK_BETA) - 1,
+  a4: NEWMARK_GAMMA / NEWMARK_BETA - 1,
+  a5: dt * (NEWMARK_GAMMA / (2 * NEWMARK_BETA) - 1)
+});
+
+// Tridiagonal stiffness and Rayleigh damping matrices of the stories
+// (diagonal and super-diagonal), damping anchored at ω1 and 3 ω1
+const getStoryMatrices = (model: ShearBuildingModel) => {
+  const { floors: n, masses, storyStiffness, dampingRatio } = model;
+
+  const kDiag = new Float64Array(n);
+  const kOff = new Float64Array(Math.max(n - 1, 0));
+  for (let i = 0; i < n; i++) {
+    kDiag[i] = storyStiffness[i] + (i + 1 < n ? storyStiffness[i + 1] : 0);
+    if (i + 1 < n) kOff[i] = -storyStiffness[i + 1];
+  }
+
+  const omega1 = (2 * Math.PI) / model.fundamentalPeriod;
+  const omega2 = 3 * omega1;
+  const alpha = (2 * dampingRatio * omega1 * omega2) / (omega1 + omega2);
+  const betaDamping = (2 * dampingRatio) / (omega1 + omega2);
+
+  const cDiag = new Float64Array(n);
+  const cOff = new Float64Array(kOff.length);
+  for (let i = 0; i < n; i++) cDiag[i] = alpha * masses[i] + betaDamping * kDiag[i];
+  for (let i = 0; i < kOff.length; i++) cOff[i] = betaDamping * kOff[i];
+
+  return { kDiag, kOff, cDiag, cOff };
+};
+
+// Story springs at trial floor deformations relative to the base, from the
+// hysteresis state committed at the last converged step; linear springs when
+// the model has no hysteresis rule
+const createStorySprings = (model: ShearBuildingModel, steps: number) => {
+  const { floors: n, storyStiffness, storyStrength, storyHeights, hysteresis } = model;
+  const laws: HysteresisLaw[] | null = hysteresis
+    ? storyStiffness.map((elasticStiffness, story) => ({
+      ...hysteresis,
+      elasticStiffness,
+      yieldForce: storyStrength[story]
+    }))
+    : null;
+  const committed = laws ? laws.map(createHysteresisState) : [];
+  const trial = [...committed];
+  const force = new Float64Array(n);
+  const tangent = Float64Array.from(storyStiffness);
+  const histories: StoryHistory[] = Array.from({ length: n }, () => ({
+    shear: new Float64Array(steps),
+    residualDrift: new Float64Array(steps),
+    dissipatedEnergy: new Float64Array(steps)
+  }));
+
+  return {
+    nonlinear: laws !== null,
+    force, // N, per story
+    tangent, // N/m, per story
+    histories,
+    evaluate: (u: Float64Array) => {
+      for (let story = 0; story < n; story++) {
+        const deformation = u[story] - (story > 0 ? u[story - 1] : 0);
+        if (laws) {
+          const response = getHysteresisForce(laws[story], deformation, committed[story]);
+          force[story] = response.force;
+          tangent[story] = response.tangent;
+          trial[story] = response.state;
+        } else {
+          force[story] = storyStiffness[story] * deformation;
+        }
+      }
+    },
+    // Commits the last evaluated state and records it
+    commit: (step: number) => {
+      for (let story = 0; story < n; story++) {
+        const history = histories[story];
+        history.shear[step] = force[story];
+        if (!laws) continue;
+        committed[story] = trial[story];
+        history.residualDrift[step] = getResidualDeformation(laws[story], committed[story]) / storyHeights[story];
+        history.dissipatedEnergy[step] = getDissipatedEnergy(laws[story], committed[story]);
+      }
+    }
+  };
+};
+
+type IntegratedHistories = {
+  displacement: Float64Array[]; // per floor, relative to the ground
+  velocity: Float64Array[];
+  relativeAcceleration: Float64Array[];
+  deformation: Float64Array[]; // per floor, relative to the foundation
+  stories: StoryHistory[];
+  sway?: Float64Array;
+  rocking?: Float64Array;
+  baseDisplacement?: Float64Array;
+  devices?: DeviceHistory[];
+};
+
+type ProgressReporter = (step: number, displacement: Float64Array[]) => void;
+
+// Fixed base: tridiagonal system solved with the Thomas algorithm, iterated
+// with Newton-Raphson when the stories are hysteretic
+const integrateFixedBase = (
+  model: ShearBuildingModel,
+  groundMotion: GroundMotion,
+  reportProgress: ProgressReporter
+): IntegratedHistories => {
+  const { floors: n, masses } = model;
+  const { dt, acceleration: ground } = groundMotion;
+  const steps = ground.length;
+  const { cDiag, cOff } = getStoryMatrices(model);
+  const { a0, a1, a2, a3, a4, a5 } = getNewmarkConstants(dt);
+  const springs = createStorySprings(model, steps);
+
+  // Thomas factorization of the effective tangent stiffness
+  const effOff = new Float64Array(Math.max(n - 1, 0));
+  const pivots = new Float64Array(n);
+  const factorize = () => {
+    const { tangent } = springs;
+    for (let i = 0; i < n; i++) {
+      const diagonal = tangent[i] + (i + 1 < n ? tangent[i + 1] : 0) + a1 * cDiag[i] + a0 * masses[i];
+      if (i + 1 < n) effOff[i] = -tangent[i + 1] + a1 * cOff[i];
+      pivots[i] = i > 0 ? diagonal - (effOff[i - 1] * effOff[i - 1]) / pivots[i - 1] : diagonal;
+    }
+  };
+
+  const displacement = Array.from({ length: n }, () => new Float64Array(steps));
+  const velocity = Array.from({ length: n }, () => new Float64Array(steps));
+  const relativeAcceleration = Array.from({ length: n }, () => new Float64Array(steps));
+
+  // Initial conditions: at rest, so ü(0) = -üg(0)
+  for (let i = 0; i < n; i++) relativeAcceleration[i][0] = -ground[0];
+
+  const u = new Float64Array(n);
+  const v = new Float64Array(n);
+  const a = new Float64Array(n);
+  const uTrial = new Float64Array(n);
+  const vTrial = new Float64Array(n);
+  const aTrial = new Float64Array(n);
+  const residual = new Float64Array(n);
+  for (let i = 0; i < n; i++) a[i] = -ground[0];
+
+  if (!springs.nonlinear) factorize();
+
+  for (let step = 1; step < steps; step++) {
+    uTrial.set(u);
+    for (let iteration = 0; ; iteration++) {
+      for (let i = 0; i < n; i++) {
+        const increment = uTrial[i] - u[i];
+        aTrial[i] = a0 * increment - a2 * v[i] - a3 * a[i];
+        vTrial[i] = a1 * increment - a4 * v[i] - a5 * a[i];
+      }
+      springs.evaluate(uTrial);
+      if (springs.nonlinear) factorize();
+
+      // Out-of-balance force at the trial state
+      for (let i = 0; i < n; i++) {
+        let damping = cDiag[i] * vTrial[i];
+        if (i > 0) damping += cOff[i - 1] * vTrial[i - 1];
+        if (i + 1 < n) damping += cOff[i] * vTrial[i + 1];
+        const storyForces = springs.force[i] - (i + 1 < n ? springs.force[i + 1] : 0);
+        residual[i] = -masses[i] * (ground[step] + aTrial[i]) - damping - storyForces;
+      }
+
+      // Forward elimination and back substitution
+      for (let i = 1; i < n; i++) {
+        residual[i] -= (effOff[i - 1] / pivots[i - 1]) * residual[i - 1];
+      }
+      residual[n - 1] /= pivots[n - 1];
+      for (let i = n - 2; i >= 0; i--) {
+        residual[i] = (residual[i] - effOff[i] * residual[i + 1]) / pivots[i];
+      }
+
+      let largestCorrection = 0;
+      for (let i = 0; i < n; i++) {
+        uTrial[i] += residual[i];
+        largestCorrection = Math.max(largestCorrection, Math.abs(residual[i]));
+      }
+      if (!springs.nonlinear || largestCorrection < NEWTON_TOLERANCE || iteration + 1 >= MAX_NEWTON_ITERATIONS) break;
+    }
+
+    // Update velocities and accelerations, and commit the story state
+    for (let i = 0; i < n; i++) {
+      const aNext = a0 * (uTrial[i] - u[i]) - a2 * v[i] - a3 * a[i];
+      v[i] = v[i] + dt * ((1 - NEWMARK_GAMMA) * a[i] + NEWMARK_GAMMA * aNext);
+      a[i] = aNext;
+      u[i] = uTrial[i];
+
+      displacement[i][step] = u[i];
+      velocity[i][step] = v[i];
+      relativeAcceleration[i][step] = a[i];
+    }
+    springs.evaluate(u);
+    springs.commit(step);
+
+    reportProgress(step, displacement);
+  }
+
+  return {
+    displacement,
+    velocity,
+    relativeAcceleration,
+    deformation: displacement,
+    stories: springs.histories
+  };
+};
+
+// Coupled base: the story deformations u, plus as needed the bearings'
+// displacement ub above the foundation, the foundation's sway u0 relative to
+// the free field and its rocking θ, and the tuned mass damper's displacement
+// ut relative to the roof. Floor i moves u_i + ub + u0 + z_i θ; each mass adds
+// m s sᵀ to M through the vector s of the degrees of freedom that carry it,
+// while springs and dashpots stay on their own degrees of freedom. The dense
+// system is small and solved with Cholesky; hysteretic stories, the bearings
+// and nonlinear dampers are iterated with Newton-Raphson within each step.
+const integrateCoupled = (
+  model: ShearBuildingModel,
+  groundMotion: GroundMotion,
+  reportProgress: ProgressReporter
+): IntegratedHistories => {
+  const { floors: n, masses, floorElevations, foundation } = model;
+  const isolator = model.devices?.isolator ?? null;
+  const dampers = model.devices?.dampers ?? null;
+  const tunedMassDamper = model.devices?.tunedMassDamper ?? null;
+  const { dt, acceleration: ground } = groundMotion;
+  const steps = ground.length;
+  const { cDiag, cOff } = getStoryMatrices(model);
+  const { a0, a1, a2, a3, a4, a5 } = getNewmarkConstants(dt);
+  const springs = createStorySprings(model, steps);
+
+  let size = n;
+  const isolationDof = isolator ? size++ : -1;
+  const swayDof = foundation ? size++ : -1;
+  const rockingDof = foundation ? size++ : -1;
+  const tunedMassDof = tunedMassDamper ? size++ : -1;
+  const nonlinear = springs.nonlinear || isolator !== null || (dampers !== null && dampers.exponent !== 1);
+
+  // Row-major matrices; the story springs are added at the trial state
+  const M = new Float64Array(size * size);
+  const C = new Float64Array(size * size);
+  const K = new Float64Array(size * size);
+  const at = (row: number, col: number) => row * size + col;
+
+  // Degrees of freedom carrying a point at elevation z on the base slab
+  const getBaseShape = (z: number) => {
+    const shape = new Float64Array(size);
+    if (isolator) shape[isolationDof] = 1;
+    if (foundation) {
+      shape[swayDof] = 1;
+      shape[rockingDof] = z;
+    }
+    return shape;
+  };
+  const addMass = (mass: number, shape: Float64Array) => {
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) M[at(i, j)] += mass * shape[i] * shape[j];
+    }
+  };
+
+  for (let i = 0; i < n; i++) {
+    C[at(i, i)] = cDiag[i];
+    if (i + 1 < n) C[at(i, i + 1)] = C[at(i + 1, i)] = cOff[i];
+    const shape = getBaseShape(floorElevations[i]);
+    shape[i] = 1;
+    addMass(masses[i], shape);
+  }
+  if (isolator) addMass(isolator.mass, getBaseShape(0));
+  if (foundation) {
+    const shape = new Float64Array(size);
+    shape[swayDof] = 1;
+    addMass(foundation.mass, shape);
+    M[at(rockingDof, rockingDof)] += foundation.rotationalInertia;
+    K[at(swayDof, swayDof)] = foundation.swayStiffness;
+    C[at(swayDof, swayDof)] = foundation.swayDamping;
+    K[at(rockingDof, rockingDof)] = foundation.rockingStiffness;
+    C[at(rockingDof, rockingDof)] = foundation.rockingDamping;
+  }
+  if (tunedMassDamper) {
+    const shape = getBaseShape(floorElevations[n - 1]);
+    shape[n - 1] = 1;
+    shape[tunedMassDof] = 1;
+    addMass(tunedMassDamper.mass, shape);
+    K[at(tunedMassDof, tunedMassDof)] = tunedMassDamper.stiffness;
+    C[at(tunedMassDof, tunedMassDof)] = tunedMassDamper.damping;
+  }
+
+  // A rigid translation moves every mass by one: the lowest base degree of
+  // freedom, or all the stories on a fixed base. The ground acceleration
+  // loads the masses through M times that translation.
+  const rigid = new Float64Array(size);
+  if (foundation) rigid[swayDof] = 1;
+  else if (isolator) rigid[isolationDof] = 1;
+  else for (let i = 0; i < n; i++) rigid[i] = 1;
+  const influence = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) influence[i] += M[at(i, j)] * rigid[j];
+  }
+
+  const displacement = Array.from({ length: n }, () => new Float64Array(steps));
+  const velocity = Array.from({ length: n }, () => new Float64Array(steps));
+  const relativeAcceleration = Array.from({ length: n }, () => new Float64Array(steps));
+  const deformation = Array.from({ length: n }, () => new Float64Array(steps));
+  const sway = new Float64Array(steps);
+  const rocking = new Float64Array(steps);
+  const baseDisplacement = new Float64Array(steps);
+
+  const devices: DeviceHistory[] = [];
+  const isolatorHistory = isolator
+    ? {
+      id: 'isolator',
+      kind: 'isolator' as const,
+      label: isolator.type === 'lead-rubber' ? 'Lead-rubber bearings' : 'Friction pendulums',
+      story: null,
+      displacement: new Float64Array(steps),
+      force: new Float64Array(steps)
+    }
+    : null;
+  if (isolatorHistory) devices.push(isolatorHistory);
+  const damperHistories = dampers
+    ? Array.from({ length: n }, (_, story) => ({
+      id: `damper-${story + 1}`,
+      kind: 'viscous-damper' as const,
+      label: `Viscous dampers, story ${story + 1}`,
+      story,
+      displacement: new Float64Array(steps),
+      force: new Float64Array(steps)
+    }))
+    : [];
+  devices.push(...damperHistories);
+  const tunedMassHistory = tunedMassDamper
+    ? {
+      id: 'tuned-mass-damper',
+      kind: 'tuned-mass-damper' as const,
+      label: 'Tuned mass damper',
+      story: null,
+      displacement: new Float64Array(steps),
+      force: new Float64Array(steps)
+    }
+    : null;
+  if (tunedMassHistory) devices.push(tunedMassHistory);
+
+  const u = new Float64Array(size);
+  const v = new Float64Array(size);
+  const a = new Float64Array(size);
+  const uTrial = new Float64Array(size);
+  const vTrial = new Float64Array(size);
+  const aTrial = new Float64Array(size);
+  const deviceForce = new Float64Array(size);
+  const residual = new Float64Array(size);
+  const L = new Float64Array(size * size);
+
+  // Bearing state at the last converged step
+  const bearing = { displacement: 0, hystereticForce: 0 };
+  let bearingHystereticForce = 0;
+
+  // Device forces at the trial state, with their tangents added to the
+  // effective stiffness in L when requested
+  const assembleDevices = (withTangent: boolean) => {
+    deviceForce.fill(0);
+    if (isolator) {
+      const { force, tangent, hystereticForce } = getIsolatorForce(isolator, uTrial[isolationDof], bearing);
+      deviceForce[isolationDof] += force;
+      bearingHystereticForce = hystereticForce;
+      if (withTangent) L[at(isolationDof, isolationDof)] += tangent;
+    }
+    if (dampers) {
+      for (let story = 0; story < n; story++) {
+        const below = story - 1;
+        const { force, tangent } = getDamperForce(dampers, vTrial[story] - (below >= 0 ? vTrial[below] : 0));
+        deviceForce[story] += force;
+        if (below >= 0) deviceForce[below] -= force;
+        if (withTangent) {
+          // Velocity is a1 times displacement within the step
+          L[at(story, story)] += a1 * tangent;
+          if (below >= 0) {
+            L[at(below, below)] += a1 * tangent;
+            L[at(story, below)] -= a1 * tangent;
+            L[at(below, story)] -= a1 * tangent;
+          }
+        }
+      }
+    }
+  };
+
+  // Cholesky factor of the effective tangent stiffness (lower triangle)
+  const factorize = () => {
+    for (let i = 0; i < size * size; i++) L[i] = K[i] + a1 * C[i] + a0 * M[i];
+    for (let story = 0; story < n; story++) {
+      const below = story - 1;
+      const tangent = springs.tangent[story];
+      L[at(story, story)] += tangent;
+      if (below >= 0) {
+        L[at(below, below)] += tangent;
+        L[at(story, below)] -= tangent;
+        L[at(below, story)] -= tangent;
+      }
+    }
+    assembleDevices(true);
+    for (let j = 0; j < size; j++) {
+      for (let k = 0; k < j; k++) L[at(j, j)] -= L[at(j, k)] * L[at(j, k)];
+      L[at(j, j)] = Math.sqrt(L[at(j, j)]);
+      for (let i = j + 1; i < size; i++) {
+        for (let k = 0; k < j; k++) L[at(i, j)] -= L[at(i, k)] * L[at(j, k)];
+        L[at(i, j)] /= L[at(j, j)];
+      }
+    }
+  };
+
+  // Floor motion relative to the free field
+  const record = (step: number) => {
+    const base = (vector: Float64Array, z: number) =>
+      (isolator ? vector[isolationDof] : 0) + (foundation ? vector[swayDof] + z * vector[rockingDof] : 0);
+    for (let i = 0; i < n; i++) {
+      const z = floorElevations[i];
+      displacement[i][step] = u[i] + base(u, z);
+      velocity[i][step] = v[i] + base(v, z);
+      relativeAcceleration[i][step] = a[i] + base(a, z);
+      deformation[i][step] = u[i];
+    }
+    if (foundation) {
+      sway[step] = u[swayDof];
+      rocking[step] = u[rockingDof];
+    }
+    baseDisplacement[step] = base(u, 0);
+
+    if (isolatorHistory) {
+      isolatorHistory.displacement[step] = u[isolationDof];
+      isolatorHistory.force[step] = deviceForce[isolationDof];
+    }
+    damperHistories.forEach((history, story) => {
+      history.displacement[step] = u[story] - (story > 0 ? u[story - 1] : 0);
+      history.force[step] = dampers ? getDamperForce(dampers, v[story] - (story > 0 ? v[story - 1] : 0)).force : 0;
+    });
+    if (tunedMassHistory && tunedMassDamper) {
+      tunedMassHistory.displacement[step] = u[tunedMassDof];
+      tunedMassHistory.force[step] = tunedMassDamper.stiffness * u[tunedMassDof] +
+        tunedMassDamper.damping * v[tunedMassDof];
+    }
+  };
+
+  // At rest, M a = -M r üg(0) gives a = -r üg(0)
+  for (let i = 0; i < size; i++) a[i] = -rigid[i] * ground[0];
+  record(0);
+
+  if (!nonlinear) factorize();
+
+  for (let step = 1; step < steps; step++) {
+    uTrial.set(u);
+    for (let iteration = 0; ; iteration++) {
+      for (let i = 0; i < size; i++) {
+        const increment = uTrial[i] - u[i];
+        aTrial[i] = a0 * increment - a2 * v[i] - a3 * a[i];
+        vTrial[i] = a1 * increment - a4 * v[i] - a5 * a[i];
+      }
+      springs.evaluate(uTrial);
+      if (nonlinear) factorize();
+      else assembleDevices(false);
+
+      // Out-of-balance force at the trial state
+      for (let i = 0; i < size; i++) {
+        let force = -influence[i] * ground[step] - deviceForce[i];
+        if (i < n) force -= springs.force[i] - (i + 1 < n ? springs.force[i + 1] : 0);
+        for (let j = 0; j < size; j++) {
+          force -= M[at(i, j)] * aTrial[j] + C[at(i, j)] * vTrial[j] + K[at(i, j)] * uTrial[j];
+        }
+        residual[i] = force;
+      }
+
+      // Forward and back substitution
+      for (let i = 0; i < size; i++) {
+        for (let k = 0; k < i; k++) residual[i] -= L[at(i, k)] * residual[k];
+        residual[i] /= L[at(i, i)];
+      }
+      for (let i = size - 1; i >= 0; i--) {
+        for (let k = i + 1; k < size; k++) residual[i] -= L[at(k, i)] * residual[k];
+        residual[i] /= L[at(i, i)];
+      }
+
+      let largestCorrection = 0;
+      for (let i = 0; i < size; i++) {
+        uTrial[i] += residual[i];
+        largestCorrection = Math.max(largestCorrection, Math.abs(residual[i]));
+      }
+      if (!nonlinear || largestCorrection < NEWTON_TOLERANCE || iteration + 1 >= MAX_NEWTON_ITERATIONS) break;
+    }
+
+    // Update velocities and accelerations, and commit the story and device state
+    for (let i = 0; i < size; i++) {
+      const increment = uTrial[i] - u[i];
+      const aNext = a0 * increment - a2 * v[i] - a3 * a[i];
+      v[i] = v[i] + dt * ((1 - NEWMARK_GAMMA) * a[i] + NEWMARK_GAMMA * aNext);
+      a[i] = aNext;
+      u[i] = uTrial[i];
+    }
+    springs.evaluate(u);
+    springs.commit(step);
+    vTrial.set(v);
+    assembleDevices(false);
+    if (isolator) {
+      bearing.displacement = u[isolationDof];
+      bearing.hystereticForce = bearingHystereticForce;
+    }
+    record(step);
+
+    reportProgress(step, displacement);
+  }
+
+  return {
+    displacement,
+    velocity,
+    relativeAcceleration,
+    deformation,
+    stories: springs.histories,
+    ...(foundation ? { sway, rocking } : {}),
+    ...(isolator || foundation ? { baseDisplacement } : {}),
+    devices
+  };
+};
+
+// Largest absolute value of a history
+const getPeakMagnitude = (history: Float64Array) =>
+  history.reduce((peak, value) => Math.max(peak, Math.abs(value)), 0);
+
+// Peak foundation movements; the weight of the building settles it statically
+const summarizeFoundationResponse = (
+  model: ShearBuildingModel,
+  foundation: FoundationModel,
+  sway: Float64Array,
+  rocking: Float64Array
+): NonNullable<StructuralResponse['foundation']> => {
+  const baseSlabMass = model.devices?.isolator?.mass ?? 0;
+  const weight = (model.masses.reduce((sum, mass) => sum + mass, 0) + baseSlabMass + foundation.mass) * GRAVITY;
+  const staticSettlement = weight / foundation.verticalStiffness;
+  const peakSway = getPeakMagnitude(sway);
+  const peakRocking = getPeakMagnitude(rocking);
+  return {
+    sway,
+    rocking,
+    staticSettlement,
+    peaks: {
+      sway: peakSway,
+      rocking: peakRocking,
+      edgeSettlement: staticSettlement + foundation.leverArm * peakRocking
+    }
+  };
+};
+
+/**
+ * Integrates the equations of motion M ü + C u̇ + K u = -M 1 üg with the
+ * Newmark-beta method. Damping is Rayleigh damping anchored at the
+ * fundamental frequency and three times that frequency. Models with a
+ * foundation add its sway and rocking, and isolated models the bearings'
+ * displacement; displacements are then relative to the free-field ground and
+ * drifts come from the story deformations alone. Base shear is carried by
+ * the first story's columns and dampers. Hysteretic stories are iterated to
+ * equilibrium within each step.
+ */
+export function runTimeHistoryAnalysis(
+  model: ShearBuildingModel,
+  groundMotion: GroundMotion,
+  onProgress?: (progress: AnalysisProgress) => void
+): StructuralResponse {
+  const { floors: n, storyStiffness, storyStrength, storyHeights } = model;
+  const { dt, acceleration: ground } = groundMotion;
+  const steps = ground.length;
+
+  let lastReportedStep = -1;
+  const reportProgress: ProgressReporter = (step, displacement) => {
+    if (onProgress && (step % PROGRESS_INTERVAL === 0 || step === steps - 1)) {
+      onProgress({
+        step,
+        steps,
+        time: step * dt,
+        roofDisplacement: Array.from(displacement[n - 1].subarray(lastReportedStep + 1, step + 1))
+      });
+      lastReportedStep = step;
+    }
+  };
+
+  const {
+    displacement,
+    velocity,
+    relativeAcceleration,
+    deformation,
+    stories: storyHistories,
+    sway,
+    rocking,
+    baseDisplacement,
+    devices = []
+  } = model.foundation || model.devices
+    ? integrateCoupled(model, groundMotion, reportProgress)
+    : integrateFixedBase(model, groundMotion, reportProgress);
+
+  // Derived histories
+  const acceleration = relativeAcceleration.map(history =>
+    history.map((value, step) => value + ground[step])
+  );
+  const drift = Array.from({ length: n }, (_, story) => {
+    const history = new Float64Array(steps);
+    for (let step = 0; step < steps; step++) {
+      const below = story > 0 ? deformation[story - 1][step] : 0;
+      history[step] = (deformation[story][step] - below) / storyHeights[story];
+    }
+    return history;
+  });
+  const firstStoryDamper = devices.find(device => device.kind === 'viscous-damper' && device.story === 0);
+  const baseShear = new Float64Array(steps);
+  for (let step = 0; step < steps; step++) {
+    baseShear[step] = storyHistories[0].shear[step] + (firstStoryDamper?.force[step] ?? 0);
+  }
+
+  // Peaks and collapse detection
+  const runningPeakDrift = new Float64Array(steps);
+  const runningPeakRoofDisplacement = new Float64Array(steps);
+  let peakDrift = 0;
+  let peakRoof = 0;
+  let criticalStory = 0;
+  let peakBaseShear = 0;
+  let peakFloorAcceleration = 0;
+  let collapseTime: number | null = null;
+
+  for (let step = 0; step < steps; step++) {
+    for (let story = 0; story < n; story++) {
+      const value = Math.abs(drift[story][step]);
+      if (value > peakDrift) {
+        peakDrift = value;
+        criticalStory = story;
+      }
+      peakFloorAcceleration = Math.max(peakFloorAcceleration, Math.abs(acceleration[story][step]));
+    }
+    peakRoof = Math.max(peakRoof, Math.abs(displacement[n - 1][step]));
+    peakBaseShear = Math.max(peakBaseShear, Math.abs(baseShear[step]));
+    runningPeakDrift[step] = peakDrift;
+    runningPeakRoofDisplacement[step] = peakRoof;
+
+    if (collapseTime === null && peakDrift >= model.collapseDriftRatio) {
+      collapseTime = step * dt;
+    }
+  }
+
+  return {
+    model,
+    groundMotion,
+    dt,
+    steps,
+    displacement,
+    velocity,
+    acceleration,
+    drift,
+    baseShear,
+    runningPeakDrift,
+    runningPeakRoofDisplacement,
+    peaks: {
+      roofDisplacement: peakRoof,
+      interStoryDriftRatio: peakDrift,
+      criticalStory,
+      baseShear: peakBaseShear,
+      floorAcceleration: peakFloorAcceleration
+    },
+    collapseTime,
+    stories: storyHistories.map((history, story) => {
+      const yieldDriftRatio = storyStrength[story] / (storyStiffness[story] * storyHeights[story]);
+      return {
+        ...history,
+        yieldShear: storyStrength[story],
+        yieldDriftRatio,
+        peaks: {
+          ductility: getPeakMagnitude(drift[story]) / yieldDriftRatio,
+          residualDrift: Math.abs(history.residualDrift[steps - 1] ?? 0),
+          dissipatedEnergy: history.dissipatedEnergy[steps - 1] ?? 0
+        }
+      };
+    }),
+    foundation: model.foundation && sway && rocking
+      ? summarizeFoundationResponse(model, model.foundation, sway, rocking)
+      : null,
+    baseDisplacement: baseDisplacement ?? null,
+    devices: devices.map(device => ({
+      ...device,
+      peaks: { displacement: getPeakMagnitude(device.displacement), force: getPeakMagnitude(device.force) }
+    }))
+  };
+}
+
+// Recent analyses, so every component showing the same scenario shares one solve
+const responseCache = new Map<string, StructuralResponse>();
+const RESPONSE_CACHE_SIZE = 8;
+
+// Imported records are identified by id rather than serialized sample by sample
+const getResponseCacheKey = (
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams
+) => JSON.stringify([
+  buildingParams,
+  { ...seismicParams, groundMotionRecord: seismicParams.groundMotionRecord?.id },
+  materialsParams
+]);
+
+/**
+ * Analysis already computed for a scenario, if any
+ */
+export function getCachedResponse(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams
+): StructuralResponse | undefined {
+  return responseCache.get(getResponseCacheKey(buildingParams, seismicParams, materialsParams));
+}
+
+/**
+ * Stores an analysis computed elsewhere (e.g. in a worker) for a scenario
+ */
+export function cacheResponse(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams,
+  response: StructuralResponse
+): void {
+  responseCache.set(getResponseCacheKey(buildingParams, seismicParams, materialsParams), response);
+  if (responseCache.size > RESPONSE_CACHE_SIZE) {
+    const oldestKey = responseCache.keys().next().value;
+    if (oldestKey !== undefined) responseCache.delete(oldestKey);
+  }
+}
+
+/**
+ * Runs (or reuses) the time-history analysis for a scenario
+ */
+export function analyzeStructure(
+  buildingParams: BuildingParams,
+  seismicParams: SeismicParams,
+  materialsParams: StructuralMaterialsParams = defaultMaterialsParams,
+  onProgress?: (progress: AnalysisProgress) => void
+): StructuralResponse {
+  const cached = getCachedResponse(buildingParams, seismicParams, materialsParams);
+  if (cached) return cached;
+
+  const model = buildShearBuildingModel(buildingParams, materialsParams, seismicParams.site);
+  const response = runTimeHistoryAnalysis(model, getGroundMotion(seismicParams), onProgress);
+  cacheResponse(buildingParams, seismicParams, materialsParams, response);
+  return response;
+}
+
+// Fractional step index for a time, clamped to the record
+const getStepPosition = (response: StructuralResponse, time: number) => {
+  const position = Math.max(0, Math.min(time / response.dt, response.steps - 1));
+  const index = Math.floor(position);
+  return { index, next: Math.min(index + 1, response.steps - 1), fraction: position - index };
+};
+
+/**
+ * Samples one history at an arbitrary time with linear interpolation
+ */
+export function sampleHistory(response: StructuralResponse, history: Float64Array, time: number): number {
+  const { index, next, fraction } = getStepPosition(response, time);
+  return history[index] + (history[next] - history[index]) * fraction;
+}
+
+/**
+ * Floor displacements relative to the ground at a given time (m)
+ */
+export function getFloorDisplacementsAt(response: StructuralResponse, time: number): number[] {
+  return response.displacement.map(history => sampleHistory(response, history, time));
+}
+
+/**
+ * Displacement of the ground floor relative to the ground at a given time
+ * (m): the bearings' and foundation's movement, zero on a fixed base
+ */
+export function getBaseDisplacementAt(response: StructuralResponse, time: number): number {
+  return response.baseDisplacement ? sampleHistory(response, response.baseDisplacement, time) : 0;
+}
+
+/**
+ * Index of the last analysis step at or before a given time
+ */
+export function getStepIndex(response: StructuralResponse, time: number): number {
+  return getStepPosition(response, time).index;
+}
+
+/**
+ * Peak response reached up to a given time
+ */
+export function getPeakResponseUntil(response: StructuralResponse, time: number) {
+  const index = getStepIndex(response, time);
+  return {
+    roofDisplacement: response.runningPeakRoofDisplacement[index],
+    interStoryDriftRatio: response.runningPeakDrift[index]
+  };
+}
+
+/**
+ * Whether the building has collapsed by the given time
+ */
+export function hasCollapsedAt(response: StructuralResponse, time: number): boolean {
+  return response.collapseTime !== null && time >= response.collapseTime;
+}
+
+/**
+ * Peak foundation movements reached up to a given time, or null on a fixed base
+ */
+export function getFoundationPeaksUntil(response: StructuralResponse, time: number) {
+  const { foundation, model } = response;
+  if (!foundation || !model.foundation) return null;
+  const index = getStepIndex(response, time);
+  let sway = 0;
+  let rocking = 0;
+  for (let step = 0; step <= index; step++) {
+    sway = Math.max(sway, Math.abs(foundation.sway[step]));
+    rocking = Math.max(rocking, Math.abs(foundation.rocking[step]));
+  }
+  return {
+    sway,
+    rocking,
+    edgeSettlement: foundation.staticSettlement + model.foundation.leverArm * rocking
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * React binding for the simulation runner
+ */
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  SimulationRunner,
+  SimulationRunnerOptions,
+  SimulationRunnerState,
+  createSimulationRunner
+} from './simulationRunner';
+
+/**
+ * Keeps one simulation runner for the lifetime of a component and re-renders
+ * it whenever the runner publishes a new time
+ */
+export function useSimulationRunner(
+  options: Omit<SimulationRunnerOptions, 'onStep'>
+): [SimulationRunnerState, SimulationRunner] {
+  const [runner] = useState(() => createSimulationRunner(options));
+
+  // Follow duration changes, e.g. when a new scenario is loaded
+  useEffect(() => {
+    runner.setDuration(options.duration);
+  }, [runner, options.duration]);
+
+  // Stop the clock when the component goes away
+  useEffect(() => () => runner.pause(), [runner]);
+
+  const state = useSyncExternalStore(runner.subscribe, runner.getState, runner.getState);
+  return [state, runner];
+}